@@ -73,6 +73,12 @@ interface KuraSearchResponse {
   query: string;
 }
 
+interface KuraRelatedResponse {
+  id: string;
+  results: KuraSearchResult[];
+  totalResults: number;
+}
+
 interface KuraCaptureResponse {
   success: boolean;
   id: string;
@@ -86,6 +92,8 @@ interface KuraContentMetadata {
   annotation: string | null;
   tags: string[];
   source: string | null;
+  remind_at?: string | null;
+  due_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -212,7 +220,7 @@ function createMCPServer(connectionId: string): Server {
               },
               tags: {
                 type: 'string',
-                description: 'Filter by tags (comma-separated)',
+                description: 'Filter by tags (comma-separated); a tag also matches the tags nested in it (project/kura matches project/kura/api)',
               },
               dateFrom: {
                 type: 'string',
@@ -226,6 +234,26 @@ function createMCPServer(connectionId: string): Server {
             required: ['query'],
           },
         },
+        {
+          name: 'kura_related',
+          description:
+            'Find notes similar to a given note, based on its stored embedding. Returns related notes with relevance scores (the note itself is excluded).',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'The unique ID of the note to find related notes for',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of results (default: 10, max: 50)',
+                default: 10,
+              },
+            },
+            required: ['id'],
+          },
+        },
         {
           name: 'kura_create',
           description:
@@ -249,7 +277,7 @@ function createMCPServer(connectionId: string): Server {
                 type: 'array',
                 items: { type: 'string' },
                 description:
-                  'Optional tags (alphanumeric with dashes/underscores, max 50 chars each)',
+                  'Optional tags (alphanumeric with dashes/underscores, / between nested levels like project/kura, max 50 chars each)',
               },
             },
             required: ['content'],
@@ -282,7 +310,7 @@ function createMCPServer(connectionId: string): Server {
         {
           name: 'kura_delete',
           description:
-            'Delete a note by ID. This action is permanent and cannot be undone.',
+            'Move a note to the trash by ID. Trashed notes can be restored until the trash is purged.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -297,7 +325,7 @@ function createMCPServer(connectionId: string): Server {
         {
           name: 'kura_update',
           description:
-            'Update a note\'s metadata (title, annotation, tags). Cannot update content itself.',
+            'Update a note\'s metadata (title, annotation, tags) and, for text notes, its text. Pass `content` to replace the text or `edits` to change parts of it.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -318,6 +346,22 @@ function createMCPServer(connectionId: string): Server {
                 items: { type: 'string' },
                 description: 'New tags array (replaces existing tags, max 20 tags)',
               },
+              content: {
+                type: 'string',
+                description: 'New text of the note (replaces the whole text, text notes only)',
+              },
+              edits: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    find: { type: 'string', description: 'Exact text to replace (must occur exactly once)' },
+                    replace: { type: 'string', description: 'Replacement text' },
+                  },
+                  required: ['find', 'replace'],
+                },
+                description: 'Find/replace edits applied to the text of the note in order (text notes only)',
+              },
             },
             required: ['id'],
           },
@@ -342,6 +386,29 @@ function createMCPServer(connectionId: string): Server {
             },
           },
         },
+        {
+          name: 'kura_set_reminder',
+          description:
+            'Set or clear the reminder and due date of a note. Times are ISO 8601 (e.g. "2026-03-01T09:00:00Z"); pass null to clear one.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'The unique ID of the note',
+              },
+              remindAt: {
+                type: ['string', 'null'],
+                description: 'When to be reminded (ISO 8601), or null to clear the reminder',
+              },
+              dueAt: {
+                type: ['string', 'null'],
+                description: 'When the note is due (ISO 8601), or null to clear the due date',
+              },
+            },
+            required: ['id'],
+          },
+        },
       ],
     };
   });
@@ -422,6 +489,44 @@ function createMCPServer(connectionId: string): Server {
           };
         }
 
+        case 'kura_related': {
+          const { id, limit = 10 } = args as { id: string; limit?: number };
+
+          if (!id) {
+            throw new Error('Note ID is required');
+          }
+
+          const params = new URLSearchParams({ limit: String(limit) });
+          const response = await callKuraAPI(`/api/content/${id}/related?${params}`, user);
+
+          if (!response.ok) {
+            if (response.status === 404) {
+              throw new Error(`Note not found: ${id}`);
+            }
+            const error = await response.text();
+            throw new Error(`Related failed: ${response.status} - ${error}`);
+          }
+
+          const data = (await response.json()) as KuraRelatedResponse;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    id: data.id,
+                    results: data.results,
+                    totalResults: data.totalResults,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
         case 'kura_create': {
           const { content, title, annotation, tags } = args as {
             content: string;
@@ -587,17 +692,42 @@ function createMCPServer(connectionId: string): Server {
         }
 
         case 'kura_update': {
-          const { id, title, annotation, tags } = args as {
+          const { id, title, annotation, tags, content, edits } = args as {
             id: string;
             title?: string;
             annotation?: string;
             tags?: string[];
+            content?: string;
+            edits?: Array<{ find: string; replace: string }>;
           };
 
           if (!id) {
             throw new Error('Note ID is required');
           }
 
+          if (content !== undefined && edits !== undefined) {
+            throw new Error('Provide either content or edits, not both');
+          }
+
+          // Update the note text first (rewrites the stored file and re-embeds the note)
+          let bodyUpdated = false;
+          if (content !== undefined || edits !== undefined) {
+            const bodyResponse = await callKuraAPI(`/api/content/${id}/body`, user, {
+              method: 'PUT',
+              body: JSON.stringify(content !== undefined ? { content } : { edits }),
+            });
+
+            if (!bodyResponse.ok) {
+              if (bodyResponse.status === 404) {
+                throw new Error(`Note not found: ${id}`);
+              }
+              const error = await bodyResponse.text();
+              throw new Error(`Update failed: ${bodyResponse.status} - ${error}`);
+            }
+
+            bodyUpdated = true;
+          }
+
           // Build update payload with only provided fields
           const updatePayload: {
             title?: string;
@@ -636,6 +766,7 @@ function createMCPServer(connectionId: string): Server {
                   {
                     success: true,
                     content: data.content,
+                    bodyUpdated,
                     message: data.message,
                   },
                   null,
@@ -687,6 +818,56 @@ function createMCPServer(connectionId: string): Server {
           };
         }
 
+        case 'kura_set_reminder': {
+          const { id, remindAt, dueAt } = args as {
+            id: string;
+            remindAt?: string | null;
+            dueAt?: string | null;
+          };
+
+          if (!id) {
+            throw new Error('Note ID is required');
+          }
+
+          if (remindAt === undefined && dueAt === undefined) {
+            throw new Error('Provide remindAt, dueAt or both');
+          }
+
+          const response = await callKuraAPI(`/api/content/${id}`, user, {
+            method: 'PATCH',
+            body: JSON.stringify({ remindAt, dueAt }),
+          });
+
+          if (!response.ok) {
+            if (response.status === 404) {
+              throw new Error(`Note not found: ${id}`);
+            }
+            const error = await response.text();
+            throw new Error(`Setting reminder failed: ${response.status} - ${error}`);
+          }
+
+          const data = (await response.json()) as KuraUpdateResponse;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    id,
+                    title: data.content.title,
+                    remind_at: data.content.remind_at ?? null,
+                    due_at: data.content.due_at ?? null,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
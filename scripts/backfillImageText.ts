@@ -0,0 +1,142 @@
+#!/usr/bin/env tsx
+/**
+ * KURA Notes - Image Text Backfill Script
+ *
+ * Runs text extraction (OCR) over images captured before an image text
+ * provider was configured, and queues them for re-embedding
+ * Usage: npm run backfill-image-text -- [--user <id>] [--limit 100] [--force]
+ */
+
+import { config } from '../src/config/config.js';
+import { logger } from '../src/utils/logger.js';
+import { DatabaseService } from '../src/services/database/database.service.js';
+import { getFileStorageService } from '../src/services/fileStorage.js';
+import { getImageTextService } from '../src/services/imageTextService.js';
+import { getEmbeddingService } from '../src/services/embeddingService.js';
+import { EmbeddingPipelineService } from '../src/services/embeddingPipeline.js';
+import { getVectorStore } from '../src/services/vectorStore.js';
+
+const USAGE = 'npm run backfill-image-text -- [--user <id>] [--limit 100] [--force]';
+
+interface BackfillOptions {
+  userId?: string;
+  limit?: number;
+  force: boolean; // Also re-read images that were already run through text extraction
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): BackfillOptions {
+  const options: BackfillOptions = { force: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    if (arg === '--user') {
+      if (!value) {
+        throw new Error('--user requires a value');
+      }
+      options.userId = value;
+      i++;
+    } else if (arg === '--limit') {
+      const limit = parseInt(value || '', 10);
+      if (isNaN(limit) || limit < 1) {
+        throw new Error('--limit must be a positive integer');
+      }
+      options.limit = limit;
+      i++;
+    } else if (arg === '--force') {
+      options.force = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  console.log('🚀 KURA Notes - Image Text Backfill\n');
+
+  let options: BackfillOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : 'Invalid arguments'}`);
+    console.error(`   Usage: ${USAGE}\n`);
+    process.exit(1);
+  }
+
+  try {
+    // Initialize services
+    console.log('⚙️  Initializing services...');
+    const db = DatabaseService.getInstance(config.databaseUrl);
+    const imageTextService = getImageTextService();
+    if (!imageTextService.isAvailable()) {
+      console.error('❌ No image text provider configured. Set IMAGE_TEXT_PROVIDER first.');
+      process.exit(1);
+    }
+    const fileStorage = getFileStorageService(
+      { baseDirectory: config.storageBasePath, logger },
+      db,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      imageTextService
+    );
+    const embeddingPipeline = new EmbeddingPipelineService(getEmbeddingService(), getVectorStore(), db);
+    console.log('✅ Services initialized\n');
+
+    // Find images that were never run through text extraction
+    const userFilter = options.userId ? ' AND user_id = ?' : '';
+    const images = (
+      db.raw(
+        `SELECT id, user_id, image_metadata FROM content WHERE content_type = 'image' AND deleted_at IS NULL${userFilter} ORDER BY created_at`,
+        options.userId ? [options.userId] : []
+      ) as Array<{ id: string; user_id: string | null; image_metadata: string | null }>
+    )
+      .filter((image) => options.force || !JSON.parse(image.image_metadata || '{}').textRecognized)
+      .slice(0, options.limit);
+
+    console.log(`📊 ${images.length} image(s) to process\n`);
+
+    let withText = 0;
+    let withoutText = 0;
+    let failed = 0;
+
+    for (const image of images) {
+      const result = await fileStorage.recognizeStoredImage(image.id);
+      if (!result.success) {
+        failed++;
+        console.error(`❌ ${image.id}: ${result.error}`);
+        continue;
+      }
+
+      if (result.textFound) {
+        withText++;
+        embeddingPipeline.queueEmbedding(image.id, image.user_id);
+      } else {
+        withoutText++;
+      }
+      console.log(`   Processed ${withText + withoutText + failed}/${images.length} images...`);
+    }
+
+    console.log('\n✅ Backfill finished');
+    console.log(`   With text:    ${withText} (queued for re-embedding)`);
+    console.log(`   Without text: ${withoutText}`);
+    console.log(`   Failed:       ${failed}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(`\n❌ Backfill failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * KURA Notes - Thumbnail Backfill Script
+ *
+ * Regenerates the thumbnails of images and PDF previews that were made with a
+ * different thumbnail configuration (THUMBNAIL_SIZES, THUMBNAIL_FORMAT, THUMBNAIL_QUALITY),
+ * and renders previews of PDFs captured before PDF previews existed
+ * Usage: npm run backfill-thumbnails -- [--user <id>] [--limit 100] [--force]
+ */
+
+import { config } from '../src/config/config.js';
+import { logger } from '../src/utils/logger.js';
+import { DatabaseService } from '../src/services/database/database.service.js';
+import { getFileStorageService } from '../src/services/fileStorage.js';
+import { getThumbnailService } from '../src/services/thumbnailService.js';
+import { PdfService } from '../src/services/pdfService.js';
+
+const USAGE = 'npm run backfill-thumbnails -- [--user <id>] [--limit 100] [--force]';
+
+interface BackfillOptions {
+  userId?: string;
+  limit?: number;
+  force: boolean; // Also regenerate thumbnails that match the current configuration
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): BackfillOptions {
+  const options: BackfillOptions = { force: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    if (arg === '--user') {
+      if (!value) {
+        throw new Error('--user requires a value');
+      }
+      options.userId = value;
+      i++;
+    } else if (arg === '--limit') {
+      const limit = parseInt(value || '', 10);
+      if (isNaN(limit) || limit < 1) {
+        throw new Error('--limit must be a positive integer');
+      }
+      options.limit = limit;
+      i++;
+    } else if (arg === '--force') {
+      options.force = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  console.log('🚀 KURA Notes - Thumbnail Backfill\n');
+
+  let options: BackfillOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : 'Invalid arguments'}`);
+    console.error(`   Usage: ${USAGE}\n`);
+    process.exit(1);
+  }
+
+  try {
+    // Initialize services (same thumbnail configuration as the server)
+    console.log('⚙️  Initializing services...');
+    const db = DatabaseService.getInstance(config.databaseUrl);
+    const [thumbnailSize, ...thumbnailVariantSizes] = config.thumbnailSizes;
+    const thumbnailService = getThumbnailService({
+      baseDirectory: config.storageBasePath,
+      thumbnailDirectory: 'thumbnails',
+      maxWidth: thumbnailSize!,
+      maxHeight: thumbnailSize!,
+      quality: config.thumbnailQuality,
+      format: config.thumbnailFormat,
+      variantSizes: thumbnailVariantSizes,
+    });
+    const fileStorage = getFileStorageService(
+      { baseDirectory: config.storageBasePath, logger },
+      db,
+      thumbnailService,
+      PdfService.getInstance()
+    );
+    const signature = thumbnailService.getSignature();
+    console.log(`✅ Services initialized (thumbnail configuration: ${signature})\n`);
+
+    // Find images and PDFs whose thumbnails were made with another configuration (or never)
+    const userFilter = options.userId ? ' AND user_id = ?' : '';
+    const items = (
+      db.raw(
+        `SELECT id, content_type, image_metadata, pdf_metadata FROM content WHERE content_type IN ('image', 'pdf') AND deleted_at IS NULL${userFilter} ORDER BY created_at`,
+        options.userId ? [options.userId] : []
+      ) as Array<{ id: string; content_type: string; image_metadata: string | null; pdf_metadata: string | null }>
+    )
+      .filter((item) => {
+        const metadata = item.content_type === 'pdf' ? item.pdf_metadata : item.image_metadata;
+        return options.force || JSON.parse(metadata || '{}').thumbnailSignature !== signature;
+      })
+      .slice(0, options.limit);
+
+    console.log(`📊 ${items.length} image(s) and PDF(s) to process\n`);
+
+    let regenerated = 0;
+    let failed = 0;
+
+    for (const item of items) {
+      const result = await fileStorage.regenerateThumbnails(item.id);
+      if (!result.success) {
+        failed++;
+        console.error(`❌ ${item.id} (${item.content_type}): ${result.error}`);
+        continue;
+      }
+
+      regenerated++;
+      console.log(`   Processed ${regenerated + failed}/${items.length} items...`);
+    }
+
+    console.log('\n✅ Backfill finished');
+    console.log(`   Regenerated: ${regenerated}`);
+    console.log(`   Failed:      ${failed}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(`\n❌ Backfill failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
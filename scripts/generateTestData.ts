@@ -9,6 +9,7 @@
 import { config } from '../src/config/config.js';
 import { DatabaseService } from '../src/services/database/database.service.js';
 import { EmbeddingPipelineService } from '../src/services/embeddingPipeline.js';
+import { EmbeddingQueueService } from '../src/services/embeddingQueue.js';
 import { EmbeddingService } from '../src/services/embeddingService.js';
 import { VectorStoreService } from '../src/services/vectorStore.js';
 import { logger } from '../src/utils/logger.js';
@@ -246,15 +247,8 @@ async function generateContentItem(
     extracted_text: extractedText || undefined,
   });
 
-  // Generate embedding asynchronously
-  await pipeline.processContentAsync({
-    contentId: id,
-    contentType,
-    content,
-    annotation,
-    title,
-    tags,
-  });
+  // Queue embedding generation
+  pipeline.queueEmbedding(id, null);
 
   // Progress indicator
   if ((index + 1) % 50 === 0 || index + 1 === total) {
@@ -317,9 +311,9 @@ async function main() {
     console.log(`\n✅ Successfully generated ${count} test content items in ${duration}s`);
     console.log(`   Average: ${(parseFloat(duration) / count).toFixed(3)}s per item`);
 
-    // Wait a bit for embeddings to process
-    console.log('\n⏳ Waiting 5 seconds for embeddings to process...');
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    // Process the queued embedding jobs
+    console.log('\n⏳ Processing embedding jobs...');
+    await EmbeddingQueueService.getInstance(db, pipeline).drain();
 
     // Verify data
     console.log('\n📊 Verification:');
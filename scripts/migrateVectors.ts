@@ -0,0 +1,146 @@
+#!/usr/bin/env tsx
+/**
+ * KURA Notes - Vector Migration Script
+ *
+ * Copies all stored embeddings from one vector store backend to another
+ * (ChromaDB <-> SQLite) without regenerating them
+ * Usage: npm run migrate-vectors -- --from chroma --to sqlite [--batch-size 100]
+ */
+
+import { config } from '../src/config/config.js';
+import { DatabaseService } from '../src/services/database/database.service.js';
+import { getVectorStore, VectorStoreBackend } from '../src/services/vectorStore.js';
+
+const BACKENDS: VectorStoreBackend[] = ['chroma', 'sqlite'];
+
+interface MigrationOptions {
+  from: VectorStoreBackend;
+  to: VectorStoreBackend;
+  batchSize: number;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): MigrationOptions {
+  const options: Partial<MigrationOptions> = { batchSize: 100 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    if (arg === '--from' || arg === '--to') {
+      if (!value || !BACKENDS.includes(value as VectorStoreBackend)) {
+        throw new Error(`${arg} must be one of: ${BACKENDS.join(', ')}`);
+      }
+      options[arg === '--from' ? 'from' : 'to'] = value as VectorStoreBackend;
+      i++;
+    } else if (arg === '--batch-size') {
+      const batchSize = parseInt(value || '', 10);
+      if (isNaN(batchSize) || batchSize < 1) {
+        throw new Error('--batch-size must be a positive integer');
+      }
+      options.batchSize = batchSize;
+      i++;
+    }
+  }
+
+  if (!options.from || !options.to) {
+    throw new Error('Both --from and --to are required');
+  }
+  if (options.from === options.to) {
+    throw new Error('--from and --to must be different backends');
+  }
+
+  return options as MigrationOptions;
+}
+
+async function main() {
+  console.log('🚀 KURA Notes - Vector Migration\n');
+
+  let options: MigrationOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : 'Invalid arguments'}`);
+    console.error('   Usage: npm run migrate-vectors -- --from chroma --to sqlite [--batch-size 100]\n');
+    process.exit(1);
+  }
+
+  try {
+    // Initialize services
+    console.log('⚙️  Initializing services...');
+    DatabaseService.getInstance(config.databaseUrl);
+    const source = getVectorStore(options.from);
+    const target = getVectorStore(options.to);
+
+    for (const [name, store] of [
+      ['source', source],
+      ['target', target],
+    ] as const) {
+      if (!(await store.healthCheck())) {
+        console.error(`❌ The ${name} vector store (${store.backend}) is not healthy.`);
+        process.exit(1);
+      }
+    }
+
+    const sourceStats = await source.getStats();
+    const targetBefore = await target.getStats();
+    console.log(`✅ Services initialized\n`);
+    console.log(`📊 ${options.from}: ${sourceStats.count} vectors`);
+    console.log(`📊 ${options.to}: ${targetBefore.count} vectors (before migration)\n`);
+
+    // Copy vectors batch by batch
+    let offset = 0;
+    let migrated = 0;
+    let failed = 0;
+    let dimensions: number | null = null;
+
+    while (true) {
+      const batch = await source.listDocuments(offset, options.batchSize);
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const document of batch) {
+        try {
+          if (dimensions !== null && document.embedding.length !== dimensions) {
+            console.warn(
+              `⚠️  ${document.id} has ${document.embedding.length} dimensions (expected ${dimensions})`
+            );
+          }
+          dimensions = dimensions ?? document.embedding.length;
+
+          await target.addDocument(document.id, document.embedding, document.metadata, document.text);
+          migrated++;
+        } catch (error) {
+          failed++;
+          console.error(
+            `❌ Failed to migrate ${document.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      offset += batch.length;
+      console.log(`   Migrated ${migrated}/${sourceStats.count} vectors...`);
+    }
+
+    const targetAfter = await target.getStats();
+
+    console.log('\n✅ Migration finished');
+    console.log(`   Migrated: ${migrated}`);
+    console.log(`   Failed:   ${failed}`);
+    console.log(`   ${options.to}: ${targetAfter.count} vectors (after migration)`);
+    console.log(`\n   Set VECTOR_STORE_BACKEND=${options.to} to use the migrated vectors.\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(`\n❌ Migration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
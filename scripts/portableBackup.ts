@@ -0,0 +1,154 @@
+#!/usr/bin/env tsx
+/**
+ * KURA Notes - Portable Backup Script
+ *
+ * Creates, verifies and restores portable backup archives (database rows,
+ * files, thumbnails and vectors) without going through the API
+ * Usage:
+ *   npm run portable-backup -- create --out backup.zip [--user <id>]
+ *   npm run portable-backup -- verify backup.zip
+ *   npm run portable-backup -- restore backup.zip [--user <id>] [--dry-run]
+ */
+
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { config } from '../src/config/config.js';
+import { logger } from '../src/utils/logger.js';
+import { DatabaseService } from '../src/services/database/database.service.js';
+import { getFileStorageService } from '../src/services/fileStorage.js';
+import { getEmbeddingService } from '../src/services/embeddingService.js';
+import { EmbeddingPipelineService } from '../src/services/embeddingPipeline.js';
+import { getVectorStore } from '../src/services/vectorStore.js';
+import { getBackupService } from '../src/services/backupService.js';
+
+const USAGE = [
+  'npm run portable-backup -- create --out backup.zip [--user <id>]',
+  'npm run portable-backup -- verify backup.zip',
+  'npm run portable-backup -- restore backup.zip [--user <id>] [--dry-run]',
+];
+
+interface BackupOptions {
+  command: 'create' | 'verify' | 'restore';
+  file: string;
+  userId?: string;
+  dryRun: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): BackupOptions {
+  const [command, ...rest] = argv;
+  if (command !== 'create' && command !== 'verify' && command !== 'restore') {
+    throw new Error('Command must be one of: create, verify, restore');
+  }
+
+  const options: Partial<BackupOptions> = { command, dryRun: command === 'verify' };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const value = rest[i + 1];
+
+    if (arg === '--out' || arg === '--user') {
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      options[arg === '--out' ? 'file' : 'userId'] = value;
+      i++;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg && !arg.startsWith('--') && command !== 'create') {
+      options.file = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!options.file) {
+    throw new Error(command === 'create' ? '--out is required' : 'A backup file is required');
+  }
+  if (command !== 'create' && !fs.existsSync(options.file)) {
+    throw new Error(`Backup file not found: ${options.file}`);
+  }
+
+  return options as BackupOptions;
+}
+
+async function main() {
+  console.log('🚀 KURA Notes - Portable Backup\n');
+
+  let options: BackupOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : 'Invalid arguments'}`);
+    console.error(`   Usage: ${USAGE.join('\n          ')}\n`);
+    process.exit(1);
+  }
+
+  try {
+    // Initialize services
+    console.log('⚙️  Initializing services...');
+    const db = DatabaseService.getInstance(config.databaseUrl);
+    const fileStorage = getFileStorageService({ baseDirectory: config.storageBasePath, logger }, db);
+    const vectorStore = getVectorStore();
+    const embeddingPipeline = new EmbeddingPipelineService(getEmbeddingService(), vectorStore, db);
+    const backupService = getBackupService(db, fileStorage, vectorStore, embeddingPipeline);
+    console.log('✅ Services initialized\n');
+
+    if (options.command === 'create') {
+      const { archive, manifest } = await backupService.createBackup(options.userId);
+      const output = pipeline(archive, fs.createWriteStream(options.file));
+      await archive.finalize();
+      await output;
+
+      console.log(`✅ Backup written to ${options.file}`);
+      console.log(`   Scope:    ${manifest.scope}${manifest.user_id ? ` (${manifest.user_id})` : ''}`);
+      console.log(`   Content:  ${manifest.counts.content}`);
+      console.log(`   Versions: ${manifest.counts.versions}`);
+      console.log(`   Files:    ${manifest.counts.files}`);
+      console.log(`   Vectors:  ${manifest.counts.vectors}${manifest.vectors_included ? '' : ' (vector store unavailable)'}`);
+      for (const missing of manifest.missing_files) {
+        console.warn(`⚠️  Missing file not included: ${missing}`);
+      }
+      process.exit(0);
+    }
+
+    const result = await backupService.restoreBackup(options.file, {
+      userId: options.userId,
+      dryRun: options.dryRun,
+    });
+
+    if (!result.success || !result.report) {
+      console.error(`❌ ${result.error}`);
+      process.exit(1);
+    }
+
+    const { report } = result;
+    console.log(report.dryRun ? '✅ Backup verified (nothing restored)' : '✅ Backup restored');
+    console.log(`   Scope:    ${report.scope}`);
+    console.log(`   Content:  ${report.counts.content}`);
+    console.log(`   Versions: ${report.counts.versions}`);
+    console.log(`   Files:    ${report.counts.files}`);
+    console.log(`   Vectors:  ${report.counts.vectors}`);
+    if (!report.dryRun) {
+      console.log(`   Queued for embedding: ${report.queued_embeddings}`);
+    }
+    if (report.missing_files.length > 0) {
+      console.warn(`⚠️  ${report.missing_files.length} item(s) restored without their files (missing from the backup)`);
+    }
+    for (const problem of report.problems) {
+      console.error(`❌ ${problem}`);
+    }
+
+    process.exit(report.verified ? 0 : 1);
+  } catch (error) {
+    console.error(`\n❌ Backup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -10,6 +10,7 @@
 
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { logger } from '../../utils/logger.js';
+import { config } from '../../config/index.js';
 import { ApiErrors } from '../types/errors.js';
 import { validateApiKey } from '../../lib/koauth-client.js';
 import { refreshOAuthToken } from '../routes/oauth.js';
@@ -90,6 +91,12 @@ export async function authMiddleware(
     return;
   }
 
+  // Skip authentication for calendar feeds
+  // Calendar apps can't log in; the secret token in the URL identifies the user
+  if (urlPath.startsWith('/api/calendar/')) {
+    return;
+  }
+
   // Skip authentication for MCP message endpoint (used by SSE transport)
   // This endpoint proxies to the MCP server and handles its own authentication
   if (urlPath === '/message' || urlPath === '/mcp/message') {
@@ -303,6 +310,23 @@ export function getAuthenticatedUser(request: FastifyRequest): { id: string; ema
   throw ApiErrors.unauthorized('Authentication required');
 }
 
+/**
+ * Get authenticated user from request and require them to be an administrator
+ * Administrators are listed by email in ADMIN_EMAILS
+ * @throws ApiError if user is not authenticated or not an administrator
+ */
+export function requireAdmin(request: FastifyRequest): { id: string; email: string; sessionId?: string } {
+  const user = getAuthenticatedUser(request);
+  const email = (user.email || '').trim().toLowerCase();
+
+  if (!email || !(config.adminEmails ?? []).includes(email)) {
+    logger.warn('Administrator access denied', { userId: user.id, url: request.url });
+    throw ApiErrors.forbidden('Administrator access required');
+  }
+
+  return user;
+}
+
 /**
  * Get optional authenticated user from request
  * Returns null if not authenticated (for endpoints that work with/without auth)
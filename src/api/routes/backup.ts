@@ -0,0 +1,167 @@
+/**
+ * KURA Notes - Backup Routes
+ *
+ * Endpoints for portable backups:
+ * - GET /api/backup - Stream a backup of the user's library (or the whole instance)
+ * - POST /api/backup/restore - Verify and restore a backup archive
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { BackupService, BackupScope } from '../../services/backupService.js';
+import { ApiErrors } from '../types/errors.js';
+import { getAuthenticatedUser, requireAdmin } from '../middleware/auth.js';
+
+/**
+ * Backup query parameters
+ */
+interface BackupQuery {
+  scope?: string; // 'user' (default) or 'instance' (administrators only)
+}
+
+/**
+ * Restore query parameters
+ */
+interface RestoreQuery {
+  dryRun?: string; // 'true' to only verify the archive
+}
+
+/**
+ * Register backup routes
+ */
+export async function registerBackupRoutes(
+  fastify: FastifyInstance,
+  backupService: BackupService
+): Promise<void> {
+  /**
+   * GET /api/backup
+   * Stream a backup archive
+   */
+  fastify.get<{ Querystring: BackupQuery }>(
+    '/api/backup',
+    async (request: FastifyRequest<{ Querystring: BackupQuery }>, reply: FastifyReply) => {
+      const scope = (request.query.scope || 'user') as BackupScope;
+      if (scope !== 'user' && scope !== 'instance') {
+        throw ApiErrors.validationError(`Invalid scope: ${scope}. Expected user or instance`, { scope });
+      }
+
+      const user = scope === 'instance' ? requireAdmin(request) : getAuthenticatedUser(request);
+
+      try {
+        const { archive, manifest } = await backupService.createBackup(
+          scope === 'instance' ? undefined : user.id
+        );
+
+        archive.on('warning', (warning) => {
+          logger.warn('Backup archive warning', { userId: user.id, warning: warning.message });
+        });
+        archive.on('error', (error) => {
+          logger.error('Backup archive failed', { userId: user.id, error: error.message });
+        });
+
+        const filename = `kura-backup-${scope}-${new Date().toISOString().slice(0, 10)}.zip`;
+
+        reply.header('Content-Type', 'application/zip');
+        reply.header('Content-Disposition', `attachment; filename="${filename}"`);
+        reply.header('X-Backup-Count', manifest.counts.content.toString());
+
+        logger.info('Streaming backup', { userId: user.id, scope, counts: manifest.counts });
+
+        archive.finalize().catch(() => {
+          // Reported by the 'error' listener
+        });
+
+        return reply.send(archive);
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error creating backup', { error, userId: user.id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to create backup'
+        );
+      }
+    }
+  );
+
+  /**
+   * POST /api/backup/restore
+   * Restore a backup archive uploaded as multipart/form-data
+   * User backups are restored into the authenticated user's library;
+   * instance backups (administrators only) keep their owners
+   */
+  fastify.post<{ Querystring: RestoreQuery }>(
+    '/api/backup/restore',
+    async (request: FastifyRequest<{ Querystring: RestoreQuery }>, _reply: FastifyReply) => {
+      const user = getAuthenticatedUser(request);
+      const dryRun = request.query.dryRun === 'true' || request.query.dryRun === '1';
+
+      if (!request.isMultipart()) {
+        throw ApiErrors.validationError('Upload the backup as multipart/form-data');
+      }
+
+      // Backups can be larger than memory, so the upload is spooled to disk
+      const tempPath = path.join(os.tmpdir(), `kura-restore-${uuidv4()}.zip`);
+
+      try {
+        const file = await request.file({ limits: { fileSize: config.maxBackupSize } });
+        if (!file) {
+          throw ApiErrors.validationError('No file provided');
+        }
+
+        await pipeline(file.file, fs.createWriteStream(tempPath));
+
+        const manifest = await backupService.readManifest(tempPath).catch((error: Error) => {
+          throw ApiErrors.validationError(`Invalid backup archive: ${error.message}`);
+        });
+        if (manifest.scope === 'instance') {
+          requireAdmin(request);
+        }
+
+        logger.info('Restore request received', {
+          userId: user.id,
+          filename: file.filename,
+          scope: manifest.scope,
+          dryRun,
+        });
+
+        const result = await backupService.restoreBackup(tempPath, {
+          userId: manifest.scope === 'instance' ? undefined : user.id,
+          dryRun,
+        });
+
+        if (!result.success || !result.report) {
+          throw ApiErrors.validationError(result.error || 'Failed to restore backup');
+        }
+
+        return {
+          success: true,
+          ...result.report,
+        };
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error restoring backup', { error, userId: user.id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to restore backup'
+        );
+      } finally {
+        await fsPromises.unlink(tempPath).catch(() => undefined);
+      }
+    }
+  );
+
+  logger.info('Backup routes registered');
+}
@@ -1,7 +1,8 @@
 /**
  * KURA Notes - Content Capture Routes
  *
- * Endpoints for capturing and storing content (text, images, PDFs)
+ * Endpoints for capturing and storing content (text, images, PDFs, web pages)
+ * Captures are checked for duplicates of existing content first
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
@@ -9,8 +10,16 @@ import { MultipartFile } from '@fastify/multipart';
 import { logger } from '../../utils/logger.js';
 import { FileStorageService } from '../../services/fileStorage.js';
 import { EmbeddingPipelineService } from '../../services/embeddingPipeline.js';
+import {
+  DuplicateService,
+  DuplicateAction,
+  DuplicateMatch,
+  DUPLICATE_ACTIONS,
+} from '../../services/duplicateService.js';
+import { WebCaptureService, isWebUrl } from '../../services/webCaptureService.js';
 import { ApiErrors } from '../types/errors.js';
 import { getContentTypeFromMime } from '../../utils/fileValidation.js';
+import { TAG_PATTERN } from '../../utils/tags.js';
 import type { ContentType } from '../../models/content.js';
 import { getAuthenticatedUser } from '../middleware/auth.js';
 
@@ -23,6 +32,21 @@ interface CaptureTextRequest {
   annotation?: string;
   tags?: string[];
   contentType?: 'text'; // Default to text for this endpoint
+  onDuplicate?: DuplicateAction; // 'flag' (default), 'reject' or 'merge'
+  checkSimilar?: boolean; // Also check for near-duplicates by embedding similarity
+}
+
+/**
+ * Request body for web page capture
+ */
+interface CaptureUrlRequest {
+  url: string;
+  title?: string; // Defaults to the page title
+  annotation?: string;
+  tags?: string[];
+  snapshot?: boolean; // Also save the page HTML
+  onDuplicate?: DuplicateAction;
+  checkSimilar?: boolean;
 }
 
 /**
@@ -33,6 +57,9 @@ interface FileUploadMetadata {
   title?: string;
   annotation?: string;
   tags?: string[];
+  onDuplicate?: DuplicateAction;
+  checkSimilar?: boolean;
+  stripLocation?: boolean; // Remove GPS data from an uploaded image (default: IMAGE_STRIP_LOCATION)
 }
 
 /**
@@ -40,11 +67,21 @@ interface FileUploadMetadata {
  */
 interface CaptureResponse {
   success: true;
-  id: string;
+  id: string; // ID of the existing item if the capture was merged into it
   message: string;
+  merged?: boolean;
+  duplicates?: DuplicateMatch[]; // Existing content the capture duplicates
   timestamp: string;
 }
 
+/**
+ * Duplicate handling requested for a capture
+ */
+interface DuplicateOptions {
+  action: DuplicateAction;
+  checkSimilar: boolean;
+}
+
 // Note: Schema validation removed to support both JSON and multipart/form-data
 // Validation is now handled within the route handlers
 
@@ -52,23 +89,92 @@ interface CaptureResponse {
  * Validate tags format
  */
 function validateTags(tags: string[]): void {
-  const tagPattern = /^[a-zA-Z0-9-_]+$/;
-  const invalidTags = tags.filter((tag) => !tagPattern.test(tag));
+  const invalidTags = tags.filter((tag) => !TAG_PATTERN.test(tag));
   if (invalidTags.length > 0) {
     logger.warn('Invalid tag format', { invalidTags });
     throw ApiErrors.validationError(
-      `Invalid tag format: ${invalidTags.join(', ')}. Tags can only contain letters, numbers, dashes, and underscores.`
+      `Invalid tag format: ${invalidTags.join(', ')}. Tags can only contain letters, numbers, dashes, and underscores, with "/" between nested levels.`
     );
   }
 }
 
+/**
+ * Validate the duplicate options of a capture request
+ */
+function parseDuplicateOptions(onDuplicate: unknown, checkSimilar: unknown): DuplicateOptions {
+  if (onDuplicate !== undefined && !DUPLICATE_ACTIONS.includes(onDuplicate as DuplicateAction)) {
+    throw ApiErrors.validationError(`onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}`);
+  }
+  if (checkSimilar !== undefined && typeof checkSimilar !== 'boolean') {
+    throw ApiErrors.validationError('checkSimilar must be a boolean');
+  }
+
+  return { action: (onDuplicate as DuplicateAction | undefined) ?? 'flag', checkSimilar: checkSimilar === true };
+}
+
+/**
+ * Check captured content for duplicates and apply the requested action
+ * Rejected captures throw a 409; merged captures return the response for the existing item
+ */
+async function handleDuplicates(
+  userId: string,
+  content: string | Buffer,
+  contentType: ContentType,
+  metadata: { title?: string; annotation?: string; tags?: string[] },
+  options: DuplicateOptions,
+  duplicateService: DuplicateService,
+  embeddingPipeline: EmbeddingPipelineService
+): Promise<{ duplicates: DuplicateMatch[]; merged?: CaptureResponse }> {
+  const duplicates = await duplicateService.findDuplicates(userId, content, contentType, {
+    checkSimilar: options.checkSimilar,
+  });
+
+  if (duplicates.length === 0) {
+    return { duplicates };
+  }
+
+  logger.info('Captured content duplicates existing content', {
+    userId,
+    action: options.action,
+    duplicates: duplicates.map((duplicate) => ({ id: duplicate.id, match: duplicate.match })),
+  });
+
+  if (options.action === 'reject') {
+    throw ApiErrors.alreadyExists('Content already exists', { duplicates });
+  }
+
+  if (options.action === 'merge') {
+    const merged = duplicateService.mergeInto(duplicates[0]!.id, userId, metadata);
+    if (merged) {
+      // Refresh the embedding so semantic search matches the merged metadata
+      embeddingPipeline.queueMetadataSync(merged.before, merged.after);
+
+      return {
+        duplicates,
+        merged: {
+          success: true,
+          id: merged.after.id,
+          message: 'Duplicate merged into existing content',
+          merged: true,
+          duplicates,
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+  }
+
+  return { duplicates };
+}
+
 /**
  * Register content capture routes
  */
 export async function registerCaptureRoutes(
   fastify: FastifyInstance,
   fileStorage: FileStorageService,
-  embeddingPipeline: EmbeddingPipelineService
+  embeddingPipeline: EmbeddingPipelineService,
+  duplicateService: DuplicateService,
+  webCaptureService: WebCaptureService
 ): Promise<void> {
   /**
    * POST /api/capture
@@ -80,14 +186,25 @@ export async function registerCaptureRoutes(
     async (request: FastifyRequest, _reply: FastifyReply): Promise<CaptureResponse> => {
       // Check if this is a multipart request (file upload)
       if (request.isMultipart()) {
-        return await handleFileUpload(request, fileStorage, embeddingPipeline);
+        return await handleFileUpload(request, fileStorage, embeddingPipeline, duplicateService);
       } else {
         // Handle JSON text content
-        return await handleTextCapture(request, fileStorage, embeddingPipeline);
+        return await handleTextCapture(request, fileStorage, embeddingPipeline, duplicateService);
       }
     }
   );
 
+  /**
+   * POST /api/capture/url
+   * Capture a web page: fetch it, extract its readable text and store it as a note
+   */
+  fastify.post(
+    '/api/capture/url',
+    async (request: FastifyRequest, _reply: FastifyReply): Promise<CaptureResponse> => {
+      return await handleUrlCapture(request, fileStorage, embeddingPipeline, duplicateService, webCaptureService);
+    }
+  );
+
   logger.info('Capture routes registered');
 }
 
@@ -97,12 +214,13 @@ export async function registerCaptureRoutes(
 async function handleTextCapture(
   request: FastifyRequest,
   fileStorage: FileStorageService,
-  embeddingPipeline: EmbeddingPipelineService
+  embeddingPipeline: EmbeddingPipelineService,
+  duplicateService: DuplicateService
 ): Promise<CaptureResponse> {
   // Get authenticated user
   const user = getAuthenticatedUser(request);
 
-  const { content, title, annotation, tags } = request.body as CaptureTextRequest;
+  const { content, title, annotation, tags, onDuplicate, checkSimilar } = request.body as CaptureTextRequest;
 
   logger.info('Text capture request received', {
     userId: user.id,
@@ -124,7 +242,22 @@ async function handleTextCapture(
     validateTags(tags);
   }
 
+  const duplicateOptions = parseDuplicateOptions(onDuplicate, checkSimilar);
+
   try {
+    const { duplicates, merged } = await handleDuplicates(
+      user.id,
+      content,
+      'text',
+      { title, annotation, tags },
+      duplicateOptions,
+      duplicateService,
+      embeddingPipeline
+    );
+    if (merged) {
+      return merged;
+    }
+
     // Save file using file storage service
     const result = await fileStorage.saveFile({
       userId: user.id, // KOauth user ID for multi-user support
@@ -147,21 +280,14 @@ async function handleTextCapture(
       filePath: result.filePath,
     });
 
-    // Trigger async embedding generation (non-blocking)
-    embeddingPipeline.processContentAsync({
-      contentId: result.id!,
-      userId: user.id, // KOauth user ID for multi-user support
-      contentType: 'text',
-      content,
-      annotation,
-      title,
-      tags,
-    });
+    // Queue embedding generation (processed in the background)
+    embeddingPipeline.queueEmbedding(result.id!, user.id);
 
     return {
       success: true,
       id: result.id!,
       message: 'Content captured successfully',
+      ...(duplicates.length > 0 && { duplicates }),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
@@ -178,13 +304,125 @@ async function handleTextCapture(
   }
 }
 
+/**
+ * Handle web page capture (JSON)
+ */
+async function handleUrlCapture(
+  request: FastifyRequest,
+  fileStorage: FileStorageService,
+  embeddingPipeline: EmbeddingPipelineService,
+  duplicateService: DuplicateService,
+  webCaptureService: WebCaptureService
+): Promise<CaptureResponse> {
+  // Get authenticated user
+  const user = getAuthenticatedUser(request);
+
+  const { url, title, annotation, tags, snapshot, onDuplicate, checkSimilar } = (request.body ??
+    {}) as CaptureUrlRequest;
+
+  logger.info('URL capture request received', { userId: user.id, url, snapshot: !!snapshot });
+
+  if (typeof url !== 'string' || url.trim().length === 0) {
+    throw ApiErrors.validationError('URL is required');
+  }
+  if (!isWebUrl(url.trim())) {
+    throw ApiErrors.validationError('URL must be an absolute http or https address');
+  }
+
+  if (snapshot !== undefined && typeof snapshot !== 'boolean') {
+    throw ApiErrors.validationError('snapshot must be a boolean');
+  }
+
+  // Validate tags format if provided
+  if (tags && tags.length > 0) {
+    validateTags(tags);
+  }
+
+  const duplicateOptions = parseDuplicateOptions(onDuplicate, checkSimilar);
+
+  const fetched = await webCaptureService.fetchPage(url.trim());
+  if (!fetched.success) {
+    throw ApiErrors.fetchFailed(fetched.error || 'Failed to fetch page');
+  }
+
+  const page = fetched.page!;
+  if (page.text.length === 0) {
+    logger.warn('No readable text found on page', { userId: user.id, url: page.url });
+    throw ApiErrors.validationError('No readable text found on the page');
+  }
+
+  const metadata = { title: title || page.title || undefined, annotation, tags };
+
+  try {
+    const { duplicates, merged } = await handleDuplicates(
+      user.id,
+      page.text,
+      'text',
+      metadata,
+      duplicateOptions,
+      duplicateService,
+      embeddingPipeline
+    );
+    if (merged) {
+      return merged;
+    }
+
+    // Save the readable text as a Markdown note, linked to its page
+    const result = await fileStorage.saveFile({
+      userId: user.id,
+      content: page.text,
+      contentType: 'text',
+      ...metadata,
+      mimeType: 'text/markdown',
+      source: 'web',
+      sourceUrl: page.url,
+      snapshot: snapshot && page.html !== null ? page.html : undefined,
+    });
+
+    if (!result.success) {
+      logger.error('Failed to save web page', { userId: user.id, url: page.url, error: result.error });
+      throw ApiErrors.storageError(result.error || 'Failed to save web page');
+    }
+
+    logger.info('Web page captured successfully', {
+      userId: user.id,
+      id: result.id,
+      url: page.url,
+      filePath: result.filePath,
+    });
+
+    // Queue embedding generation (processed in the background)
+    embeddingPipeline.queueEmbedding(result.id!, user.id);
+
+    return {
+      success: true,
+      id: result.id!,
+      message: 'Web page captured successfully',
+      ...(duplicates.length > 0 && { duplicates }),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    // If it's already an API error, re-throw it
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error;
+    }
+
+    // Otherwise, wrap it as a storage error
+    logger.error('Unexpected error in URL capture endpoint', { error });
+    throw ApiErrors.storageError(
+      error instanceof Error ? error.message : 'Unknown error occurred'
+    );
+  }
+}
+
 /**
  * Handle file upload (multipart/form-data)
  */
 async function handleFileUpload(
   request: FastifyRequest,
   fileStorage: FileStorageService,
-  embeddingPipeline: EmbeddingPipelineService
+  embeddingPipeline: EmbeddingPipelineService,
+  duplicateService: DuplicateService
 ): Promise<CaptureResponse> {
   // Get authenticated user
   const user = getAuthenticatedUser(request);
@@ -236,7 +474,7 @@ async function handleFileUpload(
     if (!contentType) {
       logger.warn('Unsupported file type', { mimeType: file.mimetype });
       throw ApiErrors.validationError(
-        `Unsupported file type: ${file.mimetype}. Supported types: JPEG, PNG, PDF`
+        `Unsupported file type: ${file.mimetype}. Supported types: JPEG, PNG, PDF, MP3, M4A, WAV, OGG, WebM audio`
       );
     }
 
@@ -245,6 +483,12 @@ async function handleFileUpload(
       validateTags(metadata.tags);
     }
 
+    const duplicateOptions = parseDuplicateOptions(metadata.onDuplicate, metadata.checkSimilar);
+
+    if (metadata.stripLocation !== undefined && typeof metadata.stripLocation !== 'boolean') {
+      throw ApiErrors.validationError('stripLocation must be a boolean');
+    }
+
     // Read file content into buffer
     const fileBuffer = await file.toBuffer();
 
@@ -254,6 +498,19 @@ async function handleFileUpload(
       contentType,
     });
 
+    const { duplicates, merged } = await handleDuplicates(
+      user.id,
+      fileBuffer,
+      contentType,
+      { title: metadata.title, annotation: metadata.annotation, tags: metadata.tags },
+      duplicateOptions,
+      duplicateService,
+      embeddingPipeline
+    );
+    if (merged) {
+      return merged;
+    }
+
     // Save file using file storage service
     const result = await fileStorage.saveFile({
       userId: user.id, // KOauth user ID for multi-user support
@@ -264,6 +521,7 @@ async function handleFileUpload(
       tags: metadata.tags,
       originalFilename: file.filename,
       mimeType: file.mimetype,
+      stripLocation: metadata.stripLocation,
     });
 
     if (!result.success) {
@@ -279,22 +537,14 @@ async function handleFileUpload(
       originalFilename: file.filename,
     });
 
-    // Trigger async embedding generation (non-blocking)
-    embeddingPipeline.processContentAsync({
-      contentId: result.id!,
-      userId: user.id, // KOauth user ID for multi-user support
-      contentType,
-      content: fileBuffer,
-      annotation: metadata.annotation,
-      title: metadata.title,
-      originalFilename: file.filename,
-      tags: metadata.tags,
-    });
+    // Queue embedding generation (processed in the background)
+    embeddingPipeline.queueEmbedding(result.id!, user.id);
 
     return {
       success: true,
       id: result.id!,
       message: 'File uploaded successfully',
+      ...(duplicates.length > 0 && { duplicates }),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
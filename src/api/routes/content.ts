@@ -4,15 +4,125 @@
  * Endpoints for retrieving and viewing stored content
  */
 
+import fs from 'fs';
+import path from 'path';
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { logger } from '../../utils/logger.js';
 import { DatabaseService } from '../../services/database/database.service.js';
 import { FileStorageService } from '../../services/fileStorage.js';
-import { VectorStoreService } from '../../services/vectorStore.js';
+import { TrashService } from '../../services/trashService.js';
+import { EmbeddingPipelineService } from '../../services/embeddingPipeline.js';
+import { NotebookService } from '../../services/notebookService.js';
+import { applyTextEdits, TextEdit } from '../../utils/textEdits.js';
+import { TAG_PATTERN } from '../../utils/tags.js';
+import { config } from '../../config/index.js';
 import { ApiErrors } from '../types/errors.js';
-import type { ContentType } from '../../models/content.js';
+import type { ResizeOptions, ThumbnailFormat } from '../../services/thumbnailService.js';
+import type { ContentType, ThumbnailVariant } from '../../models/content.js';
 import { getAuthenticatedUser } from '../middleware/auth.js';
 
+/**
+ * MIME types of downloaded audio, by file extension
+ */
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.webm': 'audio/webm',
+};
+
+/**
+ * Query parameters of the image resize endpoint
+ */
+interface ImageResizeQuery {
+  w?: string;
+  h?: string;
+  format?: string;
+  fit?: string;
+}
+
+/**
+ * Parse and validate image resize query parameters
+ */
+function parseResizeOptions(query: ImageResizeQuery): ResizeOptions {
+  const parseDimension = (value: string | undefined, name: string): number | undefined => {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    const dimension = parseInt(value, 10);
+    if (!/^\d+$/.test(value) || dimension < 1 || dimension > config.imageResizeMaxSize) {
+      throw ApiErrors.validationError(`${name} must be between 1 and ${config.imageResizeMaxSize}`);
+    }
+    return dimension;
+  };
+
+  const width = parseDimension(query.w, 'Width');
+  const height = parseDimension(query.h, 'Height');
+  if (width === undefined && height === undefined) {
+    throw ApiErrors.validationError('Width (w) or height (h) is required');
+  }
+
+  const format = (query.format || config.thumbnailFormat) as ThumbnailFormat;
+  if (!['jpeg', 'webp', 'avif'].includes(format)) {
+    throw ApiErrors.validationError('Format must be one of: jpeg, webp, avif');
+  }
+
+  const fit = (query.fit || 'inside') as ResizeOptions['fit'];
+  if (!['inside', 'cover'].includes(fit)) {
+    throw ApiErrors.validationError('Fit must be one of: inside, cover');
+  }
+
+  return { width, height, format, fit };
+}
+
+/**
+ * Pick the thumbnail to serve for a requested size
+ * The default thumbnail covers sizes up to the first configured thumbnail size; larger
+ * requests get the smallest variant that covers them (or the largest one there is)
+ */
+function pickThumbnail(thumbnailPath: string, variants: ThumbnailVariant[] | undefined, size?: number): string {
+  if (!size || !variants?.length || size <= config.thumbnailSizes[0]!) {
+    return thumbnailPath;
+  }
+
+  const sorted = [...variants].sort((a, b) => a.size - b.size);
+  const variant = sorted.find((candidate) => candidate.size >= size) ?? sorted[sorted.length - 1]!;
+
+  // Variants are missing after a restore until the thumbnail backfill ran
+  return fs.existsSync(path.join(config.storageBasePath, variant.path)) ? variant.path : thumbnailPath;
+}
+
+/**
+ * Body of PATCH /api/content/:id
+ */
+interface ContentUpdateBody {
+  title?: string;
+  annotation?: string;
+  tags?: string[];
+  notebookId?: string | null;
+  remindAt?: string | null; // ISO 8601, null clears the reminder
+  dueAt?: string | null; // ISO 8601, null clears the due date
+}
+
+/**
+ * Validate a reminder or due date time
+ * @returns Normalized ISO 8601 time (UTC), null to clear it, undefined if not given
+ */
+function parseReminderTime(value: unknown, field: string): string | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  const time = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) ? new Date(value) : null;
+  if (!time || isNaN(time.getTime())) {
+    throw ApiErrors.validationError(`${field} must be an ISO 8601 date/time or null`);
+  }
+
+  return time.toISOString();
+}
+
 /**
  * Content metadata for recent items list
  * (excludes file_path and extracted_text for cleaner API response)
@@ -24,8 +134,14 @@ interface ContentMetadata {
   annotation: string | null;
   tags: string[];
   source: string | null;
+  source_url: string | null;
   image_metadata?: any;
   pdf_metadata?: any;
+  audio_metadata?: any;
+  notebook_id: string | null;
+  remind_at: string | null;
+  due_at: string | null;
+  reminder_fired_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -40,8 +156,14 @@ interface ContentResponse {
   annotation: string | null;
   tags: string[];
   source: string | null;
+  source_url: string | null;
   image_metadata?: any;
   pdf_metadata?: any;
+  audio_metadata?: any;
+  notebook_id: string | null;
+  remind_at: string | null;
+  due_at: string | null;
+  reminder_fired_at: string | null;
   created_at: string;
   updated_at: string;
   content: string; // Actual file content
@@ -78,6 +200,11 @@ const recentContentSchema = {
               annotation: { type: ['string', 'null'] },
               tags: { type: 'array', items: { type: 'string' } },
               source: { type: ['string', 'null'] },
+              source_url: { type: ['string', 'null'] },
+              notebook_id: { type: ['string', 'null'] },
+              remind_at: { type: ['string', 'null'] },
+              due_at: { type: ['string', 'null'] },
+              reminder_fired_at: { type: ['string', 'null'] },
               created_at: { type: 'string', format: 'date-time' },
               updated_at: { type: 'string', format: 'date-time' },
             },
@@ -122,6 +249,11 @@ const contentByIdSchema = {
         annotation: { type: ['string', 'null'] },
         tags: { type: 'array', items: { type: 'string' } },
         source: { type: ['string', 'null'] },
+        source_url: { type: ['string', 'null'] },
+        notebook_id: { type: ['string', 'null'] },
+        remind_at: { type: ['string', 'null'] },
+        due_at: { type: ['string', 'null'] },
+        reminder_fired_at: { type: ['string', 'null'] },
         created_at: { type: 'string', format: 'date-time' },
         updated_at: { type: 'string', format: 'date-time' },
         content: { type: 'string' },
@@ -146,11 +278,14 @@ export async function registerContentRoutes(
   fastify: FastifyInstance,
   db: DatabaseService,
   fileStorage: FileStorageService,
-  vectorStore: VectorStoreService
+  trashService: TrashService,
+  embeddingPipeline: EmbeddingPipelineService,
+  notebookService: NotebookService
 ): Promise<void> {
   /**
    * GET /api/content/list
    * Get content items with flexible pagination and sorting
+   * Optionally limited to a notebook (and the notebooks nested in it) and/or a tag (and the tags nested in it)
    * Requires authentication
    */
   fastify.get<{
@@ -159,6 +294,9 @@ export async function registerContentRoutes(
       offset?: string;
       sortBy?: string;
       order?: string;
+      notebookId?: string;
+      includeNested?: string;
+      tag?: string;
     }
   }>(
     '/api/content/list',
@@ -169,6 +307,9 @@ export async function registerContentRoutes(
           offset?: string;
           sortBy?: string;
           order?: string;
+          notebookId?: string;
+          includeNested?: string;
+          tag?: string;
         }
       }>,
       _reply: FastifyReply
@@ -187,14 +328,36 @@ export async function registerContentRoutes(
         throw ApiErrors.validationError('Offset must be 0 or greater');
       }
 
+      const { notebookId } = request.query;
+      const includeNested = request.query.includeNested === 'true' || request.query.includeNested === '1';
+      const notebookIds = notebookId
+        ? notebookService.resolveNotebookIds(notebookId, user.id, includeNested)
+        : null;
+
+      if (notebookId && !notebookIds) {
+        throw ApiErrors.notFound('Notebook');
+      }
+
+      // A trailing slash (project/kura/) names the same namespace
+      const tag = request.query.tag?.trim().replace(/\/+$/, '');
+      if (tag !== undefined && !TAG_PATTERN.test(tag)) {
+        throw ApiErrors.validationError(`Invalid tag: "${request.query.tag}"`);
+      }
+
       logger.debug('List content request received', {
         userId: user.id,
         limit,
-        offset
+        offset,
+        notebookId,
+        tag,
       });
 
       try {
-        const items = db.getAllContent(user.id, limit, offset);
+        const items = tag
+          ? db.getTaggedContent(user.id, tag, notebookIds, limit, offset)
+          : notebookIds
+            ? db.getNotebookContent(user.id, notebookIds, limit, offset)
+            : db.getAllContent(user.id, limit, offset);
 
         // Map to metadata-only format (exclude file_path and extracted_text)
         const metadata: ContentMetadata[] = items.map((item) => ({
@@ -204,8 +367,14 @@ export async function registerContentRoutes(
           annotation: item.annotation,
           tags: item.tags,
           source: item.source,
+          source_url: item.source_url,
           image_metadata: item.image_metadata,
           pdf_metadata: item.pdf_metadata,
+          audio_metadata: item.audio_metadata,
+          notebook_id: item.notebook_id,
+          remind_at: item.remind_at,
+          due_at: item.due_at,
+          reminder_fired_at: item.reminder_fired_at,
           created_at: item.created_at,
           updated_at: item.updated_at,
         }));
@@ -255,8 +424,14 @@ export async function registerContentRoutes(
           annotation: item.annotation,
           tags: item.tags,
           source: item.source,
+          source_url: item.source_url,
           image_metadata: item.image_metadata,
           pdf_metadata: item.pdf_metadata,
+          audio_metadata: item.audio_metadata,
+          notebook_id: item.notebook_id,
+          remind_at: item.remind_at,
+          due_at: item.due_at,
+          reminder_fired_at: item.reminder_fired_at,
           created_at: item.created_at,
           updated_at: item.updated_at,
         }));
@@ -331,8 +506,14 @@ export async function registerContentRoutes(
           annotation: metadata.annotation,
           tags: metadata.tags,
           source: metadata.source,
+          source_url: metadata.source_url,
           image_metadata: metadata.image_metadata,
           pdf_metadata: metadata.pdf_metadata,
+          audio_metadata: metadata.audio_metadata,
+          notebook_id: metadata.notebook_id,
+          remind_at: metadata.remind_at,
+          due_at: metadata.due_at,
+          reminder_fired_at: metadata.reminder_fired_at,
           created_at: metadata.created_at,
           updated_at: metadata.updated_at,
           content,
@@ -436,20 +617,26 @@ export async function registerContentRoutes(
 
   /**
    * GET /api/content/:id/thumbnail
-   * Get thumbnail for image content
-   * If thumbnail doesn't exist, serves the full image
-   * Returns 404 for non-image content
+   * Get thumbnail for image content, or the preview of a PDF's first page
+   * Optional size query parameter picks the smallest generated thumbnail size that covers it
+   * If an image thumbnail doesn't exist, serves the full image
+   * Returns 404 for other content and PDFs without a preview
    */
-  fastify.get<{ Params: { id: string } }>(
+  fastify.get<{ Params: { id: string }; Querystring: { size?: string } }>(
     '/api/content/:id/thumbnail',
     async (
-      request: FastifyRequest<{ Params: { id: string } }>,
+      request: FastifyRequest<{ Params: { id: string }; Querystring: { size?: string } }>,
       reply: FastifyReply
     ): Promise<void> => {
       const { id } = request.params;
       const user = getAuthenticatedUser(request);
 
-      logger.debug('Thumbnail request', { id, userId: user.id });
+      const size = request.query.size ? parseInt(request.query.size, 10) : undefined;
+      if (size !== undefined && (isNaN(size) || size < 1)) {
+        throw ApiErrors.validationError('Size must be a positive integer');
+      }
+
+      logger.debug('Thumbnail request', { id, userId: user.id, size });
 
       // Get metadata from database with ownership verification
       const metadata = db.getContentById(id, user.id);
@@ -459,13 +646,18 @@ export async function registerContentRoutes(
         throw ApiErrors.notFound('Content not found');
       }
 
-      // Only serve thumbnails for images
-      if (metadata.content_type !== 'image') {
+      // Only serve thumbnails for images and PDFs
+      if (metadata.content_type !== 'image' && metadata.content_type !== 'pdf') {
         logger.warn('Thumbnail requested for non-image content', {
           id,
           contentType: metadata.content_type,
         });
-        throw ApiErrors.notFound('Thumbnails only available for images');
+        throw ApiErrors.notFound('Thumbnails only available for images and PDFs');
+      }
+
+      // PDFs have a preview only if their first page could be rendered
+      if (metadata.content_type === 'pdf' && !metadata.thumbnail_path) {
+        throw ApiErrors.notFound('No preview available for this PDF');
       }
 
       try {
@@ -475,7 +667,11 @@ export async function registerContentRoutes(
 
         if (metadata.thumbnail_path) {
           // Serve thumbnail if it exists
-          filePathToServe = metadata.thumbnail_path;
+          filePathToServe = pickThumbnail(
+            metadata.thumbnail_path,
+            (metadata.image_metadata ?? metadata.pdf_metadata)?.thumbnailVariants,
+            size
+          );
           isThumbnail = true;
           logger.debug('Serving thumbnail', { id, thumbnailPath: filePathToServe });
         } else {
@@ -507,6 +703,8 @@ export async function registerContentRoutes(
           contentType = 'image/gif';
         } else if (filePathToServe.endsWith('.webp')) {
           contentType = 'image/webp';
+        } else if (filePathToServe.endsWith('.avif')) {
+          contentType = 'image/avif';
         }
 
         // Set headers for caching (1 hour for thumbnails)
@@ -537,6 +735,49 @@ export async function registerContentRoutes(
     }
   );
 
+  /**
+   * GET /api/content/:id/image
+   * Get an image resized to fit w x h (at least one of them), in jpeg, webp or avif
+   * fit=cover fills the whole box and crops the overflow. Resized images are cached on disk
+   * Returns 404 for non-image content
+   */
+  fastify.get<{ Params: { id: string }; Querystring: ImageResizeQuery }>(
+    '/api/content/:id/image',
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: ImageResizeQuery }>,
+      reply: FastifyReply
+    ): Promise<void> => {
+      const { id } = request.params;
+      const user = getAuthenticatedUser(request);
+      const options = parseResizeOptions(request.query);
+
+      logger.debug('Image resize request', { id, userId: user.id, ...options });
+
+      // Get metadata from database with ownership verification
+      const metadata = db.getContentById(id, user.id);
+
+      if (!metadata) {
+        logger.warn('Content not found or not owned by user', { id, userId: user.id });
+        throw ApiErrors.notFound('Content not found');
+      }
+
+      if (metadata.content_type !== 'image') {
+        throw ApiErrors.notFound('Resizing only available for images');
+      }
+
+      const result = await fileStorage.getResizedImage(id, options);
+      if (!result.success || !result.path || !result.mimeType) {
+        logger.error('Failed to resize image', { id, error: result.error });
+        throw ApiErrors.storageError(result.error || 'Failed to resize image');
+      }
+
+      reply.header('Content-Type', result.mimeType);
+      reply.header('Cache-Control', 'public, max-age=86400'); // Cache for 1 day
+
+      return reply.send(fs.createReadStream(result.path));
+    }
+  );
+
   /**
    * GET /api/content/:id/download
    * Download file content (especially for PDFs)
@@ -595,6 +836,10 @@ export async function registerContentRoutes(
         } else if (filePath.endsWith('.webp')) {
           contentType = 'image/webp';
           filename = metadata.title || `image-${id}.webp`;
+        } else if (metadata.content_type === 'audio') {
+          const extension = path.extname(filePath);
+          contentType = AUDIO_MIME_TYPES[extension] ?? 'application/octet-stream';
+          filename = metadata.audio_metadata?.filename || `audio-${id}${extension}`;
         }
 
         // Set headers to force download
@@ -606,6 +851,8 @@ export async function registerContentRoutes(
           reply.header('Content-Length', metadata.pdf_metadata.size.toString());
         } else if (metadata.image_metadata?.size) {
           reply.header('Content-Length', metadata.image_metadata.size.toString());
+        } else if (metadata.audio_metadata?.size) {
+          reply.header('Content-Length', metadata.audio_metadata.size.toString());
         }
 
         logger.info('Streaming file for download', {
@@ -630,9 +877,49 @@ export async function registerContentRoutes(
     }
   );
 
+  /**
+   * GET /api/content/:id/snapshot
+   * Get the saved HTML of a captured web page
+   * Served sandboxed, so scripts of the page cannot run
+   */
+  fastify.get<{ Params: { id: string } }>(
+    '/api/content/:id/snapshot',
+    async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ): Promise<void> => {
+      const { id } = request.params;
+      const user = getAuthenticatedUser(request);
+
+      const metadata = db.getContentById(id, user.id);
+      if (!metadata) {
+        logger.warn('Content not found or not owned by user', { id, userId: user.id });
+        throw ApiErrors.notFound('Content not found');
+      }
+
+      if (!metadata.snapshot_path) {
+        throw ApiErrors.notFound('Snapshot');
+      }
+
+      const fullPath = fileStorage.getFullPath(metadata.snapshot_path);
+      if (!fs.existsSync(fullPath)) {
+        logger.error('Snapshot not found on disk', { id, path: fullPath });
+        throw ApiErrors.storageError('Snapshot not found on disk');
+      }
+
+      reply.header('Content-Type', 'text/html; charset=utf-8');
+      reply.header('Content-Security-Policy', 'sandbox');
+      reply.header('X-Content-Type-Options', 'nosniff');
+
+      logger.info('Serving web page snapshot', { id, path: metadata.snapshot_path });
+
+      return reply.send(fs.createReadStream(fullPath));
+    }
+  );
+
   /**
    * DELETE /api/content/:id
-   * Delete content and associated file
+   * Move content to the trash (purged after the retention period)
    */
   fastify.delete<{ Params: { id: string } }>(
     '/api/content/:id',
@@ -653,38 +940,22 @@ export async function registerContentRoutes(
       }
 
       try {
-        // Delete file and metadata using FileStorageService with ownership verification
-        const result = await fileStorage.deleteFile(id, user.id);
-
-        if (!result.success) {
-          logger.error('Failed to delete content', {
-            id,
-            error: result.error,
-          });
-          throw ApiErrors.storageError(result.error || 'Failed to delete content');
-        }
+        // Files and embeddings are kept until the trash is purged
+        const trashed = trashService.moveToTrash(id, user.id);
 
-        // Also delete from ChromaDB if embedding exists
-        // Don't fail the delete if ChromaDB deletion fails
-        try {
-          await vectorStore.deleteDocument(id);
-          logger.debug('Embedding deleted from ChromaDB', { id });
-        } catch (vectorError) {
-          logger.warn('Failed to delete embedding from ChromaDB (non-critical)', {
-            id,
-            error: vectorError instanceof Error ? vectorError.message : 'Unknown error',
-          });
-          // Continue - we don't want to fail the whole delete operation
+        if (!trashed) {
+          logger.error('Failed to move content to trash', { id });
+          throw ApiErrors.storageError('Failed to delete content');
         }
 
-        logger.info('Content deleted successfully', {
+        logger.info('Content moved to trash', {
           id,
           contentType: metadata.content_type,
         });
 
         return {
           success: true,
-          message: 'Content deleted successfully',
+          message: 'Content moved to trash',
           timestamp: new Date().toISOString(),
         };
       } catch (error) {
@@ -703,27 +974,38 @@ export async function registerContentRoutes(
 
   /**
    * PATCH /api/content/:id
-   * Update content metadata (title, annotation, tags)
+   * Update content metadata (title, annotation, tags, notebook, reminder, due date) and refresh its embedding
    */
   fastify.patch<{
     Params: { id: string };
-    Body: { title?: string; annotation?: string; tags?: string[] };
+    Body: ContentUpdateBody;
   }>(
     '/api/content/:id',
     async (
       request: FastifyRequest<{
         Params: { id: string };
-        Body: { title?: string; annotation?: string; tags?: string[] };
+        Body: ContentUpdateBody;
       }>,
       _reply: FastifyReply
     ): Promise<{ success: true; content: ContentMetadata; message: string; timestamp: string }> => {
       const { id } = request.params;
-      const { title, annotation, tags } = request.body;
+      const { title, annotation, tags, notebookId } = request.body;
+      const remindAt = parseReminderTime(request.body.remindAt, 'remindAt');
+      const dueAt = parseReminderTime(request.body.dueAt, 'dueAt');
 
       // Get authenticated user for ownership verification
       const user = getAuthenticatedUser(request);
 
-      logger.debug('Content metadata update request', { id, userId: user.id, title, annotation, tags });
+      logger.debug('Content metadata update request', {
+        id,
+        userId: user.id,
+        title,
+        annotation,
+        tags,
+        notebookId,
+        remindAt,
+        dueAt,
+      });
 
       // Check if content exists and user owns it
       const existingContent = db.getContentById(id, user.id);
@@ -760,7 +1042,6 @@ export async function registerContentRoutes(
         }
 
         // Validate tag format
-        const tagPattern = /^[a-zA-Z0-9-_]+$/;
         for (const tag of tags) {
           if (typeof tag !== 'string') {
             throw ApiErrors.validationError('Each tag must be a string');
@@ -768,20 +1049,32 @@ export async function registerContentRoutes(
           if (tag.length > 50) {
             throw ApiErrors.validationError('Each tag cannot exceed 50 characters');
           }
-          if (!tagPattern.test(tag)) {
+          if (!TAG_PATTERN.test(tag)) {
             throw ApiErrors.validationError(
-              `Invalid tag format: "${tag}". Tags can only contain letters, numbers, dashes, and underscores.`
+              `Invalid tag format: "${tag}". Tags can only contain letters, numbers, dashes, and underscores, with "/" between nested levels.`
             );
           }
         }
       }
 
+      if (notebookId !== undefined && notebookId !== null) {
+        if (typeof notebookId !== 'string') {
+          throw ApiErrors.validationError('notebookId must be a notebook ID or null');
+        }
+        if (!notebookService.getNotebook(notebookId, user.id)) {
+          throw ApiErrors.notFound('Notebook');
+        }
+      }
+
       try {
         // Update content metadata in database with ownership verification
         const updatedContent = db.updateContent(id, user.id, {
           title,
           annotation,
           tags,
+          notebook_id: notebookId,
+          remind_at: remindAt,
+          due_at: dueAt,
         });
 
         if (!updatedContent) {
@@ -795,9 +1088,15 @@ export async function registerContentRoutes(
             title: title !== undefined,
             annotation: annotation !== undefined,
             tags: tags !== undefined,
+            notebook: notebookId !== undefined,
+            remindAt: remindAt !== undefined,
+            dueAt: dueAt !== undefined,
           },
         });
 
+        // Refresh the embedding so semantic search matches the new metadata
+        embeddingPipeline.queueMetadataSync(existingContent, updatedContent);
+
         // Return updated metadata (exclude file_path and extracted_text)
         const metadata: ContentMetadata = {
           id: updatedContent.id,
@@ -806,8 +1105,14 @@ export async function registerContentRoutes(
           annotation: updatedContent.annotation,
           tags: updatedContent.tags,
           source: updatedContent.source,
+          source_url: updatedContent.source_url,
           image_metadata: updatedContent.image_metadata,
           pdf_metadata: updatedContent.pdf_metadata,
+          audio_metadata: updatedContent.audio_metadata,
+          notebook_id: updatedContent.notebook_id,
+          remind_at: updatedContent.remind_at,
+          due_at: updatedContent.due_at,
+          reminder_fired_at: updatedContent.reminder_fired_at,
           created_at: updatedContent.created_at,
           updated_at: updatedContent.updated_at,
         };
@@ -832,9 +1137,139 @@ export async function registerContentRoutes(
     }
   );
 
+  /**
+   * PUT /api/content/:id/body
+   * Replace (`content`) or patch (`edits`) the body of a text note
+   * Rewrites the stored file, updates the searchable text and re-embeds the note
+   */
+  fastify.put<{
+    Params: { id: string };
+    Body: { content?: string; edits?: TextEdit[] };
+  }>(
+    '/api/content/:id/body',
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Body: { content?: string; edits?: TextEdit[] };
+      }>,
+      _reply: FastifyReply
+    ): Promise<{ success: true; id: string; length: number; message: string; timestamp: string }> => {
+      const { id } = request.params;
+      const { content, edits } = request.body || {};
+      const user = getAuthenticatedUser(request);
+
+      logger.debug('Content body update request', {
+        id,
+        userId: user.id,
+        hasContent: content !== undefined,
+        editCount: edits?.length || 0,
+      });
+
+      const existingContent = db.getContentById(id, user.id);
+      if (!existingContent) {
+        logger.warn('Content not found or not owned by user', { id, userId: user.id });
+        throw ApiErrors.notFound('Content not found or not owned by user');
+      }
+
+      if (existingContent.content_type !== 'text') {
+        throw ApiErrors.validationError('Only the body of text notes can be edited');
+      }
+
+      // Validate inputs (exactly one of content or edits)
+      if ((content === undefined) === (edits === undefined)) {
+        throw ApiErrors.validationError('Provide either content or edits');
+      }
+
+      if (content !== undefined && typeof content !== 'string') {
+        throw ApiErrors.validationError('Content must be a string');
+      }
+
+      if (edits !== undefined) {
+        if (!Array.isArray(edits) || edits.length === 0) {
+          throw ApiErrors.validationError('Edits must be a non-empty array');
+        }
+        if (edits.length > 100) {
+          throw ApiErrors.validationError('Cannot exceed 100 edits');
+        }
+        for (const edit of edits) {
+          if (!edit || typeof edit.find !== 'string' || typeof edit.replace !== 'string') {
+            throw ApiErrors.validationError('Each edit must have string find and replace fields');
+          }
+        }
+      }
+
+      try {
+        // Build the new body
+        let body: string;
+        if (content !== undefined) {
+          body = content;
+        } else {
+          const current = await fileStorage.readFile(id);
+          if (!current.success || !current.content) {
+            throw ApiErrors.storageError(current.error || 'Failed to read note body');
+          }
+
+          const result = applyTextEdits(current.content.toString('utf-8'), edits!);
+          if (!result.success) {
+            throw ApiErrors.validationError(result.error || 'Failed to apply edits');
+          }
+          body = result.text!;
+        }
+
+        if (body.trim().length === 0) {
+          throw ApiErrors.validationError('Content cannot be empty');
+        }
+        if (Buffer.byteLength(body, 'utf-8') > config.maxFileSize) {
+          throw ApiErrors.fileTooLarge(config.maxFileSize);
+        }
+
+        // Rewrite the stored file, then the searchable text (recorded as a new version)
+        const writeResult = await fileStorage.writeTextContent(id, body, user.id);
+        if (!writeResult.success) {
+          logger.error('Failed to write note body', { id, error: writeResult.error });
+          throw ApiErrors.storageError(writeResult.error || 'Failed to update note body');
+        }
+
+        const updatedContent = db.updateContent(id, user.id, { extracted_text: body });
+        if (!updatedContent) {
+          logger.error('Failed to update note text', { id });
+          throw ApiErrors.storageError('Failed to update note body');
+        }
+
+        // Regenerate embeddings for the new body (runs in background)
+        embeddingPipeline.queueReprocess(updatedContent);
+
+        logger.info('Content body updated successfully', {
+          id,
+          userId: user.id,
+          length: body.length,
+          mode: content !== undefined ? 'replace' : 'edits',
+        });
+
+        return {
+          success: true,
+          id,
+          length: body.length,
+          message: 'Content body updated successfully',
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error updating content body', { error, id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to update content body'
+        );
+      }
+    }
+  );
+
   /**
    * POST /api/content/bulk/delete
-   * Delete multiple content items at once
+   * Move multiple content items to the trash at once
    */
   fastify.post(
     '/api/content/bulk/delete',
@@ -882,38 +1317,14 @@ export async function registerContentRoutes(
               continue;
             }
 
-            // Delete from filesystem (FileStorage handles files and thumbnails)
-            try {
-              const deleteResult = await fileStorage.deleteFile(id, user.id);
-              if (!deleteResult.success) {
-                logger.warn('Failed to delete file', {
-                  id,
-                  userId: user.id,
-                  error: deleteResult.error,
-                });
-              }
-            } catch (error) {
-              logger.warn('Failed to delete file from filesystem', {
-                id,
-                userId: user.id,
-                error,
-              });
-              // Continue with deletion even if file doesn't exist
-            }
-
-            // Delete from vector store
-            try {
-              await vectorStore.deleteDocument(id);
-            } catch (error) {
-              logger.warn('Failed to delete from vector store', { id, userId: user.id, error });
-              // Continue with deletion even if vector store fails
+            // Files and embeddings are kept until the trash is purged
+            if (!trashService.moveToTrash(id, user.id)) {
+              results.failed.push({ id, error: 'Failed to move content to trash' });
+              continue;
             }
 
-            // Note: FileStorage.deleteFile() already handles database deletion
-            // So we don't need to call db.deleteContent() here
-
             results.successful.push(id);
-            logger.info('Content deleted successfully in bulk operation', { id });
+            logger.info('Content moved to trash in bulk operation', { id });
           } catch (error) {
             logger.error('Failed to delete content in bulk operation', {
               id,
@@ -999,11 +1410,10 @@ export async function registerContentRoutes(
 
       try {
         // Validate tags format
-        const tagRegex = /^[a-zA-Z0-9_-]+$/;
         for (const tag of tags) {
-          if (!tagRegex.test(tag) || tag.length > 50) {
+          if (!TAG_PATTERN.test(tag) || tag.length > 50) {
             throw ApiErrors.validationError(
-              `Invalid tag format: "${tag}". Tags must be alphanumeric with dashes/underscores, max 50 characters.`
+              `Invalid tag format: "${tag}". Tags must be alphanumeric with dashes/underscores (and "/" between nested levels), max 50 characters.`
             );
           }
         }
@@ -1057,6 +1467,8 @@ export async function registerContentRoutes(
               continue;
             }
 
+            embeddingPipeline.queueMetadataSync(content, updated);
+
             results.successful.push(id);
             logger.info('Tags updated successfully in bulk operation', {
               id,
@@ -1108,5 +1520,102 @@ export async function registerContentRoutes(
     }
   );
 
+  /**
+   * POST /api/content/bulk/move
+   * Move multiple content items into a notebook (null takes them out of their notebook)
+   */
+  fastify.post(
+    '/api/content/bulk/move',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['ids', 'notebookId'],
+          properties: {
+            ids: {
+              type: 'array',
+              items: { type: 'string' },
+              minItems: 1,
+              maxItems: 100, // Limit to 100 items per bulk operation
+            },
+            notebookId: { type: ['string', 'null'] },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { ids, notebookId } = request.body as { ids: string[]; notebookId: string | null };
+
+      // Get authenticated user for ownership verification
+      const user = getAuthenticatedUser(request);
+
+      if (notebookId !== null && !notebookService.getNotebook(notebookId, user.id)) {
+        throw ApiErrors.notFound('Notebook');
+      }
+
+      try {
+        logger.info('Bulk move request received', {
+          userId: user.id,
+          count: ids.length,
+          notebookId,
+          ...(process.env.NODE_ENV !== 'production' && { ids: ids.slice(0, 10) }),
+        });
+
+        const results = {
+          successful: [] as string[],
+          failed: [] as { id: string; error: string }[],
+        };
+
+        // Process each item
+        for (const id of ids) {
+          try {
+            // Update notebook in database with ownership verification
+            const updated = db.updateContent(id, user.id, { notebook_id: notebookId });
+            if (!updated) {
+              results.failed.push({ id, error: 'Content not found or not owned by user' });
+              continue;
+            }
+
+            results.successful.push(id);
+          } catch (error) {
+            logger.error('Failed to move content in bulk operation', {
+              id,
+              error,
+            });
+            results.failed.push({
+              id,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
+
+        const statusCode =
+          results.failed.length === 0
+            ? 200
+            : results.successful.length === 0
+            ? 500
+            : 207; // Multi-Status for partial success
+
+        logger.info('Bulk move completed', {
+          total: ids.length,
+          successful: results.successful.length,
+          failed: results.failed.length,
+        });
+
+        return reply.code(statusCode).send({
+          success: results.failed.length === 0,
+          results,
+          message: `Moved ${results.successful.length} of ${ids.length} items`,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        logger.error('Unexpected error in bulk move', { error });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to move content'
+        );
+      }
+    }
+  );
+
   logger.info('Content retrieval routes registered');
 }
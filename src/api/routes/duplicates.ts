@@ -0,0 +1,60 @@
+/**
+ * KURA Notes - Duplicate Routes
+ *
+ * Endpoints for finding duplicate content:
+ * - GET /api/duplicates - Report exact (and optionally near-) duplicates among existing content
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { DuplicateService } from '../../services/duplicateService.js';
+import { ApiErrors } from '../types/errors.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+/**
+ * Report query parameters
+ */
+interface DuplicateQuery {
+  similar?: string; // 'true' to include near-duplicate notes (compares every embedded note)
+}
+
+/**
+ * Register duplicate routes
+ */
+export async function registerDuplicateRoutes(
+  fastify: FastifyInstance,
+  duplicateService: DuplicateService
+): Promise<void> {
+  /**
+   * GET /api/duplicates
+   * Report groups of duplicate content of the authenticated user (oldest item first)
+   */
+  fastify.get<{ Querystring: DuplicateQuery }>(
+    '/api/duplicates',
+    async (request: FastifyRequest<{ Querystring: DuplicateQuery }>, _reply: FastifyReply) => {
+      const user = getAuthenticatedUser(request);
+      const checkSimilar = request.query.similar === 'true' || request.query.similar === '1';
+
+      try {
+        const report = await duplicateService.getReport(user.id, { checkSimilar });
+
+        return {
+          success: true,
+          exact: report.exact,
+          near: report.near,
+          counts: {
+            exact: report.exact.length,
+            near: report.near?.length ?? 0,
+          },
+          hashed: report.hashed,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        logger.error('Failed to build duplicate report', { error, userId: user.id });
+        throw ApiErrors.storageError('Failed to build duplicate report');
+      }
+    }
+  );
+
+  logger.info('Duplicate routes registered');
+}
@@ -0,0 +1,135 @@
+/**
+ * KURA Notes - Export Routes
+ *
+ * Endpoints for getting the library out of KURA:
+ * - GET /api/export - Stream a zip of Obsidian-compatible Markdown notes and attachments
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { ExportService } from '../../services/exportService.js';
+import { ApiErrors } from '../types/errors.js';
+import type { SearchFilters } from '../../models/content.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+/**
+ * Export query parameters
+ */
+interface ExportQuery {
+  tags?: string; // Comma-separated list of tags (content with any of them is exported)
+  dateFrom?: string; // ISO 8601 date or datetime (inclusive)
+  dateTo?: string; // ISO 8601 date or datetime (inclusive, a date covers the whole day)
+}
+
+/**
+ * Convert an ISO 8601 date to the SQLite timestamp format used by created_at
+ *
+ * @param value - Date or datetime string
+ * @param name - Query parameter name (for error messages)
+ * @param endOfDay - Use the last second of the day when only a date is given
+ */
+function toSqliteTimestamp(value: string, name: string, endOfDay: boolean): string {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly ? `${value}T${endOfDay ? '23:59:59' : '00:00:00'}Z` : value);
+
+  if (isNaN(date.getTime())) {
+    throw ApiErrors.validationError(`Invalid ${name} format: ${value}. Expected ISO 8601 date string`, {
+      [name]: value,
+    });
+  }
+
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Parse and validate export filters
+ */
+function parseExportFilters(query: ExportQuery): SearchFilters {
+  const filters: SearchFilters = {};
+
+  if (query.tags) {
+    const tags = query.tags
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0);
+
+    if (tags.length > 0) {
+      filters.tags = tags;
+    }
+  }
+
+  if (query.dateFrom) {
+    filters.dateFrom = toSqliteTimestamp(query.dateFrom, 'dateFrom', false);
+  }
+
+  if (query.dateTo) {
+    filters.dateTo = toSqliteTimestamp(query.dateTo, 'dateTo', true);
+  }
+
+  if (filters.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+    throw ApiErrors.validationError('dateFrom must be before or equal to dateTo', {
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo,
+    });
+  }
+
+  return filters;
+}
+
+/**
+ * Register export routes
+ */
+export async function registerExportRoutes(
+  fastify: FastifyInstance,
+  exportService: ExportService
+): Promise<void> {
+  /**
+   * GET /api/export
+   * Stream the authenticated user's library as a zip archive
+   */
+  fastify.get<{ Querystring: ExportQuery }>(
+    '/api/export',
+    async (request: FastifyRequest<{ Querystring: ExportQuery }>, reply: FastifyReply) => {
+      const user = getAuthenticatedUser(request);
+      const filters = parseExportFilters(request.query);
+
+      try {
+        const { archive, count } = exportService.createArchive(user.id, filters);
+
+        archive.on('warning', (warning) => {
+          logger.warn('Export archive warning', { userId: user.id, warning: warning.message });
+        });
+        archive.on('error', (error) => {
+          logger.error('Export archive failed', { userId: user.id, error: error.message });
+        });
+
+        const filename = `kura-export-${new Date().toISOString().slice(0, 10)}.zip`;
+
+        reply.header('Content-Type', 'application/zip');
+        reply.header('Content-Disposition', `attachment; filename="${filename}"`);
+        reply.header('X-Export-Count', count.toString());
+
+        logger.info('Streaming export', { userId: user.id, count, filters });
+
+        // Finalizing only ends the entry list; data is produced as the response reads it
+        archive.finalize().catch(() => {
+          // Reported by the 'error' listener
+        });
+
+        return reply.send(archive);
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error creating export', { error, userId: user.id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to create export'
+        );
+      }
+    }
+  );
+
+  logger.info('Export routes registered');
+}
@@ -6,7 +6,7 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { getDatabaseService } from '../../services/database/index.js';
-import { getVectorStoreService } from '../../services/vectorStore.js';
+import { getVectorStore } from '../../services/vectorStore.js';
 import { config } from '../../config/index.js';
 import { logger } from '../../utils/logger.js';
 
@@ -73,8 +73,8 @@ async function checkVectorStoreHealth(): Promise<ServiceStatus> {
   const startTime = Date.now();
 
   try {
-    // Check if the URL is configured
-    if (!config.vectorStoreUrl) {
+    // Check if the URL is configured (ChromaDB only)
+    if (config.vectorStoreBackend === 'chroma' && !config.vectorStoreUrl) {
       return {
         status: 'unknown',
         message: 'Vector store URL not configured',
@@ -83,7 +83,7 @@ async function checkVectorStoreHealth(): Promise<ServiceStatus> {
     }
 
     // Get vector store service and check health
-    const vectorStore = getVectorStoreService();
+    const vectorStore = getVectorStore();
     const isHealthy = await vectorStore.healthCheck();
     const responseTime = Date.now() - startTime;
 
@@ -97,7 +97,7 @@ async function checkVectorStoreHealth(): Promise<ServiceStatus> {
     } else {
       return {
         status: 'down',
-        message: 'ChromaDB connection failed',
+        message: vectorStore.backend === 'chroma' ? 'ChromaDB connection failed' : 'SQLite vector store unavailable',
         responseTime,
       };
     }
@@ -0,0 +1,139 @@
+/**
+ * KURA Notes - Import Routes
+ *
+ * Endpoints for bringing existing notes into KURA:
+ * - POST /api/import - Import a zip of Markdown notes (Obsidian vault or Markdown folder)
+ * - POST /api/import/enex - Import an Evernote export (.enex)
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { ImportService, ImportResult } from '../../services/importService.js';
+import { ApiErrors } from '../types/errors.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+/**
+ * Import query parameters
+ */
+interface ImportQuery {
+  dryRun?: string; // 'true' to only report what would be imported
+}
+
+/**
+ * Evernote import query parameters
+ */
+interface EnexImportQuery extends ImportQuery {
+  notebook?: string; // Notebook name added as a tag (defaults to the file name)
+}
+
+/**
+ * Read the uploaded file of a multipart import request
+ */
+async function readUpload(request: FastifyRequest): Promise<{ filename: string; data: Buffer }> {
+  if (!request.isMultipart()) {
+    throw ApiErrors.validationError('Upload the file as multipart/form-data');
+  }
+
+  const file = await request.file();
+  if (!file) {
+    throw ApiErrors.validationError('No file provided');
+  }
+
+  return { filename: file.filename, data: await file.toBuffer() };
+}
+
+/**
+ * Turn an import result into the response body
+ */
+function toResponse(result: ImportResult) {
+  if (!result.success || !result.report) {
+    throw ApiErrors.validationError(result.error || 'Failed to import file');
+  }
+
+  return {
+    success: true,
+    ...result.report,
+  };
+}
+
+/**
+ * Register import routes
+ */
+export async function registerImportRoutes(
+  fastify: FastifyInstance,
+  importService: ImportService
+): Promise<void> {
+  /**
+   * POST /api/import
+   * Import a zip archive uploaded as multipart/form-data
+   */
+  fastify.post<{ Querystring: ImportQuery }>(
+    '/api/import',
+    async (request: FastifyRequest<{ Querystring: ImportQuery }>, _reply: FastifyReply) => {
+      const user = getAuthenticatedUser(request);
+      const dryRun = request.query.dryRun === 'true' || request.query.dryRun === '1';
+
+      try {
+        const { filename, data } = await readUpload(request);
+
+        logger.info('Import request received', {
+          userId: user.id,
+          filename,
+          size: data.length,
+          dryRun,
+        });
+
+        return toResponse(await importService.importZip(data, user.id, { dryRun }));
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error importing archive', { error, userId: user.id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to import archive'
+        );
+      }
+    }
+  );
+
+  /**
+   * POST /api/import/enex
+   * Import an Evernote export uploaded as multipart/form-data
+   */
+  fastify.post<{ Querystring: EnexImportQuery }>(
+    '/api/import/enex',
+    async (request: FastifyRequest<{ Querystring: EnexImportQuery }>, _reply: FastifyReply) => {
+      const user = getAuthenticatedUser(request);
+      const dryRun = request.query.dryRun === 'true' || request.query.dryRun === '1';
+
+      try {
+        const { filename, data } = await readUpload(request);
+        const notebook = request.query.notebook?.trim() || filename.replace(/\.enex$/i, '') || undefined;
+
+        logger.info('Evernote import request received', {
+          userId: user.id,
+          filename,
+          size: data.length,
+          notebook,
+          dryRun,
+        });
+
+        return toResponse(await importService.importEnex(data, user.id, { notebook, dryRun }));
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error importing Evernote export', { error, userId: user.id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to import Evernote export'
+        );
+      }
+    }
+  );
+
+  logger.info('Import routes registered');
+}
@@ -0,0 +1,114 @@
+/**
+ * KURA Notes - Embedding Job Routes
+ *
+ * Endpoints for the embedding job queue:
+ * - GET /api/jobs - List embedding jobs and counts by status
+ * - POST /api/jobs/retry - Queue failed embeddings for another attempt
+ * - POST /api/content/:id/reembed - Queue re-embedding of a content item
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { DatabaseService } from '../../services/database/database.service.js';
+import { EmbeddingPipelineService } from '../../services/embeddingPipeline.js';
+import { ApiErrors } from '../types/errors.js';
+import type { EmbeddingJobStatus } from '../../models/content.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+const JOB_STATUSES: EmbeddingJobStatus[] = ['queued', 'running', 'dead'];
+
+/**
+ * Register embedding job routes
+ */
+export async function registerJobRoutes(
+  fastify: FastifyInstance,
+  db: DatabaseService,
+  embeddingPipeline: EmbeddingPipelineService
+): Promise<void> {
+  /**
+   * GET /api/jobs
+   * List embedding jobs (next due first) with counts by status
+   */
+  fastify.get<{ Querystring: { status?: string; limit?: string; offset?: string } }>(
+    '/api/jobs',
+    async (
+      request: FastifyRequest<{ Querystring: { status?: string; limit?: string; offset?: string } }>,
+      _reply: FastifyReply
+    ) => {
+      const user = getAuthenticatedUser(request);
+      const { status } = request.query;
+
+      const limit = request.query.limit ? parseInt(request.query.limit, 10) : 50;
+      const offset = request.query.offset ? parseInt(request.query.offset, 10) : 0;
+
+      if (status !== undefined && !JOB_STATUSES.includes(status as EmbeddingJobStatus)) {
+        throw ApiErrors.validationError(`Status must be one of: ${JOB_STATUSES.join(', ')}`);
+      }
+      if (isNaN(limit) || limit < 1 || limit > 100) {
+        throw ApiErrors.validationError('Limit must be between 1 and 100');
+      }
+      if (isNaN(offset) || offset < 0) {
+        throw ApiErrors.validationError('Offset must be 0 or greater');
+      }
+
+      const jobs = db.getEmbeddingJobs(user.id, (status as EmbeddingJobStatus) ?? null, limit, offset);
+      const counts = db.getEmbeddingJobCounts(user.id);
+
+      logger.debug('Embedding jobs listed', { userId: user.id, status, count: jobs.length });
+
+      return {
+        success: true,
+        jobs,
+        count: jobs.length,
+        counts,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  /**
+   * POST /api/jobs/retry
+   * Queue all failed embeddings of the user for another attempt
+   */
+  fastify.post('/api/jobs/retry', async (request: FastifyRequest, _reply: FastifyReply) => {
+    const user = getAuthenticatedUser(request);
+
+    const queued = await embeddingPipeline.retryFailedEmbeddings(user.id);
+
+    return {
+      success: true,
+      queued,
+      message: `Queued ${queued} failed items for embedding`,
+      timestamp: new Date().toISOString(),
+    };
+  });
+
+  /**
+   * POST /api/content/:id/reembed
+   * Queue re-embedding of a content item
+   */
+  fastify.post<{ Params: { id: string } }>(
+    '/api/content/:id/reembed',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const { id } = request.params;
+      const user = getAuthenticatedUser(request);
+
+      const content = db.getContentById(id, user.id);
+      if (!content) {
+        throw ApiErrors.notFound('Content');
+      }
+
+      const job = embeddingPipeline.queueEmbedding(content.id, content.user_id);
+
+      return reply.code(202).send({
+        success: true,
+        id: content.id,
+        job,
+        message: 'Re-embedding queued',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  );
+
+  logger.info('Embedding job routes registered');
+}
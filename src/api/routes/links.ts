@@ -0,0 +1,132 @@
+/**
+ * KURA Notes - Wiki Link Routes
+ *
+ * Endpoints for [[wiki links]] between notes:
+ * - GET /api/content/:id/links - Links from a note (resolved or not)
+ * - GET /api/content/:id/backlinks - Notes linking to a content item
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { getLinkContext } from '../../utils/wikiLinks.js';
+import { DatabaseService } from '../../services/database/database.service.js';
+import { ApiErrors } from '../types/errors.js';
+import type { Content, ContentType } from '../../models/content.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+/**
+ * Content on either end of a link
+ */
+interface LinkedContent {
+  id: string;
+  title: string | null;
+  content_type: ContentType;
+  updated_at: string;
+}
+
+/**
+ * Link from a note, with the content it resolves to
+ */
+interface OutgoingLink {
+  target: string; // Link target as written
+  resolved: boolean;
+  content: LinkedContent | null; // null if nothing matches or the target is in the trash
+}
+
+/**
+ * Note linking to a content item
+ */
+interface Backlink extends LinkedContent {
+  context: string | null; // Text around the link
+}
+
+/**
+ * Reduce content to the fields shown with a link
+ */
+function toLinkedContent(content: Content): LinkedContent {
+  return {
+    id: content.id,
+    title: content.title,
+    content_type: content.content_type,
+    updated_at: content.updated_at,
+  };
+}
+
+/**
+ * Register wiki link routes
+ */
+export async function registerLinkRoutes(fastify: FastifyInstance, db: DatabaseService): Promise<void> {
+  /**
+   * Get content owned by the authenticated user or throw 404
+   */
+  function getOwnedContent(request: FastifyRequest, id: string): Content {
+    const user = getAuthenticatedUser(request);
+    const content = db.getContentById(id, user.id);
+    if (!content) {
+      logger.warn('Content not found or not owned by user', { id, userId: user.id });
+      throw ApiErrors.notFound('Content not found or not owned by user');
+    }
+    return content;
+  }
+
+  /**
+   * GET /api/content/:id/links
+   * List the links of a note in the order they appear
+   */
+  fastify.get<{ Params: { id: string } }>(
+    '/api/content/:id/links',
+    async (request: FastifyRequest<{ Params: { id: string } }>, _reply: FastifyReply) => {
+      const content = getOwnedContent(request, request.params.id);
+
+      const links: OutgoingLink[] = db.getContentLinks(content.id).map((link) => {
+        const target = link.target_id ? db.getContentById(link.target_id, content.user_id ?? undefined) : null;
+        return {
+          target: link.target_text,
+          resolved: target !== null,
+          content: target ? toLinkedContent(target) : null,
+        };
+      });
+
+      logger.debug('Content links retrieved', { id: content.id, count: links.length });
+
+      return {
+        success: true,
+        id: content.id,
+        links,
+        count: links.length,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  /**
+   * GET /api/content/:id/backlinks
+   * List the notes linking to a content item (most recently updated first)
+   */
+  fastify.get<{ Params: { id: string } }>(
+    '/api/content/:id/backlinks',
+    async (request: FastifyRequest<{ Params: { id: string } }>, _reply: FastifyReply) => {
+      const content = getOwnedContent(request, request.params.id);
+
+      const backlinks: Backlink[] = db.getBacklinks(content.id, content.user_id).map((source) => {
+        const link = db.getContentLinks(source.id).find((item) => item.target_id === content.id);
+        return {
+          ...toLinkedContent(source),
+          context: link ? getLinkContext(source.extracted_text ?? '', link.target_text) : null,
+        };
+      });
+
+      logger.debug('Content backlinks retrieved', { id: content.id, count: backlinks.length });
+
+      return {
+        success: true,
+        id: content.id,
+        backlinks,
+        count: backlinks.length,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  logger.info('Wiki link routes registered');
+}
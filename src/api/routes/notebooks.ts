@@ -0,0 +1,256 @@
+/**
+ * KURA Notes - Notebook Routes
+ *
+ * Endpoints for organizing content in nested notebooks:
+ * - GET /api/notebooks - Get the notebook tree with content counts
+ * - POST /api/notebooks - Create a notebook
+ * - GET /api/notebooks/:id - Browse a notebook (path, nested notebooks and content)
+ * - PATCH /api/notebooks/:id - Rename a notebook or move it to another parent
+ * - DELETE /api/notebooks/:id - Delete a notebook (its content moves to the parent)
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { DatabaseService } from '../../services/database/database.service.js';
+import { NotebookService, NotebookResult } from '../../services/notebookService.js';
+import { ApiErrors } from '../types/errors.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+/**
+ * Notebook body for create and update requests
+ */
+interface NotebookBody {
+  name?: string;
+  parentId?: string | null; // null = top level
+}
+
+/**
+ * Browse query parameters
+ */
+interface BrowseQuery {
+  limit?: string;
+  offset?: string;
+  includeNested?: string; // 'true' to include content of nested notebooks
+}
+
+/**
+ * Turn a notebook result into the response body
+ */
+function toResponse(result: NotebookResult) {
+  if (!result.success || !result.notebook) {
+    throw ApiErrors.validationError(result.error || 'Invalid notebook');
+  }
+
+  return {
+    success: true,
+    notebook: result.notebook,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Check the parentId of a request body
+ */
+function validateParentId(parentId: unknown): void {
+  if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+    throw ApiErrors.validationError('parentId must be a notebook ID or null');
+  }
+}
+
+/**
+ * Register notebook routes
+ */
+export async function registerNotebookRoutes(
+  fastify: FastifyInstance,
+  db: DatabaseService,
+  notebookService: NotebookService
+): Promise<void> {
+  /**
+   * GET /api/notebooks
+   * Get the authenticated user's notebooks as a tree
+   */
+  fastify.get('/api/notebooks', async (request: FastifyRequest, _reply: FastifyReply) => {
+    const user = getAuthenticatedUser(request);
+
+    try {
+      const notebooks = notebookService.getTree(user.id);
+
+      return {
+        success: true,
+        notebooks,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      logger.error('Failed to get notebooks', { error, userId: user.id });
+      throw ApiErrors.storageError('Failed to get notebooks');
+    }
+  });
+
+  /**
+   * POST /api/notebooks
+   * Create a notebook (top level, or nested in parentId)
+   */
+  fastify.post<{ Body: NotebookBody }>(
+    '/api/notebooks',
+    async (request: FastifyRequest<{ Body: NotebookBody }>, reply: FastifyReply) => {
+      const user = getAuthenticatedUser(request);
+      const { name, parentId = null } = request.body ?? {};
+
+      if (typeof name !== 'string') {
+        throw ApiErrors.validationError('Notebook name is required');
+      }
+      validateParentId(parentId);
+
+      logger.info('Create notebook request received', { userId: user.id, name, parentId });
+
+      try {
+        const response = toResponse(notebookService.createNotebook(user.id, name, parentId));
+        return reply.code(201).send(response);
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error creating notebook', { error, userId: user.id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to create notebook'
+        );
+      }
+    }
+  );
+
+  /**
+   * GET /api/notebooks/:id
+   * Browse a notebook: its path, nested notebooks and content (newest first)
+   */
+  fastify.get<{ Params: { id: string }; Querystring: BrowseQuery }>(
+    '/api/notebooks/:id',
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: BrowseQuery }>,
+      _reply: FastifyReply
+    ) => {
+      const user = getAuthenticatedUser(request);
+      const { id } = request.params;
+      const limit = request.query.limit ? parseInt(request.query.limit, 10) : 20;
+      const offset = request.query.offset ? parseInt(request.query.offset, 10) : 0;
+      const includeNested = request.query.includeNested === 'true' || request.query.includeNested === '1';
+
+      if (isNaN(limit) || limit < 1 || limit > 100) {
+        throw ApiErrors.validationError('Limit must be between 1 and 100');
+      }
+
+      if (isNaN(offset) || offset < 0) {
+        throw ApiErrors.validationError('Offset must be 0 or greater');
+      }
+
+      const node = notebookService.getSubtree(id, user.id);
+      if (!node) {
+        throw ApiErrors.notFound('Notebook');
+      }
+
+      try {
+        const { children, ...notebook } = node;
+        const notebookIds = notebookService.resolveNotebookIds(id, user.id, includeNested) ?? [];
+        const items = db.getNotebookContent(user.id, notebookIds, limit, offset).map((item) => ({
+          id: item.id,
+          content_type: item.content_type,
+          title: item.title,
+          annotation: item.annotation,
+          tags: item.tags,
+          source: item.source,
+          notebook_id: item.notebook_id,
+          created_at: item.created_at,
+          updated_at: item.updated_at,
+        }));
+
+        return {
+          success: true,
+          notebook,
+          path: notebookService.getPath(id, user.id),
+          children,
+          items,
+          count: items.length,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        logger.error('Failed to browse notebook', { error, id, userId: user.id });
+        throw ApiErrors.storageError('Failed to browse notebook');
+      }
+    }
+  );
+
+  /**
+   * PATCH /api/notebooks/:id
+   * Rename a notebook and/or move it (parentId: null moves it to the top level)
+   */
+  fastify.patch<{ Params: { id: string }; Body: NotebookBody }>(
+    '/api/notebooks/:id',
+    async (request: FastifyRequest<{ Params: { id: string }; Body: NotebookBody }>, _reply: FastifyReply) => {
+      const user = getAuthenticatedUser(request);
+      const { id } = request.params;
+      const { name, parentId } = request.body ?? {};
+
+      if (name === undefined && parentId === undefined) {
+        throw ApiErrors.validationError('Provide a new name and/or parentId');
+      }
+      if (name !== undefined && typeof name !== 'string') {
+        throw ApiErrors.validationError('Notebook name must be a string');
+      }
+      validateParentId(parentId);
+
+      if (!notebookService.getNotebook(id, user.id)) {
+        throw ApiErrors.notFound('Notebook');
+      }
+
+      logger.info('Update notebook request received', { id, userId: user.id, name, parentId });
+
+      try {
+        return toResponse(notebookService.updateNotebook(id, user.id, { name, parentId }));
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error updating notebook', { error, id, userId: user.id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to update notebook'
+        );
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/notebooks/:id
+   * Delete a notebook; its content and nested notebooks move up to its parent
+   */
+  fastify.delete<{ Params: { id: string } }>(
+    '/api/notebooks/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, _reply: FastifyReply) => {
+      const user = getAuthenticatedUser(request);
+      const { id } = request.params;
+
+      if (!notebookService.getNotebook(id, user.id)) {
+        throw ApiErrors.notFound('Notebook');
+      }
+
+      try {
+        notebookService.deleteNotebook(id, user.id);
+
+        return {
+          success: true,
+          message: 'Notebook deleted',
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        logger.error('Failed to delete notebook', { error, id, userId: user.id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to delete notebook'
+        );
+      }
+    }
+  );
+
+  logger.info('Notebook routes registered');
+}
@@ -0,0 +1,183 @@
+/**
+ * KURA Notes - Reminder Routes
+ *
+ * Endpoints for reminders and due dates:
+ * - GET /api/reminders - List overdue and upcoming items
+ * - GET /api/reminders/feed - Show whether the calendar feed is enabled
+ * - POST /api/reminders/feed - Create (or rotate) the calendar feed URL
+ * - DELETE /api/reminders/feed - Revoke the calendar feed URL
+ * - GET /api/calendar/:token.ics - Calendar feed of due items (public, the token is the secret)
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { ReminderService } from '../../services/reminderService.js';
+import { config } from '../../config/index.js';
+import { ApiErrors } from '../types/errors.js';
+import type { Content, ContentType } from '../../models/content.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+/**
+ * Content with a reminder or due date
+ * (excludes file_path and extracted_text for cleaner API response)
+ */
+interface ReminderItem {
+  id: string;
+  content_type: ContentType;
+  title: string | null;
+  tags: string[];
+  remind_at: string | null;
+  due_at: string | null;
+  reminder_fired_at: string | null;
+}
+
+/**
+ * Convert content to its API representation
+ */
+function toReminderItem(content: Content): ReminderItem {
+  return {
+    id: content.id,
+    content_type: content.content_type,
+    title: content.title,
+    tags: content.tags,
+    remind_at: content.remind_at,
+    due_at: content.due_at,
+    reminder_fired_at: content.reminder_fired_at,
+  };
+}
+
+/**
+ * Public base URL of the server (API_BASE_URL, or inferred from the request)
+ * Only used for links inside the feed: feed URLs are only handed out with API_BASE_URL set
+ */
+function getBaseUrl(request: FastifyRequest): string {
+  if (config.apiBaseUrl) {
+    return config.apiBaseUrl.replace(/\/$/, '');
+  }
+  return `${request.protocol}://${request.headers.host || `localhost:${config.apiPort}`}`;
+}
+
+/**
+ * Register reminder routes
+ */
+export async function registerReminderRoutes(
+  fastify: FastifyInstance,
+  reminderService: ReminderService
+): Promise<void> {
+  /**
+   * GET /api/reminders
+   * List overdue items and items with a reminder or due date in the next days
+   */
+  fastify.get<{ Querystring: { days?: string; limit?: string } }>(
+    '/api/reminders',
+    async (
+      request: FastifyRequest<{ Querystring: { days?: string; limit?: string } }>,
+      _reply: FastifyReply
+    ) => {
+      const user = getAuthenticatedUser(request);
+
+      const days = request.query.days ? parseInt(request.query.days, 10) : 7;
+      const limit = request.query.limit ? parseInt(request.query.limit, 10) : 100;
+
+      if (isNaN(days) || days < 0 || days > 365) {
+        throw ApiErrors.validationError('Days must be between 0 and 365');
+      }
+      if (isNaN(limit) || limit < 1 || limit > 500) {
+        throw ApiErrors.validationError('Limit must be between 1 and 500');
+      }
+
+      const { overdue, upcoming } = reminderService.list(user.id, days, limit);
+
+      logger.debug('Reminders listed', { userId: user.id, overdue: overdue.length, upcoming: upcoming.length });
+
+      return {
+        success: true,
+        overdue: overdue.map(toReminderItem),
+        upcoming: upcoming.map(toReminderItem),
+        days,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  /**
+   * GET /api/reminders/feed
+   * Show whether the calendar feed is enabled (the feed URL is only shown when created)
+   */
+  fastify.get('/api/reminders/feed', async (request: FastifyRequest, _reply: FastifyReply) => {
+    const user = getAuthenticatedUser(request);
+    const feed = reminderService.getFeedStatus(user.id);
+
+    return {
+      success: true,
+      enabled: feed !== null,
+      created_at: feed?.created_at ?? null,
+      timestamp: new Date().toISOString(),
+    };
+  });
+
+  /**
+   * POST /api/reminders/feed
+   * Create the calendar feed URL (a previous URL stops working)
+   * Requires API_BASE_URL, so the secret URL never depends on the request's Host header
+   */
+  fastify.post('/api/reminders/feed', async (request: FastifyRequest, _reply: FastifyReply) => {
+    const user = getAuthenticatedUser(request);
+
+    if (!config.apiBaseUrl) {
+      logger.warn('Calendar feed requested, but API_BASE_URL is not set', { userId: user.id });
+      throw ApiErrors.serviceUnavailable('Calendar feed');
+    }
+
+    const token = reminderService.createFeedToken(user.id);
+
+    return {
+      success: true,
+      url: `${config.apiBaseUrl.replace(/\/$/, '')}/api/calendar/${token}.ics`,
+      message: 'Calendar feed created. Keep the URL secret: anyone with it can read your due items.',
+      timestamp: new Date().toISOString(),
+    };
+  });
+
+  /**
+   * DELETE /api/reminders/feed
+   * Revoke the calendar feed URL
+   */
+  fastify.delete('/api/reminders/feed', async (request: FastifyRequest, _reply: FastifyReply) => {
+    const user = getAuthenticatedUser(request);
+
+    if (!reminderService.revokeFeed(user.id)) {
+      throw ApiErrors.notFound('Calendar feed');
+    }
+
+    return {
+      success: true,
+      message: 'Calendar feed revoked',
+      timestamp: new Date().toISOString(),
+    };
+  });
+
+  /**
+   * GET /api/calendar/:token.ics
+   * Calendar feed of the items with a due date (no session: calendar apps only know the URL)
+   */
+  fastify.get<{ Params: { token: string } }>(
+    '/api/calendar/:token',
+    async (request: FastifyRequest<{ Params: { token: string } }>, reply: FastifyReply) => {
+      const token = request.params.token.replace(/\.ics$/, '');
+
+      const feed = reminderService.buildFeed(token, getBaseUrl(request));
+      if (feed === null) {
+        throw ApiErrors.notFound('Calendar feed');
+      }
+
+      logger.debug('Calendar feed served');
+
+      reply.header('Content-Type', 'text/calendar; charset=utf-8');
+      reply.header('Cache-Control', 'private, max-age=300');
+      return reply.send(feed);
+    }
+  );
+
+  logger.info('Reminder routes registered');
+}
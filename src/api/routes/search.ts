@@ -1,15 +1,18 @@
 /**
  * KURA Notes - Search Routes
  *
- * Endpoints for semantic search with FTS fallback
+ * Endpoints for semantic search with FTS fallback:
+ * - GET /api/search - Search by natural language query
+ * - GET /api/content/:id/related - Find content similar to a content item
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { logger } from '../../utils/logger.js';
 import { DatabaseService } from '../../services/database/database.service.js';
 import { EmbeddingService } from '../../services/embeddingService.js';
-import { VectorStoreService } from '../../services/vectorStore.js';
+import type { VectorStore } from '../../services/vectorStore.js';
 import { SearchService } from '../../services/searchService.js';
+import { NotebookService } from '../../services/notebookService.js';
 import { ApiErrors } from '../types/errors.js';
 import type { ContentType, SearchFilters } from '../../models/content.js';
 import { getAuthenticatedUser } from '../middleware/auth.js';
@@ -23,6 +26,7 @@ interface SearchResultItem {
   excerpt: string;
   contentType: ContentType;
   relevanceScore: number;
+  matchedPages?: number[];
   metadata: {
     tags: string[];
     createdAt: string;
@@ -31,6 +35,7 @@ interface SearchResultItem {
     annotation: string | null;
     imageMetadata?: any;
     pdfMetadata?: any;
+    notebookId: string | null;
   };
 }
 
@@ -53,9 +58,25 @@ interface SearchQueryParams {
   query: string;
   limit?: string; // Query params are always strings
   contentType?: string; // Comma-separated list of content types
-  tags?: string; // Comma-separated list of tags
+  tags?: string; // Comma-separated list of tags, any of them (nested tags included, e.g. project/kura)
   dateFrom?: string; // ISO 8601 date string
   dateTo?: string; // ISO 8601 date string
+  notebookId?: string; // Only content in this notebook
+  includeNested?: string; // 'true' to include the notebooks nested in notebookId
+  takenFrom?: string; // ISO 8601 date, images taken at or after (EXIF)
+  takenTo?: string; // ISO 8601 date, images taken at or before (EXIF)
+  camera?: string; // Images whose camera make or model contains this text
+  hasLocation?: string; // 'true' for images with a GPS position, 'false' for images without
+}
+
+/**
+ * Related content response
+ */
+interface RelatedResponse {
+  id: string;
+  results: SearchResultItem[];
+  totalResults: number;
+  timestamp: string;
 }
 
 /**
@@ -82,7 +103,7 @@ const searchSchema = {
       },
       tags: {
         type: 'string',
-        description: 'Comma-separated list of tags to filter by',
+        description: 'Comma-separated list of tags to filter by (any of them; a tag also matches the tags nested in it)',
       },
       dateFrom: {
         type: 'string',
@@ -92,6 +113,33 @@ const searchSchema = {
         type: 'string',
         description: 'Filter by created_at <= this ISO 8601 date',
       },
+      notebookId: {
+        type: 'string',
+        description: 'Only return content in this notebook',
+      },
+      includeNested: {
+        type: 'string',
+        enum: ['true', 'false', '1', '0'],
+        description: 'Include content of notebooks nested in notebookId',
+      },
+      takenFrom: {
+        type: 'string',
+        description: 'Only images taken (EXIF date) on or after this ISO 8601 date',
+      },
+      takenTo: {
+        type: 'string',
+        description: 'Only images taken (EXIF date) on or before this ISO 8601 date',
+      },
+      camera: {
+        type: 'string',
+        minLength: 1,
+        description: 'Only images whose camera make or model contains this text',
+      },
+      hasLocation: {
+        type: 'string',
+        enum: ['true', 'false', '1', '0'],
+        description: 'Only images with (true) or without (false) a GPS position',
+      },
     },
   },
   response: {
@@ -110,6 +158,7 @@ const searchSchema = {
               excerpt: { type: 'string' },
               contentType: { type: 'string', enum: ['text', 'image', 'pdf', 'audio'] },
               relevanceScore: { type: 'number', minimum: 0, maximum: 1 },
+              matchedPages: { type: 'array', items: { type: 'number' } },
               metadata: {
                 type: 'object',
                 properties: {
@@ -118,6 +167,7 @@ const searchSchema = {
                   updatedAt: { type: 'string', format: 'date-time' },
                   source: { type: ['string', 'null'] },
                   annotation: { type: ['string', 'null'] },
+                  notebookId: { type: ['string', 'null'] },
                 },
               },
             },
@@ -136,6 +186,11 @@ const searchSchema = {
             tags: { type: 'array', items: { type: 'string' } },
             dateFrom: { type: 'string' },
             dateTo: { type: 'string' },
+            notebookIds: { type: 'array', items: { type: 'string' } },
+            takenFrom: { type: 'string' },
+            takenTo: { type: 'string' },
+            camera: { type: 'string' },
+            hasLocation: { type: 'boolean' },
           },
         },
         timestamp: { type: 'string', format: 'date-time' },
@@ -226,6 +281,34 @@ function parseFilters(params: SearchQueryParams): SearchFilters {
     }
   }
 
+  // Parse EXIF filters of images
+  for (const key of ['takenFrom', 'takenTo'] as const) {
+    const value = params[key];
+    if (value) {
+      if (isNaN(new Date(value).getTime())) {
+        throw ApiErrors.validationError(`Invalid ${key} format: ${value}. Expected ISO 8601 date string`, {
+          [key]: value,
+        });
+      }
+      filters[key] = value;
+    }
+  }
+
+  if (filters.takenFrom && filters.takenTo && new Date(filters.takenFrom) > new Date(filters.takenTo)) {
+    throw ApiErrors.validationError('takenFrom must be before or equal to takenTo', {
+      takenFrom: filters.takenFrom,
+      takenTo: filters.takenTo,
+    });
+  }
+
+  if (params.camera && params.camera.trim()) {
+    filters.camera = params.camera.trim();
+  }
+
+  if (params.hasLocation !== undefined) {
+    filters.hasLocation = params.hasLocation === 'true' || params.hasLocation === '1';
+  }
+
   return filters;
 }
 
@@ -236,7 +319,8 @@ export async function registerSearchRoutes(
   fastify: FastifyInstance,
   db: DatabaseService,
   embeddingService: EmbeddingService,
-  vectorStore: VectorStoreService
+  vectorStore: VectorStore,
+  notebookService: NotebookService
 ): Promise<void> {
   // Create search service instance
   const searchService = new SearchService(db, embeddingService, vectorStore);
@@ -279,6 +363,16 @@ export async function registerSearchRoutes(
       // Parse and validate filters
       const filters = parseFilters(request.query);
 
+      // Resolve the notebook filter to the notebook (and optionally its nested notebooks)
+      if (request.query.notebookId) {
+        const includeNested = request.query.includeNested === 'true' || request.query.includeNested === '1';
+        const notebookIds = notebookService.resolveNotebookIds(request.query.notebookId, user.id, includeNested);
+        if (!notebookIds) {
+          throw ApiErrors.notFound('Notebook');
+        }
+        filters.notebookIds = notebookIds;
+      }
+
       logger.debug('Parsed filters', { filters });
 
       try {
@@ -356,5 +450,55 @@ export async function registerSearchRoutes(
     }
   );
 
+  /**
+   * GET /api/content/:id/related
+   * Find the content most similar to a content item, based on its stored embedding
+   */
+  fastify.get<{ Params: { id: string }; Querystring: { limit?: string } }>(
+    '/api/content/:id/related',
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: { limit?: string } }>,
+      _reply: FastifyReply
+    ): Promise<RelatedResponse> => {
+      const user = getAuthenticatedUser(request);
+      const { id } = request.params;
+
+      const limit = request.query.limit ? parseInt(request.query.limit, 10) : 10;
+      if (isNaN(limit) || limit < 1 || limit > 50) {
+        throw ApiErrors.validationError('Limit must be a number between 1 and 50', { limit: request.query.limit });
+      }
+
+      const content = db.getContentById(id, user.id);
+      if (!content) {
+        logger.warn('Content not found or not owned by user', { id, userId: user.id });
+        throw ApiErrors.notFound('Content not found or not owned by user');
+      }
+
+      let results;
+      try {
+        results = await searchService.findRelated(content.id, user.id, limit);
+      } catch (error) {
+        logger.error('Failed to find related content', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          id,
+        });
+        throw ApiErrors.serviceUnavailable('Vector store');
+      }
+
+      if (!results) {
+        throw ApiErrors.badRequest(
+          `Content has no embedding yet (embedding status: ${content.embedding_status})`
+        );
+      }
+
+      return {
+        id: content.id,
+        results,
+        totalResults: results.length,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
   logger.info('Search routes registered');
 }
@@ -2,7 +2,7 @@
  * KURA Notes - Tags API Routes
  *
  * Endpoints for tag management:
- * - GET /api/tags - Get all tags with usage counts
+ * - GET /api/tags - Get all tags with usage counts (or the tree of nested tags)
  * - GET /api/tags/search - Search tags for autocomplete
  * - PATCH /api/tags/:tagName/rename - Rename a tag
  * - POST /api/tags/merge - Merge tags
@@ -14,6 +14,7 @@ import { TagService } from '../../services/tagService.js';
 import { logger } from '../../utils/logger.js';
 import { ApiErrors } from '../types/errors.js';
 import { getAuthenticatedUser, getOptionalUser } from '../middleware/auth.js';
+import { isTagInNamespace, TAG_PATTERN } from '../../utils/tags.js';
 
 /**
  * Register tag routes
@@ -25,6 +26,7 @@ export async function registerTagRoutes(
   /**
    * GET /api/tags
    * Get all tags with usage counts
+   * With ?tree=true, get the tree of nested tags with rolled-up counts instead
    */
   server.get(
     '/api/tags',
@@ -40,6 +42,11 @@ export async function registerTagRoutes(
               description: 'Maximum number of tags to return',
               default: 100,
             },
+            tree: {
+              type: 'boolean',
+              description: 'Return the tree of nested tags (project/kura/api) with rolled-up counts',
+              default: false,
+            },
           },
         },
         response: {
@@ -56,6 +63,11 @@ export async function registerTagRoutes(
                   },
                 },
               },
+              tree: {
+                type: 'array',
+                // Nodes nest to any depth: { name, tag, count, total, children }
+                items: { type: 'object', additionalProperties: true },
+              },
               total: { type: 'number' },
             },
           },
@@ -64,7 +76,7 @@ export async function registerTagRoutes(
     },
     async (
       request: FastifyRequest<{
-        Querystring: { limit?: number };
+        Querystring: { limit?: number; tree?: boolean };
       }>,
       reply: FastifyReply
     ) => {
@@ -75,8 +87,20 @@ export async function registerTagRoutes(
         logger.debug('GET /api/tags request received', {
           userId: user.id,
           limit: request.query.limit,
+          tree: request.query.tree,
         });
 
+        if (request.query.tree) {
+          // The whole tree: rolled-up counts would be misleading with levels left out
+          const tree = tagService.getTagTree(user.id);
+
+          reply.code(200).send({
+            tree,
+            total: tree.length,
+          });
+          return;
+        }
+
         const limit = request.query.limit || 100;
 
         // Get all tags scoped to user
@@ -195,7 +219,7 @@ export async function registerTagRoutes(
 
   /**
    * PATCH /api/tags/:tagName/rename
-   * Rename a tag across all content
+   * Rename a tag across all content (tags nested in it move along)
    */
   server.patch(
     '/api/tags/:tagName/rename',
@@ -255,6 +279,14 @@ export async function registerTagRoutes(
           throw ApiErrors.validationError('New tag name is required');
         }
 
+        if (!TAG_PATTERN.test(newTag)) {
+          throw ApiErrors.validationError(`Invalid tag format: "${newTag}"`);
+        }
+
+        if (isTagInNamespace(newTag, oldTag) && newTag !== oldTag) {
+          throw ApiErrors.validationError('A tag cannot be moved into a tag nested in it');
+        }
+
         // Rename tag (scoped to user's content)
         const updatedCount = tagService.renameTag(oldTag, newTag, user.id);
 
@@ -281,7 +313,7 @@ export async function registerTagRoutes(
 
   /**
    * POST /api/tags/merge
-   * Merge multiple tags into one
+   * Merge multiple tags into one (tags nested in them move under the target)
    */
   server.post(
     '/api/tags/merge',
@@ -345,6 +377,14 @@ export async function registerTagRoutes(
           throw ApiErrors.validationError('Target tag name is required');
         }
 
+        if (!TAG_PATTERN.test(targetTag)) {
+          throw ApiErrors.validationError(`Invalid tag format: "${targetTag}"`);
+        }
+
+        if (sourceTags.some((sourceTag) => sourceTag !== targetTag && isTagInNamespace(targetTag, sourceTag))) {
+          throw ApiErrors.validationError('Tags cannot be merged into a tag nested in them');
+        }
+
         // Merge tags (scoped to user's content)
         const updatedCount = tagService.mergeTags(sourceTags, targetTag, user.id);
 
@@ -0,0 +1,190 @@
+/**
+ * KURA Notes - Trash Routes
+ *
+ * Endpoints for deleted content:
+ * - GET /api/trash - List trashed content
+ * - POST /api/trash/:id/restore - Restore content from the trash
+ * - DELETE /api/trash/:id - Permanently delete a trashed item
+ * - DELETE /api/trash - Empty the trash
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { TrashService } from '../../services/trashService.js';
+import { config } from '../../config/index.js';
+import { ApiErrors } from '../types/errors.js';
+import type { Content, ContentType } from '../../models/content.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+/**
+ * Trashed content metadata
+ * (excludes file_path and extracted_text for cleaner API response)
+ */
+interface TrashItem {
+  id: string;
+  content_type: ContentType;
+  title: string | null;
+  annotation: string | null;
+  tags: string[];
+  created_at: string;
+  deleted_at: string;
+  purge_at: string | null; // null when trashed content is kept forever
+}
+
+/**
+ * Convert trashed content to its API representation
+ */
+function toTrashItem(content: Content): TrashItem {
+  const deletedAt = content.deleted_at ?? '';
+  let purgeAt: string | null = null;
+
+  if (config.trashRetentionDays > 0 && deletedAt) {
+    // SQLite timestamps are UTC without a zone designator
+    const deletedTime = new Date(`${deletedAt.replace(' ', 'T')}Z`).getTime();
+    purgeAt = new Date(deletedTime + config.trashRetentionDays * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  return {
+    id: content.id,
+    content_type: content.content_type,
+    title: content.title,
+    annotation: content.annotation,
+    tags: content.tags,
+    created_at: content.created_at,
+    deleted_at: deletedAt,
+    purge_at: purgeAt,
+  };
+}
+
+/**
+ * Register trash routes
+ */
+export async function registerTrashRoutes(
+  fastify: FastifyInstance,
+  trashService: TrashService
+): Promise<void> {
+  /**
+   * GET /api/trash
+   * List trashed content (most recently deleted first)
+   */
+  fastify.get<{ Querystring: { limit?: string; offset?: string } }>(
+    '/api/trash',
+    async (
+      request: FastifyRequest<{ Querystring: { limit?: string; offset?: string } }>,
+      _reply: FastifyReply
+    ) => {
+      const user = getAuthenticatedUser(request);
+
+      const limit = request.query.limit ? parseInt(request.query.limit, 10) : 50;
+      const offset = request.query.offset ? parseInt(request.query.offset, 10) : 0;
+
+      if (isNaN(limit) || limit < 1 || limit > 100) {
+        throw ApiErrors.validationError('Limit must be between 1 and 100');
+      }
+      if (isNaN(offset) || offset < 0) {
+        throw ApiErrors.validationError('Offset must be 0 or greater');
+      }
+
+      const { items, total } = trashService.list(user.id, limit, offset);
+
+      logger.debug('Trash listed', { userId: user.id, count: items.length, total });
+
+      return {
+        success: true,
+        items: items.map(toTrashItem),
+        count: items.length,
+        total,
+        retention_days: config.trashRetentionDays,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  /**
+   * POST /api/trash/:id/restore
+   * Restore content from the trash
+   */
+  fastify.post<{ Params: { id: string } }>(
+    '/api/trash/:id/restore',
+    async (request: FastifyRequest<{ Params: { id: string } }>, _reply: FastifyReply) => {
+      const { id } = request.params;
+      const user = getAuthenticatedUser(request);
+
+      const restored = trashService.restore(id, user.id);
+      if (!restored) {
+        throw ApiErrors.notFound('Content in trash');
+      }
+
+      logger.info('Content restored from trash', { id, userId: user.id });
+
+      return {
+        success: true,
+        id: restored.id,
+        message: 'Content restored successfully',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  /**
+   * DELETE /api/trash/:id
+   * Permanently delete a trashed item (file, thumbnail and embeddings)
+   */
+  fastify.delete<{ Params: { id: string } }>(
+    '/api/trash/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, _reply: FastifyReply) => {
+      const { id } = request.params;
+      const user = getAuthenticatedUser(request);
+
+      try {
+        const deleted = await trashService.deletePermanently(id, user.id);
+        if (!deleted) {
+          throw ApiErrors.notFound('Content in trash');
+        }
+
+        return {
+          success: true,
+          id,
+          message: 'Content deleted permanently',
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error deleting content permanently', { error, id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to delete content'
+        );
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/trash
+   * Empty the trash
+   */
+  fastify.delete('/api/trash', async (request: FastifyRequest, _reply: FastifyReply) => {
+    const user = getAuthenticatedUser(request);
+
+    try {
+      const deleted = await trashService.empty(user.id);
+
+      return {
+        success: true,
+        deleted,
+        message: `Deleted ${deleted} items permanently`,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      logger.error('Unexpected error emptying trash', { error, userId: user.id });
+      throw ApiErrors.storageError(
+        error instanceof Error ? error.message : 'Failed to empty trash'
+      );
+    }
+  });
+
+  logger.info('Trash routes registered');
+}
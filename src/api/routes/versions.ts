@@ -0,0 +1,326 @@
+/**
+ * KURA Notes - Content Version Routes
+ *
+ * Endpoints for the version history of content:
+ * - GET /api/content/:id/versions - List versions (newest first)
+ * - GET /api/content/:id/versions/diff - Diff two versions
+ * - GET /api/content/:id/versions/:version - Get a single version
+ * - POST /api/content/:id/versions/:version/restore - Restore a version
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { logger } from '../../utils/logger.js';
+import { diffLines, DiffLine } from '../../utils/diff.js';
+import { DatabaseService } from '../../services/database/database.service.js';
+import { FileStorageService } from '../../services/fileStorage.js';
+import { EmbeddingPipelineService } from '../../services/embeddingPipeline.js';
+import { ApiErrors } from '../types/errors.js';
+import type { Content, ContentVersion, VersionChangeSource } from '../../models/content.js';
+import { getAuthenticatedUser } from '../middleware/auth.js';
+
+/**
+ * Version summary for the history list
+ * (excludes extracted_text, which can be large)
+ */
+interface VersionSummary {
+  version: number;
+  title: string | null;
+  annotation: string | null;
+  tags: string[];
+  change_source: VersionChangeSource;
+  text_length: number;
+  created_at: string;
+}
+
+/**
+ * Change of a single text field between two versions
+ */
+interface FieldChange {
+  before: string | null;
+  after: string | null;
+  changed: boolean;
+}
+
+/**
+ * Differences between two versions
+ */
+interface VersionDiff {
+  title: FieldChange;
+  annotation: FieldChange;
+  tags: { added: string[]; removed: string[] };
+  extracted_text: { changed: boolean; lines: DiffLine[] };
+}
+
+/**
+ * Build the summary of a version
+ */
+function toSummary(version: ContentVersion): VersionSummary {
+  return {
+    version: version.version,
+    title: version.title,
+    annotation: version.annotation,
+    tags: version.tags,
+    change_source: version.change_source,
+    text_length: version.extracted_text?.length ?? 0,
+    created_at: version.created_at,
+  };
+}
+
+/**
+ * Compare two versions field by field
+ */
+function diffVersions(from: ContentVersion, to: ContentVersion): VersionDiff {
+  const lines = diffLines(from.extracted_text, to.extracted_text);
+
+  return {
+    title: { before: from.title, after: to.title, changed: from.title !== to.title },
+    annotation: {
+      before: from.annotation,
+      after: to.annotation,
+      changed: from.annotation !== to.annotation,
+    },
+    tags: {
+      added: to.tags.filter((tag) => !from.tags.includes(tag)),
+      removed: from.tags.filter((tag) => !to.tags.includes(tag)),
+    },
+    extracted_text: {
+      changed: (from.extracted_text ?? '') !== (to.extracted_text ?? ''),
+      lines,
+    },
+  };
+}
+
+/**
+ * Parse a version number from a path or query parameter
+ */
+function parseVersion(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw ApiErrors.validationError(`${name} must be a positive integer`);
+  }
+  return version;
+}
+
+/**
+ * Register content version routes
+ */
+export async function registerVersionRoutes(
+  fastify: FastifyInstance,
+  db: DatabaseService,
+  fileStorage: FileStorageService,
+  embeddingPipeline: EmbeddingPipelineService
+): Promise<void> {
+  /**
+   * Get content owned by the authenticated user or throw 404
+   */
+  function getOwnedContent(request: FastifyRequest, id: string): Content {
+    const user = getAuthenticatedUser(request);
+    const content = db.getContentById(id, user.id);
+    if (!content) {
+      logger.warn('Content not found or not owned by user', { id, userId: user.id });
+      throw ApiErrors.notFound('Content not found or not owned by user');
+    }
+    return content;
+  }
+
+  /**
+   * Get a version or throw 404
+   */
+  function getVersionOrThrow(id: string, version: number): ContentVersion {
+    const found = db.getContentVersion(id, version);
+    if (!found) {
+      throw ApiErrors.notFound(`Version ${version}`);
+    }
+    return found;
+  }
+
+  /**
+   * GET /api/content/:id/versions
+   * List the version history of a content item (newest first)
+   */
+  fastify.get<{ Params: { id: string } }>(
+    '/api/content/:id/versions',
+    async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      _reply: FastifyReply
+    ): Promise<{ success: true; id: string; versions: VersionSummary[]; count: number; timestamp: string }> => {
+      const { id } = request.params;
+      const content = getOwnedContent(request, id);
+
+      const versions = db.getContentVersions(content.id).map(toSummary);
+
+      logger.debug('Content versions retrieved', { id, count: versions.length });
+
+      return {
+        success: true,
+        id: content.id,
+        versions,
+        count: versions.length,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  /**
+   * GET /api/content/:id/versions/diff?from=&to=
+   * Diff two versions (defaults: `to` = latest, `from` = the version before `to`)
+   */
+  fastify.get<{ Params: { id: string }; Querystring: { from?: string; to?: string } }>(
+    '/api/content/:id/versions/diff',
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: { from?: string; to?: string } }>,
+      _reply: FastifyReply
+    ): Promise<{ success: true; id: string; from: number; to: number; changes: VersionDiff; timestamp: string }> => {
+      const { id } = request.params;
+      const content = getOwnedContent(request, id);
+
+      const latest = db.getContentVersions(content.id)[0];
+      if (!latest) {
+        throw ApiErrors.notFound('Version history');
+      }
+
+      const toVersion = parseVersion(request.query.to, 'to') ?? latest.version;
+      const fromVersion = parseVersion(request.query.from, 'from') ?? Math.max(1, toVersion - 1);
+
+      const from = getVersionOrThrow(content.id, fromVersion);
+      const to = getVersionOrThrow(content.id, toVersion);
+
+      return {
+        success: true,
+        id: content.id,
+        from: from.version,
+        to: to.version,
+        changes: diffVersions(from, to),
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  /**
+   * GET /api/content/:id/versions/:version
+   * Get a single version including its full text
+   */
+  fastify.get<{ Params: { id: string; version: string } }>(
+    '/api/content/:id/versions/:version',
+    async (
+      request: FastifyRequest<{ Params: { id: string; version: string } }>,
+      _reply: FastifyReply
+    ): Promise<{ success: true; version: ContentVersion; timestamp: string }> => {
+      const { id } = request.params;
+      const content = getOwnedContent(request, id);
+      const versionNumber = parseVersion(request.params.version, 'version')!;
+
+      return {
+        success: true,
+        version: getVersionOrThrow(content.id, versionNumber),
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+
+  /**
+   * POST /api/content/:id/versions/:version/restore
+   * Restore title, annotation, tags and text of a version and re-trigger embedding
+   * The restore is recorded as a new version, so it can be undone as well
+   */
+  fastify.post<{ Params: { id: string; version: string } }>(
+    '/api/content/:id/versions/:version/restore',
+    async (
+      request: FastifyRequest<{ Params: { id: string; version: string } }>,
+      _reply: FastifyReply
+    ): Promise<{
+      success: true;
+      id: string;
+      restored_version: number;
+      current_version: number;
+      message: string;
+      timestamp: string;
+    }> => {
+      const { id } = request.params;
+      const user = getAuthenticatedUser(request);
+      const content = getOwnedContent(request, id);
+      const versionNumber = parseVersion(request.params.version, 'version')!;
+      const version = getVersionOrThrow(content.id, versionNumber);
+
+      logger.debug('Content version restore request', { id, userId: user.id, version: versionNumber });
+
+      try {
+        // Text notes keep their body in the stored file as well
+        if (content.content_type === 'text') {
+          const writeResult = await fileStorage.writeTextContent(
+            content.id,
+            version.extracted_text ?? '',
+            user.id
+          );
+          if (!writeResult.success) {
+            throw ApiErrors.storageError(writeResult.error || 'Failed to restore note text');
+          }
+        }
+
+        let restored: Content | null = null;
+        try {
+          restored = db.updateContent(
+            content.id,
+            user.id,
+            {
+              title: version.title,
+              annotation: version.annotation,
+              tags: version.tags,
+              // Only notes always have text; files without extracted text keep NULL
+              extracted_text:
+                content.content_type === 'text' ? (version.extracted_text ?? '') : version.extracted_text,
+            },
+            'restore'
+          );
+        } finally {
+          // Put the previous text back if the database was not updated, so file and record never disagree
+          if (!restored && content.content_type === 'text') {
+            await fileStorage.writeTextContent(content.id, content.extracted_text ?? '', user.id);
+          }
+        }
+
+        if (!restored) {
+          logger.error('Failed to restore content version', { id, version: versionNumber });
+          throw ApiErrors.storageError('Failed to restore content version');
+        }
+
+        // Regenerate embeddings for the restored state (runs in background)
+        embeddingPipeline.queueReprocess(restored);
+
+        const currentVersion = db.getContentVersions(content.id)[0]?.version ?? versionNumber;
+
+        logger.info('Content version restored successfully', {
+          id,
+          userId: user.id,
+          restoredVersion: versionNumber,
+          currentVersion,
+        });
+
+        return {
+          success: true,
+          id: content.id,
+          restored_version: versionNumber,
+          current_version: currentVersion,
+          message: `Version ${versionNumber} restored successfully`,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        // If it's already an API error, re-throw it
+        if (error && typeof error === 'object' && 'statusCode' in error) {
+          throw error;
+        }
+
+        logger.error('Unexpected error restoring content version', { error, id });
+        throw ApiErrors.storageError(
+          error instanceof Error ? error.message : 'Failed to restore content version'
+        );
+      }
+    }
+  );
+
+  logger.info('Content version routes registered');
+}
@@ -29,15 +29,34 @@ import { registerAuthRoutes } from './routes/auth.js';
 import { registerOAuthRoutes } from './routes/oauth.js';
 import { registerCaptureRoutes } from './routes/capture.js';
 import { registerContentRoutes } from './routes/content.js';
+import { registerVersionRoutes } from './routes/versions.js';
+import { registerLinkRoutes } from './routes/links.js';
+import { registerTrashRoutes } from './routes/trash.js';
+import { registerReminderRoutes } from './routes/reminders.js';
+import { registerJobRoutes } from './routes/jobs.js';
+import { registerExportRoutes } from './routes/export.js';
+import { registerImportRoutes } from './routes/import.js';
+import { registerBackupRoutes } from './routes/backup.js';
+import { registerNotebookRoutes } from './routes/notebooks.js';
+import { registerDuplicateRoutes } from './routes/duplicates.js';
 import { registerSearchRoutes } from './routes/search.js';
 import { registerTagRoutes } from './routes/tags.js';
 import { registerStatsRoutes } from './routes/stats.js';
 import { getFileStorageService } from '../services/fileStorage.js';
 import { getDatabaseService } from '../services/database/database.service.js';
 import { getEmbeddingService } from '../services/embeddingService.js';
-import { getVectorStoreService } from '../services/vectorStore.js';
+import { getVectorStore } from '../services/vectorStore.js';
 import { EmbeddingPipelineService } from '../services/embeddingPipeline.js';
 import { getTagService } from '../services/tagService.js';
+import { getTrashService } from '../services/trashService.js';
+import { getReminderService } from '../services/reminderService.js';
+import { getEmbeddingQueue } from '../services/embeddingQueue.js';
+import { getExportService } from '../services/exportService.js';
+import { getImportService } from '../services/importService.js';
+import { getBackupService } from '../services/backupService.js';
+import { getNotebookService } from '../services/notebookService.js';
+import { getDuplicateService } from '../services/duplicateService.js';
+import { getWebCaptureService } from '../services/webCaptureService.js';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -246,8 +265,17 @@ async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   const db = getDatabaseService();
   const fileStorage = getFileStorageService();
   const embeddingService = getEmbeddingService();
-  const vectorStore = getVectorStoreService();
-  const tagService = getTagService(db);
+  const vectorStore = getVectorStore();
+  const trashService = getTrashService(db, fileStorage, vectorStore);
+  const reminderService = getReminderService(db);
+  const exportService = getExportService(db, fileStorage);
+  const notebookService = getNotebookService(db);
+  const duplicateService = getDuplicateService(db, fileStorage, embeddingService, vectorStore);
+  const webCaptureService = getWebCaptureService({
+    timeout: config.webCaptureTimeout,
+    maxSize: config.webCaptureMaxSize,
+    allowPrivate: config.webCaptureAllowPrivate,
+  });
 
   // Create embedding pipeline service
   const embeddingPipeline = new EmbeddingPipelineService(
@@ -256,6 +284,20 @@ async function registerRoutes(fastify: FastifyInstance): Promise<void> {
     db
   );
 
+  // Embedding jobs are processed by the queue (started once the server listens)
+  getEmbeddingQueue(db, embeddingPipeline);
+
+  // Tag changes refresh vector metadata through the embedding pipeline
+  const tagService = getTagService(db, embeddingPipeline);
+
+  // Imported items are stored like uploads, embeddings are queued after the import
+  const importService = getImportService(fileStorage, embeddingPipeline, {
+    maxEntrySize: config.maxFileSize,
+  });
+
+  // Restored content without vectors is re-embedded through the pipeline
+  const backupService = getBackupService(db, fileStorage, vectorStore, embeddingPipeline);
+
   // Root route - redirect to login if not authenticated
   fastify.get('/', async (request, reply) => {
     const user = getOptionalUser(request);
@@ -277,13 +319,43 @@ async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   await registerAuthRoutes(fastify);
 
   // Content capture routes (Task 1.7 + Task 2.3)
-  await registerCaptureRoutes(fastify, fileStorage, embeddingPipeline);
+  await registerCaptureRoutes(fastify, fileStorage, embeddingPipeline, duplicateService, webCaptureService);
 
   // Content retrieval routes (Task 1.10 + Task 1.12)
-  await registerContentRoutes(fastify, db, fileStorage, vectorStore);
+  await registerContentRoutes(fastify, db, fileStorage, trashService, embeddingPipeline, notebookService);
+
+  // Content version history routes
+  await registerVersionRoutes(fastify, db, fileStorage, embeddingPipeline);
+
+  // Wiki link and backlink routes
+  await registerLinkRoutes(fastify, db);
+
+  // Notebook routes (nested collections)
+  await registerNotebookRoutes(fastify, db, notebookService);
+
+  // Duplicate report routes
+  await registerDuplicateRoutes(fastify, duplicateService);
+
+  // Trash routes (soft-deleted content)
+  await registerTrashRoutes(fastify, trashService);
+
+  // Reminder and calendar feed routes
+  await registerReminderRoutes(fastify, reminderService);
+
+  // Embedding job queue routes
+  await registerJobRoutes(fastify, db, embeddingPipeline);
+
+  // Library export routes
+  await registerExportRoutes(fastify, exportService);
+
+  // Library import routes
+  await registerImportRoutes(fastify, importService);
+
+  // Portable backup and restore routes
+  await registerBackupRoutes(fastify, backupService);
 
   // Search routes (Task 2.4)
-  await registerSearchRoutes(fastify, db, embeddingService, vectorStore);
+  await registerSearchRoutes(fastify, db, embeddingService, vectorStore, notebookService);
 
   // Tag routes (Task 3.4)
   await registerTagRoutes(fastify, tagService);
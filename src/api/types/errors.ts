@@ -48,6 +48,7 @@ export enum ErrorCode {
   SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
   VECTOR_STORE_ERROR = 'VECTOR_STORE_ERROR',
   EMBEDDING_ERROR = 'EMBEDDING_ERROR',
+  FETCH_FAILED = 'FETCH_FAILED',
 
   // Generic Errors
   INTERNAL_ERROR = 'INTERNAL_ERROR',
@@ -104,6 +105,9 @@ export const ApiErrors = {
   notFound: (resource = 'Resource'): ApiError =>
     new ApiError(ErrorCode.NOT_FOUND, `${resource} not found`, 404),
 
+  alreadyExists: (message: string, details?: unknown): ApiError =>
+    new ApiError(ErrorCode.ALREADY_EXISTS, message, 409, details),
+
   validationError: (message: string, details?: unknown): ApiError =>
     new ApiError(ErrorCode.VALIDATION_ERROR, message, 400, details),
 
@@ -124,6 +128,9 @@ export const ApiErrors = {
   databaseError: (message = 'Database operation failed'): ApiError =>
     new ApiError(ErrorCode.DATABASE_ERROR, message, 500),
 
+  fetchFailed: (message: string): ApiError =>
+    new ApiError(ErrorCode.FETCH_FAILED, message, 502),
+
   serviceUnavailable: (service: string): ApiError =>
     new ApiError(
       ErrorCode.SERVICE_UNAVAILABLE,
@@ -34,11 +34,13 @@ export interface Config {
 
   // Access Control
   allowedEmails?: string[]; // Email whitelist for signup control (empty = allow all)
+  adminEmails?: string[]; // Users allowed to back up and restore the whole instance
 
   // Database
   databaseUrl: string;
 
   // Vector Store
+  vectorStoreBackend: 'chroma' | 'sqlite';
   vectorStoreUrl: string;
   vectorDbKey?: string;
 
@@ -48,9 +50,57 @@ export interface Config {
   openaiProject?: string;
   openaiEmbeddingModel: string;
 
+  // Embedding provider
+  embeddingProvider: 'openai' | 'openai-compatible' | 'local';
+  embeddingApiUrl?: string; // OpenAI-compatible server base URL (e.g. Ollama)
+  embeddingApiKey?: string; // Optional bearer token for the compatible server
+  embeddingModel: string; // Model name for the compatible server
+  embeddingDimensions: number; // Vector size of the local provider
+
+  // Audio transcription
+  transcriptionProvider: 'openai' | 'openai-compatible' | 'none';
+  transcriptionApiUrl?: string; // OpenAI-compatible server base URL (e.g. faster-whisper-server)
+  transcriptionApiKey?: string; // Optional bearer token for the compatible server
+  transcriptionModel: string;
+  transcriptionTimeout: number; // Milliseconds before a transcription request is aborted
+
+  // Image text extraction (OCR)
+  imageTextProvider: 'openai' | 'openai-compatible' | 'none';
+  imageTextApiUrl?: string; // OpenAI-compatible server base URL (e.g. Ollama with a vision model)
+  imageTextApiKey?: string; // Optional bearer token for the compatible server
+  imageTextModel: string; // Vision model that reads the images
+  imageTextTimeout: number; // Milliseconds before an image text request is aborted
+  imageCaptions: boolean; // Also store a generated caption of each image
+  imageStripLocation: boolean; // Remove GPS data from stored images by default
+
+  // Image thumbnails and resizing
+  thumbnailSizes: number[]; // Bounding box sizes of generated thumbnails in pixels (first = default thumbnail)
+  thumbnailFormat: 'jpeg' | 'webp' | 'avif'; // Output format of thumbnails and resized images
+  thumbnailQuality: number; // Encoder quality of thumbnails and resized images (1-100)
+  imageResizeMaxSize: number; // Largest width/height served by the image resize endpoint
+
+  // Embedding chunking
+  embeddingChunkSize: number; // Characters per embedded chunk
+  embeddingChunkOverlap: number; // Characters shared between consecutive chunks
+
+  // Embedding job queue
+  embeddingQueueConcurrency: number; // Jobs processed in parallel
+  embeddingJobMaxAttempts: number; // Attempts before a job is dead-lettered
+  embeddingJobRetryDelay: number; // Seconds before the first retry (doubles with every attempt)
+
+  // Duplicate detection
+  duplicateSimilarityThreshold: number; // Minimum similarity (0-1) for notes to count as near-duplicates
+
+  // Web page capture
+  webCaptureTimeout: number; // Milliseconds before fetching a web page is aborted
+  webCaptureMaxSize: number; // Maximum size of a fetched web page in bytes
+  webCaptureAllowPrivate: boolean; // Allow fetching pages on loopback, private and link-local addresses
+
   // Storage
   storageBasePath: string;
   maxFileSize: number;
+  maxBackupSize: number; // Maximum size of an uploaded backup archive in bytes
+  trashRetentionDays: number; // Days before trashed content is purged (0 = keep forever)
 
   // Logging
   logLevel: 'error' | 'warn' | 'info' | 'debug';
@@ -106,6 +156,46 @@ function getEnvInt(key: string, defaultValue: number): number {
   return parsed;
 }
 
+/**
+ * Parse number from environment variable
+ */
+function getEnvFloat(key: string, defaultValue: number): number {
+  const value = process.env[key];
+
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const parsed = parseFloat(value);
+
+  if (isNaN(parsed)) {
+    throw new Error(`Environment variable ${key} must be a valid number`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse boolean from environment variable (true/false, 1/0, yes/no)
+ */
+function getEnvBool(key: string, defaultValue: boolean): boolean {
+  const value = process.env[key];
+
+  if (value === undefined || value.trim() === '') {
+    return defaultValue;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) {
+    return true;
+  }
+  if (['false', '0', 'no'].includes(normalized)) {
+    return false;
+  }
+
+  throw new Error(`Environment variable ${key} must be true or false`);
+}
+
 /**
  * Validate and normalize database path
  */
@@ -131,6 +221,18 @@ function parseEmailList(value: string | undefined): string[] | undefined {
     .filter(email => email.length > 0);
 }
 
+/**
+ * Parse comma-separated list of pixel sizes
+ * Entries that are not numbers are kept as NaN so validation can report them
+ */
+function parseSizeList(value: string): number[] {
+  return value
+    .split(',')
+    .map(size => size.trim())
+    .filter(size => size.length > 0)
+    .map(size => (/^\d+$/.test(size) ? parseInt(size, 10) : NaN));
+}
+
 /**
  * Load configuration from environment variables
  */
@@ -157,6 +259,7 @@ export function loadConfig(): Config {
 
     // Access Control
     allowedEmails: parseEmailList(getOptionalEnv('ALLOWED_EMAILS')),
+    adminEmails: parseEmailList(getOptionalEnv('ADMIN_EMAILS')),
 
     // Database
     databaseUrl: normalizeDatabasePath(
@@ -164,6 +267,7 @@ export function loadConfig(): Config {
     ),
 
     // Vector Store
+    vectorStoreBackend: getEnv('VECTOR_STORE_BACKEND', 'chroma') as Config['vectorStoreBackend'],
     vectorStoreUrl: getEnv('VECTOR_STORE_URL', 'http://localhost:8000'),
     vectorDbKey: getOptionalEnv('VECTOR_DB_KEY'),
 
@@ -173,9 +277,57 @@ export function loadConfig(): Config {
     openaiProject: getOptionalEnv('OPENAI_PROJECT_ID'),
     openaiEmbeddingModel: getEnv('OPENAI_EMBEDDING_MODEL', 'text-embedding-3-small'),
 
+    // Embedding provider
+    embeddingProvider: getEnv('EMBEDDING_PROVIDER', 'openai') as Config['embeddingProvider'],
+    embeddingApiUrl: getEnv('EMBEDDING_API_URL', 'http://localhost:11434/v1'),
+    embeddingApiKey: getOptionalEnv('EMBEDDING_API_KEY'),
+    embeddingModel: getEnv('EMBEDDING_MODEL', 'nomic-embed-text'),
+    embeddingDimensions: getEnvInt('EMBEDDING_DIMENSIONS', 384),
+
+    // Audio transcription
+    transcriptionProvider: getEnv('TRANSCRIPTION_PROVIDER', 'openai') as Config['transcriptionProvider'],
+    transcriptionApiUrl: getEnv('TRANSCRIPTION_API_URL', 'http://localhost:8000/v1'),
+    transcriptionApiKey: getOptionalEnv('TRANSCRIPTION_API_KEY'),
+    transcriptionModel: getEnv('TRANSCRIPTION_MODEL', 'whisper-1'),
+    transcriptionTimeout: getEnvInt('TRANSCRIPTION_TIMEOUT', 300000),
+
+    // Image text extraction (OCR)
+    imageTextProvider: getEnv('IMAGE_TEXT_PROVIDER', 'none') as Config['imageTextProvider'],
+    imageTextApiUrl: getEnv('IMAGE_TEXT_API_URL', 'http://localhost:11434/v1'),
+    imageTextApiKey: getOptionalEnv('IMAGE_TEXT_API_KEY'),
+    imageTextModel: getEnv('IMAGE_TEXT_MODEL', 'gpt-4o-mini'),
+    imageTextTimeout: getEnvInt('IMAGE_TEXT_TIMEOUT', 120000),
+    imageCaptions: getEnvBool('IMAGE_CAPTIONS', false),
+    imageStripLocation: getEnvBool('IMAGE_STRIP_LOCATION', false),
+
+    // Image thumbnails and resizing
+    thumbnailSizes: parseSizeList(getEnv('THUMBNAIL_SIZES', '300,600')),
+    thumbnailFormat: getEnv('THUMBNAIL_FORMAT', 'jpeg') as Config['thumbnailFormat'],
+    thumbnailQuality: getEnvInt('THUMBNAIL_QUALITY', 80),
+    imageResizeMaxSize: getEnvInt('IMAGE_RESIZE_MAX_SIZE', 2048),
+
+    // Embedding chunking
+    embeddingChunkSize: getEnvInt('EMBEDDING_CHUNK_SIZE', 2000),
+    embeddingChunkOverlap: getEnvInt('EMBEDDING_CHUNK_OVERLAP', 200),
+
+    // Embedding job queue
+    embeddingQueueConcurrency: getEnvInt('EMBEDDING_QUEUE_CONCURRENCY', 2),
+    embeddingJobMaxAttempts: getEnvInt('EMBEDDING_JOB_MAX_ATTEMPTS', 5),
+    embeddingJobRetryDelay: getEnvInt('EMBEDDING_JOB_RETRY_DELAY', 30),
+
+    // Duplicate detection
+    duplicateSimilarityThreshold: getEnvFloat('DUPLICATE_SIMILARITY_THRESHOLD', 0.95),
+
+    // Web page capture
+    webCaptureTimeout: getEnvInt('WEB_CAPTURE_TIMEOUT', 15000),
+    webCaptureMaxSize: getEnvInt('WEB_CAPTURE_MAX_SIZE', 5242880), // 5MB default
+    webCaptureAllowPrivate: getEnvBool('WEB_CAPTURE_ALLOW_PRIVATE', false),
+
     // Storage
     storageBasePath: getEnv('STORAGE_BASE_PATH', './data/content'),
     maxFileSize: getEnvInt('MAX_FILE_SIZE', 52428800), // 50MB default
+    maxBackupSize: getEnvInt('MAX_BACKUP_SIZE', 2147483648), // 2GB default
+    trashRetentionDays: getEnvInt('TRASH_RETENTION_DAYS', 30),
 
     // Logging
     logLevel: (getEnv('LOG_LEVEL', 'info') as Config['logLevel']),
@@ -236,10 +388,17 @@ function validateConfig(config: Config): void {
     errors.push(`KOAUTH_URL must be a valid HTTP/HTTPS URL (got: ${config.koauthUrl})`);
   }
 
-  if (!config.vectorStoreUrl) {
-    errors.push('VECTOR_STORE_URL is required');
-  } else if (!isValidUrl(config.vectorStoreUrl)) {
-    errors.push(`VECTOR_STORE_URL must be a valid HTTP/HTTPS URL (got: ${config.vectorStoreUrl})`);
+  if (!['chroma', 'sqlite'].includes(config.vectorStoreBackend)) {
+    errors.push(`VECTOR_STORE_BACKEND must be one of: chroma, sqlite (got: ${config.vectorStoreBackend})`);
+  }
+
+  // ChromaDB URL is only needed for the chroma backend
+  if (config.vectorStoreBackend === 'chroma') {
+    if (!config.vectorStoreUrl) {
+      errors.push('VECTOR_STORE_URL is required');
+    } else if (!isValidUrl(config.vectorStoreUrl)) {
+      errors.push(`VECTOR_STORE_URL must be a valid HTTP/HTTPS URL (got: ${config.vectorStoreUrl})`);
+    }
   }
 
   // Validate port
@@ -261,6 +420,116 @@ function validateConfig(config: Config): void {
   if (config.maxFileSize <= 0) {
     errors.push(`MAX_FILE_SIZE must be a positive integer (got: ${config.maxFileSize})`);
   }
+  if (config.maxBackupSize <= 0) {
+    errors.push(`MAX_BACKUP_SIZE must be a positive integer (got: ${config.maxBackupSize})`);
+  }
+
+  // Validate embedding provider
+  if (!['openai', 'openai-compatible', 'local'].includes(config.embeddingProvider)) {
+    errors.push(
+      `EMBEDDING_PROVIDER must be one of: openai, openai-compatible, local (got: ${config.embeddingProvider})`
+    );
+  }
+  if (
+    config.embeddingProvider === 'openai-compatible' &&
+    (!config.embeddingApiUrl || !isValidUrl(config.embeddingApiUrl))
+  ) {
+    errors.push(`EMBEDDING_API_URL must be a valid HTTP/HTTPS URL (got: ${config.embeddingApiUrl})`);
+  }
+  if (config.embeddingDimensions <= 0) {
+    errors.push(`EMBEDDING_DIMENSIONS must be a positive integer (got: ${config.embeddingDimensions})`);
+  }
+
+  // Validate transcription provider
+  if (!['openai', 'openai-compatible', 'none'].includes(config.transcriptionProvider)) {
+    errors.push(
+      `TRANSCRIPTION_PROVIDER must be one of: openai, openai-compatible, none (got: ${config.transcriptionProvider})`
+    );
+  }
+  if (
+    config.transcriptionProvider === 'openai-compatible' &&
+    (!config.transcriptionApiUrl || !isValidUrl(config.transcriptionApiUrl))
+  ) {
+    errors.push(`TRANSCRIPTION_API_URL must be a valid HTTP/HTTPS URL (got: ${config.transcriptionApiUrl})`);
+  }
+  if (config.transcriptionTimeout <= 0) {
+    errors.push(`TRANSCRIPTION_TIMEOUT must be a positive integer (got: ${config.transcriptionTimeout})`);
+  }
+
+  // Validate image text provider
+  if (!['openai', 'openai-compatible', 'none'].includes(config.imageTextProvider)) {
+    errors.push(
+      `IMAGE_TEXT_PROVIDER must be one of: openai, openai-compatible, none (got: ${config.imageTextProvider})`
+    );
+  }
+  if (
+    config.imageTextProvider === 'openai-compatible' &&
+    (!config.imageTextApiUrl || !isValidUrl(config.imageTextApiUrl))
+  ) {
+    errors.push(`IMAGE_TEXT_API_URL must be a valid HTTP/HTTPS URL (got: ${config.imageTextApiUrl})`);
+  }
+  if (config.imageTextTimeout <= 0) {
+    errors.push(`IMAGE_TEXT_TIMEOUT must be a positive integer (got: ${config.imageTextTimeout})`);
+  }
+
+  // Validate thumbnails and image resizing
+  if (
+    config.thumbnailSizes.length === 0 ||
+    config.thumbnailSizes.some((size) => !Number.isInteger(size) || size < 16 || size > 4096)
+  ) {
+    errors.push(
+      `THUMBNAIL_SIZES must be a comma-separated list of sizes between 16 and 4096 (got: ${config.thumbnailSizes.join(',')})`
+    );
+  }
+  if (!['jpeg', 'webp', 'avif'].includes(config.thumbnailFormat)) {
+    errors.push(`THUMBNAIL_FORMAT must be one of: jpeg, webp, avif (got: ${config.thumbnailFormat})`);
+  }
+  if (config.thumbnailQuality < 1 || config.thumbnailQuality > 100) {
+    errors.push(`THUMBNAIL_QUALITY must be between 1 and 100 (got: ${config.thumbnailQuality})`);
+  }
+  if (config.imageResizeMaxSize < 16 || config.imageResizeMaxSize > 8192) {
+    errors.push(`IMAGE_RESIZE_MAX_SIZE must be between 16 and 8192 (got: ${config.imageResizeMaxSize})`);
+  }
+
+  // Validate embedding chunking
+  if (config.embeddingChunkSize <= 0 || config.embeddingChunkSize > 8000) {
+    errors.push(`EMBEDDING_CHUNK_SIZE must be between 1 and 8000 (got: ${config.embeddingChunkSize})`);
+  }
+  if (config.embeddingChunkOverlap < 0 || config.embeddingChunkOverlap >= config.embeddingChunkSize) {
+    errors.push(
+      `EMBEDDING_CHUNK_OVERLAP must be at least 0 and smaller than EMBEDDING_CHUNK_SIZE (got: ${config.embeddingChunkOverlap})`
+    );
+  }
+
+  // Validate embedding job queue
+  if (config.embeddingQueueConcurrency < 1 || config.embeddingQueueConcurrency > 16) {
+    errors.push(
+      `EMBEDDING_QUEUE_CONCURRENCY must be between 1 and 16 (got: ${config.embeddingQueueConcurrency})`
+    );
+  }
+  if (config.embeddingJobMaxAttempts < 1) {
+    errors.push(`EMBEDDING_JOB_MAX_ATTEMPTS must be at least 1 (got: ${config.embeddingJobMaxAttempts})`);
+  }
+  if (config.embeddingJobRetryDelay < 1) {
+    errors.push(`EMBEDDING_JOB_RETRY_DELAY must be at least 1 second (got: ${config.embeddingJobRetryDelay})`);
+  }
+
+  if (config.duplicateSimilarityThreshold <= 0 || config.duplicateSimilarityThreshold > 1) {
+    errors.push(
+      `DUPLICATE_SIMILARITY_THRESHOLD must be greater than 0 and at most 1 (got: ${config.duplicateSimilarityThreshold})`
+    );
+  }
+
+  if (config.webCaptureTimeout <= 0) {
+    errors.push(`WEB_CAPTURE_TIMEOUT must be a positive integer (got: ${config.webCaptureTimeout})`);
+  }
+  if (config.webCaptureMaxSize <= 0) {
+    errors.push(`WEB_CAPTURE_MAX_SIZE must be a positive integer (got: ${config.webCaptureMaxSize})`);
+  }
+
+  if (config.trashRetentionDays < 0) {
+    errors.push(`TRASH_RETENTION_DAYS must be 0 or greater (got: ${config.trashRetentionDays})`);
+  }
 
   // Validate TLS configuration (both or neither)
   if ((config.tlsCertPath && !config.tlsKeyPath) || (!config.tlsCertPath && config.tlsKeyPath)) {
@@ -271,8 +540,8 @@ function validateConfig(config: Config): void {
   if (config.nodeEnv === 'production') {
     // Note: API_KEY validation removed as it's deprecated in favor of KOauth
 
-    // OpenAI API key should be set
-    if (!config.openaiApiKey) {
+    // OpenAI API key should be set when OpenAI generates embeddings
+    if (config.embeddingProvider === 'openai' && !config.openaiApiKey) {
       warnings.push(
         'OPENAI_API_KEY is not set. Vector embeddings will not work without it.'
       );
@@ -286,9 +555,14 @@ function validateConfig(config: Config): void {
     }
   }
 
+  // Absolute URLs handed out by the server must not depend on the request's Host header
+  if (!config.apiBaseUrl) {
+    warnings.push('API_BASE_URL is not set. Calendar feed URLs (POST /api/reminders/feed) cannot be created.');
+  }
+
   // Development/test warnings
   if (config.nodeEnv !== 'production') {
-    if (!config.openaiApiKey) {
+    if (config.embeddingProvider === 'openai' && !config.openaiApiKey) {
       warnings.push(
         'OPENAI_API_KEY is not set. Search functionality will be limited to full-text search only.'
       );
@@ -325,15 +599,48 @@ export function printConfig(config: Config): void {
     oauthClientSecret: maskSecret(config.oauthClientSecret),
     oauthRedirectUri: config.oauthRedirectUri,
     allowedEmails: config.allowedEmails ? `${config.allowedEmails.length} email(s) whitelisted` : '<all emails allowed>',
+    adminEmails: config.adminEmails ? `${config.adminEmails.length} admin(s)` : '<no admins>',
     databaseUrl: config.databaseUrl,
+    vectorStoreBackend: config.vectorStoreBackend,
     vectorStoreUrl: config.vectorStoreUrl,
     vectorDbKey: maskSecret(config.vectorDbKey),
     openaiApiKey: maskSecret(config.openaiApiKey),
     openaiOrganization: config.openaiOrganization || '<not set>',
     openaiProject: config.openaiProject || '<not set>',
     openaiEmbeddingModel: config.openaiEmbeddingModel,
+    embeddingProvider: config.embeddingProvider,
+    embeddingApiUrl: config.embeddingProvider === 'openai-compatible' ? config.embeddingApiUrl : '<not used>',
+    embeddingApiKey: maskSecret(config.embeddingApiKey),
+    embeddingModel: config.embeddingProvider === 'openai-compatible' ? config.embeddingModel : '<not used>',
+    embeddingDimensions: config.embeddingProvider === 'local' ? config.embeddingDimensions : '<not used>',
+    transcriptionProvider: config.transcriptionProvider,
+    transcriptionApiUrl:
+      config.transcriptionProvider === 'openai-compatible' ? config.transcriptionApiUrl : '<not used>',
+    transcriptionApiKey: maskSecret(config.transcriptionApiKey),
+    transcriptionModel: config.transcriptionProvider === 'none' ? '<not used>' : config.transcriptionModel,
+    imageTextProvider: config.imageTextProvider,
+    imageTextApiUrl: config.imageTextProvider === 'openai-compatible' ? config.imageTextApiUrl : '<not used>',
+    imageTextApiKey: maskSecret(config.imageTextApiKey),
+    imageTextModel: config.imageTextProvider === 'none' ? '<not used>' : config.imageTextModel,
+    imageCaptions: config.imageCaptions,
+    imageStripLocation: config.imageStripLocation,
+    thumbnailSizes: config.thumbnailSizes.join(','),
+    thumbnailFormat: config.thumbnailFormat,
+    thumbnailQuality: config.thumbnailQuality,
+    imageResizeMaxSize: config.imageResizeMaxSize,
+    embeddingChunkSize: config.embeddingChunkSize,
+    embeddingChunkOverlap: config.embeddingChunkOverlap,
+    embeddingQueueConcurrency: config.embeddingQueueConcurrency,
+    embeddingJobMaxAttempts: config.embeddingJobMaxAttempts,
+    embeddingJobRetryDelay: `${config.embeddingJobRetryDelay}s`,
+    duplicateSimilarityThreshold: config.duplicateSimilarityThreshold,
+    webCaptureTimeout: `${config.webCaptureTimeout}ms`,
+    webCaptureMaxSize: `${Math.round(config.webCaptureMaxSize / 1024 / 1024)}MB`,
+    webCaptureAllowPrivate: config.webCaptureAllowPrivate,
     storageBasePath: config.storageBasePath,
+    trashRetentionDays: config.trashRetentionDays || '<never purge>',
     maxFileSize: `${Math.round(config.maxFileSize / 1024 / 1024)}MB`,
+    maxBackupSize: `${Math.round(config.maxBackupSize / 1024 / 1024)}MB`,
     logLevel: config.logLevel,
     logDir: config.logDir,
     corsOrigin: config.corsOrigin,
@@ -10,7 +10,13 @@ import { getFileStorageService } from './services/fileStorage.js';
 import { getEmbeddingService } from './services/embeddingService.js';
 import { getThumbnailService } from './services/thumbnailService.js';
 import { PdfService } from './services/pdfService.js';
+import { AudioService } from './services/audioService.js';
+import { getTranscriptionService } from './services/transcriptionService.js';
+import { getImageTextService } from './services/imageTextService.js';
 import { getStatsService } from './services/statsService.js';
+import { getTrashService } from './services/trashService.js';
+import { getReminderService } from './services/reminderService.js';
+import { getEmbeddingQueue } from './services/embeddingQueue.js';
 import {
   logger,
   logStartup,
@@ -74,16 +80,21 @@ async function init() {
     // Initialize thumbnail service
     console.log('🖼️  Initializing thumbnail service...');
     logServiceInit('Thumbnail Service');
+    const [thumbnailSize, ...thumbnailVariantSizes] = config.thumbnailSizes;
     const thumbnailService = getThumbnailService({
       baseDirectory: config.storageBasePath,
       thumbnailDirectory: 'thumbnails',
-      maxWidth: 300,
-      maxHeight: 300,
-      quality: 80,
+      maxWidth: thumbnailSize!,
+      maxHeight: thumbnailSize!,
+      quality: config.thumbnailQuality,
+      format: config.thumbnailFormat,
+      variantSizes: thumbnailVariantSizes,
     });
     logServiceReady('Thumbnail Service', {
-      maxSize: '300x300px',
-      quality: 80,
+      maxSize: `${thumbnailSize}x${thumbnailSize}px`,
+      variantSizes: thumbnailVariantSizes,
+      format: config.thumbnailFormat,
+      quality: config.thumbnailQuality,
     });
     console.log('✓ Thumbnail service initialized');
     console.log('');
@@ -98,6 +109,44 @@ async function init() {
     console.log('✓ PDF service initialized');
     console.log('');
 
+    // Initialize audio and transcription services
+    console.log('🎙️  Initializing audio services...');
+    logServiceInit('Audio Service');
+    const audioService = AudioService.getInstance();
+    const transcriptionService = getTranscriptionService();
+    const transcriptionProvider = transcriptionService.getProviderInfo();
+    const transcriptionAvailable = transcriptionService.isAvailable();
+    logServiceReady('Audio Service', {
+      transcriptionProvider: transcriptionProvider.provider,
+      transcriptionModel: transcriptionProvider.model,
+      transcriptionAvailable,
+    });
+    if (transcriptionAvailable) {
+      console.log(`✓ Audio services initialized (transcription: ${transcriptionProvider.provider})`);
+    } else {
+      console.log('⚠️  Audio services initialized (transcription unavailable)');
+    }
+    console.log('');
+
+    // Initialize image text extraction (OCR)
+    console.log('🔤 Initializing image text service...');
+    logServiceInit('Image Text Service');
+    const imageTextService = getImageTextService();
+    const imageTextProvider = imageTextService.getProviderInfo();
+    const imageTextAvailable = imageTextService.isAvailable();
+    logServiceReady('Image Text Service', {
+      provider: imageTextProvider.provider,
+      model: imageTextProvider.model,
+      captions: imageTextProvider.captions,
+      available: imageTextAvailable,
+    });
+    if (imageTextAvailable) {
+      console.log(`✓ Image text service initialized (provider: ${imageTextProvider.provider})`);
+    } else {
+      console.log('⚠️  Image text service initialized (text extraction unavailable)');
+    }
+    console.log('');
+
     // Initialize file storage service
     console.log('💾 Initializing file storage...');
     logServiceInit('File Storage');
@@ -105,15 +154,22 @@ async function init() {
       {
         baseDirectory: config.storageBasePath,
         logger,
+        stripImageLocation: config.imageStripLocation,
       },
       db,
       thumbnailService,
-      pdfService
+      pdfService,
+      audioService,
+      transcriptionService,
+      imageTextService
     );
     logServiceReady('File Storage', {
       baseDirectory: config.storageBasePath,
       thumbnailsEnabled: true,
       pdfMetadataEnabled: true,
+      audioTranscriptionEnabled: transcriptionAvailable,
+      imageTextEnabled: imageTextAvailable,
+      stripImageLocation: config.imageStripLocation,
     });
     console.log('✓ File storage initialized');
     console.log('');
@@ -122,19 +178,22 @@ async function init() {
     console.log('🔍 Initializing embedding service...');
     logServiceInit('Embedding Service');
     const embeddingService = getEmbeddingService();
+    const embeddingProvider = embeddingService.getProviderInfo();
     if (embeddingService.isAvailable()) {
       logServiceReady('Embedding Service', {
-        model: config.openaiEmbeddingModel,
+        provider: embeddingProvider.provider,
+        model: embeddingProvider.model,
         status: 'available',
       });
-      console.log('✓ Embedding service initialized (available)');
+      console.log(`✓ Embedding service initialized (available, provider: ${embeddingProvider.provider})`);
     } else {
-      logger.warn('⚠️  Embedding Service initialized without API key', {
+      logger.warn('⚠️  Embedding Service initialized without a usable provider', {
+        provider: embeddingProvider.provider,
         status: 'unavailable',
-        reason: 'OPENAI_API_KEY not configured',
+        reason: embeddingService.getUnavailableReason(),
         impact: 'Vector embeddings will not be generated',
       });
-      console.log('⚠️  Embedding service initialized (unavailable - no API key)');
+      console.log(`⚠️  Embedding service initialized (unavailable, provider: ${embeddingProvider.provider})`);
     }
     console.log('');
 
@@ -165,6 +224,22 @@ async function init() {
     await startServer(fastifyInstance);
     console.log('✓ Server listening on port', config.apiPort);
 
+    // Process queued embedding jobs (queue is created with the routes)
+    getEmbeddingQueue().start();
+    console.log(`✓ Embedding queue started (concurrency: ${config.embeddingQueueConcurrency})`);
+
+    // Purge expired trash (trash service is created with the routes)
+    if (config.trashRetentionDays > 0) {
+      getTrashService().startPurgeSchedule();
+      console.log(`✓ Trash purge scheduled (retention: ${config.trashRetentionDays} days)`);
+    } else {
+      console.log('✓ Trash purge disabled (TRASH_RETENTION_DAYS=0)');
+    }
+
+    // Fire due reminders (reminder service is created with the routes)
+    getReminderService().startSchedule();
+    console.log('✓ Reminder check scheduled (every minute)');
+
     // TODO: Task 2.1 - Initialize ChromaDB connection
 
     logger.info('='.repeat(80));
@@ -201,6 +276,27 @@ function setupShutdownHandlers() {
   const shutdown = async (signal: string) => {
     logShutdown(appName, `Received ${signal}`);
 
+    // Stop scheduled trash purge
+    try {
+      getTrashService().stopPurgeSchedule();
+    } catch {
+      // Trash service was never initialized
+    }
+
+    // Stop scheduled reminder check
+    try {
+      getReminderService().stopSchedule();
+    } catch {
+      // Reminder service was never initialized
+    }
+
+    // Stop claiming embedding jobs (interrupted jobs are resumed on the next start)
+    try {
+      getEmbeddingQueue().stop();
+    } catch {
+      // Embedding queue was never initialized
+    }
+
     // Close Fastify server gracefully
     if (fastifyInstance) {
       try {
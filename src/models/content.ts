@@ -12,7 +12,7 @@ export type ContentType = 'text' | 'image' | 'pdf' | 'audio';
 /**
  * Content source/origin
  */
-export type ContentSource = 'ios-shortcut' | 'web' | 'api' | 'manual';
+export type ContentSource = 'ios-shortcut' | 'web' | 'api' | 'manual' | 'import';
 
 /**
  * Embedding generation status
@@ -23,10 +23,38 @@ export type EmbeddingStatus = 'pending' | 'completed' | 'failed';
  * Image metadata stored as JSON in database
  */
 export interface ImageMetadata {
-  width: number;
-  height: number;
+  width: number; // Displayed width (after applying the EXIF orientation)
+  height: number; // Displayed height (after applying the EXIF orientation)
   format: string; // 'jpeg', 'png', 'webp', etc.
   size: number; // File size in bytes
+  textRecognized?: boolean; // Whether the image was run through text extraction (OCR)
+  takenAt?: string; // EXIF capture date (camera local time)
+  cameraMake?: string; // EXIF camera manufacturer
+  cameraModel?: string; // EXIF camera model
+  orientation?: number; // EXIF orientation (1-8)
+  location?: ImageLocation; // EXIF GPS position
+  locationStripped?: boolean; // Whether GPS data was removed from the stored original
+  thumbnailVariants?: ThumbnailVariant[]; // Additional thumbnail sizes (the default thumbnail is thumbnail_path)
+  thumbnailSignature?: string; // Thumbnail configuration the thumbnails were generated with
+}
+
+/**
+ * Additional thumbnail size of an image
+ */
+export interface ThumbnailVariant {
+  size: number; // Bounding box size in pixels
+  path: string; // Relative path to the thumbnail
+  width: number; // Actual thumbnail width
+  height: number; // Actual thumbnail height
+}
+
+/**
+ * GPS position of an image
+ */
+export interface ImageLocation {
+  latitude: number; // Decimal degrees, negative south of the equator
+  longitude: number; // Decimal degrees, negative west of Greenwich
+  altitude?: number; // Meters, negative below sea level
 }
 
 /**
@@ -36,6 +64,32 @@ export interface PdfMetadata {
   filename: string; // Original filename
   size: number; // File size in bytes
   pageCount?: number; // Number of pages (if available)
+  thumbnailVariants?: ThumbnailVariant[]; // Additional preview thumbnail sizes (the default one is thumbnail_path)
+  thumbnailSignature?: string; // Thumbnail configuration the preview was rendered with
+}
+
+/**
+ * Audio metadata stored as JSON in database
+ */
+export interface AudioMetadata {
+  filename: string; // Original filename
+  size: number; // File size in bytes
+  duration?: number; // Seconds
+  codec?: string; // e.g. 'MPEG 1 Layer 3', 'AAC', 'PCM'
+  container?: string; // e.g. 'MPEG', 'M4A/isom', 'WAVE'
+  sampleRate?: number; // Hz
+  channels?: number;
+  bitrate?: number; // Bits per second
+  transcribed?: boolean; // Whether extracted_text holds a transcript
+  language?: string; // Language detected by transcription
+}
+
+/**
+ * Extracted text of a single PDF page
+ */
+export interface PdfPage {
+  page_number: number; // 1-based page number
+  text: string;
 }
 
 /**
@@ -52,11 +106,20 @@ export interface Content {
   annotation: string | null;
   extracted_text: string | null;
   embedding_status: EmbeddingStatus;
-  thumbnail_path: string | null; // Path to generated thumbnail (for images)
+  thumbnail_path: string | null; // Path to generated thumbnail (images, first page of PDFs)
   image_metadata: ImageMetadata | null; // Image metadata (dimensions, format, size)
   pdf_metadata: PdfMetadata | null; // PDF metadata (filename, size, page count)
+  audio_metadata: AudioMetadata | null; // Audio metadata (duration, codec, transcription)
+  notebook_id: string | null; // Notebook holding the content (NULL = not in a notebook)
+  content_hash: string | null; // SHA-256 of the text or file, for duplicate detection
+  source_url: string | null; // Address of captured web pages
+  snapshot_path: string | null; // Path to the saved HTML of captured web pages
+  remind_at: string | null; // ISO 8601 time of the reminder
+  due_at: string | null; // ISO 8601 due date
+  reminder_fired_at: string | null; // Set once the reminder went off
   created_at: string; // ISO 8601 datetime string
   updated_at: string; // ISO 8601 datetime string
+  deleted_at: string | null; // Set while the content is in the trash
 }
 
 /**
@@ -77,10 +140,102 @@ export interface ContentRow {
   thumbnail_path: string | null;
   image_metadata: string | null; // JSON string
   pdf_metadata: string | null; // JSON string
+  audio_metadata: string | null; // JSON string
+  notebook_id: string | null;
+  content_hash: string | null;
+  source_url: string | null;
+  snapshot_path: string | null;
+  remind_at: string | null;
+  due_at: string | null;
+  reminder_fired_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+/**
+ * What produced a content version
+ */
+export type VersionChangeSource = 'create' | 'update' | 'restore';
+
+/**
+ * Snapshot of the editable fields of a content item
+ */
+export interface ContentVersion {
+  content_id: string;
+  version: number; // 1-based, increments with every change
+  title: string | null;
+  annotation: string | null;
+  tags: string[];
+  extracted_text: string | null;
+  change_source: VersionChangeSource;
+  created_at: string; // ISO 8601 datetime string
+}
+
+/**
+ * Raw content version row as returned from SQLite (tags stored as JSON string)
+ */
+export interface ContentVersionRow extends Omit<ContentVersion, 'tags'> {
+  tags: string | null;
+}
+
+/**
+ * Page text row of a PDF
+ */
+export interface ContentPageRow extends PdfPage {
+  content_id: string;
+}
+
+/**
+ * Database rows of a backup, as stored (JSON fields are strings)
+ */
+export interface BackupRows {
+  notebooks: Notebook[];
+  content: ContentRow[];
+  versions: ContentVersionRow[];
+  pages: ContentPageRow[];
+}
+
+/**
+ * Kind of embedding work: a full (re-)embed, or refreshing vector metadata only
+ */
+export type EmbeddingJobType = 'embed' | 'metadata';
+
+/**
+ * Embedding job state (jobs are deleted once they succeed)
+ */
+export type EmbeddingJobStatus = 'queued' | 'running' | 'dead';
+
+/**
+ * Embedding job row as stored in SQLite
+ */
+export interface EmbeddingJob {
+  id: number;
+  content_id: string;
+  user_id: string | null;
+  job_type: EmbeddingJobType;
+  status: EmbeddingJobStatus;
+  attempts: number; // Number of times the job was started
+  last_error: string | null;
+  run_at: string; // Earliest time of the next attempt (SQLite datetime)
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Stored embedding vector row (SQLite vector store backend)
+ */
+export interface VectorRow {
+  id: string; // Vector ID (content ID or chunk ID)
+  content_id: string;
+  chunk_index: number;
+  user_id: string | null;
+  embedding: Buffer; // Float32 little-endian values
+  dimensions: number;
+  text: string;
+  metadata: string; // JSON string
+}
+
 /**
  * Input for creating new content
  */
@@ -94,20 +249,64 @@ export interface CreateContentInput {
   tags?: string[];
   annotation?: string;
   extracted_text?: string;
+  thumbnail_path?: string;
+  image_metadata?: ImageMetadata;
+  pdf_metadata?: PdfMetadata;
+  audio_metadata?: AudioMetadata;
+  notebook_id?: string;
+  content_hash?: string; // Computed from extracted_text for text notes if not given
+  source_url?: string;
+  snapshot_path?: string;
+  remind_at?: string; // ISO 8601
+  due_at?: string; // ISO 8601
+  created_at?: string; // SQLite datetime, defaults to now (e.g. to keep the date of imported notes)
+  updated_at?: string; // SQLite datetime, defaults to created_at
 }
 
 /**
  * Input for updating existing content
  */
 export interface UpdateContentInput {
-  title?: string;
+  title?: string | null;
   tags?: string[];
-  annotation?: string;
-  extracted_text?: string;
+  annotation?: string | null;
+  extracted_text?: string | null; // NULL for files without extracted text
   embedding_status?: EmbeddingStatus;
   thumbnail_path?: string;
   image_metadata?: ImageMetadata;
   pdf_metadata?: PdfMetadata;
+  notebook_id?: string | null; // NULL takes the content out of its notebook
+  remind_at?: string | null; // ISO 8601, NULL clears the reminder (a new time re-arms it)
+  due_at?: string | null; // ISO 8601, NULL clears the due date
+}
+
+/**
+ * Notebook (collection of content, optionally nested in a parent notebook)
+ */
+export interface Notebook {
+  id: string;
+  user_id: string | null; // KOauth user ID (UUID) - NULL for legacy content
+  parent_id: string | null; // NULL for top-level notebooks
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Notebook with its content count and nested notebooks
+ */
+export interface NotebookTreeNode extends Notebook {
+  content_count: number; // Content directly in this notebook
+  children: NotebookTreeNode[];
+}
+
+/**
+ * Wiki link from a note to other content
+ */
+export interface ContentLink {
+  source_id: string;
+  target_text: string; // Link target as written ([[target_text]])
+  target_id: string | null; // Resolved content ID (NULL = no match)
 }
 
 /**
@@ -128,10 +327,15 @@ export interface ContentSearchResult {
  */
 export interface SearchFilters {
   contentTypes?: ContentType[];
-  tags?: string[];
+  tags?: string[]; // Also matches the tags nested in them (`project` matches `project/kura`)
   dateFrom?: string; // ISO 8601
   dateTo?: string; // ISO 8601
   source?: ContentSource;
+  notebookIds?: string[]; // Content in any of these notebooks
+  takenFrom?: string; // Images taken at or after this ISO 8601 date (EXIF)
+  takenTo?: string; // Images taken at or before this ISO 8601 date (EXIF)
+  camera?: string; // Images whose camera make or model contains this text (case-insensitive)
+  hasLocation?: boolean; // Images with (true) or without (false) a GPS position
 }
 
 /**
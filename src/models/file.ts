@@ -2,7 +2,7 @@
  * File-related type definitions and interfaces
  */
 
-import type { ContentType as DBContentType } from './content.js';
+import type { ContentType as DBContentType, ContentSource } from './content.js';
 
 /**
  * Supported content types for file storage (re-export from content model)
@@ -39,6 +39,12 @@ export interface SaveFileOptions {
   tags?: string[];
   originalFilename?: string;
   mimeType?: string;
+  source?: ContentSource; // Defaults to 'api'
+  sourceUrl?: string; // Address of a captured web page
+  snapshot?: string; // HTML of a captured web page, saved next to the file
+  stripLocation?: boolean; // Remove GPS data from images (defaults to the storage setting)
+  createdAt?: Date; // Original creation date (defaults to now)
+  updatedAt?: Date; // Original modification date (defaults to createdAt)
 }
 
 /**
@@ -48,6 +54,7 @@ export interface SaveFileResult {
   success: boolean;
   id?: string;
   filePath?: string;
+  extractedText?: string; // Text notes: body; PDFs: joined page text; audio: transcript
   error?: string;
 }
 
@@ -61,6 +68,14 @@ export interface ReadFileResult {
   error?: string;
 }
 
+/**
+ * Result of a text note rewrite
+ */
+export interface WriteFileResult {
+  success: boolean;
+  error?: string;
+}
+
 /**
  * Result of file delete operation
  */
@@ -84,7 +99,7 @@ export const SUPPORTED_MIME_TYPES: Record<ContentType, readonly string[]> = {
   text: ['text/plain', 'text/markdown'],
   image: ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'],
   pdf: ['application/pdf'],
-  audio: ['audio/mpeg', 'audio/mp4', 'audio/wav', 'audio/webm'], // For future use
+  audio: ['audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/webm'],
 };
 
 /**
@@ -94,5 +109,5 @@ export const MAX_FILE_SIZE: Record<ContentType, number> = {
   text: 10 * 1024 * 1024, // 10MB
   image: 50 * 1024 * 1024, // 50MB
   pdf: 50 * 1024 * 1024, // 50MB
-  audio: 100 * 1024 * 1024, // 100MB (for future use)
+  audio: 100 * 1024 * 1024, // 100MB
 };
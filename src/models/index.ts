@@ -9,6 +9,9 @@ export type {
   ContentSource,
   CreateContentInput,
   UpdateContentInput,
+  Notebook,
+  NotebookTreeNode,
+  ContentLink,
   ContentSearchResult,
   SearchFilters,
   SearchHistory,
@@ -0,0 +1,74 @@
+/**
+ * KURA Notes - Audio Service
+ *
+ * Reads audio metadata (duration, codec, container, sample rate) using music-metadata
+ */
+
+import { parseBuffer } from 'music-metadata';
+import { logger } from '../utils/logger.js';
+import type { AudioMetadata } from '../models/content.js';
+
+/**
+ * Audio Service for metadata extraction
+ * Singleton pattern
+ */
+export class AudioService {
+  private static instance: AudioService | null = null;
+
+  private constructor() {
+    logger.debug('Audio service initialized');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AudioService {
+    if (!AudioService.instance) {
+      AudioService.instance = new AudioService();
+    }
+    return AudioService.instance;
+  }
+
+  /**
+   * Extract metadata from an audio buffer
+   * Never throws - falls back to filename and size if the file cannot be parsed
+   * @param buffer Audio file buffer
+   * @param filename Original filename
+   * @param mimeType MIME type of the file
+   */
+  public async extractMetadata(buffer: Buffer, filename: string, mimeType: string): Promise<AudioMetadata> {
+    const metadata: AudioMetadata = { filename, size: buffer.length };
+
+    try {
+      const { format } = await parseBuffer(buffer, { mimeType, size: buffer.length }, { duration: true });
+
+      if (format.duration !== undefined) {
+        metadata.duration = Math.round(format.duration * 1000) / 1000;
+      }
+      if (format.codec) {
+        metadata.codec = format.codec;
+      }
+      if (format.container) {
+        metadata.container = format.container;
+      }
+      if (format.sampleRate) {
+        metadata.sampleRate = format.sampleRate;
+      }
+      if (format.numberOfChannels) {
+        metadata.channels = format.numberOfChannels;
+      }
+      if (format.bitrate) {
+        metadata.bitrate = Math.round(format.bitrate);
+      }
+
+      logger.debug('Audio metadata extracted', { ...metadata });
+    } catch (error) {
+      logger.warn('Failed to read audio metadata', {
+        filename,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return metadata;
+  }
+}
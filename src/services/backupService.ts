@@ -0,0 +1,739 @@
+/**
+ * KURA Notes - Backup Service
+ *
+ * Portable backups of a user's library or of the whole instance:
+ * - Database rows (notebooks, content, versions, PDF pages), read in one transaction
+ * - Original files and thumbnails
+ * - Vectors of the configured vector store, so restores need no re-embedding
+ * - A manifest with SHA-256 checksums of every entry
+ *
+ * Restores verify every checksum before writing anything, give every content
+ * item a new ID (so a backup can be restored next to existing content) and
+ * verify the restored files and rows afterwards.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import archiver, { Archiver } from 'archiver';
+import yauzl from 'yauzl';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './database/database.service.js';
+import { FileStorageService } from './fileStorage.js';
+import { EmbeddingPipelineService } from './embeddingPipeline.js';
+import type { VectorStore, VectorStoreBackend } from './vectorStore.js';
+import { logger } from '../utils/logger.js';
+import type { BackupRows, ContentRow, ImageMetadata, PdfMetadata } from '../models/content.js';
+
+/**
+ * Format identifier written to the manifest
+ */
+export const BACKUP_FORMAT = 'kura-notes-backup';
+
+const MANIFEST_FILE = 'manifest.json';
+const FILES_FOLDER = 'files';
+const DATA_FILES = {
+  notebooks: 'data/notebooks.json',
+  content: 'data/content.json',
+  versions: 'data/versions.json',
+  pages: 'data/pages.json',
+  vectors: 'data/vectors.json',
+} as const;
+
+/**
+ * What a backup contains: one user's library or every user's
+ */
+export type BackupScope = 'user' | 'instance';
+
+/**
+ * Vector as stored in a backup (embedding as base64 encoded Float32 values)
+ */
+export interface BackupVector {
+  id: string;
+  content_id: string;
+  embedding: string;
+  metadata: Record<string, any>;
+  text: string;
+}
+
+/**
+ * Number of items of each kind in a backup
+ */
+export interface BackupCounts {
+  notebooks: number;
+  content: number;
+  versions: number;
+  pages: number;
+  vectors: number;
+  files: number;
+}
+
+/**
+ * Manifest written as manifest.json at the root of the archive
+ */
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  created_at: string;
+  scope: BackupScope;
+  user_id: string | null; // Owner of a user backup
+  schema_version: number | null;
+  vector_backend: VectorStoreBackend;
+  vectors_included: boolean; // False when the vector store could not be read
+  counts: BackupCounts;
+  missing_files: string[]; // Files referenced by content but missing on disk
+  checksums: Record<string, string>; // Archive path -> SHA-256 (hex)
+}
+
+/**
+ * Restore options
+ */
+export interface RestoreOptions {
+  userId?: string; // Owner of the restored content (default: keep the owners of the backup)
+  dryRun?: boolean; // Verify the archive and report what would be restored
+}
+
+/**
+ * Restore report
+ */
+export interface RestoreReport {
+  dryRun: boolean;
+  scope: BackupScope;
+  counts: BackupCounts;
+  queued_embeddings: number; // Content without restored vectors, queued for embedding
+  verified: boolean; // Restored files and rows match the backup
+  problems: string[]; // Verification problems
+  id_map: Record<string, string>; // Backup content ID -> restored content ID
+  missing_files: string[]; // Restored content whose files were missing from the backup
+}
+
+/**
+ * Result of a restore
+ */
+export interface RestoreResult {
+  success: boolean;
+  report?: RestoreReport;
+  error?: string;
+}
+
+/**
+ * Backup service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class BackupService {
+  private static instance: BackupService | null = null;
+  private db: DatabaseService;
+  private fileStorage: FileStorageService;
+  private vectorStore: VectorStore;
+  private embeddingPipeline: EmbeddingPipelineService;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(
+    db: DatabaseService,
+    fileStorage: FileStorageService,
+    vectorStore: VectorStore,
+    embeddingPipeline: EmbeddingPipelineService
+  ) {
+    this.db = db;
+    this.fileStorage = fileStorage;
+    this.vectorStore = vectorStore;
+    this.embeddingPipeline = embeddingPipeline;
+    logger.debug('BackupService initialized');
+  }
+
+  /**
+   * Get or create backup service instance (singleton)
+   */
+  public static getInstance(
+    db?: DatabaseService,
+    fileStorage?: FileStorageService,
+    vectorStore?: VectorStore,
+    embeddingPipeline?: EmbeddingPipelineService
+  ): BackupService {
+    if (!BackupService.instance) {
+      if (!db || !fileStorage || !vectorStore || !embeddingPipeline) {
+        throw new Error(
+          'DatabaseService, FileStorageService, VectorStore and EmbeddingPipelineService required for first initialization'
+        );
+      }
+      BackupService.instance = new BackupService(db, fileStorage, vectorStore, embeddingPipeline);
+    }
+    return BackupService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (BackupService.instance) {
+      logger.debug('Resetting BackupService instance');
+      BackupService.instance = null;
+    }
+  }
+
+  /**
+   * Create a backup archive
+   * Files are hashed up front and streamed as the archive is read; the caller
+   * must pipe or send the returned archive (after calling finalize())
+   *
+   * @param userId - Owner of the backed up content (undefined for the whole instance)
+   */
+  public async createBackup(userId?: string): Promise<{ archive: Archiver; manifest: BackupManifest }> {
+    const rows = this.db.getBackupRows(userId);
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const checksums: Record<string, string> = {};
+    const missingFiles: string[] = [];
+    let files = 0;
+
+    for (const row of rows.content) {
+      for (const relativePath of [row.file_path, row.thumbnail_path, row.snapshot_path]) {
+        if (!relativePath) {
+          continue;
+        }
+
+        const name = `${FILES_FOLDER}/${toArchivePath(relativePath)}`;
+        const fullPath = this.fileStorage.getFullPath(relativePath);
+
+        if (checksums[name]) {
+          continue;
+        }
+        if (!fs.existsSync(fullPath)) {
+          logger.warn('Skipping missing file in backup', { id: row.id, path: relativePath });
+          missingFiles.push(relativePath);
+          continue;
+        }
+
+        checksums[name] = await hashStream(fs.createReadStream(fullPath));
+        archive.file(fullPath, { name });
+        files++;
+      }
+    }
+
+    let vectors: BackupVector[] = [];
+    let vectorsIncluded = true;
+    try {
+      for (const row of rows.content) {
+        for (const document of await this.vectorStore.getContentVectors(row.id)) {
+          vectors.push({
+            id: document.id,
+            content_id: row.id,
+            embedding: encodeEmbedding(document.embedding),
+            metadata: document.metadata,
+            text: document.text,
+          });
+        }
+      }
+    } catch (error) {
+      // Content without vectors is re-embedded after a restore
+      logger.warn('Vector store unavailable, backing up without vectors', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      vectors = [];
+      vectorsIncluded = false;
+    }
+
+    const data: Record<string, unknown[]> = {
+      [DATA_FILES.notebooks]: rows.notebooks,
+      [DATA_FILES.content]: rows.content,
+      [DATA_FILES.versions]: rows.versions,
+      [DATA_FILES.pages]: rows.pages,
+      [DATA_FILES.vectors]: vectors,
+    };
+    for (const [name, value] of Object.entries(data)) {
+      const json = JSON.stringify(value);
+      checksums[name] = crypto.createHash('sha256').update(json).digest('hex');
+      archive.append(json, { name });
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: 1,
+      created_at: new Date().toISOString(),
+      scope: userId === undefined ? 'instance' : 'user',
+      user_id: userId ?? null,
+      schema_version: this.db.getSchemaVersion()?.version ?? null,
+      vector_backend: this.vectorStore.backend,
+      vectors_included: vectorsIncluded,
+      counts: {
+        notebooks: rows.notebooks.length,
+        content: rows.content.length,
+        versions: rows.versions.length,
+        pages: rows.pages.length,
+        vectors: vectors.length,
+        files,
+      },
+      missing_files: missingFiles,
+      checksums,
+    };
+    archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_FILE });
+
+    logger.info('Backup archive created', { scope: manifest.scope, userId, counts: manifest.counts });
+
+    return { archive, manifest };
+  }
+
+  /**
+   * Read the manifest of a backup archive without verifying it
+   *
+   * @param source - Path of the archive or its contents
+   */
+  public async readManifest(source: string | Buffer): Promise<BackupManifest> {
+    const zip = await openZip(source);
+    try {
+      const entries = await listEntries(zip);
+      return parseManifest(await readEntryText(zip, entries.get(MANIFEST_FILE)));
+    } finally {
+      zip.close();
+    }
+  }
+
+  /**
+   * Restore a backup archive
+   * Every checksum is verified before anything is written. Content gets new IDs,
+   * and files whose path is taken get new file names.
+   *
+   * @param source - Path of the archive or its contents
+   * @param options - Owner of the restored content and dry run
+   */
+  public async restoreBackup(source: string | Buffer, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const dryRun = options.dryRun ?? false;
+    let zip: yauzl.ZipFile;
+
+    try {
+      zip = await openZip(source);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Invalid backup archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+
+    try {
+      const entries = await listEntries(zip);
+      let manifest: BackupManifest;
+      try {
+        manifest = parseManifest(await readEntryText(zip, entries.get(MANIFEST_FILE)));
+      } catch (error) {
+        return {
+          success: false,
+          error: `Invalid backup archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+      }
+
+      // Verify the whole archive before writing anything
+      for (const [name, checksum] of Object.entries(manifest.checksums)) {
+        const entry = entries.get(name);
+        if (!entry) {
+          return { success: false, error: `Integrity check failed: ${name} is missing` };
+        }
+        if ((await hashStream(await openEntry(zip, entry))) !== checksum) {
+          return { success: false, error: `Integrity check failed: ${name} does not match its checksum` };
+        }
+      }
+
+      const rows: BackupRows = {
+        notebooks: JSON.parse(await readEntryText(zip, entries.get(DATA_FILES.notebooks))),
+        content: JSON.parse(await readEntryText(zip, entries.get(DATA_FILES.content))),
+        versions: JSON.parse(await readEntryText(zip, entries.get(DATA_FILES.versions))),
+        pages: JSON.parse(await readEntryText(zip, entries.get(DATA_FILES.pages))),
+      };
+      const vectors: BackupVector[] = JSON.parse(await readEntryText(zip, entries.get(DATA_FILES.vectors)));
+      const fileNames = [...entries.keys()].filter((name) => name.startsWith(`${FILES_FOLDER}/`));
+
+      const counts: BackupCounts = {
+        notebooks: rows.notebooks.length,
+        content: rows.content.length,
+        versions: rows.versions.length,
+        pages: rows.pages.length,
+        vectors: vectors.length,
+        files: fileNames.length,
+      };
+      const mismatch = (Object.keys(counts) as Array<keyof BackupCounts>).find(
+        (key) => counts[key] !== manifest.counts[key]
+      );
+      if (mismatch) {
+        return {
+          success: false,
+          error: `Integrity check failed: ${manifest.counts[mismatch]} ${mismatch} expected, ${counts[mismatch]} found`,
+        };
+      }
+
+      const unsafe = [
+        ...fileNames.map((name) => name.slice(FILES_FOLDER.length + 1)),
+        ...rows.content.flatMap((row) => [row.file_path, row.thumbnail_path ?? '', row.snapshot_path ?? '']),
+      ].find((relativePath) => relativePath && !isSafeRelativePath(relativePath));
+      if (unsafe) {
+        return { success: false, error: `Invalid backup archive: unsafe file path ${unsafe}` };
+      }
+
+      // New IDs for every content item; taken file paths get new file names
+      const idMap = new Map<string, string>(rows.content.map((row) => [row.id, uuidv4()]));
+      const pathMap = new Map<string, string>();
+      for (const name of fileNames) {
+        const relativePath = fromArchivePath(name.slice(FILES_FOLDER.length + 1));
+        pathMap.set(relativePath, this.findFreePath(relativePath));
+      }
+
+      // Rows may only point to files in the archive or to files the backup reported missing,
+      // never to files that happen to exist on this instance
+      const missingFiles = new Set(manifest.missing_files ?? []);
+      const unknown = rows.content
+        .flatMap((row) => [row.file_path, row.thumbnail_path, row.snapshot_path ?? null])
+        .find((relativePath) => relativePath && !pathMap.has(relativePath) && !missingFiles.has(relativePath));
+      if (unknown) {
+        return { success: false, error: `Invalid backup archive: file ${unknown} is not in the archive` };
+      }
+
+      const restored = remapRows(rows, idMap, pathMap, options.userId);
+      const report: RestoreReport = {
+        dryRun,
+        scope: manifest.scope,
+        counts,
+        queued_embeddings: 0,
+        verified: true,
+        problems: [],
+        id_map: Object.fromEntries(idMap),
+        missing_files: rows.content
+          .filter((row) =>
+            [row.file_path, row.thumbnail_path, row.snapshot_path].some(
+              (relativePath) => relativePath && !pathMap.has(relativePath)
+            )
+          )
+          .map((row) => idMap.get(row.id)!),
+      };
+
+      if (dryRun) {
+        logger.info('Backup verified (dry run)', { scope: manifest.scope, counts });
+        return { success: true, report };
+      }
+
+      // Write files before rows, so rows never point to missing files
+      const written: string[] = [];
+      try {
+        for (const name of fileNames) {
+          const target = pathMap.get(fromArchivePath(name.slice(FILES_FOLDER.length + 1)))!;
+          const fullPath = this.fileStorage.getFullPath(target);
+          await fsPromises.mkdir(path.dirname(fullPath), { recursive: true });
+          written.push(fullPath);
+          await pipeline(await openEntry(zip, entries.get(name)!), fs.createWriteStream(fullPath, { flags: 'wx' }));
+        }
+
+        this.db.insertBackupRows(restored);
+      } catch (error) {
+        await Promise.all(written.map((fullPath) => fsPromises.unlink(fullPath).catch(() => undefined)));
+        logger.error('Restore failed, written files removed', { error });
+        return {
+          success: false,
+          error: `Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+      }
+
+      // Restore vectors; content without them is re-embedded
+      const withVectors = new Set<string>();
+      for (const vector of vectors) {
+        const contentId = idMap.get(vector.content_id);
+        if (!contentId) {
+          continue;
+        }
+
+        const row = restored.content.find((item) => item.id === contentId)!;
+        const id = vector.id.startsWith(vector.content_id)
+          ? `${contentId}${vector.id.slice(vector.content_id.length)}`
+          : vector.id;
+
+        try {
+          await this.vectorStore.addDocument(
+            id,
+            decodeEmbedding(vector.embedding),
+            { ...vector.metadata, content_id: contentId, user_id: row.user_id ?? undefined },
+            vector.text
+          );
+          withVectors.add(contentId);
+        } catch (error) {
+          logger.warn('Failed to restore vector', {
+            id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      for (const row of restored.content) {
+        if (!row.deleted_at && (!withVectors.has(row.id) || row.embedding_status !== 'completed')) {
+          this.embeddingPipeline.queueEmbedding(row.id, row.user_id);
+          report.queued_embeddings++;
+        }
+      }
+
+      report.problems = await this.verifyRestore(restored, manifest, pathMap);
+      report.verified = report.problems.length === 0;
+
+      if (report.verified) {
+        logger.info('Backup restored', { scope: manifest.scope, counts, userId: options.userId });
+      } else {
+        logger.error('Restored backup failed verification', { problems: report.problems });
+      }
+
+      return { success: true, report };
+    } catch (error) {
+      logger.error('Failed to read backup archive', { error });
+      return {
+        success: false,
+        error: `Invalid backup archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      zip.close();
+    }
+  }
+
+  /**
+   * Check that every restored row exists and every restored file matches its checksum
+   */
+  private async verifyRestore(
+    restored: BackupRows,
+    manifest: BackupManifest,
+    pathMap: Map<string, string>
+  ): Promise<string[]> {
+    const problems: string[] = [];
+
+    for (const row of restored.content) {
+      if (!this.db.getContentById(row.id, undefined, true)) {
+        problems.push(`Content ${row.id} was not restored`);
+      }
+    }
+
+    for (const [relativePath, target] of pathMap) {
+      const checksum = manifest.checksums[`${FILES_FOLDER}/${toArchivePath(relativePath)}`];
+      const fullPath = this.fileStorage.getFullPath(target);
+      if (!fs.existsSync(fullPath) || (await hashStream(fs.createReadStream(fullPath))) !== checksum) {
+        problems.push(`File ${target} does not match the backup`);
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Keep a file path unless a file already exists there; otherwise use a new file name
+   */
+  private findFreePath(relativePath: string): string {
+    if (!fs.existsSync(this.fileStorage.getFullPath(relativePath))) {
+      return relativePath;
+    }
+    return renameFile(relativePath);
+  }
+}
+
+/**
+ * Give restored rows their new IDs, file paths and (optionally) owner
+ * Notebooks get new IDs too; content in a notebook missing from the backup is kept out of notebooks.
+ * Files missing from the backup never keep their path: thumbnails and snapshots are dropped,
+ * and the file path gets a new file name that points to no file.
+ */
+function remapRows(
+  rows: BackupRows,
+  idMap: Map<string, string>,
+  pathMap: Map<string, string>,
+  userId: string | undefined
+): BackupRows {
+  const remapPath = (relativePath: string | null): string | null =>
+    relativePath === null ? null : (pathMap.get(relativePath) ?? null);
+  const notebookMap = new Map<string, string>(rows.notebooks.map((row) => [row.id, uuidv4()]));
+  const remapNotebook = (id: string | null): string | null => (id === null ? null : (notebookMap.get(id) ?? null));
+
+  return {
+    notebooks: rows.notebooks.map((row) => ({
+      ...row,
+      id: notebookMap.get(row.id)!,
+      user_id: userId ?? row.user_id,
+      parent_id: remapNotebook(row.parent_id),
+    })),
+    content: rows.content.map(
+      (row): ContentRow => ({
+        ...row,
+        id: idMap.get(row.id)!,
+        user_id: userId ?? row.user_id,
+        file_path: remapPath(row.file_path) ?? renameFile(row.file_path),
+        thumbnail_path: remapPath(row.thumbnail_path),
+        image_metadata: withoutThumbnailVariants(row.image_metadata),
+        pdf_metadata: withoutThumbnailVariants(row.pdf_metadata),
+        snapshot_path: remapPath(row.snapshot_path ?? null),
+        notebook_id: remapNotebook(row.notebook_id),
+      })
+    ),
+    versions: rows.versions
+      .filter((row) => idMap.has(row.content_id))
+      .map((row) => ({ ...row, content_id: idMap.get(row.content_id)! })),
+    pages: rows.pages
+      .filter((row) => idMap.has(row.content_id))
+      .map((row) => ({ ...row, content_id: idMap.get(row.content_id)! })),
+  };
+}
+
+/**
+ * Give a file path a new, unique file name in the same directory
+ */
+function renameFile(relativePath: string): string {
+  return path.join(path.dirname(relativePath), `${uuidv4()}${path.extname(relativePath)}`);
+}
+
+/**
+ * Drop the additional thumbnail sizes from image or PDF metadata (JSON)
+ * They are not part of a backup - the thumbnail backfill regenerates them after a restore
+ */
+function withoutThumbnailVariants(json: string | null): string | null {
+  if (!json) {
+    return json;
+  }
+
+  const { thumbnailVariants: _variants, thumbnailSignature: _signature, ...metadata } = JSON.parse(json) as
+    | ImageMetadata
+    | PdfMetadata;
+  return JSON.stringify(metadata);
+}
+
+/**
+ * Parse and check the manifest of a backup
+ */
+function parseManifest(json: string): BackupManifest {
+  const manifest = JSON.parse(json) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT || manifest.version !== 1) {
+    throw new Error(`Unsupported backup format: ${manifest.format} version ${manifest.version}`);
+  }
+  return manifest;
+}
+
+/**
+ * Check that a stored relative path stays inside the storage directory
+ */
+function isSafeRelativePath(relativePath: string): boolean {
+  return !path.isAbsolute(relativePath) && !relativePath.split(/[\\/]/).includes('..');
+}
+
+/**
+ * Convert a storage path to an archive path (always forward slashes)
+ */
+function toArchivePath(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Convert an archive path to a storage path
+ */
+function fromArchivePath(archivePath: string): string {
+  return archivePath.split('/').join(path.sep);
+}
+
+/**
+ * Encode an embedding as base64 Float32 values
+ */
+function encodeEmbedding(embedding: number[]): string {
+  const floats = Float32Array.from(embedding);
+  return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength).toString('base64');
+}
+
+/**
+ * Decode a base64 Float32 embedding
+ */
+function decodeEmbedding(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64');
+  const copy = new Uint8Array(bytes.byteLength);
+  copy.set(bytes);
+  return Array.from(new Float32Array(copy.buffer));
+}
+
+/**
+ * SHA-256 of a stream (hex)
+ */
+async function hashStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of stream) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Open a zip archive from a file or memory, reading entries on demand
+ */
+function openZip(source: string | Buffer): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    const callback = (error: Error | null, zip?: yauzl.ZipFile) => {
+      if (error || !zip) {
+        reject(error ?? new Error('Failed to open zip archive'));
+      } else {
+        resolve(zip);
+      }
+    };
+
+    if (typeof source === 'string') {
+      yauzl.open(source, { lazyEntries: true, autoClose: false }, callback);
+    } else {
+      yauzl.fromBuffer(source, { lazyEntries: true, autoClose: false }, callback);
+    }
+  });
+}
+
+/**
+ * List the file entries of an archive by name
+ */
+function listEntries(zip: yauzl.ZipFile): Promise<Map<string, yauzl.Entry>> {
+  return new Promise((resolve, reject) => {
+    const entries = new Map<string, yauzl.Entry>();
+
+    zip.on('entry', (entry: yauzl.Entry) => {
+      if (!entry.fileName.endsWith('/')) {
+        entries.set(entry.fileName, entry);
+      }
+      zip.readEntry();
+    });
+    zip.on('end', () => resolve(entries));
+    zip.on('error', reject);
+    zip.readEntry();
+  });
+}
+
+/**
+ * Open the uncompressed contents of an archive entry as a stream
+ */
+function openEntry(zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<NodeJS.ReadableStream> {
+  return new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (error, stream) => {
+      if (error || !stream) {
+        reject(error ?? new Error(`Failed to read ${entry.fileName}`));
+      } else {
+        resolve(stream);
+      }
+    });
+  });
+}
+
+/**
+ * Read a text entry of an archive
+ */
+async function readEntryText(zip: yauzl.ZipFile, entry: yauzl.Entry | undefined): Promise<string> {
+  if (!entry) {
+    throw new Error('Missing backup entry');
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openEntry(zip, entry)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Get backup service instance
+ */
+export const getBackupService = (
+  db?: DatabaseService,
+  fileStorage?: FileStorageService,
+  vectorStore?: VectorStore,
+  embeddingPipeline?: EmbeddingPipelineService
+): BackupService => {
+  return BackupService.getInstance(db, fileStorage, vectorStore, embeddingPipeline);
+};
@@ -10,14 +10,28 @@ import { readFileSync, existsSync, mkdirSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import { logger } from '../../utils/logger.js';
+import { parseWikiLinks } from '../../utils/wikiLinks.js';
+import { computeContentHash } from '../../utils/contentHash.js';
 import type {
+  BackupRows,
   Content,
+  ContentLink,
+  ContentPageRow,
   ContentRow,
+  ContentVersion,
+  ContentVersionRow,
   CreateContentInput,
+  EmbeddingJob,
+  EmbeddingJobStatus,
+  EmbeddingJobType,
+  Notebook,
   UpdateContentInput,
+  PdfPage,
+  VectorRow,
   SearchFilters,
   SearchHistory,
   SchemaVersion,
+  VersionChangeSource,
 } from '../../models/content.js';
 
 /**
@@ -149,6 +163,123 @@ export class DatabaseService {
       }
     }
 
+    // Check if deleted_at column exists (Migration 010)
+    const hasDeletedAt = columns.some((col) => col.name === 'deleted_at');
+    if (!hasDeletedAt) {
+      logger.info('Adding deleted_at column to content table');
+      try {
+        this.db.exec('ALTER TABLE content ADD COLUMN deleted_at DATETIME');
+        logger.info('deleted_at column added successfully');
+      } catch (error) {
+        // Column might already exist, ignore error
+        logger.debug('deleted_at column might already exist', { error });
+      }
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_deleted_at ON content(deleted_at)');
+
+    // Check if notebook_id column exists (Migration 012)
+    const hasNotebookId = columns.some((col) => col.name === 'notebook_id');
+    if (!hasNotebookId) {
+      logger.info('Adding notebook_id column to content table');
+      try {
+        this.db.exec(
+          'ALTER TABLE content ADD COLUMN notebook_id TEXT REFERENCES notebooks(id) ON DELETE SET NULL'
+        );
+        logger.info('notebook_id column added successfully');
+      } catch (error) {
+        // Column might already exist, ignore error
+        logger.debug('notebook_id column might already exist', { error });
+      }
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_notebook_id ON content(notebook_id)');
+
+    // Check if content_hash column exists (Migration 014)
+    const hasContentHash = columns.some((col) => col.name === 'content_hash');
+    if (!hasContentHash) {
+      logger.info('Adding content_hash column to content table');
+      try {
+        this.db.exec('ALTER TABLE content ADD COLUMN content_hash TEXT');
+        logger.info('content_hash column added successfully');
+      } catch (error) {
+        // Column might already exist, ignore error
+        logger.debug('content_hash column might already exist', { error });
+      }
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_content_hash ON content(user_id, content_hash)');
+
+    // Check if source_url and snapshot_path columns exist (Migration 015)
+    for (const column of ['source_url', 'snapshot_path']) {
+      if (!columns.some((col) => col.name === column)) {
+        logger.info(`Adding ${column} column to content table`);
+        try {
+          this.db.exec(`ALTER TABLE content ADD COLUMN ${column} TEXT`);
+          logger.info(`${column} column added successfully`);
+        } catch (error) {
+          // Column might already exist, ignore error
+          logger.debug(`${column} column might already exist`, { error });
+        }
+      }
+    }
+
+    // Check if audio_metadata column exists (Migration 016)
+    const hasAudioMetadata = columns.some((col) => col.name === 'audio_metadata');
+    if (!hasAudioMetadata) {
+      logger.info('Adding audio_metadata column to content table');
+      try {
+        this.db.exec('ALTER TABLE content ADD COLUMN audio_metadata TEXT');
+        logger.info('audio_metadata column added successfully');
+      } catch (error) {
+        // Column might already exist, ignore error
+        logger.debug('audio_metadata column might already exist', { error });
+      }
+    }
+
+    // Check if reminder columns exist (Migration 017)
+    for (const column of ['remind_at', 'due_at', 'reminder_fired_at']) {
+      if (!columns.some((col) => col.name === column)) {
+        logger.info(`Adding ${column} column to content table`);
+        try {
+          this.db.exec(`ALTER TABLE content ADD COLUMN ${column} TEXT`);
+          logger.info(`${column} column added successfully`);
+        } catch (error) {
+          // Column might already exist, ignore error
+          logger.debug(`${column} column might already exist`, { error });
+        }
+      }
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_remind_at ON content(remind_at)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_due_at ON content(due_at)');
+
+    // Hash existing notes from their text (files are hashed on demand, see DuplicateService)
+    const unhashedNotes = this.db
+      .prepare("SELECT id, extracted_text FROM content WHERE content_type = 'text' AND content_hash IS NULL")
+      .all() as Array<{ id: string; extracted_text: string | null }>;
+    if (unhashedNotes.length > 0) {
+      const setHash = this.db.prepare('UPDATE content SET content_hash = ? WHERE id = ?');
+      this.db.transaction(() => {
+        for (const note of unhashedNotes) {
+          setHash.run(computeContentHash(note.extracted_text ?? '', 'text'), note.id);
+        }
+      })();
+      logger.info('Content hashes computed for existing notes', { notes: unhashedNotes.length });
+    }
+
+    // Index the wiki links of notes written before links were tracked (Migration 013)
+    const { count: linkCount } = this.db.prepare('SELECT COUNT(*) as count FROM content_links').get() as {
+      count: number;
+    };
+    if (linkCount === 0) {
+      const notes = this.db
+        .prepare("SELECT * FROM content WHERE content_type = 'text' AND extracted_text LIKE '%[[%'")
+        .all() as ContentRow[];
+      for (const row of notes) {
+        this.syncLinks(this.mapRowToContent(row));
+      }
+      if (notes.length > 0) {
+        logger.info('Wiki links indexed for existing notes', { notes: notes.length });
+      }
+    }
+
     // Check if FTS table has tags column (Migration 006)
     const ftsColumns = this.db.pragma('table_info(content_fts)') as Array<{ name: string }>;
     const ftsHasTags = ftsColumns.some((col) => col.name === 'tags');
@@ -181,22 +312,7 @@ export class DatabaseService {
           END;
         `);
 
-        this.db.exec(`
-          CREATE TRIGGER content_au AFTER UPDATE ON content BEGIN
-            UPDATE content_fts
-            SET title = new.title,
-                annotation = new.annotation,
-                extracted_text = new.extracted_text,
-                tags = new.tags
-            WHERE rowid = new.rowid;
-          END;
-        `);
-
-        this.db.exec(`
-          CREATE TRIGGER content_ad AFTER DELETE ON content BEGIN
-            DELETE FROM content_fts WHERE rowid = old.rowid;
-          END;
-        `);
+        this.createFtsSyncTriggers();
 
         // Rebuild FTS index from existing content
         this.db.exec(`
@@ -211,6 +327,47 @@ export class DatabaseService {
         // Don't throw - allow database to continue operating
       }
     }
+
+    // Replace FTS sync triggers that updated the external content FTS table in place,
+    // which corrupts the index on the second update of a row
+    const updateTrigger = this.db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'trigger' AND name = 'content_au'")
+      .get() as { sql: string } | undefined;
+    if (updateTrigger && updateTrigger.sql.includes('UPDATE content_fts')) {
+      logger.info('Replacing FTS sync triggers and rebuilding FTS index');
+      try {
+        this.db.exec('DROP TRIGGER IF EXISTS content_au');
+        this.db.exec('DROP TRIGGER IF EXISTS content_ad');
+        this.createFtsSyncTriggers();
+        this.db.exec("INSERT INTO content_fts(content_fts) VALUES ('rebuild')");
+        logger.info('FTS sync triggers replaced successfully');
+      } catch (error) {
+        logger.error('Failed to replace FTS sync triggers', { error });
+        // Don't throw - allow database to continue operating
+      }
+    }
+  }
+
+  /**
+   * Create the update and delete triggers that keep content_fts in sync
+   * External content FTS tables need the old values to remove stale tokens
+   */
+  private createFtsSyncTriggers(): void {
+    this.db.exec(`
+      CREATE TRIGGER content_au AFTER UPDATE ON content BEGIN
+        INSERT INTO content_fts(content_fts, rowid, title, annotation, extracted_text, tags)
+        VALUES ('delete', old.rowid, old.title, old.annotation, old.extracted_text, old.tags);
+        INSERT INTO content_fts(rowid, title, annotation, extracted_text, tags)
+        VALUES (new.rowid, new.title, new.annotation, new.extracted_text, new.tags);
+      END;
+    `);
+
+    this.db.exec(`
+      CREATE TRIGGER content_ad AFTER DELETE ON content BEGIN
+        INSERT INTO content_fts(content_fts, rowid, title, annotation, extracted_text, tags)
+        VALUES ('delete', old.rowid, old.title, old.annotation, old.extracted_text, old.tags);
+      END;
+    `);
   }
 
   /**
@@ -240,9 +397,14 @@ export class DatabaseService {
 
     const stmt = this.db.prepare(`
       INSERT INTO content (
-        id, user_id, file_path, content_type, title, source, tags, annotation, extracted_text, embedding_status
+        id, user_id, file_path, content_type, title, source, tags, annotation, extracted_text, embedding_status,
+        thumbnail_path, image_metadata, pdf_metadata, audio_metadata, notebook_id, content_hash, source_url,
+        snapshot_path, remind_at, due_at, created_at, updated_at
       ) VALUES (
-        @id, @user_id, @file_path, @content_type, @title, @source, @tags, @annotation, @extracted_text, 'pending'
+        @id, @user_id, @file_path, @content_type, @title, @source, @tags, @annotation, @extracted_text, 'pending',
+        @thumbnail_path, @image_metadata, @pdf_metadata, @audio_metadata, @notebook_id, @content_hash, @source_url,
+        @snapshot_path, @remind_at, @due_at,
+        COALESCE(@created_at, CURRENT_TIMESTAMP), COALESCE(@updated_at, @created_at, CURRENT_TIMESTAMP)
       )
     `);
 
@@ -259,6 +421,20 @@ export class DatabaseService {
         tags: tagsJson,
         annotation: input.annotation || null,
         extracted_text: input.extracted_text || null,
+        thumbnail_path: input.thumbnail_path || null,
+        image_metadata: input.image_metadata ? JSON.stringify(input.image_metadata) : null,
+        pdf_metadata: input.pdf_metadata ? JSON.stringify(input.pdf_metadata) : null,
+        audio_metadata: input.audio_metadata ? JSON.stringify(input.audio_metadata) : null,
+        notebook_id: input.notebook_id || null,
+        content_hash:
+          input.content_hash ||
+          (input.content_type === 'text' ? computeContentHash(input.extracted_text || '', 'text') : null),
+        source_url: input.source_url || null,
+        snapshot_path: input.snapshot_path || null,
+        remind_at: input.remind_at || null,
+        due_at: input.due_at || null,
+        created_at: input.created_at || null,
+        updated_at: input.updated_at || null,
       });
 
       logger.info('Content created successfully', {
@@ -284,6 +460,10 @@ export class DatabaseService {
       throw error;
     }
 
+    this.recordVersion(created, 'create');
+    this.syncLinks(created);
+    this.resolveLinksTo(created);
+
     return created;
   }
 
@@ -291,19 +471,23 @@ export class DatabaseService {
    * Get content by ID with optional user ownership verification
    * @param id - Content ID
    * @param userId - Optional user ID for ownership verification
+   * @param includeDeleted - Also return content that is in the trash
    * @returns Content if found and owned by user, null otherwise
    */
-  public getContentById(id: string, userId?: string): Content | null {
+  public getContentById(id: string, userId?: string, includeDeleted = false): Content | null {
     let stmt;
     let row;
+    const deletedFilter = includeDeleted ? '' : ' AND deleted_at IS NULL';
 
     if (userId) {
       // With user ownership check
-      stmt = this.db.prepare('SELECT * FROM content WHERE id = ? AND (user_id = ? OR user_id IS NULL)');
+      stmt = this.db.prepare(
+        `SELECT * FROM content WHERE id = ? AND (user_id = ? OR user_id IS NULL)${deletedFilter}`
+      );
       row = stmt.get(id, userId) as ContentRow | undefined;
     } else {
       // Without user check (for backward compatibility / migration)
-      stmt = this.db.prepare('SELECT * FROM content WHERE id = ?');
+      stmt = this.db.prepare(`SELECT * FROM content WHERE id = ?${deletedFilter}`);
       row = stmt.get(id) as ContentRow | undefined;
     }
 
@@ -322,13 +506,13 @@ export class DatabaseService {
 
     if (userId) {
       stmt = this.db.prepare(
-        'SELECT * FROM content WHERE user_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?'
+        'SELECT * FROM content WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at DESC LIMIT ? OFFSET ?'
       );
       rows = stmt.all(userId, limit, offset) as ContentRow[];
     } else {
       // For backward compatibility during migration - returns all content
       stmt = this.db.prepare(
-        'SELECT * FROM content ORDER BY created_at DESC LIMIT ? OFFSET ?'
+        'SELECT * FROM content WHERE deleted_at IS NULL ORDER BY created_at DESC LIMIT ? OFFSET ?'
       );
       rows = stmt.all(limit, offset) as ContentRow[];
     }
@@ -336,6 +520,69 @@ export class DatabaseService {
     return rows.map((row) => this.mapRowToContent(row));
   }
 
+  /**
+   * Get all content with tags, including content in the trash (for renaming, merging and deleting tags)
+   * @param userId - User ID to filter content (null for all users)
+   */
+  public getAllTaggedContent(userId: string | null): Content[] {
+    const sql = `SELECT * FROM content WHERE tags IS NOT NULL AND tags != '[]' ${userId ? 'AND user_id = ?' : ''}`;
+    const rows = this.db.prepare(sql).all(...(userId ? [userId] : [])) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Get all content of a user matching filters, oldest first (used for exports)
+   * @param userId - User ID to filter content (null for all users)
+   * @param filters - Optional tag, date, type and source filters
+   */
+  public getContentByFilters(userId: string | null, filters: SearchFilters = {}): Content[] {
+    let sql = 'SELECT * FROM content WHERE deleted_at IS NULL';
+    const params: unknown[] = [];
+
+    if (userId) {
+      sql += ' AND user_id = ?';
+      params.push(userId);
+    }
+
+    if (filters.contentTypes && filters.contentTypes.length > 0) {
+      const placeholders = filters.contentTypes.map(() => '?').join(',');
+      sql += ` AND content_type IN (${placeholders})`;
+      params.push(...filters.contentTypes);
+    }
+
+    if (filters.dateFrom) {
+      sql += ' AND created_at >= ?';
+      params.push(filters.dateFrom);
+    }
+
+    if (filters.dateTo) {
+      sql += ' AND created_at <= ?';
+      params.push(filters.dateTo);
+    }
+
+    if (filters.source) {
+      sql += ' AND source = ?';
+      params.push(filters.source);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      const tagFilter = this.buildTagFilter('tags', filters.tags);
+      sql += ` AND ${tagFilter.sql}`;
+      params.push(...tagFilter.params);
+    }
+
+    if (filters.notebookIds) {
+      const placeholders = filters.notebookIds.map(() => '?').join(',');
+      sql += ` AND notebook_id IN (${placeholders || 'NULL'})`;
+      params.push(...filters.notebookIds);
+    }
+
+    sql += ' ORDER BY created_at ASC, id ASC';
+
+    const rows = this.db.prepare(sql).all(...params) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
   /**
    * Get recent content for a user (last N items)
    * @param userId - User ID to filter content (required for multi-user)
@@ -347,13 +594,13 @@ export class DatabaseService {
 
     if (userId) {
       stmt = this.db.prepare(
-        'SELECT * FROM content WHERE user_id = ? ORDER BY created_at DESC LIMIT ?'
+        'SELECT * FROM content WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at DESC LIMIT ?'
       );
       rows = stmt.all(userId, limit) as ContentRow[];
     } else {
       // For backward compatibility during migration - returns all content
       stmt = this.db.prepare(
-        'SELECT * FROM content ORDER BY created_at DESC LIMIT ?'
+        'SELECT * FROM content WHERE deleted_at IS NULL ORDER BY created_at DESC LIMIT ?'
       );
       rows = stmt.all(limit) as ContentRow[];
     }
@@ -366,11 +613,19 @@ export class DatabaseService {
    * @param id - Content ID
    * @param userId - User ID for ownership verification
    * @param input - Fields to update
+   * @param changeSource - Recorded in the version history if a versioned field changes
+   * @param includeDeleted - Also update content in the trash
    * @returns Updated content if found and owned by user, null otherwise
    */
-  public updateContent(id: string, userId: string | null, input: UpdateContentInput): Content | null {
+  public updateContent(
+    id: string,
+    userId: string | null,
+    input: UpdateContentInput,
+    changeSource: VersionChangeSource = 'update',
+    includeDeleted = false
+  ): Content | null {
     // First verify ownership
-    const existing = this.getContentById(id, userId || undefined);
+    const existing = this.getContentById(id, userId || undefined, includeDeleted);
     if (!existing) {
       logger.warn('Content not found or not owned by user', { id, userId });
       return null;
@@ -402,11 +657,12 @@ export class DatabaseService {
     if (input.extracted_text !== undefined) {
       updates.push('extracted_text = @extracted_text');
       params.extracted_text = input.extracted_text;
-    }
 
-    if (input.embedding_status !== undefined) {
-      updates.push('embedding_status = @embedding_status');
-      params.embedding_status = input.embedding_status;
+      // The text of a note is its content, so its hash changes with it
+      if (existing.content_type === 'text') {
+        updates.push('content_hash = @content_hash');
+        params.content_hash = computeContentHash(input.extracted_text ?? '', 'text');
+      }
     }
 
     if (input.thumbnail_path !== undefined) {
@@ -424,12 +680,36 @@ export class DatabaseService {
       params.pdf_metadata = JSON.stringify(input.pdf_metadata);
     }
 
-    // Always update the updated_at timestamp
-    updates.push('updated_at = CURRENT_TIMESTAMP');
+    // Update the updated_at timestamp when the content itself changed
+    if (updates.length > 0) {
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+    }
+
+    // Embedding status, notebook placement and reminders are bookkeeping and leave updated_at alone
+    if (input.embedding_status !== undefined) {
+      updates.push('embedding_status = @embedding_status');
+      params.embedding_status = input.embedding_status;
+    }
+
+    if (input.notebook_id !== undefined) {
+      updates.push('notebook_id = @notebook_id');
+      params.notebook_id = input.notebook_id;
+    }
+
+    if (input.remind_at !== undefined) {
+      // A new reminder time re-arms the reminder
+      updates.push('remind_at = @remind_at', 'reminder_fired_at = NULL');
+      params.remind_at = input.remind_at;
+    }
+
+    if (input.due_at !== undefined) {
+      updates.push('due_at = @due_at');
+      params.due_at = input.due_at;
+    }
 
-    if (updates.length === 1) {
-      // Only updated_at changed, nothing to update
-      return this.getContentById(id, userId || undefined);
+    if (updates.length === 0) {
+      // Nothing to update
+      return this.getContentById(id, userId || undefined, includeDeleted);
     }
 
     // Build WHERE clause with ownership check
@@ -446,7 +726,19 @@ export class DatabaseService {
       return null;
     }
 
-    return this.getContentById(id, userId || undefined);
+    const updated = this.getContentById(id, userId || undefined, includeDeleted);
+    if (updated) {
+      this.recordChange(existing, updated, changeSource);
+
+      if (updated.extracted_text !== existing.extracted_text) {
+        this.syncLinks(updated);
+      }
+      if (updated.title !== existing.title) {
+        this.resolveLinksTo(updated);
+      }
+    }
+
+    return updated;
   }
 
   /**
@@ -485,7 +777,12 @@ export class DatabaseService {
       return null;
     }
 
-    return this.getContentById(id, userId || undefined);
+    const updated = this.getContentById(id, userId || undefined);
+    if (updated) {
+      this.recordChange(existing, updated, 'update');
+    }
+
+    return updated;
   }
 
   /**
@@ -497,8 +794,8 @@ export class DatabaseService {
   public deleteContent(id: string, userId: string | null): boolean {
     logger.debug('Deleting content', { id, userId });
 
-    // Verify ownership first
-    const existing = this.getContentById(id, userId || undefined);
+    // Verify ownership first (trashed content is deleted permanently as well)
+    const existing = this.getContentById(id, userId || undefined, true);
     if (!existing) {
       logger.warn('Content not found or not owned by user for deletion', { id, userId });
       return false;
@@ -527,6 +824,216 @@ export class DatabaseService {
     return deleted;
   }
 
+  // =========================================================================
+  // Trash
+  // =========================================================================
+
+  /**
+   * Move content to the trash (soft delete)
+   * Trashed content is hidden from lists, search, tags and stats until restored or purged
+   * @param id - Content ID
+   * @param userId - User ID for ownership verification
+   * @returns true if moved to the trash, false if not found or not owned by user
+   */
+  public trashContent(id: string, userId: string | null): boolean {
+    logger.debug('Moving content to trash', { id, userId });
+
+    const whereClause = userId ? 'WHERE id = ? AND user_id = ?' : 'WHERE id = ?';
+    const stmt = this.db.prepare(
+      `UPDATE content SET deleted_at = CURRENT_TIMESTAMP ${whereClause} AND deleted_at IS NULL`
+    );
+    const result = userId ? stmt.run(id, userId) : stmt.run(id);
+
+    const trashed = result.changes > 0;
+    if (trashed) {
+      logger.info('Content moved to trash', { id, userId });
+    } else {
+      logger.warn('Content not found or not owned by user for trash', { id, userId });
+    }
+
+    return trashed;
+  }
+
+  /**
+   * Restore content from the trash
+   * @param id - Content ID
+   * @param userId - User ID for ownership verification
+   * @returns Restored content, null if not in the trash or not owned by user
+   */
+  public restoreContent(id: string, userId: string | null): Content | null {
+    logger.debug('Restoring content from trash', { id, userId });
+
+    const whereClause = userId ? 'WHERE id = ? AND user_id = ?' : 'WHERE id = ?';
+    const stmt = this.db.prepare(
+      `UPDATE content SET deleted_at = NULL ${whereClause} AND deleted_at IS NOT NULL`
+    );
+    const result = userId ? stmt.run(id, userId) : stmt.run(id);
+
+    if (result.changes === 0) {
+      logger.warn('Content not found in trash or not owned by user', { id, userId });
+      return null;
+    }
+
+    logger.info('Content restored from trash', { id, userId });
+    const restored = this.getContentById(id, userId || undefined);
+    if (restored) {
+      this.resolveLinksTo(restored);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Get trashed content for a user (most recently deleted first)
+   * @param userId - User ID to filter content
+   * @param limit - Maximum number of results
+   * @param offset - Number of results to skip
+   */
+  public getTrashedContent(userId: string | null, limit = 100, offset = 0): Content[] {
+    let rows;
+
+    if (userId) {
+      rows = this.db
+        .prepare(
+          'SELECT * FROM content WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC LIMIT ? OFFSET ?'
+        )
+        .all(userId, limit, offset) as ContentRow[];
+    } else {
+      rows = this.db
+        .prepare('SELECT * FROM content WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC LIMIT ? OFFSET ?')
+        .all(limit, offset) as ContentRow[];
+    }
+
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Count trashed content for a user
+   * @param userId - User ID to filter content
+   */
+  public getTrashedCount(userId: string | null): number {
+    const result = userId
+      ? (this.db
+          .prepare('SELECT COUNT(*) as count FROM content WHERE user_id = ? AND deleted_at IS NOT NULL')
+          .get(userId) as { count: number })
+      : (this.db.prepare('SELECT COUNT(*) as count FROM content WHERE deleted_at IS NOT NULL').get() as {
+          count: number;
+        });
+
+    return result.count;
+  }
+
+  /**
+   * Get trashed content (of all users) that has been in the trash longer than the retention period
+   * @param retentionDays - Days content stays in the trash
+   * @param limit - Maximum number of results
+   */
+  public getExpiredTrash(retentionDays: number, limit = 100): Content[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM content WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?) ORDER BY deleted_at LIMIT ?"
+    );
+    const rows = stmt.all(`-${retentionDays} days`, limit) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Get content with a reminder or due date up to a point in time (earliest first)
+   * Items are ordered by their due date, or by their reminder if they have no due date
+   * @param userId - User ID to filter content
+   * @param until - ISO 8601 end of the range
+   * @param limit - Maximum number of results
+   */
+  public getReminderContent(userId: string | null, until: string, limit = 100): Content[] {
+    const userFilter = userId ? 'user_id = ? AND ' : '';
+    const stmt = this.db.prepare(
+      `SELECT * FROM content WHERE ${userFilter}deleted_at IS NULL AND (remind_at <= ? OR due_at <= ?) ` +
+        'ORDER BY COALESCE(due_at, remind_at) LIMIT ?'
+    );
+    const rows = (userId ? stmt.all(userId, until, until, limit) : stmt.all(until, until, limit)) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Get content (of all users) whose reminder is due and has not gone off yet
+   * @param now - ISO 8601 current time
+   * @param limit - Maximum number of results
+   */
+  public getPendingReminders(now: string, limit = 100): Content[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM content WHERE deleted_at IS NULL AND remind_at <= ? AND reminder_fired_at IS NULL ORDER BY remind_at LIMIT ?'
+    );
+    const rows = stmt.all(now, limit) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Record that the reminder of content went off (leaves updated_at alone)
+   * @returns true if the reminder was marked, false if not found
+   */
+  public markReminderFired(id: string, firedAt: string): boolean {
+    const result = this.db.prepare('UPDATE content SET reminder_fired_at = ? WHERE id = ?').run(firedAt, id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Get a user's content due at or after a time (earliest first), for the calendar feed
+   * @param userId - User ID to filter content
+   * @param since - Earliest due date (ISO 8601)
+   * @param limit - Maximum number of results
+   */
+  public getContentWithDueDate(userId: string, since: string, limit = 1000): Content[] {
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM content WHERE user_id = ? AND deleted_at IS NULL AND due_at >= ? ORDER BY due_at LIMIT ?'
+      )
+      .all(userId, since, limit) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Set the calendar feed token of a user (replaces the previous token)
+   * @param tokenHash - SHA-256 of the token (the token itself is never stored)
+   */
+  public setCalendarFeedToken(userId: string, tokenHash: string): void {
+    this.db
+      .prepare(
+        'INSERT OR REPLACE INTO calendar_feeds (user_id, token_hash, created_at) VALUES (?, ?, CURRENT_TIMESTAMP)'
+      )
+      .run(userId, tokenHash);
+  }
+
+  /**
+   * Get the calendar feed of a user
+   * @returns Creation time of the feed, null if the user has no feed
+   */
+  public getCalendarFeed(userId: string): { created_at: string } | null {
+    const row = this.db.prepare('SELECT created_at FROM calendar_feeds WHERE user_id = ?').get(userId) as
+      | { created_at: string }
+      | undefined;
+    return row ?? null;
+  }
+
+  /**
+   * Find the user owning a calendar feed token
+   * @param tokenHash - SHA-256 of the token
+   * @returns User ID, null if no feed has this token
+   */
+  public getCalendarFeedUser(tokenHash: string): string | null {
+    const row = this.db.prepare('SELECT user_id FROM calendar_feeds WHERE token_hash = ?').get(tokenHash) as
+      | { user_id: string }
+      | undefined;
+    return row?.user_id ?? null;
+  }
+
+  /**
+   * Delete the calendar feed of a user (its URL stops working)
+   * @returns true if deleted, false if the user had no feed
+   */
+  public deleteCalendarFeed(userId: string): boolean {
+    const result = this.db.prepare('DELETE FROM calendar_feeds WHERE user_id = ?').run(userId);
+    return result.changes > 0;
+  }
+
   /**
    * Get content count by type for a user
    * @param userId - User ID to filter content
@@ -537,13 +1044,13 @@ export class DatabaseService {
 
     if (userId) {
       stmt = this.db.prepare(
-        'SELECT content_type, COUNT(*) as count FROM content WHERE user_id = ? GROUP BY content_type'
+        'SELECT content_type, COUNT(*) as count FROM content WHERE user_id = ? AND deleted_at IS NULL GROUP BY content_type'
       );
       rows = stmt.all(userId) as Array<{ content_type: string; count: number }>;
     } else {
       // For backward compatibility during migration
       stmt = this.db.prepare(
-        'SELECT content_type, COUNT(*) as count FROM content GROUP BY content_type'
+        'SELECT content_type, COUNT(*) as count FROM content WHERE deleted_at IS NULL GROUP BY content_type'
       );
       rows = stmt.all() as Array<{ content_type: string; count: number }>;
     }
@@ -566,11 +1073,11 @@ export class DatabaseService {
     let result;
 
     if (userId) {
-      stmt = this.db.prepare('SELECT COUNT(*) as count FROM content WHERE user_id = ?');
+      stmt = this.db.prepare('SELECT COUNT(*) as count FROM content WHERE user_id = ? AND deleted_at IS NULL');
       result = stmt.get(userId) as { count: number };
     } else {
       // For backward compatibility during migration
-      stmt = this.db.prepare('SELECT COUNT(*) as count FROM content');
+      stmt = this.db.prepare('SELECT COUNT(*) as count FROM content WHERE deleted_at IS NULL');
       result = stmt.get() as { count: number };
     }
 
@@ -578,30 +1085,918 @@ export class DatabaseService {
   }
 
   // =========================================================================
-  // Full-Text Search
+  // Content Versions
   // =========================================================================
 
   /**
-   * Search content using FTS5 with user isolation
-   * @param query - Search query
-   * @param userId - User ID to filter content
-   * @param limit - Maximum number of results
+   * Get the version history of a content item (newest first)
+   * @param contentId - Content ID
    */
-  public searchContent(query: string, userId: string | null, limit = 10): Content[] {
-    logger.debug('Searching content with FTS', { query, userId, limit });
+  public getContentVersions(contentId: string): ContentVersion[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM content_versions WHERE content_id = ? ORDER BY version DESC'
+    );
+    const rows = stmt.all(contentId) as ContentVersionRow[];
+    return rows.map((row) => this.mapRowToVersion(row));
+  }
 
-    let sql;
-    let params;
+  /**
+   * Get a single version of a content item
+   * @param contentId - Content ID
+   * @param version - Version number
+   */
+  public getContentVersion(contentId: string, version: number): ContentVersion | null {
+    const stmt = this.db.prepare('SELECT * FROM content_versions WHERE content_id = ? AND version = ?');
+    const row = stmt.get(contentId, version) as ContentVersionRow | undefined;
+    return row ? this.mapRowToVersion(row) : null;
+  }
 
-    if (userId) {
-      sql = `
-        SELECT c.*
-        FROM content_fts fts
-        JOIN content c ON c.rowid = fts.rowid
-        WHERE content_fts MATCH ? AND c.user_id = ?
-        ORDER BY rank
-        LIMIT ?
-      `;
+  /**
+   * Record a new version if any versioned field (title, annotation, tags, extracted text) changed
+   * Content created before version history existed gets its previous state recorded first,
+   * so the change can still be undone
+   */
+  private recordChange(before: Content, after: Content, changeSource: VersionChangeSource): void {
+    const changed =
+      before.title !== after.title ||
+      before.annotation !== after.annotation ||
+      before.extracted_text !== after.extracted_text ||
+      JSON.stringify(before.tags) !== JSON.stringify(after.tags);
+
+    if (!changed) {
+      return;
+    }
+
+    const record = this.db.transaction(() => {
+      const { count } = this.db
+        .prepare('SELECT COUNT(*) as count FROM content_versions WHERE content_id = ?')
+        .get(before.id) as { count: number };
+
+      if (count === 0) {
+        this.recordVersion(before, 'create');
+      }
+      this.recordVersion(after, changeSource);
+    });
+
+    record();
+  }
+
+  /**
+   * Store a snapshot of the versioned fields as the next version of a content item
+   */
+  private recordVersion(content: Content, changeSource: VersionChangeSource): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO content_versions (content_id, version, title, annotation, tags, extracted_text, change_source)
+      SELECT @content_id, COALESCE(MAX(version), 0) + 1, @title, @annotation, @tags, @extracted_text, @change_source
+      FROM content_versions WHERE content_id = @content_id
+    `);
+
+    stmt.run({
+      content_id: content.id,
+      title: content.title,
+      annotation: content.annotation,
+      tags: JSON.stringify(content.tags),
+      extracted_text: content.extracted_text,
+      change_source: changeSource,
+    });
+
+    logger.debug('Content version recorded', { id: content.id, changeSource });
+  }
+
+  // =========================================================================
+  // PDF Pages
+  // =========================================================================
+
+  /**
+   * Replace the stored page texts for a content item
+   * @param contentId - Content ID
+   * @param pages - Extracted page texts
+   */
+  public saveContentPages(contentId: string, pages: PdfPage[]): void {
+    logger.debug('Saving content pages', { contentId, pageCount: pages.length });
+
+    const deleteStmt = this.db.prepare('DELETE FROM content_pages WHERE content_id = ?');
+    const insertStmt = this.db.prepare(
+      'INSERT INTO content_pages (content_id, page_number, text) VALUES (?, ?, ?)'
+    );
+
+    const replacePages = this.db.transaction((items: PdfPage[]) => {
+      deleteStmt.run(contentId);
+      for (const page of items) {
+        insertStmt.run(contentId, page.page_number, page.text);
+      }
+    });
+
+    replacePages(pages);
+  }
+
+  /**
+   * Get the stored page texts for a content item (ordered by page number)
+   * @param contentId - Content ID
+   */
+  public getContentPages(contentId: string): PdfPage[] {
+    const stmt = this.db.prepare(
+      'SELECT page_number, text FROM content_pages WHERE content_id = ? ORDER BY page_number'
+    );
+    return stmt.all(contentId) as PdfPage[];
+  }
+
+  /**
+   * Find pages of a content item that contain any of the given terms (case-insensitive)
+   * @param contentId - Content ID
+   * @param terms - Lowercased search terms
+   * @returns Matching page numbers, best matches (most distinct terms) first
+   */
+  public findMatchingPages(contentId: string, terms: string[]): number[] {
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const conditions = terms.map(() => 'LOWER(text) LIKE ?').join(' OR ');
+    const stmt = this.db.prepare(
+      `SELECT page_number, LOWER(text) AS text FROM content_pages WHERE content_id = ? AND (${conditions}) ORDER BY page_number`
+    );
+    const rows = stmt.all(contentId, ...terms.map((term) => `%${term}%`)) as PdfPage[];
+
+    return rows
+      .map((row) => ({
+        page: row.page_number,
+        hits: terms.filter((term) => row.text.includes(term)).length,
+      }))
+      .sort((a, b) => b.hits - a.hits || a.page - b.page)
+      .map((match) => match.page);
+  }
+
+  // =========================================================================
+  // Vector Storage (SQLite vector store backend)
+  // =========================================================================
+
+  /**
+   * Insert or replace vector rows
+   */
+  public saveVectors(rows: VectorRow[]): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO content_vectors
+        (id, content_id, chunk_index, user_id, embedding, dimensions, text, metadata)
+      VALUES (@id, @content_id, @chunk_index, @user_id, @embedding, @dimensions, @text, @metadata)
+    `);
+
+    const insertAll = this.db.transaction((items: VectorRow[]) => {
+      for (const row of items) {
+        stmt.run(row);
+      }
+    });
+
+    insertAll(rows);
+  }
+
+  /**
+   * Delete all vectors of a content item (chunk vectors and a legacy vector stored under the content ID)
+   * @returns Number of deleted vectors
+   */
+  public deleteVectorsForContent(contentId: string): number {
+    const stmt = this.db.prepare('DELETE FROM content_vectors WHERE content_id = ? OR id = ?');
+    return stmt.run(contentId, contentId).changes;
+  }
+
+  /**
+   * Get all vectors of a content item (chunk vectors and a legacy vector stored under the content ID)
+   */
+  public getVectorsForContent(contentId: string): VectorRow[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM content_vectors WHERE content_id = ? OR id = ? ORDER BY chunk_index'
+    );
+    return stmt.all(contentId, contentId) as VectorRow[];
+  }
+
+  /**
+   * Replace the metadata JSON of vectors
+   * @returns Number of updated vectors
+   */
+  public updateVectorMetadata(updates: Array<{ id: string; metadata: string }>): number {
+    const stmt = this.db.prepare('UPDATE content_vectors SET metadata = @metadata WHERE id = @id');
+
+    const updateAll = this.db.transaction((items: Array<{ id: string; metadata: string }>) => {
+      let changes = 0;
+      for (const item of items) {
+        changes += stmt.run(item).changes;
+      }
+      return changes;
+    });
+
+    return updateAll(updates);
+  }
+
+  /**
+   * Get vectors to search, optionally restricted to a user
+   */
+  public getVectorsForSearch(userId: string | null): VectorRow[] {
+    if (userId) {
+      return this.db.prepare('SELECT * FROM content_vectors WHERE user_id = ?').all(userId) as VectorRow[];
+    }
+    return this.db.prepare('SELECT * FROM content_vectors').all() as VectorRow[];
+  }
+
+  /**
+   * Get a single vector by its ID
+   */
+  public getVector(id: string): VectorRow | null {
+    const row = this.db.prepare('SELECT * FROM content_vectors WHERE id = ?').get(id);
+    return (row as VectorRow | undefined) ?? null;
+  }
+
+  /**
+   * List vectors page by page (ordered by ID)
+   */
+  public listVectors(offset: number, limit: number): VectorRow[] {
+    const stmt = this.db.prepare('SELECT * FROM content_vectors ORDER BY id LIMIT ? OFFSET ?');
+    return stmt.all(limit, offset) as VectorRow[];
+  }
+
+  /**
+   * Count stored vectors
+   */
+  public getVectorCount(): number {
+    const row = this.db.prepare('SELECT COUNT(*) as count FROM content_vectors').get() as { count: number };
+    return row.count;
+  }
+
+  // =========================================================================
+  // Embedding Job Queue
+  // =========================================================================
+
+  /**
+   * Queue embedding work for a content item
+   * A job that is still waiting for the same content is reused (a full embed wins over
+   * a metadata refresh); dead jobs of the content are superseded by the new job
+   */
+  public enqueueEmbeddingJob(
+    contentId: string,
+    userId: string | null,
+    jobType: EmbeddingJobType
+  ): EmbeddingJob {
+    const enqueue = this.db.transaction((): EmbeddingJob => {
+      this.db
+        .prepare("DELETE FROM embedding_jobs WHERE content_id = ? AND status = 'dead'")
+        .run(contentId);
+
+      const queued = this.db
+        .prepare("SELECT * FROM embedding_jobs WHERE content_id = ? AND status = 'queued' ORDER BY id LIMIT 1")
+        .get(contentId) as EmbeddingJob | undefined;
+
+      if (queued) {
+        this.db
+          .prepare(`
+            UPDATE embedding_jobs
+            SET job_type = CASE WHEN job_type = 'embed' OR ? = 'embed' THEN 'embed' ELSE 'metadata' END,
+                attempts = 0, last_error = NULL, run_at = datetime('now'), updated_at = datetime('now')
+            WHERE id = ?
+          `)
+          .run(jobType, queued.id);
+        return this.getEmbeddingJob(queued.id)!;
+      }
+
+      const result = this.db
+        .prepare('INSERT INTO embedding_jobs (content_id, user_id, job_type) VALUES (?, ?, ?)')
+        .run(contentId, userId, jobType);
+      return this.getEmbeddingJob(Number(result.lastInsertRowid))!;
+    });
+
+    return enqueue();
+  }
+
+  /**
+   * Get an embedding job by ID
+   */
+  public getEmbeddingJob(id: number): EmbeddingJob | null {
+    const row = this.db.prepare('SELECT * FROM embedding_jobs WHERE id = ?').get(id);
+    return (row as EmbeddingJob | undefined) ?? null;
+  }
+
+  /**
+   * Claim the next due job and mark it running
+   * Skips content that already has a running job, so one item is never processed twice at once
+   */
+  public claimEmbeddingJob(): EmbeddingJob | null {
+    const claim = this.db.transaction((): EmbeddingJob | null => {
+      const job = this.db
+        .prepare(`
+          SELECT * FROM embedding_jobs
+          WHERE status = 'queued' AND run_at <= datetime('now')
+            AND content_id NOT IN (SELECT content_id FROM embedding_jobs WHERE status = 'running')
+          ORDER BY run_at, id
+          LIMIT 1
+        `)
+        .get() as EmbeddingJob | undefined;
+
+      if (!job) {
+        return null;
+      }
+
+      this.db
+        .prepare(`
+          UPDATE embedding_jobs
+          SET status = 'running', attempts = attempts + 1, updated_at = datetime('now')
+          WHERE id = ?
+        `)
+        .run(job.id);
+      return this.getEmbeddingJob(job.id);
+    });
+
+    return claim();
+  }
+
+  /**
+   * Remove a job that finished successfully
+   */
+  public completeEmbeddingJob(id: number): void {
+    this.db.prepare('DELETE FROM embedding_jobs WHERE id = ?').run(id);
+  }
+
+  /**
+   * Put a failed job back in the queue for a later attempt
+   * @param delaySeconds - Seconds until the next attempt
+   */
+  public retryEmbeddingJob(id: number, error: string, delaySeconds: number): void {
+    this.db
+      .prepare(`
+        UPDATE embedding_jobs
+        SET status = 'queued', last_error = ?, run_at = datetime('now', ?), updated_at = datetime('now')
+        WHERE id = ?
+      `)
+      .run(error, `+${Math.round(delaySeconds)} seconds`, id);
+  }
+
+  /**
+   * Move a job that cannot succeed to the dead letter state
+   */
+  public killEmbeddingJob(id: number, error: string): void {
+    this.db
+      .prepare(`
+        UPDATE embedding_jobs
+        SET status = 'dead', last_error = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `)
+      .run(error, id);
+  }
+
+  /**
+   * Requeue jobs left running by a previous process (crash or restart)
+   * @returns Number of requeued jobs
+   */
+  public requeueRunningEmbeddingJobs(): number {
+    return this.db
+      .prepare("UPDATE embedding_jobs SET status = 'queued', updated_at = datetime('now') WHERE status = 'running'")
+      .run().changes;
+  }
+
+  /**
+   * Queue embed jobs for content that is pending but has no job
+   * (e.g. captured before the job queue existed)
+   * @returns Number of queued jobs
+   */
+  public enqueueMissingEmbeddingJobs(): number {
+    return this.db
+      .prepare(`
+        INSERT INTO embedding_jobs (content_id, user_id, job_type)
+        SELECT id, user_id, 'embed' FROM content
+        WHERE embedding_status = 'pending' AND deleted_at IS NULL
+          AND id NOT IN (SELECT content_id FROM embedding_jobs)
+      `)
+      .run().changes;
+  }
+
+  /**
+   * List embedding jobs, oldest first
+   * @param userId - Optional user ID to filter jobs (null for all users)
+   * @param status - Optional status filter
+   */
+  public getEmbeddingJobs(
+    userId: string | null,
+    status: EmbeddingJobStatus | null = null,
+    limit = 50,
+    offset = 0
+  ): EmbeddingJob[] {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (userId) {
+      conditions.push('user_id = ?');
+      params.push(userId);
+    }
+    if (status) {
+      conditions.push('status = ?');
+      params.push(status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const stmt = this.db.prepare(
+      `SELECT * FROM embedding_jobs ${where} ORDER BY run_at, id LIMIT ? OFFSET ?`
+    );
+    return stmt.all(...params, limit, offset) as EmbeddingJob[];
+  }
+
+  /**
+   * Count embedding jobs by status
+   * @param userId - Optional user ID to filter jobs (null for all users)
+   */
+  public getEmbeddingJobCounts(userId: string | null): Record<EmbeddingJobStatus, number> {
+    const rows = (
+      userId
+        ? this.db
+            .prepare('SELECT status, COUNT(*) as count FROM embedding_jobs WHERE user_id = ? GROUP BY status')
+            .all(userId)
+        : this.db.prepare('SELECT status, COUNT(*) as count FROM embedding_jobs GROUP BY status').all()
+    ) as Array<{ status: EmbeddingJobStatus; count: number }>;
+
+    const counts: Record<EmbeddingJobStatus, number> = { queued: 0, running: 0, dead: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  // =========================================================================
+  // Notebooks
+  // =========================================================================
+
+  /**
+   * Create a notebook
+   * @param notebook - ID (generated by caller), owner, parent and name
+   */
+  public createNotebook(notebook: Pick<Notebook, 'id' | 'user_id' | 'parent_id' | 'name'>): Notebook {
+    this.db
+      .prepare('INSERT INTO notebooks (id, user_id, parent_id, name) VALUES (@id, @user_id, @parent_id, @name)')
+      .run(notebook);
+
+    logger.info('Notebook created', { id: notebook.id, userId: notebook.user_id, parentId: notebook.parent_id });
+    return this.getNotebookById(notebook.id)!;
+  }
+
+  /**
+   * Get a notebook by ID
+   * @param id - Notebook ID
+   * @param userId - Optional user ID for ownership verification
+   */
+  public getNotebookById(id: string, userId?: string | null): Notebook | null {
+    const row = userId
+      ? this.db.prepare('SELECT * FROM notebooks WHERE id = ? AND user_id = ?').get(id, userId)
+      : this.db.prepare('SELECT * FROM notebooks WHERE id = ?').get(id);
+    return (row as Notebook | undefined) ?? null;
+  }
+
+  /**
+   * Get all notebooks of a user, sorted by name
+   * @param userId - User ID (null for all notebooks)
+   */
+  public getNotebooks(userId: string | null): Notebook[] {
+    const rows = userId
+      ? this.db.prepare('SELECT * FROM notebooks WHERE user_id = ? ORDER BY name COLLATE NOCASE, id').all(userId)
+      : this.db.prepare('SELECT * FROM notebooks ORDER BY name COLLATE NOCASE, id').all();
+    return rows as Notebook[];
+  }
+
+  /**
+   * Count the content (outside the trash) directly in each notebook of a user
+   * @param userId - User ID (null for all notebooks)
+   * @returns Notebook ID -> content count (notebooks without content are missing)
+   */
+  public getNotebookContentCounts(userId: string | null): Record<string, number> {
+    const sql = `SELECT notebook_id, COUNT(*) AS count FROM content
+      WHERE notebook_id IS NOT NULL AND deleted_at IS NULL ${userId ? 'AND user_id = ?' : ''}
+      GROUP BY notebook_id`;
+    const rows = this.db.prepare(sql).all(...(userId ? [userId] : [])) as Array<{
+      notebook_id: string;
+      count: number;
+    }>;
+
+    return Object.fromEntries(rows.map((row) => [row.notebook_id, row.count]));
+  }
+
+  /**
+   * Get the IDs of a notebook and all notebooks nested in it
+   * @param id - Notebook ID
+   */
+  public getNotebookSubtreeIds(id: string): string[] {
+    const rows = this.db
+      .prepare(
+        `WITH RECURSIVE subtree(id) AS (
+           SELECT id FROM notebooks WHERE id = ?
+           UNION
+           SELECT n.id FROM notebooks n JOIN subtree s ON n.parent_id = s.id
+         )
+         SELECT id FROM subtree`
+      )
+      .all(id) as Array<{ id: string }>;
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Rename a notebook or move it to another parent
+   * @param id - Notebook ID
+   * @param userId - User ID for ownership verification
+   * @param input - New name and/or parent (null = top level)
+   * @returns Updated notebook if found and owned by user, null otherwise
+   */
+  public updateNotebook(
+    id: string,
+    userId: string | null,
+    input: { name?: string; parent_id?: string | null }
+  ): Notebook | null {
+    const updates: string[] = ["updated_at = datetime('now')"];
+    const params: Record<string, unknown> = { id, user_id: userId };
+
+    if (input.name !== undefined) {
+      updates.push('name = @name');
+      params.name = input.name;
+    }
+
+    if (input.parent_id !== undefined) {
+      updates.push('parent_id = @parent_id');
+      params.parent_id = input.parent_id;
+    }
+
+    const whereClause = userId ? 'WHERE id = @id AND user_id = @user_id' : 'WHERE id = @id';
+    const result = this.db.prepare(`UPDATE notebooks SET ${updates.join(', ')} ${whereClause}`).run(params);
+
+    if (result.changes === 0) {
+      logger.warn('Notebook not found or not owned by user', { id, userId });
+      return null;
+    }
+
+    return this.getNotebookById(id);
+  }
+
+  /**
+   * Delete a notebook
+   * Its content and nested notebooks move up to the parent notebook (or the top level)
+   * @param id - Notebook ID
+   * @param userId - User ID for ownership verification
+   * @returns True if the notebook was deleted
+   */
+  public deleteNotebook(id: string, userId: string | null): boolean {
+    const notebook = this.getNotebookById(id, userId);
+    if (!notebook) {
+      return false;
+    }
+
+    const remove = this.db.transaction(() => {
+      this.db.prepare('UPDATE content SET notebook_id = ? WHERE notebook_id = ?').run(notebook.parent_id, id);
+      this.db.prepare('UPDATE notebooks SET parent_id = ? WHERE parent_id = ?').run(notebook.parent_id, id);
+      this.db.prepare('DELETE FROM notebooks WHERE id = ?').run(id);
+    });
+    remove();
+
+    logger.info('Notebook deleted', { id, userId, parentId: notebook.parent_id });
+    return true;
+  }
+
+  /**
+   * Get the content (outside the trash) with a tag or a tag nested in it, newest first
+   * @param userId - User ID to filter content
+   * @param tag - Tag (namespace), e.g. `project/kura` also matches `project/kura/api`
+   * @param notebookIds - Optional notebook IDs to limit the content to
+   * @param limit - Maximum number of results
+   * @param offset - Number of results to skip
+   */
+  public getTaggedContent(
+    userId: string | null,
+    tag: string,
+    notebookIds: string[] | null = null,
+    limit = 100,
+    offset = 0
+  ): Content[] {
+    if (notebookIds && notebookIds.length === 0) {
+      return [];
+    }
+
+    const tagFilter = this.buildTagFilter('tags', [tag]);
+    const notebookFilter = notebookIds ? `AND notebook_id IN (${notebookIds.map(() => '?').join(',')})` : '';
+    const sql = `SELECT * FROM content
+      WHERE ${tagFilter.sql} ${notebookFilter} AND deleted_at IS NULL ${userId ? 'AND user_id = ?' : ''}
+      ORDER BY created_at DESC LIMIT ? OFFSET ?`;
+    const rows = this.db
+      .prepare(sql)
+      .all(...tagFilter.params, ...(notebookIds ?? []), ...(userId ? [userId] : []), limit, offset) as ContentRow[];
+
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Get the content (outside the trash) in any of the given notebooks, newest first
+   * @param userId - User ID to filter content
+   * @param notebookIds - Notebook IDs
+   * @param limit - Maximum number of results
+   * @param offset - Number of results to skip
+   */
+  public getNotebookContent(userId: string | null, notebookIds: string[], limit = 100, offset = 0): Content[] {
+    if (notebookIds.length === 0) {
+      return [];
+    }
+
+    const placeholders = notebookIds.map(() => '?').join(',');
+    const sql = `SELECT * FROM content
+      WHERE notebook_id IN (${placeholders}) AND deleted_at IS NULL ${userId ? 'AND user_id = ?' : ''}
+      ORDER BY created_at DESC LIMIT ? OFFSET ?`;
+    const rows = this.db
+      .prepare(sql)
+      .all(...notebookIds, ...(userId ? [userId] : []), limit, offset) as ContentRow[];
+
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  // =========================================================================
+  // Wiki Links
+  // =========================================================================
+
+  /**
+   * Get the wiki links of a note, in the order they appear
+   * @param sourceId - ID of the linking note
+   */
+  public getContentLinks(sourceId: string): ContentLink[] {
+    const stmt = this.db.prepare('SELECT * FROM content_links WHERE source_id = ? ORDER BY rowid');
+    return stmt.all(sourceId) as ContentLink[];
+  }
+
+  /**
+   * Get the notes linking to a content item (most recently updated first)
+   * Notes in the trash are left out
+   * @param targetId - ID of the linked content
+   * @param userId - Owner of the linking notes
+   */
+  public getBacklinks(targetId: string, userId: string | null): Content[] {
+    const userClause = userId ? 'AND c.user_id = ?' : '';
+    const stmt = this.db.prepare(`
+      SELECT DISTINCT c.* FROM content c
+      JOIN content_links l ON l.source_id = c.id
+      WHERE l.target_id = ? AND c.deleted_at IS NULL ${userClause}
+      ORDER BY c.updated_at DESC, c.id
+    `);
+    const rows = (userId ? stmt.all(targetId, userId) : stmt.all(targetId)) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Find the content a link target refers to: a content ID, or else a title
+   * (case-insensitive, most recently updated first) among the owner's content
+   * @returns Content ID, or null if nothing matches
+   */
+  private resolveLinkTarget(userId: string | null, target: string): string | null {
+    const stmt = this.db.prepare(`
+      SELECT id FROM content
+      WHERE user_id IS ? AND deleted_at IS NULL AND (id = ? OR TRIM(title) = ? COLLATE NOCASE)
+      ORDER BY id = ? DESC, updated_at DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(userId, target, target, target) as { id: string } | undefined;
+    return row?.id ?? null;
+  }
+
+  /**
+   * Replace the stored links of a note with the links in its current text
+   * A link that no longer resolves (e.g. its target was renamed) keeps its
+   * previous target as long as that content exists
+   */
+  private syncLinks(content: Content): void {
+    const links = content.content_type === 'text' ? parseWikiLinks(content.extracted_text ?? '') : [];
+    const previous = new Map(
+      this.getContentLinks(content.id).map((link) => [link.target_text.toLowerCase(), link.target_id])
+    );
+
+    const exists = this.db.prepare('SELECT 1 FROM content WHERE id = ?');
+    const insert = this.db.prepare(
+      'INSERT INTO content_links (source_id, target_text, target_id) VALUES (?, ?, ?)'
+    );
+
+    const replace = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM content_links WHERE source_id = ?').run(content.id);
+
+      for (const { target } of links) {
+        const kept = previous.get(target.toLowerCase());
+        const targetId =
+          this.resolveLinkTarget(content.user_id, target) ?? (kept && exists.get(kept) ? kept : null);
+        insert.run(content.id, target, targetId);
+      }
+    });
+
+    replace();
+  }
+
+  /**
+   * Point unresolved links of the owner's notes at a content item whose ID or title they name
+   * Called when content is created, renamed or restored from the trash
+   */
+  private resolveLinksTo(content: Content): void {
+    const stmt = this.db.prepare(`
+      UPDATE content_links SET target_id = @id
+      WHERE target_id IS NULL
+        AND (target_text = @id OR (@title IS NOT NULL AND target_text = @title COLLATE NOCASE))
+        AND source_id IN (SELECT id FROM content WHERE user_id IS @user_id)
+    `);
+    const result = stmt.run({ id: content.id, title: content.title?.trim() || null, user_id: content.user_id });
+
+    if (result.changes > 0) {
+      logger.debug('Wiki links resolved', { id: content.id, links: result.changes });
+    }
+  }
+
+  // =========================================================================
+  // Duplicates
+  // =========================================================================
+
+  /**
+   * Get the content of a user with a given content hash (oldest first)
+   * Content in the trash is left out
+   * @param userId - Owner of the content
+   * @param contentHash - SHA-256 of the text or file
+   */
+  public getContentByHash(userId: string | null, contentHash: string): Content[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM content WHERE user_id IS ? AND content_hash = ? AND deleted_at IS NULL ORDER BY created_at, id'
+    );
+    const rows = stmt.all(userId, contentHash) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Get the content of a user that shares its content hash with other content
+   * Ordered by hash, then oldest first, so duplicates are next to each other
+   * @param userId - Owner of the content
+   */
+  public getContentWithDuplicateHashes(userId: string | null): Content[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM content
+      WHERE user_id IS @user_id AND deleted_at IS NULL AND content_hash IN (
+        SELECT content_hash FROM content
+        WHERE user_id IS @user_id AND deleted_at IS NULL AND content_hash IS NOT NULL
+        GROUP BY content_hash HAVING COUNT(*) > 1
+      )
+      ORDER BY content_hash, created_at, id
+    `);
+    const rows = stmt.all({ user_id: userId }) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Get content of a user that has no content hash yet (files stored before hashes existed)
+   * @param userId - Owner of the content
+   * @param limit - Maximum number of results
+   */
+  public getUnhashedContent(userId: string | null, limit = 100): Content[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM content WHERE user_id IS ? AND content_hash IS NULL AND deleted_at IS NULL LIMIT ?'
+    );
+    const rows = stmt.all(userId, limit) as ContentRow[];
+    return rows.map((row) => this.mapRowToContent(row));
+  }
+
+  /**
+   * Store the content hash of a content item (bookkeeping, leaves updated_at alone)
+   */
+  public setContentHash(id: string, contentHash: string): void {
+    this.db.prepare('UPDATE content SET content_hash = ? WHERE id = ?').run(contentHash, id);
+  }
+
+  // =========================================================================
+  // Backup and Restore
+  // =========================================================================
+
+  /**
+   * Read the rows of a backup in one transaction, so they are consistent
+   * Includes content in the trash
+   * @param userId - Owner of the backed up content (undefined for the whole instance)
+   */
+  public getBackupRows(userId?: string): BackupRows {
+    const read = this.db.transaction((): BackupRows => {
+      const where = userId === undefined ? '' : 'WHERE c.user_id = ?';
+      const notebookWhere = userId === undefined ? '' : 'WHERE user_id = ?';
+      const params = userId === undefined ? [] : [userId];
+
+      return {
+        notebooks: this.db
+          .prepare(`SELECT * FROM notebooks ${notebookWhere} ORDER BY created_at, id`)
+          .all(...params) as Notebook[],
+        content: this.db
+          .prepare(`SELECT c.* FROM content c ${where} ORDER BY c.created_at, c.id`)
+          .all(...params) as ContentRow[],
+        versions: this.db
+          .prepare(
+            `SELECT v.* FROM content_versions v JOIN content c ON c.id = v.content_id ${where}
+             ORDER BY v.content_id, v.version`
+          )
+          .all(...params) as ContentVersionRow[],
+        pages: this.db
+          .prepare(
+            `SELECT p.* FROM content_pages p JOIN content c ON c.id = p.content_id ${where}
+             ORDER BY p.content_id, p.page_number`
+          )
+          .all(...params) as ContentPageRow[],
+      };
+    });
+
+    return read();
+  }
+
+  /**
+   * Insert the rows of a restored backup in one transaction
+   * Rows are inserted as they are, so IDs must not exist yet
+   */
+  public insertBackupRows(rows: BackupRows): void {
+    const insertContent = this.db.prepare(`
+      INSERT INTO content (
+        id, user_id, file_path, content_type, title, source, tags, annotation, extracted_text,
+        embedding_status, thumbnail_path, image_metadata, pdf_metadata, audio_metadata, notebook_id,
+        content_hash, source_url, snapshot_path, remind_at, due_at, reminder_fired_at, created_at, updated_at,
+        deleted_at
+      ) VALUES (
+        @id, @user_id, @file_path, @content_type, @title, @source, @tags, @annotation, @extracted_text,
+        @embedding_status, @thumbnail_path, @image_metadata, @pdf_metadata, @audio_metadata, @notebook_id,
+        @content_hash, @source_url, @snapshot_path, @remind_at, @due_at, @reminder_fired_at, @created_at, @updated_at,
+        @deleted_at
+      )
+    `);
+    const insertNotebook = this.db.prepare(`
+      INSERT INTO notebooks (id, user_id, parent_id, name, created_at, updated_at)
+      VALUES (@id, @user_id, @parent_id, @name, @created_at, @updated_at)
+    `);
+    const insertVersion = this.db.prepare(`
+      INSERT INTO content_versions (
+        content_id, version, title, annotation, tags, extracted_text, change_source, created_at
+      ) VALUES (
+        @content_id, @version, @title, @annotation, @tags, @extracted_text, @change_source, @created_at
+      )
+    `);
+    const insertPage = this.db.prepare(
+      'INSERT INTO content_pages (content_id, page_number, text) VALUES (@content_id, @page_number, @text)'
+    );
+
+    const insertAll = this.db.transaction((data: BackupRows) => {
+      // Notebooks reference their parents, which may come later in the backup
+      this.db.pragma('defer_foreign_keys = ON');
+      for (const row of data.notebooks) {
+        insertNotebook.run(row);
+      }
+      for (const row of data.content) {
+        // Backups made before content hashes, web capture, audio metadata and reminders existed lack those columns
+        insertContent.run({
+          ...row,
+          audio_metadata: row.audio_metadata ?? null,
+          content_hash: row.content_hash ?? null,
+          source_url: row.source_url ?? null,
+          snapshot_path: row.snapshot_path ?? null,
+          remind_at: row.remind_at ?? null,
+          due_at: row.due_at ?? null,
+          reminder_fired_at: row.reminder_fired_at ?? null,
+        });
+      }
+      for (const row of data.versions) {
+        insertVersion.run(row);
+      }
+      for (const row of data.pages) {
+        insertPage.run(row);
+      }
+    });
+
+    insertAll(rows);
+
+    // Links are not part of backups; they are parsed again from the restored notes
+    for (const row of rows.content) {
+      this.syncLinks(this.mapRowToContent(row));
+    }
+
+    logger.info('Backup rows inserted', {
+      notebooks: rows.notebooks.length,
+      content: rows.content.length,
+      versions: rows.versions.length,
+      pages: rows.pages.length,
+    });
+  }
+
+  // =========================================================================
+  // Full-Text Search
+  // =========================================================================
+
+  /**
+   * Search content using FTS5 with user isolation
+   * @param query - Search query
+   * @param userId - User ID to filter content
+   * @param limit - Maximum number of results
+   */
+  public searchContent(query: string, userId: string | null, limit = 10): Content[] {
+    logger.debug('Searching content with FTS', { query, userId, limit });
+
+    let sql;
+    let params;
+
+    if (userId) {
+      sql = `
+        SELECT c.*
+        FROM content_fts fts
+        JOIN content c ON c.rowid = fts.rowid
+        WHERE content_fts MATCH ? AND c.user_id = ? AND c.deleted_at IS NULL
+        ORDER BY rank
+        LIMIT ?
+      `;
       params = [query, userId, limit];
     } else {
       // For backward compatibility during migration
@@ -609,7 +2004,7 @@ export class DatabaseService {
         SELECT c.*
         FROM content_fts fts
         JOIN content c ON c.rowid = fts.rowid
-        WHERE content_fts MATCH ?
+        WHERE content_fts MATCH ? AND c.deleted_at IS NULL
         ORDER BY rank
         LIMIT ?
       `;
@@ -645,7 +2040,7 @@ export class DatabaseService {
       SELECT c.*
       FROM content_fts fts
       JOIN content c ON c.rowid = fts.rowid
-      WHERE content_fts MATCH ?
+      WHERE content_fts MATCH ? AND c.deleted_at IS NULL
     `;
 
     const params: unknown[] = [query];
@@ -680,11 +2075,11 @@ export class DatabaseService {
       params.push(filters.source);
     }
 
-    // Add tags filter (simple contains check)
+    // Add tags filter (any of the tags or the tags nested in them)
     if (filters.tags && filters.tags.length > 0) {
-      const tagConditions = filters.tags.map(() => 'c.tags LIKE ?').join(' OR ');
-      sql += ` AND (${tagConditions})`;
-      params.push(...filters.tags.map((tag) => `%"${tag}"%`));
+      const tagFilter = this.buildTagFilter('c.tags', filters.tags);
+      sql += ` AND ${tagFilter.sql}`;
+      params.push(...tagFilter.params);
     }
 
     sql += ' ORDER BY rank LIMIT ?';
@@ -727,9 +2122,25 @@ export class DatabaseService {
   // Utility Methods
   // =========================================================================
 
+  /**
+   * Build a condition matching content with any of the tags or a tag nested in them
+   * Tags are stored as a JSON array, so `"project/kura"` and `"project/kura/` are matched
+   * @param column - Tags column (with table alias if needed)
+   */
+  private buildTagFilter(column: string, tags: string[]): { sql: string; params: string[] } {
+    // Tags may contain LIKE wildcards (`_`)
+    const escape = (tag: string) => tag.replace(/[\\%_]/g, (char) => `\\${char}`);
+    const conditions = tags.map(() => `${column} LIKE ? ESCAPE '\\' OR ${column} LIKE ? ESCAPE '\\'`);
+
+    return {
+      sql: `(${conditions.join(' OR ')})`,
+      params: tags.flatMap((tag) => [`%"${escape(tag)}"%`, `%"${escape(tag)}/%`]),
+    };
+  }
+
   /**
    * Map database row to Content object
-   * Handles JSON parsing for tags, image_metadata, and pdf_metadata
+   * Handles JSON parsing for tags, image_metadata, pdf_metadata and audio_metadata
    */
   private mapRowToContent(row: ContentRow): Content {
     return {
@@ -737,6 +2148,17 @@ export class DatabaseService {
       tags: row.tags ? JSON.parse(row.tags) : [],
       image_metadata: row.image_metadata ? JSON.parse(row.image_metadata) : null,
       pdf_metadata: row.pdf_metadata ? JSON.parse(row.pdf_metadata) : null,
+      audio_metadata: row.audio_metadata ? JSON.parse(row.audio_metadata) : null,
+    };
+  }
+
+  /**
+   * Map database row to ContentVersion object
+   */
+  private mapRowToVersion(row: ContentVersionRow): ContentVersion {
+    return {
+      ...row,
+      tags: row.tags ? JSON.parse(row.tags) : [],
     };
   }
 
@@ -21,7 +21,7 @@ CREATE TABLE IF NOT EXISTS content (
   file_path TEXT NOT NULL,              -- Path to file in storage (relative)
   content_type TEXT NOT NULL,           -- 'text' | 'image' | 'pdf' | 'audio'
   title TEXT,                           -- User-provided or auto-generated title
-  source TEXT,                          -- Origin: 'ios-shortcut' | 'web' | 'api'
+  source TEXT,                          -- Origin: 'ios-shortcut' | 'web' | 'api' | 'manual' | 'import'
   tags TEXT,                            -- JSON array of tags: '["tag1","tag2"]'
   annotation TEXT,                      -- User-provided context/notes
   extracted_text TEXT,                  -- Text content (for search/display)
@@ -29,15 +29,24 @@ CREATE TABLE IF NOT EXISTS content (
   thumbnail_path TEXT,                  -- Path to generated thumbnail (for images)
   image_metadata TEXT,                  -- JSON metadata for images: '{"width":1920,"height":1080,"format":"jpeg","size":123456}'
   pdf_metadata TEXT,                    -- JSON metadata for PDFs: '{"filename":"doc.pdf","size":123456,"pageCount":10}'
+  audio_metadata TEXT,                  -- JSON metadata for audio: '{"filename":"memo.m4a","size":123456,"duration":42.5,"codec":"AAC"}'
+  notebook_id TEXT REFERENCES notebooks(id) ON DELETE SET NULL, -- Notebook holding the content (NULL = none)
+  content_hash TEXT,                    -- SHA-256 of the text or file, for duplicate detection
+  source_url TEXT,                      -- Address of captured web pages
+  snapshot_path TEXT,                   -- Path to the saved HTML of captured web pages (relative)
+  remind_at TEXT,                       -- ISO 8601 time of the reminder (NULL = no reminder)
+  due_at TEXT,                          -- ISO 8601 due date (NULL = no due date)
+  reminder_fired_at TEXT,               -- Set by the reminder scheduler once the reminder went off
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  deleted_at DATETIME                   -- Set when moved to the trash (NULL = not deleted)
 );
 
 -- =============================================================================
 -- Indexes for Performance
 -- =============================================================================
--- Note: idx_user_id is created by conditional migration in database.service.ts
--- to handle existing databases that don't have the user_id column yet
+-- Note: idx_user_id, idx_deleted_at, idx_notebook_id, idx_content_hash, idx_remind_at and idx_due_at are
+-- created by conditional migrations in database.service.ts to handle existing databases that don't have the columns yet
 CREATE INDEX IF NOT EXISTS idx_content_type ON content(content_type);
 CREATE INDEX IF NOT EXISTS idx_created_at ON content(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_updated_at ON content(updated_at DESC);
@@ -70,20 +79,143 @@ CREATE TRIGGER IF NOT EXISTS content_ai AFTER INSERT ON content BEGIN
 END;
 
 -- Update trigger: Update FTS when content is modified
+-- (external content FTS tables need the old values to remove stale tokens)
 CREATE TRIGGER IF NOT EXISTS content_au AFTER UPDATE ON content BEGIN
-  UPDATE content_fts
-  SET title = new.title,
-      annotation = new.annotation,
-      extracted_text = new.extracted_text,
-      tags = new.tags
-  WHERE rowid = new.rowid;
+  INSERT INTO content_fts(content_fts, rowid, title, annotation, extracted_text, tags)
+  VALUES ('delete', old.rowid, old.title, old.annotation, old.extracted_text, old.tags);
+  INSERT INTO content_fts(rowid, title, annotation, extracted_text, tags)
+  VALUES (new.rowid, new.title, new.annotation, new.extracted_text, new.tags);
 END;
 
 -- Delete trigger: Remove from FTS when content is deleted
 CREATE TRIGGER IF NOT EXISTS content_ad AFTER DELETE ON content BEGIN
-  DELETE FROM content_fts WHERE rowid = old.rowid;
+  INSERT INTO content_fts(content_fts, rowid, title, annotation, extracted_text, tags)
+  VALUES ('delete', old.rowid, old.title, old.annotation, old.extracted_text, old.tags);
 END;
 
+-- =============================================================================
+-- PDF Page Text Table
+-- =============================================================================
+-- Stores extracted text per PDF page so search results can report which
+-- page(s) matched. The joined text of all pages is kept in content.extracted_text
+-- for FTS indexing.
+CREATE TABLE IF NOT EXISTS content_pages (
+  content_id TEXT NOT NULL,             -- References content(id)
+  page_number INTEGER NOT NULL,         -- 1-based page number
+  text TEXT NOT NULL,                   -- Extracted page text
+  PRIMARY KEY (content_id, page_number),
+  FOREIGN KEY (content_id) REFERENCES content(id) ON DELETE CASCADE
+);
+
+-- =============================================================================
+-- Content Versions Table
+-- =============================================================================
+-- Snapshot of the editable fields after every change, so edits can be
+-- reviewed, diffed and restored. Version 1 is the state at creation (or the
+-- state before the first recorded change for content created earlier).
+CREATE TABLE IF NOT EXISTS content_versions (
+  content_id TEXT NOT NULL,             -- References content(id)
+  version INTEGER NOT NULL,             -- 1-based version number per content item
+  title TEXT,
+  annotation TEXT,
+  tags TEXT,                            -- JSON array of tags
+  extracted_text TEXT,
+  change_source TEXT NOT NULL CHECK(change_source IN ('create', 'update', 'restore')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (content_id, version),
+  FOREIGN KEY (content_id) REFERENCES content(id) ON DELETE CASCADE
+);
+
+-- =============================================================================
+-- Notebooks Table
+-- =============================================================================
+-- Hierarchical collections of content. Each content item is in at most one
+-- notebook (content.notebook_id); notebooks nest through parent_id.
+CREATE TABLE IF NOT EXISTS notebooks (
+  id TEXT PRIMARY KEY,                  -- UUID v4
+  user_id TEXT,                         -- Owner (NULL for legacy content)
+  parent_id TEXT,                       -- Parent notebook (NULL = top level)
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (parent_id) REFERENCES notebooks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notebooks_user_id ON notebooks(user_id);
+CREATE INDEX IF NOT EXISTS idx_notebooks_parent_id ON notebooks(parent_id);
+
+-- =============================================================================
+-- Content Links Table
+-- =============================================================================
+-- Wiki links ([[Title]] or [[id]]) in text notes, parsed whenever a note is
+-- created or edited. target_id is the linked content, resolved by ID or by
+-- title within the owner's content; it stays NULL until a match exists.
+CREATE TABLE IF NOT EXISTS content_links (
+  source_id TEXT NOT NULL,              -- Note containing the link
+  target_text TEXT NOT NULL,            -- Link target as written (title or content ID)
+  target_id TEXT,                       -- Resolved content (NULL = no match yet)
+  PRIMARY KEY (source_id, target_text),
+  FOREIGN KEY (source_id) REFERENCES content(id) ON DELETE CASCADE,
+  FOREIGN KEY (target_id) REFERENCES content(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_links_target_id ON content_links(target_id);
+
+-- =============================================================================
+-- Vector Storage Table
+-- =============================================================================
+-- Used when VECTOR_STORE_BACKEND=sqlite instead of ChromaDB.
+-- One row per embedded chunk; embeddings are Float32 BLOBs searched by brute force.
+-- No foreign key: vectors are managed by the vector store and may be migrated
+-- from ChromaDB before or independently of their content rows.
+CREATE TABLE IF NOT EXISTS content_vectors (
+  id TEXT PRIMARY KEY,                  -- Vector ID (content ID or "<content ID>#chunk-<n>")
+  content_id TEXT NOT NULL,             -- Content the vector belongs to
+  chunk_index INTEGER NOT NULL DEFAULT 0,
+  user_id TEXT,                         -- Owner, for filtering (NULL for legacy content)
+  embedding BLOB NOT NULL,              -- Float32 values
+  dimensions INTEGER NOT NULL,
+  text TEXT NOT NULL,                   -- Embedded chunk text
+  metadata TEXT NOT NULL DEFAULT '{}',  -- JSON metadata (title, tags, content_type, ...)
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_vectors_content_id ON content_vectors(content_id);
+CREATE INDEX IF NOT EXISTS idx_content_vectors_user_id ON content_vectors(user_id);
+
+-- =============================================================================
+-- Embedding Job Queue Table
+-- =============================================================================
+-- Durable queue of embedding work, processed by the embedding queue worker.
+-- Jobs are deleted once they succeed; jobs that keep failing are kept as 'dead'.
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  content_id TEXT NOT NULL,             -- References content(id)
+  user_id TEXT,                         -- Owner (NULL for legacy content)
+  job_type TEXT NOT NULL CHECK(job_type IN ('embed', 'metadata')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'running', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,  -- Number of times the job was started
+  last_error TEXT,
+  run_at TEXT NOT NULL DEFAULT (datetime('now')), -- Earliest time of the next attempt
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (content_id) REFERENCES content(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_status_run_at ON embedding_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_content_id ON embedding_jobs(content_id);
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_user_id ON embedding_jobs(user_id);
+
+-- =============================================================================
+-- Calendar Feeds Table
+-- =============================================================================
+-- Secret tokens of the per-user ICS feeds of due items (only a SHA-256 hash of the token is stored)
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id TEXT PRIMARY KEY,             -- KOauth user ID (one feed per user)
+  token_hash TEXT NOT NULL UNIQUE,      -- SHA-256 of the feed token (hex)
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
 -- =============================================================================
 -- Optional: Search History Table
 -- =============================================================================
@@ -125,3 +257,36 @@ VALUES (5, 'Add user_id column for multi-user support');
 
 INSERT OR IGNORE INTO schema_version (version, description)
 VALUES (6, 'Add tags to FTS index for searchable tags');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (7, 'Add content_pages table for per-page PDF text');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (8, 'Add content_vectors table for the SQLite vector store');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (9, 'Add content_versions table for version history');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (10, 'Add deleted_at column to content table for the trash');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (11, 'Add embedding_jobs table for the embedding job queue');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (12, 'Add notebooks table and notebook_id column to content table');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (13, 'Add content_links table for wiki links between notes');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (14, 'Add content_hash column to content table for duplicate detection');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (15, 'Add source_url and snapshot_path columns to content table for web page capture');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (16, 'Add audio_metadata column to content table for audio notes');
+
+INSERT OR IGNORE INTO schema_version (version, description)
+VALUES (17, 'Add remind_at, due_at and reminder_fired_at columns and calendar_feeds table for reminders');
@@ -0,0 +1,363 @@
+/**
+ * KURA Notes - Duplicate Service
+ *
+ * Detects duplicate content:
+ * - Exact duplicates, by content hash (SHA-256 of the note text or file)
+ * - Near-duplicate notes, by embedding similarity
+ * - Merging the metadata of a duplicate capture into the existing item
+ * - Reporting duplicates among existing content
+ */
+
+import fsPromises from 'fs/promises';
+import { DatabaseService } from './database/database.service.js';
+import { FileStorageService } from './fileStorage.js';
+import { EmbeddingService } from './embeddingService.js';
+import { SearchService } from './searchService.js';
+import type { VectorStore } from './vectorStore.js';
+import { computeContentHash } from '../utils/contentHash.js';
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import type { Content, ContentType } from '../models/content.js';
+
+/**
+ * What to do when captured content duplicates existing content
+ * - flag: save it anyway and report the duplicates (default)
+ * - reject: do not save it
+ * - merge: do not save it, add its title, annotation and tags to the existing item
+ */
+export type DuplicateAction = 'flag' | 'reject' | 'merge';
+
+export const DUPLICATE_ACTIONS: DuplicateAction[] = ['flag', 'reject', 'merge'];
+
+/**
+ * How content was matched: same hash, or similar embedding
+ */
+export type DuplicateMatchType = 'exact' | 'near';
+
+/**
+ * Number of similar notes to consider when checking a capture for near-duplicates
+ */
+const NEAR_DUPLICATE_CANDIDATES = 5;
+
+/**
+ * Maximum number of notes compared with each other in a near-duplicate report
+ */
+const MAX_NEAR_DUPLICATE_SCAN = 1000;
+
+/**
+ * Maximum number of files hashed per report (files stored before hashes existed)
+ */
+const HASH_BATCH_SIZE = 200;
+
+/**
+ * Content item in a duplicate match or group
+ */
+export interface DuplicateItem {
+  id: string;
+  title: string | null;
+  content_type: ContentType;
+  created_at: string;
+}
+
+/**
+ * Existing content matching captured content
+ */
+export interface DuplicateMatch extends DuplicateItem {
+  match: DuplicateMatchType;
+  similarity: number; // 1 for exact duplicates
+}
+
+/**
+ * Group of duplicate content (oldest first)
+ */
+export interface DuplicateGroup {
+  match: DuplicateMatchType;
+  similarity: number; // 1 for exact duplicates
+  items: DuplicateItem[];
+}
+
+/**
+ * Duplicates among the content of a user
+ */
+export interface DuplicateReport {
+  exact: DuplicateGroup[];
+  near: DuplicateGroup[] | null; // null if the similarity check was not requested
+  hashed: number; // Files hashed while building the report
+}
+
+/**
+ * Check options
+ */
+export interface DuplicateCheckOptions {
+  checkSimilar?: boolean; // Also look for near-duplicates by embedding similarity (text only)
+}
+
+/**
+ * Metadata of a duplicate capture to merge into the existing item
+ */
+export interface DuplicateMergeInput {
+  title?: string;
+  annotation?: string;
+  tags?: string[];
+}
+
+/**
+ * Reduce content to the fields shown with a duplicate
+ */
+function toItem(content: Content): DuplicateItem {
+  return {
+    id: content.id,
+    title: content.title,
+    content_type: content.content_type,
+    created_at: content.created_at,
+  };
+}
+
+/**
+ * Duplicate service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class DuplicateService {
+  private static instance: DuplicateService | null = null;
+  private db: DatabaseService;
+  private fileStorage: FileStorageService;
+  private embeddingService: EmbeddingService;
+  private searchService: SearchService;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(
+    db: DatabaseService,
+    fileStorage: FileStorageService,
+    embeddingService: EmbeddingService,
+    vectorStore: VectorStore
+  ) {
+    this.db = db;
+    this.fileStorage = fileStorage;
+    this.embeddingService = embeddingService;
+    this.searchService = new SearchService(db, embeddingService, vectorStore);
+    logger.debug('DuplicateService initialized');
+  }
+
+  /**
+   * Get or create duplicate service instance (singleton)
+   */
+  public static getInstance(
+    db?: DatabaseService,
+    fileStorage?: FileStorageService,
+    embeddingService?: EmbeddingService,
+    vectorStore?: VectorStore
+  ): DuplicateService {
+    if (!DuplicateService.instance) {
+      if (!db || !fileStorage || !embeddingService || !vectorStore) {
+        throw new Error(
+          'DatabaseService, FileStorageService, EmbeddingService and VectorStore required for first initialization'
+        );
+      }
+      DuplicateService.instance = new DuplicateService(db, fileStorage, embeddingService, vectorStore);
+    }
+    return DuplicateService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (DuplicateService.instance) {
+      logger.debug('Resetting DuplicateService instance');
+      DuplicateService.instance = null;
+    }
+  }
+
+  /**
+   * Find existing content that captured content duplicates
+   * A failing similarity check is logged and skipped, so it never blocks a capture
+   * @param userId - Owner of the content
+   * @param content - Note text or file bytes
+   * @param contentType - Type of the content
+   * @returns Exact duplicates (oldest first), then near-duplicates (most similar first)
+   */
+  public async findDuplicates(
+    userId: string | null,
+    content: string | Buffer,
+    contentType: ContentType,
+    options: DuplicateCheckOptions = {}
+  ): Promise<DuplicateMatch[]> {
+    const exact: DuplicateMatch[] = this.db
+      .getContentByHash(userId, computeContentHash(content, contentType))
+      .map((item) => ({ ...toItem(item), match: 'exact', similarity: 1 }));
+
+    if (!options.checkSimilar || contentType !== 'text' || !this.embeddingService.isAvailable()) {
+      return exact;
+    }
+
+    try {
+      const similar = await this.searchService.performVectorSearch(
+        content.toString(),
+        userId,
+        NEAR_DUPLICATE_CANDIDATES
+      );
+
+      const near: DuplicateMatch[] = similar
+        .filter(
+          (result) =>
+            result.relevanceScore >= config.duplicateSimilarityThreshold &&
+            !exact.some((match) => match.id === result.id)
+        )
+        .map((result) => ({
+          id: result.id,
+          title: result.title,
+          content_type: result.contentType,
+          created_at: result.metadata.createdAt,
+          match: 'near',
+          similarity: result.relevanceScore,
+        }));
+
+      return [...exact, ...near];
+    } catch (error) {
+      logger.warn('Near-duplicate check failed, continuing with exact matches', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      return exact;
+    }
+  }
+
+  /**
+   * Merge the metadata of a duplicate capture into the existing item
+   * Tags are combined; title and annotation are only filled in where the existing item has none
+   * @returns The item before and after the merge, or null if it does not exist
+   */
+  public mergeInto(
+    id: string,
+    userId: string | null,
+    input: DuplicateMergeInput
+  ): { before: Content; after: Content } | null {
+    const before = this.db.getContentById(id, userId || undefined);
+    if (!before) {
+      return null;
+    }
+
+    const newTags = (input.tags ?? []).filter((tag) => !before.tags.includes(tag));
+    const after = this.db.updateContent(id, userId, {
+      title: !before.title && input.title ? input.title : undefined,
+      annotation: !before.annotation && input.annotation ? input.annotation : undefined,
+      tags: newTags.length > 0 ? [...before.tags, ...newTags] : undefined,
+    });
+
+    if (!after) {
+      return null;
+    }
+
+    logger.info('Duplicate capture merged into existing content', { id, userId, addedTags: newTags });
+    return { before, after };
+  }
+
+  /**
+   * Report the duplicates among the content of a user
+   * Files stored before content hashes existed are hashed first (in batches)
+   * @param userId - Owner of the content
+   * @param options - Include near-duplicate notes (compares every embedded note)
+   */
+  public async getReport(userId: string | null, options: DuplicateCheckOptions = {}): Promise<DuplicateReport> {
+    const hashed = await this.hashUnhashedContent(userId);
+
+    const exact: DuplicateGroup[] = [];
+    let current: { hash: string | null; group: DuplicateGroup } | null = null;
+    for (const item of this.db.getContentWithDuplicateHashes(userId)) {
+      if (!current || current.hash !== item.content_hash) {
+        current = { hash: item.content_hash, group: { match: 'exact', similarity: 1, items: [] } };
+        exact.push(current.group);
+      }
+      current.group.items.push(toItem(item));
+    }
+
+    const near = options.checkSimilar ? await this.findNearDuplicates(userId) : null;
+
+    logger.info('Duplicate report built', {
+      userId,
+      exactGroups: exact.length,
+      nearGroups: near?.length,
+      hashed,
+    });
+
+    return { exact, near, hashed };
+  }
+
+  /**
+   * Find pairs of embedded notes that are similar but not identical (most similar first)
+   */
+  private async findNearDuplicates(userId: string | null): Promise<DuplicateGroup[]> {
+    const notes = this.db
+      .getAllContent(userId, MAX_NEAR_DUPLICATE_SCAN)
+      .filter((item) => item.content_type === 'text' && item.embedding_status === 'completed');
+    const byId = new Map(notes.map((note) => [note.id, note]));
+
+    const pairs = new Map<string, DuplicateGroup>();
+
+    for (const note of notes) {
+      const related = (await this.searchService.findRelated(note.id, userId, NEAR_DUPLICATE_CANDIDATES)) ?? [];
+
+      for (const result of related) {
+        const other = byId.get(result.id);
+        if (
+          !other ||
+          result.relevanceScore < config.duplicateSimilarityThreshold ||
+          other.content_hash === note.content_hash
+        ) {
+          continue;
+        }
+
+        // Oldest first, so each pair is only reported once
+        const items = [note, other].sort(
+          (a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id)
+        );
+        const key = items.map((item) => item.id).join(':');
+        if (!pairs.has(key)) {
+          pairs.set(key, { match: 'near', similarity: result.relevanceScore, items: items.map(toItem) });
+        }
+      }
+    }
+
+    return Array.from(pairs.values()).sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Compute the missing content hashes of a user's content
+   * @returns Number of hashed items
+   */
+  private async hashUnhashedContent(userId: string | null): Promise<number> {
+    let hashed = 0;
+
+    for (const item of this.db.getUnhashedContent(userId, HASH_BATCH_SIZE)) {
+      try {
+        const content =
+          item.content_type === 'text'
+            ? (item.extracted_text ?? '')
+            : await fsPromises.readFile(this.fileStorage.getFullPath(item.file_path));
+        this.db.setContentHash(item.id, computeContentHash(content, item.content_type));
+        hashed++;
+      } catch (error) {
+        logger.warn('Failed to hash content', {
+          id: item.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return hashed;
+  }
+}
+
+/**
+ * Export singleton instance getter
+ */
+export const getDuplicateService = (
+  db?: DatabaseService,
+  fileStorage?: FileStorageService,
+  embeddingService?: EmbeddingService,
+  vectorStore?: VectorStore
+): DuplicateService => {
+  return DuplicateService.getInstance(db, fileStorage, embeddingService, vectorStore);
+};
@@ -1,16 +1,18 @@
 /**
  * KURA Notes - Embedding Pipeline Service
  *
- * Orchestrates embedding generation and storage in ChromaDB
- * Handles async processing and status tracking
+ * Orchestrates embedding generation and storage in the vector store
+ * Queues embedding work as durable jobs (run by the embedding queue) and tracks status
  */
 
 import { logger } from '../utils/logger.js';
 import { EmbeddingService } from './embeddingService.js';
-import { VectorStoreService } from './vectorStore.js';
+import type { VectorStore, EmbeddedChunk } from './vectorStore.js';
 import { DatabaseService } from './database/database.service.js';
 import { extractTextForEmbedding, validateEmbeddingText } from '../utils/textExtraction.js';
-import type { ContentType } from '../models/content.js';
+import { chunkText, ChunkOptions } from '../utils/textChunking.js';
+import { config } from '../config/index.js';
+import type { Content, ContentType, EmbeddingJob, EmbeddingJobType } from '../models/content.js';
 
 /**
  * Input for embedding generation
@@ -23,73 +25,185 @@ export interface EmbeddingPipelineInput {
   annotation?: string | null;
   title?: string | null;
   originalFilename?: string;
+  extractedText?: string; // Text already extracted from the file (e.g. PDF pages, audio transcript)
   tags?: string[];
 }
 
+/**
+ * Outcome of an embedding job
+ */
+export interface EmbeddingJobResult {
+  success: boolean;
+  error?: string;
+  retryable?: boolean; // Transient failure (e.g. provider or vector store unreachable)
+}
+
 /**
  * Embedding Pipeline Service
  * Orchestrates embedding generation and storage
  */
 export class EmbeddingPipelineService {
   private embeddingService: EmbeddingService;
-  private vectorStore: VectorStoreService;
+  private vectorStore: VectorStore;
   private database: DatabaseService;
+  private chunkOptions: ChunkOptions;
 
   constructor(
     embeddingService: EmbeddingService,
-    vectorStore: VectorStoreService,
-    database: DatabaseService
+    vectorStore: VectorStore,
+    database: DatabaseService,
+    chunkOptions?: ChunkOptions
   ) {
     this.embeddingService = embeddingService;
     this.vectorStore = vectorStore;
     this.database = database;
+    this.chunkOptions = chunkOptions || {
+      chunkSize: config.embeddingChunkSize,
+      overlap: config.embeddingChunkOverlap,
+    };
 
     logger.info('EmbeddingPipelineService initialized');
   }
 
   /**
-   * Process content and generate embedding asynchronously
-   * This runs in the background and doesn't block the capture response
+   * Queue embedding work for content
+   * The job is stored in the database and processed in the background by the
+   * embedding queue, so it survives crashes and restarts. embedding_status stays
+   * 'pending' until the job completes
    *
-   * @param input - Content to process
+   * @param contentId - Content to embed
+   * @param userId - Owner of the content
+   * @param jobType - Full embed, or refresh of the vector metadata only
    */
-  async processContentAsync(input: EmbeddingPipelineInput): Promise<void> {
-    const { contentId, contentType } = input;
-
-    logger.info('Starting async embedding generation', {
-      contentId,
-      contentType,
+  queueEmbedding(contentId: string, userId: string | null, jobType: EmbeddingJobType = 'embed'): EmbeddingJob {
+    this.database.updateContent(contentId, userId, {
+      embedding_status: 'pending',
     });
 
-    // Don't await - run in background
-    this.processContent(input).catch((error) => {
-      logger.error('Async embedding generation failed', {
-        contentId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    });
+    const job = this.database.enqueueEmbeddingJob(contentId, userId, jobType);
+
+    logger.info('Embedding job queued', { contentId, jobId: job.id, jobType: job.job_type });
+
+    return job;
+  }
+
+  /**
+   * Queue re-embedding of already stored content
+   * The job builds the pipeline input from the database record (text notes embed
+   * their stored body, other types their metadata and extracted text)
+   *
+   * @param content - Stored content record
+   */
+  queueReprocess(content: Content): void {
+    this.queueEmbedding(content.id, content.user_id);
+  }
+
+  /**
+   * Bring the vectors of content in line with its changed metadata
+   * Title and annotation are part of the embedded text, so changing them re-embeds the
+   * content; a tag-only change rewrites the vector metadata in place. embedding_status
+   * stays 'pending' until the refresh completes
+   *
+   * @param before - Content record before the change
+   * @param after - Content record after the change
+   */
+  queueMetadataSync(before: Content, after: Content): void {
+    const textChanged = before.title !== after.title || before.annotation !== after.annotation;
+    const tagsChanged = JSON.stringify(before.tags) !== JSON.stringify(after.tags);
+
+    if (textChanged) {
+      this.queueEmbedding(after.id, after.user_id);
+    } else if (tagsChanged) {
+      this.queueEmbedding(after.id, after.user_id, 'metadata');
+    }
+  }
+
+  /**
+   * Run a queued embedding job (called by the embedding queue)
+   * Content that was deleted or trashed in the meantime is skipped
+   *
+   * @param job - Claimed job
+   * @returns Outcome; failed jobs are retried only when `retryable` is set
+   */
+  async runJob(job: EmbeddingJob): Promise<EmbeddingJobResult> {
+    const content = this.database.getContentById(job.content_id);
+    if (!content) {
+      logger.debug('Skipping embedding job of missing content', { jobId: job.id, contentId: job.content_id });
+      return { success: true };
+    }
+
+    if (job.job_type === 'metadata') {
+      try {
+        const updated = await this.vectorStore.updateMetadata(content.id, {
+          tags: JSON.stringify(content.tags),
+        });
+
+        if (updated > 0) {
+          this.database.updateContent(content.id, content.user_id, {
+            embedding_status: 'completed',
+          });
+          logger.info('Vector metadata updated', { contentId: content.id, updated });
+          return { success: true };
+        }
+
+        // Nothing stored yet (e.g. the first embedding failed) - embed from scratch
+        logger.info('No vectors to update, re-embedding content', { contentId: content.id });
+      } catch (error) {
+        logger.warn('Failed to update vector metadata, re-embedding content', {
+          contentId: content.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return this.processContent(this.toPipelineInput(content));
+  }
+
+  /**
+   * Build pipeline input from a stored content record
+   */
+  private toPipelineInput(content: Content): EmbeddingPipelineInput {
+    return {
+      contentId: content.id,
+      userId: content.user_id || '',
+      contentType: content.content_type,
+      content: content.content_type === 'text' ? content.extracted_text || '' : '',
+      annotation: content.annotation,
+      title: content.title,
+      originalFilename: content.pdf_metadata?.filename ?? content.audio_metadata?.filename,
+      extractedText: content.content_type === 'text' ? undefined : content.extracted_text || undefined,
+      tags: content.tags,
+    };
   }
 
   /**
    * Process content and generate embedding (actual implementation)
+   * Sets embedding_status to 'completed' on success; failures are reported to the
+   * queue, which retries them or marks the content 'failed'
    *
    * @param input - Content to process
    */
-  private async processContent(input: EmbeddingPipelineInput): Promise<void> {
-    const { contentId, userId, contentType, content, annotation, title, originalFilename, tags } = input;
+  private async processContent(input: EmbeddingPipelineInput): Promise<EmbeddingJobResult> {
+    const {
+      contentId,
+      userId,
+      contentType,
+      content,
+      annotation,
+      title,
+      originalFilename,
+      extractedText: fileText,
+      tags,
+    } = input;
 
     try {
       // Check if embedding service is available
       if (!this.embeddingService.isAvailable()) {
-        logger.warn('Embedding service not available (OpenAI API key not configured)', {
+        logger.warn('Embedding service not available (embedding provider not configured)', {
           contentId,
           userId,
         });
-        // Update status to failed with a specific reason
-        this.database.updateContent(contentId, userId, {
-          embedding_status: 'failed',
-        });
-        return;
+        return { success: false, error: 'Embedding provider not configured', retryable: false };
       }
 
       // Extract text for embedding based on content type
@@ -98,7 +212,8 @@ export class EmbeddingPipelineService {
         content,
         annotation,
         title,
-        originalFilename
+        originalFilename,
+        fileText
       );
 
       logger.debug('Text extracted for embedding', {
@@ -113,23 +228,25 @@ export class EmbeddingPipelineService {
           userId,
           textLength: extractedText.length,
         });
-        this.database.updateContent(contentId, userId, {
-          embedding_status: 'failed',
-        });
-        return;
+        return { success: false, error: 'Content has no text suitable for embedding', retryable: false };
       }
 
-      // Generate embedding
-      const embeddingResult = await this.embeddingService.generateEmbedding(extractedText);
+      // Split long content into overlapping chunks and embed each one
+      const chunks = chunkText(extractedText, this.chunkOptions);
+      const embeddedChunks: EmbeddedChunk[] = [];
+
+      for (const chunk of chunks) {
+        const embeddingResult = await this.embeddingService.generateEmbedding(chunk.text);
+        embeddedChunks.push({ embedding: embeddingResult.embedding, text: chunk.text });
+      }
 
-      logger.info('Embedding generated successfully', {
+      logger.info('Embeddings generated successfully', {
         contentId,
         userId,
-        dimensions: embeddingResult.dimensions,
-        truncated: embeddingResult.truncated,
+        chunkCount: embeddedChunks.length,
       });
 
-      // Prepare metadata for ChromaDB (including user_id for filtering)
+      // Prepare metadata for the vector store (including user_id for filtering)
       const metadata: Record<string, any> = {
         user_id: userId, // Include user_id for multi-user filtering
         content_type: contentType,
@@ -153,17 +270,13 @@ export class EmbeddingPipelineService {
         metadata.original_filename = originalFilename;
       }
 
-      // Store in ChromaDB
-      await this.vectorStore.addDocument(
-        contentId,
-        embeddingResult.embedding,
-        metadata,
-        extractedText
-      );
+      // Store in the vector store (one vector per chunk, linked by content_id)
+      await this.vectorStore.addDocumentChunks(contentId, embeddedChunks, metadata);
 
-      logger.info('Embedding stored in ChromaDB', {
+      logger.info('Embeddings stored in vector store', {
         contentId,
         userId,
+        chunkCount: embeddedChunks.length,
       });
 
       // Update status to completed
@@ -175,6 +288,8 @@ export class EmbeddingPipelineService {
         contentId,
         userId,
       });
+
+      return { success: true };
     } catch (error) {
       logger.error('Embedding pipeline failed', {
         contentId,
@@ -183,61 +298,38 @@ export class EmbeddingPipelineService {
         stack: error instanceof Error ? error.stack : undefined,
       });
 
-      // Update status to failed
-      try {
-        this.database.updateContent(contentId, userId, {
-          embedding_status: 'failed',
-        });
-      } catch (updateError) {
-        logger.error('Failed to update embedding status to failed', {
-          contentId,
-          error: updateError instanceof Error ? updateError.message : 'Unknown error',
-        });
-      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: true,
+      };
     }
   }
 
   /**
-   * Retry failed embeddings
-   * Can be called manually or via a scheduled job
+   * Queue failed embeddings for another attempt
+   * Used after the cause of the failures was fixed (e.g. an embedding provider was configured)
    *
+   * @param userId - Optional user ID to scope the retry to user's content (null for all users)
    * @param limit - Maximum number of failed embeddings to retry
+   * @returns Number of queued jobs
    */
-  async retryFailedEmbeddings(limit = 10): Promise<void> {
-    logger.info('Starting retry of failed embeddings', { limit });
+  async retryFailedEmbeddings(userId: string | null = null, limit = 100): Promise<number> {
+    const userFilter = userId ? ' AND user_id = ?' : '';
+    const params = userId ? [userId] : [];
 
-    try {
-      // Get failed embeddings from database
-      const failedContent = this.database.raw(
-        'SELECT * FROM content WHERE embedding_status = ? LIMIT ?',
-        ['failed', limit]
-      ) as any[];
-
-      logger.info('Found failed embeddings to retry', {
-        count: failedContent.length,
-      });
+    const failedContent = this.database.raw(
+      `SELECT id, user_id FROM content WHERE embedding_status = ? AND deleted_at IS NULL${userFilter} LIMIT ?`,
+      ['failed', ...params, limit]
+    ) as Array<{ id: string; user_id: string | null }>;
 
-      for (const content of failedContent) {
-        logger.debug('Retrying embedding', { contentId: content.id, userId: content.user_id });
+    for (const content of failedContent) {
+      this.queueEmbedding(content.id, content.user_id);
+    }
 
-        // Reset status to pending (using user_id from content record)
-        this.database.updateContent(content.id, content.user_id, {
-          embedding_status: 'pending',
-        });
+    logger.info('Failed embeddings queued for retry', { userId, count: failedContent.length });
 
-        // This would require reading the file content again
-        // For now, we'll log a message
-        logger.warn('Retry not fully implemented yet', {
-          contentId: content.id,
-          userId: content.user_id,
-          message: 'Need to read file content and metadata to retry',
-        });
-      }
-    } catch (error) {
-      logger.error('Failed to retry embeddings', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
+    return failedContent.length;
   }
 
   /**
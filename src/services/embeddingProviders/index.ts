@@ -0,0 +1,60 @@
+/**
+ * KURA Notes - Embedding Providers
+ *
+ * Factory for the embedding provider selected via EMBEDDING_PROVIDER
+ */
+
+import { OpenAIEmbeddingProvider } from './openaiProvider.js';
+import { OpenAICompatibleEmbeddingProvider } from './openaiCompatibleProvider.js';
+import { LocalEmbeddingProvider } from './localProvider.js';
+import type { EmbeddingProvider, EmbeddingProviderName } from './types.js';
+
+export type { EmbeddingProvider, EmbeddingProviderName } from './types.js';
+export { OpenAIEmbeddingProvider } from './openaiProvider.js';
+export { OpenAICompatibleEmbeddingProvider } from './openaiCompatibleProvider.js';
+export { LocalEmbeddingProvider } from './localProvider.js';
+
+/**
+ * Settings needed to build any provider
+ */
+export interface EmbeddingProviderSettings {
+  provider: EmbeddingProviderName;
+  apiKey?: string; // OpenAI key, or optional bearer token for compatible servers
+  organization?: string;
+  project?: string;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+  dimensions?: number; // Local provider only
+  timeout?: number; // OpenAI-compatible servers only
+}
+
+/**
+ * Create the configured embedding provider
+ */
+export function createEmbeddingProvider(settings: EmbeddingProviderSettings): EmbeddingProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        apiKey: settings.apiKey || '',
+        organization: settings.organization,
+        project: settings.project,
+        model: settings.model,
+      });
+
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingProvider({
+        baseUrl: settings.baseUrl || '',
+        model: settings.model,
+        apiKey: settings.apiKey,
+        timeout: settings.timeout ?? 30000,
+      });
+
+    case 'local':
+      return new LocalEmbeddingProvider({
+        dimensions: settings.dimensions ?? 384,
+      });
+
+    default:
+      throw new Error(`Unknown embedding provider: ${settings.provider as string}`);
+  }
+}
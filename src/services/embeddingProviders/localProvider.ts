@@ -0,0 +1,97 @@
+/**
+ * KURA Notes - Local Embedding Provider
+ *
+ * Generates embeddings in-process without any external service or model download.
+ * Uses feature hashing of words, word bigrams and character trigrams into a fixed
+ * number of dimensions. Quality is below neural models, but texts sharing
+ * vocabulary end up close together, which keeps semantic search useful offline.
+ */
+
+import type { EmbeddingProvider } from './types.js';
+
+/**
+ * Local provider configuration
+ */
+export interface LocalProviderConfig {
+  dimensions: number;
+}
+
+/**
+ * Relative weights of the hashed features
+ */
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * Local feature-hashing embedding provider
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = 'local' as const;
+  public readonly model: string;
+  private dimensions: number;
+
+  constructor(config: LocalProviderConfig) {
+    this.dimensions = config.dimensions;
+    this.model = `hashing-${config.dimensions}`;
+  }
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public getUnavailableReason(): string {
+    return '';
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 0);
+
+    words.forEach((word, i) => {
+      this.addFeature(vector, `w:${word}`, WORD_WEIGHT);
+
+      const next = words[i + 1];
+      if (next) {
+        this.addFeature(vector, `b:${word} ${next}`, BIGRAM_WEIGHT);
+      }
+
+      // Character trigrams make related word forms (plural, compounds) overlap
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        this.addFeature(vector, `t:${padded.substring(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    // L2-normalize so cosine similarity equals the dot product
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * Hash a feature into the vector with a pseudo-random sign
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const index = hash % this.dimensions;
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[index] = (vector[index] ?? 0) + sign * weight;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
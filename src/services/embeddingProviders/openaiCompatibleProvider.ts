@@ -0,0 +1,76 @@
+/**
+ * KURA Notes - OpenAI-Compatible Embedding Provider
+ *
+ * Calls any server exposing the OpenAI `/embeddings` HTTP API
+ * (Ollama, LM Studio, LocalAI, vLLM, text-embeddings-inference, ...)
+ */
+
+import type { EmbeddingProvider } from './types.js';
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAICompatibleProviderConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey?: string;
+  timeout: number; // Request timeout in milliseconds
+}
+
+/**
+ * OpenAI-compatible HTTP embedding provider
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = 'openai-compatible' as const;
+  public readonly model: string;
+  private config: OpenAICompatibleProviderConfig;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.model = config.model;
+  }
+
+  public isAvailable(): boolean {
+    return !!this.config.baseUrl && !!this.model;
+  }
+
+  public getUnavailableReason(): string {
+    return 'Embedding API URL or model not configured.';
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: this.model, input: text }),
+        signal: AbortSignal.timeout(this.config.timeout),
+      });
+    } catch (error) {
+      // Connection refused, DNS failures and timeouts are reported as network errors
+      throw new Error(
+        `Embedding API network error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Embedding API request failed with status ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    const payload = (await response.json()) as { data?: Array<{ embedding?: unknown }> };
+    const embedding = payload.data?.[0]?.embedding;
+
+    if (!Array.isArray(embedding) || embedding.some((value) => typeof value !== 'number')) {
+      throw new Error('Invalid embedding response from embedding API');
+    }
+
+    return embedding as number[];
+  }
+}
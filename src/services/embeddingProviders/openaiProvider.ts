@@ -0,0 +1,68 @@
+/**
+ * KURA Notes - OpenAI Embedding Provider
+ *
+ * Generates embeddings with the official OpenAI SDK
+ */
+
+import OpenAI from 'openai';
+import type { EmbeddingProvider } from './types.js';
+
+/**
+ * OpenAI provider configuration
+ */
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  organization?: string;
+  project?: string;
+  model: string;
+}
+
+/**
+ * OpenAI embedding provider
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = 'openai' as const;
+  public readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.model = config.model;
+
+    // Only initialize OpenAI client if API key is provided
+    if (config.apiKey) {
+      this.client = new OpenAI({
+        apiKey: config.apiKey,
+        organization: config.organization,
+        project: config.project,
+      });
+    }
+  }
+
+  public isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  public getUnavailableReason(): string {
+    return 'OpenAI API key not configured.';
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    if (!this.client) {
+      throw new Error(this.getUnavailableReason());
+    }
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: text,
+      encoding_format: 'float',
+    });
+
+    const embedding = response.data[0]?.embedding;
+
+    if (!embedding || !Array.isArray(embedding)) {
+      throw new Error('Invalid embedding response from OpenAI API');
+    }
+
+    return embedding;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * KURA Notes - Embedding Provider Types
+ *
+ * Common interface implemented by all embedding backends
+ */
+
+/**
+ * Supported embedding provider names (EMBEDDING_PROVIDER)
+ */
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+/**
+ * Embedding provider
+ * Providers only turn text into vectors; retries and truncation live in EmbeddingService
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+
+  /**
+   * Whether the provider is configured and can generate embeddings
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Human-readable reason why the provider is unavailable
+   */
+  getUnavailableReason(): string;
+
+  /**
+   * Generate an embedding vector for a single text
+   */
+  embed(text: string): Promise<number[]>;
+}
@@ -0,0 +1,221 @@
+/**
+ * KURA Notes - Embedding Queue Service
+ *
+ * Processes the durable embedding job queue stored in SQLite:
+ * - Runs due jobs with a concurrency limit
+ * - Retries failing jobs with exponential backoff
+ * - Dead-letters jobs that keep failing (content is marked 'failed')
+ * - Resumes interrupted and missing jobs on startup
+ */
+
+import { DatabaseService } from './database/database.service.js';
+import { EmbeddingPipelineService, type EmbeddingJobResult } from './embeddingPipeline.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type { EmbeddingJob } from '../models/content.js';
+
+/**
+ * Longest delay between two attempts of a job (seconds)
+ */
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+/**
+ * Queue options (default to the configuration)
+ */
+export interface EmbeddingQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  retryDelaySeconds: number;
+}
+
+/**
+ * Embedding queue service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class EmbeddingQueueService {
+  private static instance: EmbeddingQueueService | null = null;
+  private db: DatabaseService;
+  private pipeline: EmbeddingPipelineService;
+  private options: EmbeddingQueueOptions;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private workers = new Set<Promise<void>>();
+  private stopped = false;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(
+    db: DatabaseService,
+    pipeline: EmbeddingPipelineService,
+    options: EmbeddingQueueOptions
+  ) {
+    this.db = db;
+    this.pipeline = pipeline;
+    this.options = options;
+    logger.debug('EmbeddingQueueService initialized', { ...options });
+  }
+
+  /**
+   * Get or create embedding queue service instance (singleton)
+   */
+  public static getInstance(
+    db?: DatabaseService,
+    pipeline?: EmbeddingPipelineService,
+    options?: Partial<EmbeddingQueueOptions>
+  ): EmbeddingQueueService {
+    if (!EmbeddingQueueService.instance) {
+      if (!db || !pipeline) {
+        throw new Error('DatabaseService and EmbeddingPipelineService required for first initialization');
+      }
+      EmbeddingQueueService.instance = new EmbeddingQueueService(db, pipeline, {
+        concurrency: config.embeddingQueueConcurrency,
+        maxAttempts: config.embeddingJobMaxAttempts,
+        retryDelaySeconds: config.embeddingJobRetryDelay,
+        ...options,
+      });
+    }
+    return EmbeddingQueueService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (EmbeddingQueueService.instance) {
+      logger.debug('Resetting EmbeddingQueueService instance');
+      EmbeddingQueueService.instance.stop();
+      EmbeddingQueueService.instance = null;
+    }
+  }
+
+  /**
+   * Resume queued work and start polling for due jobs
+   * Jobs left running by a previous process are requeued, and pending content
+   * without a job (e.g. captured by an older version) gets one
+   *
+   * @param intervalMs - How often to look for due jobs
+   */
+  public start(intervalMs = 1000): void {
+    this.stop();
+    this.stopped = false;
+
+    const requeued = this.db.requeueRunningEmbeddingJobs();
+    const missing = this.db.enqueueMissingEmbeddingJobs();
+    logger.info('Embedding queue started', { requeued, missing, ...this.options });
+
+    this.pollTimer = setInterval(() => {
+      this.drain().catch((error) => {
+        logger.error('Embedding queue poll failed', { error });
+      });
+    }, intervalMs);
+    this.pollTimer.unref();
+
+    this.drain().catch((error) => {
+      logger.error('Embedding queue poll failed', { error });
+    });
+  }
+
+  /**
+   * Stop polling and stop claiming jobs
+   * Jobs that are already running finish in the background; if the process exits
+   * first they are requeued on the next start
+   */
+  public stop(): void {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      logger.info('Embedding queue stopped');
+    }
+  }
+
+  /**
+   * Start workers (up to the concurrency limit) that run due jobs until none are left
+   * Resolves when all workers are idle
+   */
+  public async drain(): Promise<void> {
+    while (!this.stopped && this.workers.size < this.options.concurrency) {
+      const worker: Promise<void> = this.work().finally(() => {
+        this.workers.delete(worker);
+      });
+      this.workers.add(worker);
+    }
+
+    await Promise.all(this.workers);
+  }
+
+  /**
+   * Claim and run jobs one after another
+   */
+  private async work(): Promise<void> {
+    while (!this.stopped) {
+      const job = this.db.claimEmbeddingJob();
+      if (!job) {
+        return;
+      }
+      await this.runJob(job);
+    }
+  }
+
+  /**
+   * Run a claimed job and record its outcome
+   */
+  private async runJob(job: EmbeddingJob): Promise<void> {
+    logger.debug('Running embedding job', { jobId: job.id, contentId: job.content_id, attempt: job.attempts });
+
+    let result: EmbeddingJobResult;
+    try {
+      result = await this.pipeline.runJob(job);
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: true,
+      };
+    }
+
+    if (result.success) {
+      this.db.completeEmbeddingJob(job.id);
+      return;
+    }
+
+    const error = result.error || 'Unknown error';
+
+    if (result.retryable && job.attempts < this.options.maxAttempts) {
+      const delay = Math.min(
+        this.options.retryDelaySeconds * 2 ** (job.attempts - 1),
+        MAX_RETRY_DELAY_SECONDS
+      );
+      this.db.retryEmbeddingJob(job.id, error, delay);
+      logger.warn('Embedding job failed, retrying', {
+        jobId: job.id,
+        contentId: job.content_id,
+        attempt: job.attempts,
+        retryInSeconds: delay,
+        error,
+      });
+      return;
+    }
+
+    this.db.killEmbeddingJob(job.id, error);
+    this.db.updateContent(job.content_id, job.user_id, {
+      embedding_status: 'failed',
+    });
+    logger.error('Embedding job failed permanently', {
+      jobId: job.id,
+      contentId: job.content_id,
+      attempts: job.attempts,
+      error,
+    });
+  }
+}
+
+/**
+ * Get embedding queue service instance
+ */
+export const getEmbeddingQueue = (
+  db?: DatabaseService,
+  pipeline?: EmbeddingPipelineService
+): EmbeddingQueueService => {
+  return EmbeddingQueueService.getInstance(db, pipeline);
+};
@@ -1,13 +1,18 @@
 /**
  * KURA Notes - Embedding Service
  *
- * Generates embeddings from text using OpenAI API
+ * Generates embeddings from text using the configured embedding provider
+ * (OpenAI, an OpenAI-compatible server such as Ollama, or the local provider)
  * Implements retry logic, rate limit handling, and text truncation
  */
 
-import OpenAI from 'openai';
 import { logger } from '../utils/logger.js';
 import { config } from '../config/index.js';
+import {
+  createEmbeddingProvider,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+} from './embeddingProviders/index.js';
 
 /**
  * Embedding generation result
@@ -24,10 +29,13 @@ export interface EmbeddingResult {
  * Embedding service configuration
  */
 interface EmbeddingServiceConfig {
+  provider?: EmbeddingProviderName; // Defaults to 'openai'
   apiKey: string;
   organization?: string;
   project?: string;
   model: string;
+  baseUrl?: string; // OpenAI-compatible provider only
+  dimensions?: number; // Local provider only
   maxTextLength: number;
   maxRetries: number;
   retryDelay: number;
@@ -39,7 +47,7 @@ interface EmbeddingServiceConfig {
  */
 export class EmbeddingService {
   private static instance: EmbeddingService | null = null;
-  private client: OpenAI | null = null;
+  private provider: EmbeddingProvider;
   private config: EmbeddingServiceConfig;
 
   /**
@@ -47,24 +55,30 @@ export class EmbeddingService {
    */
   private constructor(userConfig: EmbeddingServiceConfig) {
     this.config = userConfig;
+    this.provider = createEmbeddingProvider({
+      provider: userConfig.provider || 'openai',
+      apiKey: userConfig.apiKey,
+      organization: userConfig.organization,
+      project: userConfig.project,
+      model: userConfig.model,
+      baseUrl: userConfig.baseUrl,
+      dimensions: userConfig.dimensions,
+    });
 
-    // Only initialize OpenAI client if API key is provided
-    if (userConfig.apiKey) {
-      this.client = new OpenAI({
-        apiKey: userConfig.apiKey,
-        organization: userConfig.organization,
-        project: userConfig.project,
-      });
-
+    if (this.provider.isAvailable()) {
       logger.info('EmbeddingService initialized', {
-        model: userConfig.model,
+        provider: this.provider.name,
+        model: this.provider.model,
         maxTextLength: userConfig.maxTextLength,
         maxRetries: userConfig.maxRetries,
         hasOrganization: !!userConfig.organization,
         hasProject: !!userConfig.project,
       });
     } else {
-      logger.warn('EmbeddingService initialized without API key. Embeddings will not be available.');
+      logger.warn('EmbeddingService initialized without a usable provider. Embeddings will not be available.', {
+        provider: this.provider.name,
+        reason: this.provider.getUnavailableReason(),
+      });
     }
   }
 
@@ -75,15 +89,7 @@ export class EmbeddingService {
     if (!EmbeddingService.instance) {
       if (!userConfig) {
         // Use default config from environment
-        userConfig = {
-          apiKey: config.openaiApiKey || '',
-          organization: config.openaiOrganization,
-          project: config.openaiProject,
-          model: config.openaiEmbeddingModel || 'text-embedding-3-small',
-          maxTextLength: 8000, // Max 8000 characters
-          maxRetries: 3,
-          retryDelay: 1000, // 1 second initial delay
-        };
+        userConfig = getEmbeddingServiceConfig();
       }
       EmbeddingService.instance = new EmbeddingService(userConfig);
     }
@@ -100,10 +106,24 @@ export class EmbeddingService {
   }
 
   /**
-   * Check if the service is available (API key configured)
+   * Check if the service is available (provider configured)
    */
   public isAvailable(): boolean {
-    return this.client !== null;
+    return this.provider.isAvailable();
+  }
+
+  /**
+   * Get why the provider cannot generate embeddings (e.g. a missing API key)
+   */
+  public getUnavailableReason(): string {
+    return this.provider.getUnavailableReason();
+  }
+
+  /**
+   * Get the active provider and model (for logging and diagnostics)
+   */
+  public getProviderInfo(): { provider: EmbeddingProviderName; model: string } {
+    return { provider: this.provider.name, model: this.provider.model };
   }
 
   /**
@@ -140,8 +160,8 @@ export class EmbeddingService {
    * Generate embedding from text with retry logic
    */
   async generateEmbedding(text: string): Promise<EmbeddingResult> {
-    if (!this.client) {
-      throw new Error('OpenAI API key not configured. Cannot generate embeddings.');
+    if (!this.provider.isAvailable()) {
+      throw new Error(`${this.provider.getUnavailableReason()} Cannot generate embeddings.`);
     }
 
     if (!text || text.trim().length === 0) {
@@ -163,22 +183,12 @@ export class EmbeddingService {
           truncated,
         });
 
-        const response = await this.client.embeddings.create({
-          model: this.config.model,
-          input: processedText,
-          encoding_format: 'float',
-        });
-
-        // Extract embedding from response
-        const embedding = response.data[0]?.embedding;
-
-        if (!embedding || !Array.isArray(embedding)) {
-          throw new Error('Invalid embedding response from OpenAI API');
-        }
+        const embedding = await this.provider.embed(processedText);
 
         logger.debug('Embedding generated successfully', {
           dimensions: embedding.length,
-          model: this.config.model,
+          provider: this.provider.name,
+          model: this.provider.model,
           truncated,
         });
 
@@ -204,10 +214,11 @@ export class EmbeddingService {
             error.message.includes('ETIMEDOUT') ||
             error.message.includes('ENOTFOUND') ||
             error.message.includes('network') ||
+            /status 5\d\d/.test(error.message) ||
             isRateLimitError);
 
         if (isRateLimitError) {
-          logger.warn('OpenAI rate limit hit', {
+          logger.warn('Embedding provider rate limit hit', {
             attempt: attempt + 1,
             maxRetries: this.config.maxRetries,
             error: lastError.message,
@@ -260,8 +271,8 @@ export class EmbeddingService {
    * Generate embeddings for multiple texts (batch operation)
    */
   async generateEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
-    if (!this.client) {
-      throw new Error('OpenAI API key not configured. Cannot generate embeddings.');
+    if (!this.provider.isAvailable()) {
+      throw new Error(`${this.provider.getUnavailableReason()} Cannot generate embeddings.`);
     }
 
     if (!texts || texts.length === 0) {
@@ -310,16 +321,30 @@ export class EmbeddingService {
 }
 
 /**
- * Get the embedding service instance
+ * Build the embedding service configuration from the environment
  */
-export function getEmbeddingService(): EmbeddingService {
-  return EmbeddingService.getInstance({
-    apiKey: config.openaiApiKey || '',
+function getEmbeddingServiceConfig(): EmbeddingServiceConfig {
+  const isOpenAI = config.embeddingProvider === 'openai';
+
+  return {
+    provider: config.embeddingProvider,
+    apiKey: (isOpenAI ? config.openaiApiKey : config.embeddingApiKey) || '',
     organization: config.openaiOrganization,
     project: config.openaiProject,
-    model: config.openaiEmbeddingModel || 'text-embedding-3-small',
-    maxTextLength: 8000,
+    model: isOpenAI
+      ? config.openaiEmbeddingModel || 'text-embedding-3-small'
+      : config.embeddingModel,
+    baseUrl: config.embeddingApiUrl,
+    dimensions: config.embeddingDimensions,
+    maxTextLength: 8000, // Max 8000 characters
     maxRetries: 3,
-    retryDelay: 1000,
-  });
+    retryDelay: 1000, // 1 second initial delay
+  };
+}
+
+/**
+ * Get the embedding service instance
+ */
+export function getEmbeddingService(): EmbeddingService {
+  return EmbeddingService.getInstance(getEmbeddingServiceConfig());
 }
@@ -0,0 +1,222 @@
+/**
+ * KURA Notes - Export Service
+ *
+ * Builds an Obsidian-compatible Markdown archive of a user's library:
+ * - One Markdown note per content item with YAML frontmatter
+ * - Original images and PDFs in an attachments folder, embedded in their notes
+ * - A manifest describing every exported item
+ */
+
+import fs from 'fs';
+import path from 'path';
+import archiver, { Archiver } from 'archiver';
+import { DatabaseService } from './database/database.service.js';
+import { FileStorageService } from './fileStorage.js';
+import { logger } from '../utils/logger.js';
+import { serializeFrontmatter, toSafeFilename, UniqueFilenames } from '../utils/markdown.js';
+import type { Content, ContentType, SearchFilters } from '../models/content.js';
+
+/**
+ * Format identifier written to the manifest
+ */
+export const EXPORT_FORMAT = 'kura-notes-markdown';
+
+/**
+ * Folder of images and PDFs inside the archive
+ */
+export const ATTACHMENTS_FOLDER = 'attachments';
+
+/**
+ * Manifest entry of an exported content item
+ */
+export interface ExportManifestItem {
+  id: string;
+  content_type: ContentType;
+  title: string | null;
+  note: string; // Path of the Markdown note in the archive
+  attachment: string | null; // Path of the original file (images and PDFs)
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Manifest written as manifest.json at the root of the archive
+ */
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  version: 1;
+  exported_at: string;
+  user_id: string | null;
+  filters: SearchFilters;
+  count: number;
+  items: ExportManifestItem[];
+}
+
+/**
+ * Export service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class ExportService {
+  private static instance: ExportService | null = null;
+  private db: DatabaseService;
+  private fileStorage: FileStorageService;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(db: DatabaseService, fileStorage: FileStorageService) {
+    this.db = db;
+    this.fileStorage = fileStorage;
+    logger.debug('ExportService initialized');
+  }
+
+  /**
+   * Get or create export service instance (singleton)
+   */
+  public static getInstance(db?: DatabaseService, fileStorage?: FileStorageService): ExportService {
+    if (!ExportService.instance) {
+      if (!db || !fileStorage) {
+        throw new Error('DatabaseService and FileStorageService required for first initialization');
+      }
+      ExportService.instance = new ExportService(db, fileStorage);
+    }
+    return ExportService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (ExportService.instance) {
+      logger.debug('Resetting ExportService instance');
+      ExportService.instance = null;
+    }
+  }
+
+  /**
+   * Create a zip archive of a user's content
+   * Entries are added up front and streamed as the archive is read; the caller
+   * must pipe or send the returned archive
+   *
+   * @param userId - Owner of the exported content
+   * @param filters - Optional tag and date filters
+   * @returns The archive stream and the number of exported items
+   */
+  public createArchive(
+    userId: string | null,
+    filters: SearchFilters = {}
+  ): { archive: Archiver; count: number } {
+    const contents = this.db.getContentByFilters(userId, filters);
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const noteNames = new UniqueFilenames();
+    const attachmentNames = new UniqueFilenames();
+    const items: ExportManifestItem[] = [];
+
+    for (const content of contents) {
+      const baseName = toSafeFilename(content.title, content.id);
+      let attachment: string | null = null;
+
+      if (content.content_type !== 'text') {
+        const fullPath = this.fileStorage.getFullPath(content.file_path);
+        if (fs.existsSync(fullPath)) {
+          // Files are opened lazily while the archive is read
+          const extension = path.extname(content.file_path).toLowerCase();
+          attachment = `${ATTACHMENTS_FOLDER}/${attachmentNames.reserve(baseName, extension)}`;
+          archive.file(fullPath, { name: attachment, date: toDate(content.created_at) });
+        } else {
+          logger.warn('Skipping missing attachment in export', { id: content.id, path: content.file_path });
+        }
+      }
+
+      const note = noteNames.reserve(baseName, '.md');
+      archive.append(this.toMarkdown(content, attachment), {
+        name: note,
+        date: toDate(content.updated_at),
+      });
+
+      items.push({
+        id: content.id,
+        content_type: content.content_type,
+        title: content.title,
+        note,
+        attachment,
+        created_at: toIsoTimestamp(content.created_at),
+        updated_at: toIsoTimestamp(content.updated_at),
+      });
+    }
+
+    const manifest: ExportManifest = {
+      format: EXPORT_FORMAT,
+      version: 1,
+      exported_at: new Date().toISOString(),
+      user_id: userId,
+      filters,
+      count: items.length,
+      items,
+    };
+    archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+
+    logger.info('Export archive created', { userId, count: items.length, filters });
+
+    return { archive, count: items.length };
+  }
+
+  /**
+   * Render a content item as a Markdown note with frontmatter
+   *
+   * @param content - Content to render
+   * @param attachment - Archive path of the original file, embedded in the note
+   */
+  public toMarkdown(content: Content, attachment: string | null): string {
+    const frontmatter = serializeFrontmatter({
+      id: content.id,
+      title: content.title ?? undefined,
+      type: content.content_type,
+      tags: content.tags,
+      annotation: content.annotation ?? undefined,
+      source: content.source ?? undefined,
+      url: content.source_url ?? undefined,
+      created: toIsoTimestamp(content.created_at),
+      updated: toIsoTimestamp(content.updated_at),
+    });
+
+    let body: string;
+    if (content.content_type === 'text') {
+      body = content.extracted_text || '';
+    } else if (attachment) {
+      body = `![[${attachment}]]`;
+    } else {
+      body = `_Original ${content.content_type} file is missing._`;
+    }
+
+    return `${frontmatter}\n${body}\n`;
+  }
+}
+
+/**
+ * Convert a SQLite timestamp (UTC without a zone designator) to ISO 8601
+ */
+function toIsoTimestamp(timestamp: string): string {
+  const date = toDate(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toISOString();
+}
+
+/**
+ * Parse a SQLite or ISO timestamp
+ */
+function toDate(timestamp: string): Date {
+  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(timestamp)) {
+    return new Date(`${timestamp.replace(' ', 'T')}Z`);
+  }
+  return new Date(timestamp);
+}
+
+/**
+ * Get export service instance
+ */
+export const getExportService = (
+  db?: DatabaseService,
+  fileStorage?: FileStorageService
+): ExportService => {
+  return ExportService.getInstance(db, fileStorage);
+};
@@ -15,13 +15,20 @@ import {
   SaveFileResult,
   ReadFileResult,
   DeleteFileResult,
+  WriteFileResult,
   FileMetadata,
 } from '../models/file.js';
 import { validateFile, inferMimeType } from '../utils/fileValidation.js';
+import { computeContentHash } from '../utils/contentHash.js';
 import { DatabaseService } from './database/database.service.js';
-import type { CreateContentInput } from '../models/content.js';
-import { ThumbnailService } from './thumbnailService.js';
+import type { AudioMetadata, CreateContentInput, ImageMetadata, PdfPage } from '../models/content.js';
+import { ThumbnailService, ThumbnailResult, ResizeOptions, ResizeResult } from './thumbnailService.js';
 import { PdfService } from './pdfService.js';
+import { AudioService } from './audioService.js';
+import { TranscriptionService } from './transcriptionService.js';
+import { ImageTextService } from './imageTextService.js';
+import { formatTranscript } from '../utils/transcript.js';
+import { formatImageText } from '../utils/imageText.js';
 
 /**
  * File storage service configuration
@@ -29,6 +36,7 @@ import { PdfService } from './pdfService.js';
 interface FileStorageConfig {
   baseDirectory: string;
   logger?: winston.Logger;
+  stripImageLocation?: boolean; // Remove GPS data from stored images unless a capture asks otherwise
 }
 
 /**
@@ -38,10 +46,14 @@ interface FileStorageConfig {
 export class FileStorageService {
   private static instance: FileStorageService | null = null;
   private baseDirectory: string;
+  private stripImageLocation: boolean;
   private logger: winston.Logger;
   private db: DatabaseService;
   private thumbnailService: ThumbnailService | null = null;
   private pdfService: PdfService | null = null;
+  private audioService: AudioService | null = null;
+  private transcriptionService: TranscriptionService | null = null;
+  private imageTextService: ImageTextService | null = null;
 
   /**
    * Private constructor - use getInstance() instead
@@ -50,12 +62,19 @@ export class FileStorageService {
     config: FileStorageConfig,
     db: DatabaseService,
     thumbnailService?: ThumbnailService,
-    pdfService?: PdfService
+    pdfService?: PdfService,
+    audioService?: AudioService,
+    transcriptionService?: TranscriptionService,
+    imageTextService?: ImageTextService
   ) {
     this.baseDirectory = config.baseDirectory;
+    this.stripImageLocation = config.stripImageLocation ?? false;
     this.db = db;
     this.thumbnailService = thumbnailService || null;
     this.pdfService = pdfService || null;
+    this.audioService = audioService || null;
+    this.transcriptionService = transcriptionService || null;
+    this.imageTextService = imageTextService || null;
 
     // Setup logger
     this.logger =
@@ -77,13 +96,24 @@ export class FileStorageService {
     config?: FileStorageConfig,
     db?: DatabaseService,
     thumbnailService?: ThumbnailService,
-    pdfService?: PdfService
+    pdfService?: PdfService,
+    audioService?: AudioService,
+    transcriptionService?: TranscriptionService,
+    imageTextService?: ImageTextService
   ): FileStorageService {
     if (!FileStorageService.instance) {
       if (!config || !db) {
         throw new Error('FileStorageConfig and DatabaseService required for first initialization');
       }
-      FileStorageService.instance = new FileStorageService(config, db, thumbnailService, pdfService);
+      FileStorageService.instance = new FileStorageService(
+        config,
+        db,
+        thumbnailService,
+        pdfService,
+        audioService,
+        transcriptionService,
+        imageTextService
+      );
     }
     return FileStorageService.instance;
   }
@@ -137,6 +167,14 @@ export class FileStorageService {
       'image/gif': '.gif',
       'image/webp': '.webp',
       'application/pdf': '.pdf',
+      'audio/mpeg': '.mp3',
+      'audio/mp4': '.m4a',
+      'audio/x-m4a': '.m4a',
+      'audio/aac': '.aac',
+      'audio/wav': '.wav',
+      'audio/x-wav': '.wav',
+      'audio/ogg': '.ogg',
+      'audio/webm': '.webm',
     };
 
     return extensionMap[mimeType] || '';
@@ -153,9 +191,9 @@ export class FileStorageService {
   }
 
   /**
-   * Get full file path
+   * Get full file path of a stored file (relative to the storage base directory)
    */
-  private getFullPath(relativePath: string): string {
+  public getFullPath(relativePath: string): string {
     return path.join(this.baseDirectory, relativePath);
   }
 
@@ -173,6 +211,12 @@ export class FileStorageService {
         tags,
         originalFilename,
         mimeType: providedMimeType,
+        source = 'api',
+        sourceUrl,
+        snapshot,
+        stripLocation = this.stripImageLocation,
+        createdAt,
+        updatedAt,
       } = options;
 
       // Generate unique ID
@@ -208,7 +252,7 @@ export class FileStorageService {
       }
 
       // Generate paths
-      const dateBasedPath = this.generateDateBasedPath();
+      const dateBasedPath = this.generateDateBasedPath(createdAt);
       const filename = this.generateFilename(contentType, mimeType);
       const relativePath = path.join(dateBasedPath, filename);
       const fullPath = this.getFullPath(relativePath);
@@ -216,19 +260,52 @@ export class FileStorageService {
       // Ensure directory exists
       this.ensureDirectoryExists(path.dirname(fullPath));
 
+      // Remove the GPS position from images before they are stored
+      let storedBuffer = buffer;
+      let locationStripped = false;
+
+      if (contentType === 'image' && stripLocation && this.thumbnailService) {
+        try {
+          const stripped = await this.thumbnailService.removeLocation(buffer);
+          if (stripped) {
+            storedBuffer = stripped;
+            locationStripped = true;
+          }
+        } catch (error) {
+          // Never store the location of an image that was meant to be stripped
+          this.logger.warn('Failed to remove location from image', {
+            id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          return {
+            success: false,
+            error: 'Failed to remove location data from image',
+          };
+        }
+      }
+
       // Write file
-      await fsPromises.writeFile(fullPath, buffer);
+      await fsPromises.writeFile(fullPath, storedBuffer);
 
       this.logger.info('File saved successfully', {
         id,
         path: relativePath,
-        size: buffer.length,
+        size: storedBuffer.length,
         contentType,
+        locationStripped,
       });
 
+      // Save the HTML snapshot of a web page next to its text
+      let snapshotPath: string | undefined;
+      if (snapshot !== undefined) {
+        snapshotPath = path.join(dateBasedPath, `${path.parse(filename).name}.html`);
+        await fsPromises.writeFile(this.getFullPath(snapshotPath), snapshot, 'utf-8');
+        this.logger.debug('Snapshot saved', { id, snapshotPath, size: snapshot.length });
+      }
+
       // Generate thumbnail and image metadata for images
       let thumbnailPath: string | undefined;
-      let imageMetadata: any | undefined;
+      let imageMetadata: ImageMetadata | undefined;
 
       if (contentType === 'image' && this.thumbnailService && mimeType) {
         this.logger.debug('Generating thumbnail for image', { id, mimeType });
@@ -239,6 +316,13 @@ export class FileStorageService {
           thumbnailPath = thumbnailResult.thumbnailPath;
           imageMetadata = thumbnailResult.metadata;
 
+          // The metadata was read from the upload - keep a stripped location out of it too
+          if (imageMetadata && locationStripped) {
+            delete imageMetadata.location;
+            imageMetadata.locationStripped = true;
+            imageMetadata.size = storedBuffer.length;
+          }
+
           this.logger.info('Thumbnail generated successfully', {
             id,
             thumbnailPath,
@@ -253,31 +337,106 @@ export class FileStorageService {
         }
       }
 
-      // Extract PDF metadata for PDFs
+      // Recognize text (and optionally a caption) in images
+      let imageText: string | undefined;
+
+      if (contentType === 'image' && mimeType) {
+        // Send the stored image, so a stripped location never reaches the provider
+        imageText = await this.recognizeImage(id, storedBuffer, mimeType, imageMetadata);
+      }
+
+      // Extract PDF metadata and per-page text for PDFs
       let pdfMetadata: any | undefined;
+      let pdfPages: PdfPage[] = [];
+      let pdfText: string | undefined;
 
       if (contentType === 'pdf' && this.pdfService) {
-        this.logger.debug('Extracting PDF metadata', { id, filename: originalFilename });
+        this.logger.debug('Extracting PDF content', { id, filename: originalFilename });
 
         try {
-          pdfMetadata = await this.pdfService.extractMetadata(
+          const pdfContent = await this.pdfService.extractContent(
             buffer,
             originalFilename || 'document.pdf'
           );
+          pdfMetadata = pdfContent.metadata;
+          pdfPages = pdfContent.pages;
+          pdfText = pdfContent.text || undefined;
 
-          this.logger.info('PDF metadata extracted successfully', {
+          this.logger.info('PDF content extracted successfully', {
             id,
             metadata: pdfMetadata,
+            pagesWithText: pdfPages.length,
           });
         } catch (error) {
-          this.logger.warn('Failed to extract PDF metadata', {
+          this.logger.warn('Failed to extract PDF content', {
             id,
             error: error instanceof Error ? error.message : 'Unknown error',
           });
           // Continue without PDF metadata - don't fail the entire upload
         }
+
+        // Render the first page as preview thumbnail
+        if (pdfMetadata) {
+          const preview = await this.generatePdfPreview(id, buffer, filename);
+          if (preview) {
+            thumbnailPath = preview.thumbnailPath;
+            pdfMetadata = {
+              ...pdfMetadata,
+              thumbnailVariants: preview.metadata?.thumbnailVariants,
+              thumbnailSignature: preview.metadata?.thumbnailSignature,
+            };
+          }
+        }
+      }
+
+      // Read audio metadata and transcribe audio notes
+      let audioMetadata: AudioMetadata | undefined;
+      let transcriptText: string | undefined;
+
+      if (contentType === 'audio' && this.audioService) {
+        audioMetadata = await this.audioService.extractMetadata(
+          buffer,
+          originalFilename || filename,
+          mimeType || 'application/octet-stream'
+        );
+        audioMetadata.transcribed = false;
+
+        if (this.transcriptionService?.isAvailable()) {
+          try {
+            const transcript = await this.transcriptionService.transcribe({
+              data: buffer,
+              filename: originalFilename || filename,
+              mimeType: mimeType || 'application/octet-stream',
+            });
+            transcriptText = formatTranscript(transcript) || undefined;
+            audioMetadata.transcribed = transcriptText !== undefined;
+            if (transcript.language) {
+              audioMetadata.language = transcript.language;
+            }
+            if (audioMetadata.duration === undefined && transcript.duration !== null) {
+              audioMetadata.duration = transcript.duration;
+            }
+          } catch (error) {
+            this.logger.warn('Failed to transcribe audio', {
+              id,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            // Continue without transcript - don't fail the entire upload
+          }
+        }
       }
 
+      // Text notes store their body, PDFs their extracted page text, audio its transcript,
+      // images their recognized text
+      const extractedText =
+        contentType === 'text'
+          ? content.toString()
+          : contentType === 'audio'
+            ? transcriptText
+            : contentType === 'image'
+              ? imageText
+              : pdfText;
+
       // Save metadata to database using existing Content interface
       const dbInput: CreateContentInput = {
         id,
@@ -287,21 +446,24 @@ export class FileStorageService {
         title,
         annotation,
         tags,
-        extracted_text: contentType === 'text' ? content.toString() : undefined,
-        source: 'api', // Default source
+        extracted_text: extractedText,
+        source,
+        thumbnail_path: thumbnailPath,
+        image_metadata: imageMetadata,
+        pdf_metadata: pdfMetadata,
+        audio_metadata: audioMetadata,
+        content_hash: computeContentHash(buffer, contentType), // Of the upload, so stripped images match re-captures
+        source_url: sourceUrl,
+        snapshot_path: snapshotPath,
+        created_at: createdAt ? toSqliteTimestamp(createdAt) : undefined,
+        updated_at: updatedAt ? toSqliteTimestamp(updatedAt) : undefined,
       };
 
       try {
-        // Create content first
         this.db.createContent(dbInput);
 
-        // Then update with thumbnail and metadata if available
-        if (thumbnailPath || imageMetadata || pdfMetadata) {
-          this.db.updateContent(id, userId, {
-            thumbnail_path: thumbnailPath,
-            image_metadata: imageMetadata,
-            pdf_metadata: pdfMetadata,
-          });
+        if (pdfPages.length > 0) {
+          this.db.saveContentPages(id, pdfPages);
         }
       } catch (dbError) {
         // Clean up file and thumbnail if database insert fails
@@ -314,6 +476,13 @@ export class FileStorageService {
 
         if (thumbnailPath && this.thumbnailService) {
           await this.thumbnailService.deleteThumbnail(thumbnailPath);
+          await this.thumbnailService.deleteVariants(
+            imageMetadata?.thumbnailVariants ?? pdfMetadata?.thumbnailVariants ?? []
+          );
+        }
+
+        if (snapshotPath) {
+          await fsPromises.unlink(this.getFullPath(snapshotPath)).catch(() => undefined);
         }
 
         throw dbError;
@@ -323,6 +492,7 @@ export class FileStorageService {
         success: true,
         id,
         filePath: relativePath,
+        extractedText,
       };
     } catch (error) {
       this.logger.error('Error saving file', { error });
@@ -333,6 +503,210 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Run text extraction over an image
+   * Sets `textRecognized` on the image metadata when the provider ran successfully
+   * Never throws - returns undefined if the image has no text or recognition failed
+   */
+  private async recognizeImage(
+    id: string,
+    buffer: Buffer,
+    mimeType: string,
+    imageMetadata?: ImageMetadata
+  ): Promise<string | undefined> {
+    if (!this.imageTextService?.isAvailable()) {
+      return undefined;
+    }
+
+    try {
+      const result = await this.imageTextService.recognize(buffer, mimeType);
+      if (imageMetadata) {
+        imageMetadata.textRecognized = true;
+      }
+      return formatImageText(result) || undefined;
+    } catch (error) {
+      this.logger.warn('Failed to recognize image text', {
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      // Continue without image text - don't fail the entire upload
+      return undefined;
+    }
+  }
+
+  /**
+   * Extract the text of an already stored image (backfill)
+   * Updates extracted_text and the image metadata; the caller queues re-embedding
+   * @param id - Content ID of an image
+   * @returns Whether text was stored, or an error
+   */
+  async recognizeStoredImage(id: string): Promise<{ success: boolean; textFound?: boolean; error?: string }> {
+    try {
+      const contentRecord = this.db.getContentById(id);
+      if (!contentRecord) {
+        return { success: false, error: 'Content not found' };
+      }
+      if (contentRecord.content_type !== 'image') {
+        return { success: false, error: 'Only images can be run through text extraction' };
+      }
+      if (!this.imageTextService?.isAvailable()) {
+        return { success: false, error: 'Image text extraction is not configured' };
+      }
+
+      const fullPath = this.getFullPath(contentRecord.file_path);
+      if (!fs.existsSync(fullPath)) {
+        return { success: false, error: 'File not found on disk' };
+      }
+
+      const buffer = await fsPromises.readFile(fullPath);
+      const mimeType = inferMimeType(contentRecord.file_path) || 'image/jpeg';
+      const result = await this.imageTextService.recognize(buffer, mimeType);
+      const text = formatImageText(result);
+
+      this.db.updateContent(id, contentRecord.user_id, {
+        ...(text && { extracted_text: text }),
+        ...(contentRecord.image_metadata && {
+          image_metadata: { ...contentRecord.image_metadata, textRecognized: true },
+        }),
+      });
+
+      this.logger.info('Image text backfilled', { id, textLength: text.length });
+
+      return { success: true, textFound: text.length > 0 };
+    } catch (error) {
+      this.logger.error('Error recognizing stored image', { error, id });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Regenerate the thumbnails of a stored image or PDF with the current thumbnail configuration
+   * Thumbnails that are no longer generated are deleted. Used by the thumbnail backfill script
+   */
+  async regenerateThumbnails(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const contentRecord = this.db.getContentById(id);
+      if (!contentRecord) {
+        return { success: false, error: 'Content not found' };
+      }
+      if (contentRecord.content_type !== 'image' && contentRecord.content_type !== 'pdf') {
+        return { success: false, error: 'Only images and PDFs have thumbnails' };
+      }
+      if (!this.thumbnailService) {
+        return { success: false, error: 'Thumbnail generation is not configured' };
+      }
+
+      const fullPath = this.getFullPath(contentRecord.file_path);
+      if (!fs.existsSync(fullPath)) {
+        return { success: false, error: 'File not found on disk' };
+      }
+
+      const buffer = await fsPromises.readFile(fullPath);
+      const filename = path.basename(contentRecord.file_path);
+      const result =
+        contentRecord.content_type === 'pdf'
+          ? await this.generatePdfPreview(id, buffer, filename)
+          : await this.thumbnailService.generateThumbnail(buffer, filename);
+      if (!result?.success || !result.thumbnailPath || !result.metadata) {
+        return { success: false, error: result?.error || 'Failed to generate thumbnail' };
+      }
+
+      // Remove thumbnails of the previous configuration that were not overwritten
+      const currentPaths = new Set([
+        result.thumbnailPath,
+        ...(result.metadata.thumbnailVariants ?? []).map((variant) => variant.path),
+      ]);
+      const previousVariants = (contentRecord.image_metadata ?? contentRecord.pdf_metadata)?.thumbnailVariants ?? [];
+      if (contentRecord.thumbnail_path && !currentPaths.has(contentRecord.thumbnail_path)) {
+        await this.thumbnailService.deleteThumbnail(contentRecord.thumbnail_path);
+      }
+      await this.thumbnailService.deleteVariants(previousVariants.filter((variant) => !currentPaths.has(variant.path)));
+
+      if (contentRecord.content_type === 'pdf') {
+        this.db.updateContent(id, contentRecord.user_id, {
+          thumbnail_path: result.thumbnailPath,
+          pdf_metadata: {
+            ...(contentRecord.pdf_metadata ?? { filename, size: buffer.length }),
+            thumbnailVariants: result.metadata.thumbnailVariants,
+            thumbnailSignature: result.metadata.thumbnailSignature,
+          },
+        });
+      } else {
+        // Keep what was recorded at capture (text recognition, stripped location) next to the re-read metadata
+        this.db.updateContent(id, contentRecord.user_id, {
+          thumbnail_path: result.thumbnailPath,
+          image_metadata: { ...contentRecord.image_metadata, ...result.metadata },
+        });
+      }
+
+      this.logger.info('Thumbnails regenerated', {
+        id,
+        contentType: contentRecord.content_type,
+        thumbnailPath: result.thumbnailPath,
+        signature: result.metadata.thumbnailSignature,
+      });
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error('Error regenerating thumbnails', { error, id });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Render the first page of a PDF into preview thumbnails
+   * Never throws - a PDF that cannot be rendered is stored without a preview
+   */
+  private async generatePdfPreview(id: string, buffer: Buffer, filename: string): Promise<ThumbnailResult | null> {
+    if (!this.pdfService || !this.thumbnailService) {
+      return null;
+    }
+
+    const page = await this.pdfService.renderFirstPage(buffer, this.thumbnailService.getMaxSize());
+    if (!page) {
+      this.logger.warn('No PDF preview - first page could not be rendered', { id });
+      return null;
+    }
+
+    const result = await this.thumbnailService.generateThumbnail(page, filename);
+    if (!result.success) {
+      this.logger.warn('Failed to generate PDF preview thumbnail', { id, error: result.error });
+      return null;
+    }
+
+    this.logger.info('PDF preview generated', { id, thumbnailPath: result.thumbnailPath });
+    return result;
+  }
+
+  /**
+   * Resize a stored image (served from the disk cache when it was resized before)
+   * @param id - Content ID
+   * @param options - Target size, format and fit
+   */
+  async getResizedImage(id: string, options: ResizeOptions): Promise<ResizeResult> {
+    const contentRecord = this.db.getContentById(id);
+    if (!contentRecord) {
+      return { success: false, error: 'Content not found' };
+    }
+    if (contentRecord.content_type !== 'image') {
+      return { success: false, error: 'Only images can be resized' };
+    }
+    if (!this.thumbnailService) {
+      return { success: false, error: 'Image resizing is not configured' };
+    }
+    if (!fs.existsSync(this.getFullPath(contentRecord.file_path))) {
+      return { success: false, error: 'File not found on disk' };
+    }
+
+    return this.thumbnailService.resizeImage(id, contentRecord.file_path, options);
+  }
+
   /**
    * Read file from storage
    */
@@ -464,8 +838,8 @@ export class FileStorageService {
    */
   async deleteFile(id: string, userId: string | null = null): Promise<DeleteFileResult> {
     try {
-      // Get metadata from database with ownership verification
-      const contentRecord = this.db.getContentById(id, userId || undefined);
+      // Get metadata from database with ownership verification (including trashed content)
+      const contentRecord = this.db.getContentById(id, userId || undefined, true);
       if (!contentRecord) {
         return {
           success: false,
@@ -501,6 +875,23 @@ export class FileStorageService {
         });
       }
 
+      // Delete thumbnail sizes and cached resized images
+      if (this.thumbnailService) {
+        await this.thumbnailService.deleteVariants(
+          (contentRecord.image_metadata ?? contentRecord.pdf_metadata)?.thumbnailVariants ?? []
+        );
+        if (contentRecord.content_type === 'image') {
+          await this.thumbnailService.clearResizedImages(id);
+        }
+      }
+
+      // Delete web page snapshot if it exists
+      if (contentRecord.snapshot_path) {
+        await fsPromises.unlink(this.getFullPath(contentRecord.snapshot_path)).catch((err) => {
+          this.logger.warn('Failed to delete snapshot', { id, error: err });
+        });
+      }
+
       // Delete metadata from database with ownership verification
       const deleted = this.db.deleteContent(id, userId);
       if (!deleted) {
@@ -524,6 +915,52 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Overwrite the stored body of a text note
+   * Only the file on disk is written - the caller updates the database record
+   * @param id - Content ID of a text note
+   * @param text - New note body
+   * @param userId - User ID for ownership verification (null for legacy content)
+   */
+  async writeTextContent(id: string, text: string, userId: string | null = null): Promise<WriteFileResult> {
+    try {
+      const contentRecord = this.db.getContentById(id, userId || undefined);
+      if (!contentRecord) {
+        return {
+          success: false,
+          error: 'Content not found or not owned by user',
+        };
+      }
+
+      if (contentRecord.content_type !== 'text') {
+        return {
+          success: false,
+          error: 'Only text notes can be rewritten',
+        };
+      }
+
+      const fullPath = this.getFullPath(contentRecord.file_path);
+      this.ensureDirectoryExists(path.dirname(fullPath));
+      await fsPromises.writeFile(fullPath, text, 'utf-8');
+
+      this.logger.info('Text content written successfully', {
+        id,
+        path: contentRecord.file_path,
+        size: Buffer.byteLength(text, 'utf-8'),
+      });
+
+      return {
+        success: true,
+      };
+    } catch (error) {
+      this.logger.error('Error writing text content', { error, id });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * Check if file exists
    */
@@ -573,6 +1010,13 @@ export class FileStorageService {
   }
 }
 
+/**
+ * Format a date as a SQLite timestamp (UTC, as written by CURRENT_TIMESTAMP)
+ */
+function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
 /**
  * Export singleton instance getter
  */
@@ -580,7 +1024,18 @@ export const getFileStorageService = (
   config?: FileStorageConfig,
   db?: DatabaseService,
   thumbnailService?: ThumbnailService,
-  pdfService?: PdfService
+  pdfService?: PdfService,
+  audioService?: AudioService,
+  transcriptionService?: TranscriptionService,
+  imageTextService?: ImageTextService
 ): FileStorageService => {
-  return FileStorageService.getInstance(config, db, thumbnailService, pdfService);
+  return FileStorageService.getInstance(
+    config,
+    db,
+    thumbnailService,
+    pdfService,
+    audioService,
+    transcriptionService,
+    imageTextService
+  );
 };
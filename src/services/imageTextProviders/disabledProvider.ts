@@ -0,0 +1,27 @@
+/**
+ * KURA Notes - Disabled Image Text Provider
+ *
+ * Used with IMAGE_TEXT_PROVIDER=none: images are searchable by their annotation only
+ */
+
+import type { ImageText, ImageTextProvider } from './types.js';
+
+/**
+ * Image text provider that never reads images
+ */
+export class DisabledImageTextProvider implements ImageTextProvider {
+  public readonly name = 'none' as const;
+  public readonly model = 'none';
+
+  public isAvailable(): boolean {
+    return false;
+  }
+
+  public getUnavailableReason(): string {
+    return 'Image text extraction disabled (IMAGE_TEXT_PROVIDER=none).';
+  }
+
+  public async recognize(): Promise<ImageText> {
+    throw new Error(this.getUnavailableReason());
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * KURA Notes - Image Text Providers
+ *
+ * Factory for the image text provider selected via IMAGE_TEXT_PROVIDER
+ */
+
+import { OpenAIImageTextProvider } from './openaiProvider.js';
+import { OpenAICompatibleImageTextProvider } from './openaiCompatibleProvider.js';
+import { DisabledImageTextProvider } from './disabledProvider.js';
+import type { ImageTextProvider, ImageTextProviderName } from './types.js';
+
+export type { ImageText, ImageTextInput, ImageTextProvider, ImageTextProviderName } from './types.js';
+export { OpenAIImageTextProvider } from './openaiProvider.js';
+export { OpenAICompatibleImageTextProvider } from './openaiCompatibleProvider.js';
+export { DisabledImageTextProvider } from './disabledProvider.js';
+
+/**
+ * Settings needed to build any provider
+ */
+export interface ImageTextProviderSettings {
+  provider: ImageTextProviderName;
+  apiKey?: string; // OpenAI key, or optional bearer token for compatible servers
+  organization?: string;
+  project?: string;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+  timeout: number;
+}
+
+/**
+ * Create the configured image text provider
+ */
+export function createImageTextProvider(settings: ImageTextProviderSettings): ImageTextProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAIImageTextProvider({
+        apiKey: settings.apiKey || '',
+        organization: settings.organization,
+        project: settings.project,
+        model: settings.model,
+        timeout: settings.timeout,
+      });
+
+    case 'openai-compatible':
+      return new OpenAICompatibleImageTextProvider({
+        baseUrl: settings.baseUrl || '',
+        model: settings.model,
+        apiKey: settings.apiKey,
+        timeout: settings.timeout,
+      });
+
+    case 'none':
+      return new DisabledImageTextProvider();
+
+    default:
+      throw new Error(`Unknown image text provider: ${settings.provider as string}`);
+  }
+}
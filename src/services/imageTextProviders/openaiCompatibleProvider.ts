@@ -0,0 +1,95 @@
+/**
+ * KURA Notes - OpenAI-Compatible Image Text Provider
+ *
+ * Calls any server exposing the OpenAI `/chat/completions` HTTP API with a
+ * vision model, so images can be read locally (Ollama with llava or
+ * llama3.2-vision, LM Studio, vLLM, ...)
+ */
+
+import { buildImageTextPrompt, parseImageTextResponse, toDataUrl } from './prompt.js';
+import type { ImageText, ImageTextInput, ImageTextProvider } from './types.js';
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAICompatibleImageTextProviderConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+  timeout: number; // Request timeout in milliseconds
+}
+
+/**
+ * Chat completions response
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+/**
+ * OpenAI-compatible HTTP image text provider
+ */
+export class OpenAICompatibleImageTextProvider implements ImageTextProvider {
+  public readonly name = 'openai-compatible' as const;
+  public readonly model: string;
+  private config: OpenAICompatibleImageTextProviderConfig;
+
+  constructor(config: OpenAICompatibleImageTextProviderConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.model = config.model;
+  }
+
+  public isAvailable(): boolean {
+    return !!this.config.baseUrl && !!this.model;
+  }
+
+  public getUnavailableReason(): string {
+    return 'Image text API URL or model not configured.';
+  }
+
+  public async recognize(input: ImageTextInput): Promise<ImageText> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: buildImageTextPrompt(input) },
+                { type: 'image_url', image_url: { url: toDataUrl(input) } },
+              ],
+            },
+          ],
+        }),
+        signal: AbortSignal.timeout(this.config.timeout),
+      });
+    } catch (error) {
+      // Connection refused, DNS failures and timeouts are reported as network errors
+      throw new Error(
+        `Image text API network error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Image text API error ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const answer = data.choices?.[0]?.message?.content;
+    if (typeof answer !== 'string') {
+      throw new Error('Invalid image text response from API');
+    }
+
+    return parseImageTextResponse(answer, input);
+  }
+}
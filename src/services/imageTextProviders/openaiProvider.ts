@@ -0,0 +1,73 @@
+/**
+ * KURA Notes - OpenAI Image Text Provider
+ *
+ * Reads text in images with an OpenAI vision model through the official OpenAI SDK
+ */
+
+import OpenAI from 'openai';
+import { buildImageTextPrompt, parseImageTextResponse, toDataUrl } from './prompt.js';
+import type { ImageText, ImageTextInput, ImageTextProvider } from './types.js';
+
+/**
+ * OpenAI provider configuration
+ */
+export interface OpenAIImageTextProviderConfig {
+  apiKey: string;
+  organization?: string;
+  project?: string;
+  model: string;
+  timeout: number; // Request timeout in milliseconds
+}
+
+/**
+ * OpenAI vision image text provider
+ */
+export class OpenAIImageTextProvider implements ImageTextProvider {
+  public readonly name = 'openai' as const;
+  public readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor(config: OpenAIImageTextProviderConfig) {
+    this.model = config.model;
+
+    // Only initialize OpenAI client if API key is provided
+    if (config.apiKey) {
+      this.client = new OpenAI({
+        apiKey: config.apiKey,
+        organization: config.organization,
+        project: config.project,
+        timeout: config.timeout,
+      });
+    }
+  }
+
+  public isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  public getUnavailableReason(): string {
+    return 'OpenAI API key not configured.';
+  }
+
+  public async recognize(input: ImageTextInput): Promise<ImageText> {
+    if (!this.client) {
+      throw new Error(this.getUnavailableReason());
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: buildImageTextPrompt(input) },
+            { type: 'image_url', image_url: { url: toDataUrl(input) } },
+          ],
+        },
+      ],
+    });
+
+    return parseImageTextResponse(response.choices[0]?.message?.content ?? '', input);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * KURA Notes - Image Text Prompt
+ *
+ * Instructions and response parsing shared by the vision model providers
+ */
+
+import type { ImageText, ImageTextInput } from './types.js';
+
+/**
+ * Build the instruction sent with the image
+ */
+export function buildImageTextPrompt(input: ImageTextInput): string {
+  const fields = input.caption
+    ? '{"text": "<all text in the image>", "caption": "<one sentence describing the image>"}'
+    : '{"text": "<all text in the image>"}';
+
+  return [
+    'Transcribe all legible text in this image exactly as written, keeping line breaks.',
+    'Use an empty string if the image contains no text.',
+    `Respond with JSON only: ${fields}`,
+  ].join(' ');
+}
+
+/**
+ * Encode an image as a data URL for the chat completions API
+ */
+export function toDataUrl(input: ImageTextInput): string {
+  return `data:${input.mimeType};base64,${input.data.toString('base64')}`;
+}
+
+/**
+ * Parse the model answer
+ * Answers that are not the requested JSON (some local models ignore the format) are used as the text
+ */
+export function parseImageTextResponse(answer: string, input: ImageTextInput): ImageText {
+  const json = answer
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  try {
+    const data = JSON.parse(json) as { text?: unknown; caption?: unknown };
+    if (typeof data === 'object' && data !== null && typeof data.text === 'string') {
+      const caption = typeof data.caption === 'string' ? data.caption.trim() : '';
+      return {
+        text: data.text.trim(),
+        caption: input.caption && caption ? caption : null,
+      };
+    }
+  } catch {
+    // Not JSON - fall through
+  }
+
+  return { text: answer.trim(), caption: null };
+}
@@ -0,0 +1,51 @@
+/**
+ * KURA Notes - Image Text Provider Types
+ *
+ * Common interface implemented by all image text extraction (OCR) backends
+ */
+
+/**
+ * Supported image text provider names (IMAGE_TEXT_PROVIDER)
+ */
+export type ImageTextProviderName = 'openai' | 'openai-compatible' | 'none';
+
+/**
+ * Text recognized in an image
+ */
+export interface ImageText {
+  text: string; // Recognized text, empty if the image shows none
+  caption: string | null; // Short description of the image, if one was requested
+}
+
+/**
+ * Image to read
+ */
+export interface ImageTextInput {
+  data: Buffer;
+  mimeType: string;
+  caption: boolean; // Also describe the image in one sentence
+}
+
+/**
+ * Image text provider
+ * Providers only turn images into text; formatting lives in ImageTextService
+ */
+export interface ImageTextProvider {
+  readonly name: ImageTextProviderName;
+  readonly model: string;
+
+  /**
+   * Whether the provider is configured and can read images
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Human-readable reason why the provider is unavailable
+   */
+  getUnavailableReason(): string;
+
+  /**
+   * Recognize the text of a single image
+   */
+  recognize(input: ImageTextInput): Promise<ImageText>;
+}
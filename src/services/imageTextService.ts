@@ -0,0 +1,153 @@
+/**
+ * KURA Notes - Image Text Service
+ *
+ * Recognizes text in images (and optionally captions them) using the configured
+ * image text provider (an OpenAI vision model or an OpenAI-compatible server such as Ollama)
+ */
+
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import {
+  createImageTextProvider,
+  ImageText,
+  ImageTextProvider,
+  ImageTextProviderName,
+} from './imageTextProviders/index.js';
+
+/**
+ * Largest image sent to a vision model
+ */
+const MAX_IMAGE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Image text service configuration
+ */
+interface ImageTextServiceConfig {
+  provider: ImageTextProviderName;
+  apiKey?: string;
+  organization?: string;
+  project?: string;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible provider only
+  timeout: number;
+  captions: boolean; // Also generate a one-sentence caption
+}
+
+/**
+ * Image Text Service
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class ImageTextService {
+  private static instance: ImageTextService | null = null;
+  private provider: ImageTextProvider;
+  private captions: boolean;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(userConfig: ImageTextServiceConfig) {
+    this.provider = createImageTextProvider(userConfig);
+    this.captions = userConfig.captions;
+
+    if (this.provider.isAvailable()) {
+      logger.info('ImageTextService initialized', {
+        provider: this.provider.name,
+        model: this.provider.model,
+        captions: this.captions,
+      });
+    } else {
+      logger.warn('ImageTextService initialized without a usable provider. Image text will not be extracted.', {
+        provider: this.provider.name,
+        reason: this.provider.getUnavailableReason(),
+      });
+    }
+  }
+
+  /**
+   * Get or create image text service instance (singleton)
+   */
+  public static getInstance(userConfig?: ImageTextServiceConfig): ImageTextService {
+    if (!ImageTextService.instance) {
+      ImageTextService.instance = new ImageTextService(userConfig ?? getImageTextServiceConfig());
+    }
+    return ImageTextService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (ImageTextService.instance) {
+      ImageTextService.instance = null;
+    }
+  }
+
+  /**
+   * Check if the service is available (provider configured)
+   */
+  public isAvailable(): boolean {
+    return this.provider.isAvailable();
+  }
+
+  /**
+   * Get the active provider and model (for logging and diagnostics)
+   */
+  public getProviderInfo(): { provider: ImageTextProviderName; model: string; captions: boolean } {
+    return { provider: this.provider.name, model: this.provider.model, captions: this.captions };
+  }
+
+  /**
+   * Recognize the text of an image
+   * @throws Error if the provider is unavailable, the image is too large or recognition fails
+   */
+  public async recognize(data: Buffer, mimeType: string): Promise<ImageText> {
+    if (!this.provider.isAvailable()) {
+      throw new Error(this.provider.getUnavailableReason());
+    }
+
+    if (data.length > MAX_IMAGE_SIZE) {
+      throw new Error(
+        `Image of ${(data.length / 1024 / 1024).toFixed(1)}MB exceeds the 20MB image text limit`
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await this.provider.recognize({ data, mimeType, caption: this.captions });
+
+    logger.info('Image text recognized', {
+      provider: this.provider.name,
+      mimeType,
+      size: data.length,
+      textLength: result.text.length,
+      captioned: result.caption !== null,
+      durationMs: Date.now() - startTime,
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Build the image text service configuration from the environment
+ */
+function getImageTextServiceConfig(): ImageTextServiceConfig {
+  const isOpenAI = config.imageTextProvider === 'openai';
+
+  return {
+    provider: config.imageTextProvider,
+    apiKey: isOpenAI ? config.openaiApiKey : config.imageTextApiKey,
+    organization: config.openaiOrganization,
+    project: config.openaiProject,
+    model: config.imageTextModel,
+    baseUrl: config.imageTextApiUrl,
+    timeout: config.imageTextTimeout,
+    captions: config.imageCaptions,
+  };
+}
+
+/**
+ * Get the image text service instance
+ */
+export function getImageTextService(): ImageTextService {
+  return ImageTextService.getInstance();
+}
@@ -0,0 +1,856 @@
+/**
+ * KURA Notes - Import Service
+ *
+ * Imports notes from other applications:
+ * - Zips of Markdown notes (an Obsidian vault or any Markdown folder), with
+ *   YAML frontmatter as title, tags and annotation
+ * - Evernote exports (.enex), with ENML converted to Markdown and tags and
+ *   the notebook mapped onto tags
+ *
+ * Original creation and modification dates are preserved, embedded images and
+ * PDFs are stored as their own content items, and embeddings of all imported
+ * items are queued once the import is done.
+ *
+ * Archives written by the export service round-trip: attachment notes
+ * (`type: image` / `type: pdf`) are imported as the attachment with the note's metadata.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import yauzl from 'yauzl';
+import { XMLParser } from 'fast-xml-parser';
+import { FileStorageService } from './fileStorage.js';
+import { EmbeddingPipelineService } from './embeddingPipeline.js';
+import { logger } from '../utils/logger.js';
+import { parseFrontmatter, toSafeFilename, UniqueFilenames } from '../utils/markdown.js';
+import { enmlToMarkdown } from '../utils/enml.js';
+import { TAG_SEPARATOR } from '../utils/tags.js';
+import { inferMimeType, getContentTypeFromMime, validateFile } from '../utils/fileValidation.js';
+import type { ContentType } from '../models/content.js';
+
+/**
+ * Maximum number of tags kept per imported note
+ */
+const MAX_TAGS = 20;
+
+/**
+ * Extensions of files imported as notes
+ */
+const NOTE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+/**
+ * Import limits (protect against zip bombs)
+ */
+export interface ImportLimits {
+  maxEntries: number; // Maximum number of entries in the archive
+  maxEntrySize: number; // Maximum uncompressed size of a single entry in bytes
+}
+
+const DEFAULT_LIMITS: ImportLimits = {
+  maxEntries: 10000,
+  maxEntrySize: 52428800, // 50MB
+};
+
+/**
+ * Content item created (or, on a dry run, that would be created) by an import
+ */
+export interface ImportedItem {
+  path: string; // Path of the note or attachment in the archive (note title for Evernote exports)
+  id: string | null; // Created content ID (null on a dry run or failure)
+  content_type: ContentType;
+  title: string;
+  tags: string[];
+  created_at: string; // ISO 8601
+  updated_at: string; // ISO 8601
+  error?: string; // Set when the item could not be imported
+}
+
+/**
+ * Archive entry that was not imported
+ */
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+/**
+ * Import report
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  counts: {
+    notes: number;
+    images: number;
+    pdfs: number;
+    skipped: number;
+    failed: number;
+  };
+  items: ImportedItem[];
+  skipped: SkippedEntry[];
+}
+
+/**
+ * Result of an import
+ */
+export interface ImportResult {
+  success: boolean;
+  report?: ImportReport;
+  error?: string;
+}
+
+/**
+ * Archive entry with its last modification date
+ */
+interface ArchiveEntry {
+  path: string;
+  modified: Date;
+  entry: yauzl.Entry;
+}
+
+/**
+ * Note of an Evernote export as parsed from the XML
+ */
+interface EnexNote {
+  title?: string;
+  content?: string;
+  created?: string;
+  updated?: string;
+  tag?: string[];
+  'note-attributes'?: { 'source-url'?: string };
+  resource?: EnexResource[];
+}
+
+/**
+ * Resource (attached file) of an Evernote note
+ */
+interface EnexResource {
+  data?: string | { '#text'?: string };
+  mime?: string;
+  'resource-attributes'?: { 'file-name'?: string };
+}
+
+/**
+ * Image or PDF file of a planned item
+ */
+interface PlannedFile {
+  name: string;
+  mimeType: string;
+  size: number;
+  read: () => Promise<Buffer>;
+}
+
+/**
+ * Content item planned from the imported data
+ */
+interface PlannedItem {
+  path: string;
+  contentType: ContentType;
+  title: string;
+  tags: string[];
+  annotation?: string;
+  text?: string; // Body of text notes
+  file?: PlannedFile; // File of images and PDFs
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Import service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class ImportService {
+  private static instance: ImportService | null = null;
+  private fileStorage: FileStorageService;
+  private embeddingPipeline: EmbeddingPipelineService;
+  private limits: ImportLimits;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(
+    fileStorage: FileStorageService,
+    embeddingPipeline: EmbeddingPipelineService,
+    limits: Partial<ImportLimits>
+  ) {
+    this.fileStorage = fileStorage;
+    this.embeddingPipeline = embeddingPipeline;
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+    logger.debug('ImportService initialized', { limits: this.limits });
+  }
+
+  /**
+   * Get or create import service instance (singleton)
+   */
+  public static getInstance(
+    fileStorage?: FileStorageService,
+    embeddingPipeline?: EmbeddingPipelineService,
+    limits: Partial<ImportLimits> = {}
+  ): ImportService {
+    if (!ImportService.instance) {
+      if (!fileStorage || !embeddingPipeline) {
+        throw new Error('FileStorageService and EmbeddingPipelineService required for first initialization');
+      }
+      ImportService.instance = new ImportService(fileStorage, embeddingPipeline, limits);
+    }
+    return ImportService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (ImportService.instance) {
+      logger.debug('Resetting ImportService instance');
+      ImportService.instance = null;
+    }
+  }
+
+  /**
+   * Import a zip of Markdown notes and attachments
+   *
+   * @param archive - Zip file contents
+   * @param userId - Owner of the imported content
+   * @param options - `dryRun` reports what would be imported without storing anything
+   */
+  public async importZip(
+    archive: Buffer,
+    userId: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ImportResult> {
+    const dryRun = options.dryRun ?? false;
+    let zip: yauzl.ZipFile;
+
+    try {
+      zip = await openZip(archive);
+    } catch (error) {
+      logger.warn('Failed to open import archive', { userId, error });
+      return {
+        success: false,
+        error: `Invalid zip archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+
+    try {
+      let entries: ArchiveEntry[];
+      try {
+        entries = await this.listEntries(zip);
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to read zip archive',
+        };
+      }
+
+      const skipped: SkippedEntry[] = [];
+      const notes: ArchiveEntry[] = [];
+      const attachments = new Map<string, ArchiveEntry>();
+
+      for (const entry of entries) {
+        const extension = path.posix.extname(entry.path).toLowerCase();
+        const baseName = path.posix.basename(entry.path);
+
+        if (entry.path.split('/').some((segment) => segment.startsWith('.') || segment === '__MACOSX')) {
+          skipped.push({ path: entry.path, reason: 'Hidden or system file' });
+        } else if (entry.entry.uncompressedSize > this.limits.maxEntrySize) {
+          skipped.push({ path: entry.path, reason: 'File too large' });
+        } else if (NOTE_EXTENSIONS.includes(extension)) {
+          notes.push(entry);
+        } else if (isAttachment(baseName)) {
+          attachments.set(entry.path, entry);
+        } else {
+          skipped.push({ path: entry.path, reason: 'Unsupported file type' });
+        }
+      }
+
+      // Plan all items before storing anything, so dry runs report the same result
+      const planned: PlannedItem[] = [];
+      const embedded = new Set<string>();
+
+      for (const note of notes) {
+        const text = (await readEntry(zip, note.entry)).toString('utf-8');
+        const items = this.planNote(zip, note, text, attachments, embedded);
+        if (items.length === 0) {
+          skipped.push({ path: note.path, reason: 'Empty note' });
+        }
+        planned.push(...items);
+      }
+
+      for (const attachment of attachments.values()) {
+        if (!embedded.has(attachment.path)) {
+          skipped.push({ path: attachment.path, reason: 'Not embedded in any note' });
+        }
+      }
+
+      const report = await this.storeItems(planned, skipped, userId, dryRun);
+
+      return { success: true, report };
+    } finally {
+      zip.close();
+    }
+  }
+
+  /**
+   * Import an Evernote export (.enex)
+   *
+   * @param enex - Export file contents
+   * @param userId - Owner of the imported content
+   * @param options - `notebook` is added as a tag to every note (ENEX files hold one notebook);
+   *   `dryRun` reports what would be imported without storing anything
+   */
+  public async importEnex(
+    enex: Buffer,
+    userId: string,
+    options: { notebook?: string; dryRun?: boolean } = {}
+  ): Promise<ImportResult> {
+    const dryRun = options.dryRun ?? false;
+    let notes: EnexNote[];
+
+    try {
+      notes = parseEnex(enex.toString('utf-8'));
+    } catch (error) {
+      logger.warn('Failed to parse Evernote export', { userId, error });
+      return {
+        success: false,
+        error: `Invalid Evernote export: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+
+    if (notes.length > this.limits.maxEntries) {
+      return { success: false, error: `Export has more than ${this.limits.maxEntries} notes` };
+    }
+
+    const planned: PlannedItem[] = [];
+    const skipped: SkippedEntry[] = [];
+
+    for (const note of notes) {
+      this.planEnexNote(note, options.notebook ?? null, planned, skipped);
+    }
+
+    const report = await this.storeItems(planned, skipped, userId, dryRun);
+
+    return { success: true, report };
+  }
+
+  /**
+   * Store planned items and queue their embeddings (or validate them on a dry run)
+   */
+  private async storeItems(
+    planned: PlannedItem[],
+    skipped: SkippedEntry[],
+    userId: string,
+    dryRun: boolean
+  ): Promise<ImportReport> {
+    const items: ImportedItem[] = [];
+    for (const item of planned) {
+      items.push(await this.importItem(item, userId, dryRun));
+    }
+
+    // Queue embeddings of everything that was stored in one go
+    const importedIds = items.map((item) => item.id).filter((id): id is string => id !== null);
+    for (const id of importedIds) {
+      this.embeddingPipeline.queueEmbedding(id, userId);
+    }
+
+    const succeeded = items.filter((item) => !item.error);
+    const report: ImportReport = {
+      dryRun,
+      counts: {
+        notes: succeeded.filter((item) => item.content_type === 'text').length,
+        images: succeeded.filter((item) => item.content_type === 'image').length,
+        pdfs: succeeded.filter((item) => item.content_type === 'pdf').length,
+        skipped: skipped.length,
+        failed: items.length - succeeded.length,
+      },
+      items,
+      skipped,
+    };
+
+    logger.info('Import completed', { userId, dryRun, counts: report.counts });
+
+    return report;
+  }
+
+  /**
+   * Plan the content items of a Markdown note: the note itself and the
+   * attachments it embeds that were not claimed by an earlier note
+   */
+  private planNote(
+    zip: yauzl.ZipFile,
+    note: ArchiveEntry,
+    text: string,
+    attachments: Map<string, ArchiveEntry>,
+    embedded: Set<string>
+  ): PlannedItem[] {
+    const { fields, body } = parseFrontmatter(text);
+    const noteName = path.posix.basename(note.path).replace(/\.(md|markdown|txt)$/i, '');
+
+    const title = firstString(fields.title) ?? noteName;
+    const tags = toTags(fields.tags ?? fields.tag);
+    const annotation = firstString(fields.annotation) ?? firstString(fields.description) ?? undefined;
+    const createdAt =
+      parseDate(fields.created) ?? parseDate(fields.created_at) ?? parseDate(fields.date) ?? note.modified;
+    let updatedAt =
+      parseDate(fields.updated) ?? parseDate(fields.updated_at) ?? parseDate(fields.modified) ?? note.modified;
+    if (updatedAt < createdAt) {
+      updatedAt = createdAt;
+    }
+
+    const references = findEmbeds(body)
+      .map((target) => resolveAttachment(target, note.path, attachments))
+      .filter((entry): entry is ArchiveEntry => entry !== null);
+
+    // Attachment notes (as written by the export) are the attachment itself
+    const type = firstString(fields.type);
+    const [first] = references;
+    if ((type === 'image' || type === 'pdf') && first && !embedded.has(first.path)) {
+      embedded.add(first.path);
+      return [
+        {
+          path: first.path,
+          contentType: type,
+          title,
+          tags,
+          annotation,
+          file: toPlannedFile(zip, first),
+          createdAt,
+          updatedAt,
+        },
+      ];
+    }
+
+    const items: PlannedItem[] = [];
+    const content = body.trim();
+
+    if (content.length > 0) {
+      items.push({
+        path: note.path,
+        contentType: 'text',
+        title,
+        tags,
+        annotation,
+        text: content,
+        createdAt,
+        updatedAt,
+      });
+    }
+
+    for (const attachment of references) {
+      if (embedded.has(attachment.path)) {
+        continue;
+      }
+      embedded.add(attachment.path);
+
+      const file = toPlannedFile(zip, attachment);
+      items.push({
+        path: attachment.path,
+        contentType: getContentTypeFromMime(file.mimeType)!,
+        title: file.name.replace(/\.[^.]+$/, ''),
+        tags,
+        annotation: `Embedded in "${title}"`,
+        file,
+        createdAt,
+        updatedAt: createdAt,
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Plan the content items of an Evernote note: the note converted to Markdown
+   * and its image and PDF resources
+   */
+  private planEnexNote(
+    note: EnexNote,
+    notebook: string | null,
+    planned: PlannedItem[],
+    skipped: SkippedEntry[]
+  ): void {
+    const title = firstString(note.title ?? null) ?? 'Untitled';
+    const tags = toTags([...(notebook ? [notebook] : []), ...(note.tag ?? [])]);
+    const sourceUrl = firstString(note['note-attributes']?.['source-url'] ?? null);
+    const annotation = sourceUrl ? `Source: ${sourceUrl}` : undefined;
+    const createdAt = parseEnexDate(note.created) ?? new Date();
+    let updatedAt = parseEnexDate(note.updated) ?? createdAt;
+    if (updatedAt < createdAt) {
+      updatedAt = createdAt;
+    }
+
+    // Resources are referenced from the note body by the MD5 hash of their data
+    const names = new UniqueFilenames();
+    const files = new Map<string, PlannedFile>();
+
+    for (const resource of note.resource ?? []) {
+      const mimeType = (resource.mime ?? '').trim().toLowerCase();
+      const encoded = typeof resource.data === 'string' ? resource.data : resource.data?.['#text'];
+      const data = Buffer.from(encoded ?? '', 'base64');
+      const fileName = firstString(resource['resource-attributes']?.['file-name'] ?? null);
+      const extension = (fileName && path.extname(fileName)) || `.${mimeType.split('/')[1] ?? 'bin'}`;
+      const baseName = fileName ? path.basename(fileName, path.extname(fileName)) : title;
+      const name = names.reserve(toSafeFilename(baseName, 'attachment'), extension.toLowerCase());
+      const contentType = getContentTypeFromMime(mimeType);
+
+      if (contentType !== 'image' && contentType !== 'pdf') {
+        skipped.push({ path: `${title}/${name}`, reason: 'Unsupported file type' });
+      } else if (data.length > this.limits.maxEntrySize) {
+        skipped.push({ path: `${title}/${name}`, reason: 'File too large' });
+      } else {
+        const hash = crypto.createHash('md5').update(data).digest('hex');
+        files.set(hash, { name, mimeType, size: data.length, read: async () => data });
+      }
+    }
+
+    const markdown = enmlToMarkdown(note.content ?? '', (hash) => {
+      const file = files.get(hash);
+      return file ? `![[${file.name}]]` : null;
+    });
+
+    const text = markdown.replace(/!\[\[[^\]]*\]\]/g, '').trim();
+    const [only] = files.values();
+
+    // Notes that only hold a single file are the file itself
+    if (text.length === 0 && files.size === 1 && only) {
+      planned.push({
+        path: title,
+        contentType: getContentTypeFromMime(only.mimeType)!,
+        title,
+        tags,
+        annotation,
+        file: only,
+        createdAt,
+        updatedAt,
+      });
+      return;
+    }
+
+    if (text.length === 0 && files.size === 0) {
+      skipped.push({ path: title, reason: 'Empty note' });
+      return;
+    }
+
+    if (text.length > 0) {
+      planned.push({
+        path: title,
+        contentType: 'text',
+        title,
+        tags,
+        annotation,
+        text: markdown,
+        createdAt,
+        updatedAt,
+      });
+    }
+
+    for (const file of files.values()) {
+      planned.push({
+        path: `${title}/${file.name}`,
+        contentType: getContentTypeFromMime(file.mimeType)!,
+        title: file.name.replace(/\.[^.]+$/, ''),
+        tags,
+        annotation: `Attached to "${title}"`,
+        file,
+        createdAt,
+        updatedAt: createdAt,
+      });
+    }
+  }
+
+  /**
+   * Store a planned item (or validate it on a dry run)
+   */
+  private async importItem(
+    item: PlannedItem,
+    userId: string,
+    dryRun: boolean
+  ): Promise<ImportedItem> {
+    const result: ImportedItem = {
+      path: item.path,
+      id: null,
+      content_type: item.contentType,
+      title: item.title,
+      tags: item.tags,
+      created_at: item.createdAt.toISOString(),
+      updated_at: item.updatedAt.toISOString(),
+    };
+
+    const mimeType = item.file ? item.file.mimeType : 'text/plain';
+
+    if (dryRun) {
+      const size = item.file ? item.file.size : Buffer.byteLength(item.text ?? '', 'utf-8');
+      const validation = validateFile(item.contentType, mimeType, size);
+      if (!validation.valid) {
+        result.error = validation.error;
+      }
+      return result;
+    }
+
+    try {
+      const saved = await this.fileStorage.saveFile({
+        userId,
+        content: item.file ? await item.file.read() : item.text!,
+        contentType: item.contentType,
+        title: item.title,
+        annotation: item.annotation,
+        tags: item.tags,
+        originalFilename: item.file?.name,
+        mimeType,
+        source: 'import',
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+      });
+
+      if (saved.success) {
+        result.id = saved.id!;
+      } else {
+        result.error = saved.error || 'Failed to save file';
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    if (result.error) {
+      logger.warn('Failed to import item', { userId, path: item.path, error: result.error });
+    }
+
+    return result;
+  }
+
+  /**
+   * List the file entries of an archive
+   * Rejects archives with more entries than allowed
+   */
+  private listEntries(zip: yauzl.ZipFile): Promise<ArchiveEntry[]> {
+    return new Promise((resolve, reject) => {
+      const entries: ArchiveEntry[] = [];
+      let count = 0;
+
+      zip.on('entry', (entry: yauzl.Entry) => {
+        count++;
+        if (count > this.limits.maxEntries) {
+          reject(new Error(`Archive has more than ${this.limits.maxEntries} entries`));
+          return;
+        }
+
+        if (!entry.fileName.endsWith('/')) {
+          entries.push({
+            path: entry.fileName.replace(/^\.\//, ''),
+            modified: entry.getLastModDate(),
+            entry,
+          });
+        }
+        zip.readEntry();
+      });
+      zip.on('end', () => resolve(entries.sort((a, b) => a.path.localeCompare(b.path))));
+      zip.on('error', reject);
+      zip.readEntry();
+    });
+  }
+}
+
+/**
+ * Open a zip archive from memory, reading entries on demand
+ */
+function openZip(buffer: Buffer): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(buffer, { lazyEntries: true, autoClose: false }, (error, zip) => {
+      if (error || !zip) {
+        reject(error ?? new Error('Failed to open zip archive'));
+      } else {
+        resolve(zip);
+      }
+    });
+  });
+}
+
+/**
+ * Describe an archive entry as the file of a planned item
+ */
+function toPlannedFile(zip: yauzl.ZipFile, entry: ArchiveEntry): PlannedFile {
+  const name = path.posix.basename(entry.path);
+  return {
+    name,
+    mimeType: inferMimeType(name)!,
+    size: entry.entry.uncompressedSize,
+    read: () => readEntry(zip, entry.entry),
+  };
+}
+
+/**
+ * Read the uncompressed contents of an archive entry
+ */
+function readEntry(zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (error, stream) => {
+      if (error || !stream) {
+        reject(error ?? new Error(`Failed to read ${entry.fileName}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+      stream.on('error', reject);
+    });
+  });
+}
+
+/**
+ * Check whether a file is an image or PDF that can be stored as content
+ */
+function isAttachment(fileName: string): boolean {
+  const contentType = getContentTypeFromMime(inferMimeType(fileName) ?? '');
+  return contentType === 'image' || contentType === 'pdf';
+}
+
+/**
+ * Parse the notes of an Evernote export
+ * Throws when the document is not well-formed or has no `<en-export>` root
+ */
+function parseEnex(xml: string): EnexNote[] {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    isArray: (name) => name === 'note' || name === 'tag' || name === 'resource',
+  });
+
+  const document = parser.parse(xml, true) as { 'en-export'?: { note?: EnexNote[] } | string };
+  const root = document['en-export'];
+
+  if (root === undefined) {
+    throw new Error('Missing en-export root element');
+  }
+
+  return typeof root === 'string' ? [] : (root.note ?? []);
+}
+
+/**
+ * Parse an Evernote timestamp (`20240131T235959Z`)
+ */
+function parseEnexDate(value: string | undefined): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec((value ?? '').trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second] = match.map(Number) as number[];
+  return new Date(Date.UTC(year!, month! - 1, day!, hour!, minute!, second!));
+}
+
+/**
+ * Find the targets of embedded files (`![[file.png]]` and `![alt](file.png)`)
+ */
+function findEmbeds(body: string): string[] {
+  const targets: string[] = [];
+
+  for (const match of body.matchAll(/!\[\[([^\]]+)\]\]/g)) {
+    // Strip display size and heading/block references: ![[file.png|300]]
+    targets.push(match[1]!.split('|')[0]!.split('#')[0]!.trim());
+  }
+
+  for (const match of body.matchAll(/!\[[^\]]*\]\(\s*<?([^)>]+?)>?(?:\s+"[^"]*")?\s*\)/g)) {
+    const target = match[1]!.trim();
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+      continue; // Remote URL
+    }
+    try {
+      targets.push(decodeURIComponent(target));
+    } catch {
+      targets.push(target);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Resolve an embed target to an attachment in the archive
+ * Tries the path relative to the note, then from the archive root, then a unique file name match
+ * (Obsidian's shortest-path links)
+ */
+function resolveAttachment(
+  target: string,
+  notePath: string,
+  attachments: Map<string, ArchiveEntry>
+): ArchiveEntry | null {
+  if (!target) {
+    return null;
+  }
+
+  const candidates = [
+    path.posix.normalize(path.posix.join(path.posix.dirname(notePath), target)),
+    path.posix.normalize(target.replace(/^\/+/, '')),
+  ];
+  for (const candidate of candidates) {
+    const entry = attachments.get(candidate);
+    if (entry) {
+      return entry;
+    }
+  }
+
+  const name = path.posix.basename(target).toLowerCase();
+  const matches = [...attachments.values()].filter(
+    (entry) => path.posix.basename(entry.path).toLowerCase() === name
+  );
+
+  return matches.length === 1 ? matches[0]! : null;
+}
+
+/**
+ * Get the first string of a frontmatter value
+ */
+function firstString(value: string | string[] | null | undefined): string | null {
+  const text = Array.isArray(value) ? value[0] : value;
+  return text && text.trim().length > 0 ? text.trim() : null;
+}
+
+/**
+ * Parse a frontmatter date (date only or ISO 8601 datetime)
+ */
+function parseDate(value: string | string[] | null | undefined): Date | null {
+  const text = firstString(value);
+  if (!text) {
+    return null;
+  }
+
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Convert frontmatter tags to KURA tags
+ * Accepts lists and comma- or space-separated strings; characters KURA tags
+ * cannot contain become dashes (nested Obsidian tags like `projects/kura` are kept)
+ */
+function toTags(value: string | string[] | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  const raw = Array.isArray(value) ? value : value.split(/[,\s]+/);
+  const tags = raw
+    .map((tag) =>
+      tag
+        .trim()
+        .replace(/^#/, '')
+        .replace(/[^a-zA-Z0-9_/-]+/g, '-')
+        .split(TAG_SEPARATOR)
+        .map((level) => level.replace(/^-+|-+$/g, ''))
+        .filter((level) => level.length > 0)
+        .join(TAG_SEPARATOR)
+    )
+    .filter((tag) => tag.length > 0);
+
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
+
+/**
+ * Get import service instance
+ */
+export const getImportService = (
+  fileStorage?: FileStorageService,
+  embeddingPipeline?: EmbeddingPipelineService,
+  limits?: Partial<ImportLimits>
+): ImportService => {
+  return ImportService.getInstance(fileStorage, embeddingPipeline, limits);
+};
@@ -0,0 +1,255 @@
+/**
+ * KURA Notes - Notebook Service
+ *
+ * Manages notebooks (hierarchical collections of content):
+ * - Creating, renaming, moving and deleting notebooks
+ * - Building the notebook tree with content counts
+ * - Resolving a notebook to the IDs of its subtree for filtering
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './database/database.service.js';
+import { logger } from '../utils/logger.js';
+import type { Notebook, NotebookTreeNode } from '../models/content.js';
+
+/**
+ * Maximum length of a notebook name
+ */
+export const MAX_NOTEBOOK_NAME_LENGTH = 100;
+
+/**
+ * Result of creating or updating a notebook
+ */
+export interface NotebookResult {
+  success: boolean;
+  notebook?: Notebook;
+  error?: string;
+}
+
+/**
+ * Notebook service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class NotebookService {
+  private static instance: NotebookService | null = null;
+  private db: DatabaseService;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(db: DatabaseService) {
+    this.db = db;
+    logger.debug('NotebookService initialized');
+  }
+
+  /**
+   * Get or create notebook service instance (singleton)
+   */
+  public static getInstance(db?: DatabaseService): NotebookService {
+    if (!NotebookService.instance) {
+      if (!db) {
+        throw new Error('DatabaseService required for first initialization');
+      }
+      NotebookService.instance = new NotebookService(db);
+    }
+    return NotebookService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (NotebookService.instance) {
+      logger.debug('Resetting NotebookService instance');
+      NotebookService.instance = null;
+    }
+  }
+
+  /**
+   * Get a notebook owned by a user
+   */
+  public getNotebook(id: string, userId: string | null): Notebook | null {
+    return this.db.getNotebookById(id, userId);
+  }
+
+  /**
+   * Get the notebooks of a user as a tree, with the number of items in each notebook
+   */
+  public getTree(userId: string | null): NotebookTreeNode[] {
+    const counts = this.db.getNotebookContentCounts(userId);
+    const nodes = new Map<string, NotebookTreeNode>(
+      this.db
+        .getNotebooks(userId)
+        .map((notebook) => [notebook.id, { ...notebook, content_count: counts[notebook.id] ?? 0, children: [] }])
+    );
+
+    const roots: NotebookTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+
+    return roots;
+  }
+
+  /**
+   * Get the subtree of a single notebook
+   */
+  public getSubtree(id: string, userId: string | null): NotebookTreeNode | null {
+    const find = (nodes: NotebookTreeNode[]): NotebookTreeNode | null => {
+      for (const node of nodes) {
+        const found = node.id === id ? node : find(node.children);
+        if (found) {
+          return found;
+        }
+      }
+      return null;
+    };
+
+    return find(this.getTree(userId));
+  }
+
+  /**
+   * Get the path from the top level down to a notebook (for breadcrumbs)
+   */
+  public getPath(id: string, userId: string | null): Notebook[] {
+    const path: Notebook[] = [];
+    let notebook = this.db.getNotebookById(id, userId);
+
+    while (notebook && !path.some((item) => item.id === notebook!.id)) {
+      path.unshift(notebook);
+      notebook = notebook.parent_id ? this.db.getNotebookById(notebook.parent_id, userId) : null;
+    }
+
+    return path;
+  }
+
+  /**
+   * Resolve a notebook filter to notebook IDs
+   * @param id - Notebook ID
+   * @param userId - Owner of the notebook
+   * @param includeNested - Include the notebooks nested in it
+   * @returns Notebook IDs, or null if the notebook does not exist
+   */
+  public resolveNotebookIds(id: string, userId: string | null, includeNested = true): string[] | null {
+    if (!this.db.getNotebookById(id, userId)) {
+      return null;
+    }
+    return includeNested ? this.db.getNotebookSubtreeIds(id) : [id];
+  }
+
+  /**
+   * Create a notebook
+   * @param userId - Owner
+   * @param name - Notebook name (unique among its siblings)
+   * @param parentId - Parent notebook (null for a top-level notebook)
+   */
+  public createNotebook(userId: string | null, name: string, parentId: string | null = null): NotebookResult {
+    const error = this.validateName(userId, name, parentId) ?? this.validateParent(userId, parentId);
+    if (error) {
+      return { success: false, error };
+    }
+
+    const notebook = this.db.createNotebook({
+      id: uuidv4(),
+      user_id: userId,
+      parent_id: parentId,
+      name: name.trim(),
+    });
+
+    return { success: true, notebook };
+  }
+
+  /**
+   * Rename a notebook and/or move it to another parent
+   * @param input - New name and/or parent (null = top level)
+   */
+  public updateNotebook(
+    id: string,
+    userId: string | null,
+    input: { name?: string; parentId?: string | null }
+  ): NotebookResult {
+    const existing = this.db.getNotebookById(id, userId);
+    if (!existing) {
+      return { success: false, error: 'Notebook not found' };
+    }
+
+    const parentId = input.parentId !== undefined ? input.parentId : existing.parent_id;
+
+    if (input.parentId !== undefined && input.parentId !== null) {
+      if (this.db.getNotebookSubtreeIds(id).includes(input.parentId)) {
+        return { success: false, error: 'A notebook cannot be moved into itself or one of its nested notebooks' };
+      }
+      const parentError = this.validateParent(userId, input.parentId);
+      if (parentError) {
+        return { success: false, error: parentError };
+      }
+    }
+
+    const nameError = this.validateName(userId, input.name ?? existing.name, parentId, id);
+    if (nameError) {
+      return { success: false, error: nameError };
+    }
+
+    const notebook = this.db.updateNotebook(id, userId, {
+      name: input.name?.trim(),
+      parent_id: input.parentId,
+    });
+
+    logger.info('Notebook updated', { id, userId, name: input.name, parentId: input.parentId });
+    return notebook ? { success: true, notebook } : { success: false, error: 'Notebook not found' };
+  }
+
+  /**
+   * Delete a notebook
+   * Its content and nested notebooks move up to its parent
+   */
+  public deleteNotebook(id: string, userId: string | null): boolean {
+    return this.db.deleteNotebook(id, userId);
+  }
+
+  /**
+   * Check a notebook name, returning an error message if it is invalid
+   */
+  private validateName(userId: string | null, name: string, parentId: string | null, id?: string): string | null {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+
+    if (trimmed.length === 0) {
+      return 'Notebook name is required';
+    }
+    if (trimmed.length > MAX_NOTEBOOK_NAME_LENGTH) {
+      return `Notebook name cannot exceed ${MAX_NOTEBOOK_NAME_LENGTH} characters`;
+    }
+
+    const sibling = this.db
+      .getNotebooks(userId)
+      .find(
+        (notebook) =>
+          notebook.id !== id &&
+          notebook.parent_id === parentId &&
+          notebook.name.toLowerCase() === trimmed.toLowerCase()
+      );
+    if (sibling) {
+      return `A notebook named "${sibling.name}" already exists here`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that a parent notebook exists and belongs to the user
+   */
+  private validateParent(userId: string | null, parentId: string | null): string | null {
+    if (parentId !== null && !this.db.getNotebookById(parentId, userId)) {
+      return 'Parent notebook not found';
+    }
+    return null;
+  }
+}
+
+/**
+ * Export singleton instance getter
+ */
+export const getNotebookService = (db?: DatabaseService): NotebookService => {
+  return NotebookService.getInstance(db);
+};
@@ -1,19 +1,28 @@
 /**
  * KURA Notes - PDF Service
  *
- * Handles PDF metadata extraction using pdf-parse
+ * Handles PDF metadata, per-page text extraction and first page rendering using pdf-parse
  */
 
 import { logger } from '../utils/logger.js';
-import type { PdfMetadata } from '../models/content.js';
+import type { PdfMetadata, PdfPage } from '../models/content.js';
 import { createRequire } from 'module';
 
 // Import pdf-parse using createRequire for ESM compatibility
 const require = createRequire(import.meta.url);
-const PDFParse = require('pdf-parse');
+const { PDFParse } = require('pdf-parse');
 
 /**
- * PDF Service for metadata extraction
+ * Result of full PDF content extraction
+ */
+export interface PdfContentResult {
+  metadata: PdfMetadata;
+  pages: PdfPage[]; // Per-page text (empty if text could not be extracted)
+  text: string; // All page texts joined, used as extracted_text
+}
+
+/**
+ * PDF Service for metadata and text extraction
  * Singleton pattern
  */
 export class PdfService {
@@ -40,39 +49,111 @@ export class PdfService {
    * @returns PDF metadata
    */
   public async extractMetadata(buffer: Buffer, filename: string): Promise<PdfMetadata> {
+    const { metadata } = await this.extractContent(buffer, filename);
+    return metadata;
+  }
+
+  /**
+   * Extract metadata and per-page text from PDF buffer
+   * Never throws - falls back to basic metadata without pages if parsing fails
+   * @param buffer PDF file buffer
+   * @param filename Original filename
+   * @returns PDF metadata, page texts and the joined document text
+   */
+  public async extractContent(buffer: Buffer, filename: string): Promise<PdfContentResult> {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+
     try {
-      logger.debug('Extracting PDF metadata', { filename, size: buffer.length });
+      logger.debug('Extracting PDF content', { filename, size: buffer.length });
+
+      const textResult = await parser.getText();
 
-      // Parse PDF to get page count
-      const pdfData = await PDFParse(buffer);
+      const pages: PdfPage[] = (textResult.pages as Array<{ num: number; text: string }>)
+        .map((page) => ({
+          page_number: page.num,
+          text: this.normalizePageText(page.text),
+        }))
+        .filter((page) => page.text.length > 0);
 
       const metadata: PdfMetadata = {
         filename,
         size: buffer.length,
-        pageCount: pdfData.numpages,
+        pageCount: textResult.total,
       };
 
-      logger.info('PDF metadata extracted successfully', {
+      const text = pages.map((page) => page.text).join('\n\n');
+
+      logger.info('PDF content extracted successfully', {
         filename,
         size: metadata.size,
         pageCount: metadata.pageCount,
+        pagesWithText: pages.length,
+        textLength: text.length,
       });
 
-      return metadata;
+      return { metadata, pages, text };
     } catch (error) {
-      logger.warn('Failed to extract PDF metadata, using basic info', {
+      logger.warn('Failed to extract PDF content, using basic info', {
         filename,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
 
-      // If pdf-parse fails, return basic metadata without page count
+      // If pdf-parse fails, return basic metadata without page count or text
       return {
-        filename,
-        size: buffer.length,
+        metadata: {
+          filename,
+          size: buffer.length,
+        },
+        pages: [],
+        text: '',
       };
+    } finally {
+      await parser.destroy().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Render the first page of a PDF to a PNG image (used for preview thumbnails)
+   * Never throws - returns null if the page cannot be rendered
+   * @param buffer PDF file buffer
+   * @param width Width of the rendered page in pixels
+   * @returns PNG image buffer, or null
+   */
+  public async renderFirstPage(buffer: Buffer, width: number): Promise<Buffer | null> {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+
+    try {
+      const result = await parser.getScreenshot({ partial: [1], desiredWidth: width, imageDataUrl: false });
+      const page = (result.pages as Array<{ data: Uint8Array }>)[0];
+
+      if (!page || page.data.length === 0) {
+        logger.warn('PDF has no page to render');
+        return null;
+      }
+
+      return Buffer.from(page.data);
+    } catch (error) {
+      logger.warn('Failed to render first PDF page', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    } finally {
+      await parser.destroy().catch(() => undefined);
     }
   }
 
+  /**
+   * Normalize extracted page text
+   * Collapses runs of blank lines and trailing whitespace left by the text layer
+   */
+  private normalizePageText(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
   /**
    * Check if a buffer appears to be a valid PDF
    * @param buffer File buffer
@@ -0,0 +1,242 @@
+/**
+ * KURA Notes - Reminder Service
+ *
+ * Manages reminders and due dates of content:
+ * - Listing overdue and upcoming items
+ * - Marking reminders as fired once their time has come (scheduled)
+ * - Per-user calendar feeds (iCalendar) of items with a due date
+ */
+
+import crypto from 'crypto';
+import { DatabaseService } from './database/database.service.js';
+import type { Content } from '../models/content.js';
+import { buildIcsCalendar } from '../utils/ics.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * How often due reminders are checked
+ */
+const REMINDER_INTERVAL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Number of reminders fired per database query
+ */
+const FIRE_BATCH_SIZE = 100;
+
+/**
+ * How far back the calendar feed shows past due dates
+ * Older items are left out, so they never crowd upcoming ones out of the feed
+ */
+const FEED_PAST_DAYS = 90;
+
+/**
+ * Overdue and upcoming items of a user
+ */
+export interface ReminderList {
+  overdue: Content[]; // Due date (or reminder, without a due date) has passed
+  upcoming: Content[]; // Reminder or due date within the requested range
+}
+
+/**
+ * Reminder service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class ReminderService {
+  private static instance: ReminderService | null = null;
+  private db: DatabaseService;
+  private reminderTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(db: DatabaseService) {
+    this.db = db;
+    logger.debug('ReminderService initialized');
+  }
+
+  /**
+   * Get or create reminder service instance (singleton)
+   */
+  public static getInstance(db?: DatabaseService): ReminderService {
+    if (!ReminderService.instance) {
+      if (!db) {
+        throw new Error('DatabaseService required for first initialization');
+      }
+      ReminderService.instance = new ReminderService(db);
+    }
+    return ReminderService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (ReminderService.instance) {
+      logger.debug('Resetting ReminderService instance');
+      ReminderService.instance.stopSchedule();
+      ReminderService.instance = null;
+    }
+  }
+
+  /**
+   * List overdue items and items with a reminder or due date in the next days
+   * An item is overdue once its due date has passed, or its reminder if it has no due date
+   * @param days - Days ahead to include upcoming items for
+   */
+  public list(userId: string | null, days = 7, limit = 100, now = new Date()): ReminderList {
+    const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+    const nowIso = now.toISOString();
+    const items = this.db.getReminderContent(userId, until, limit);
+
+    const overdue: Content[] = [];
+    const upcoming: Content[] = [];
+    for (const item of items) {
+      const deadline = item.due_at ?? item.remind_at;
+      if (deadline && deadline <= nowIso) {
+        overdue.push(item);
+      } else {
+        upcoming.push(item);
+      }
+    }
+
+    return { overdue, upcoming };
+  }
+
+  /**
+   * Mark every reminder whose time has come as fired
+   * @returns Number of fired reminders
+   */
+  public fireDueReminders(now = new Date()): number {
+    const nowIso = now.toISOString();
+    let fired = 0;
+
+    while (true) {
+      const batch = this.db.getPendingReminders(nowIso, FIRE_BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const content of batch) {
+        this.db.markReminderFired(content.id, nowIso);
+        logger.info('Reminder fired', {
+          id: content.id,
+          userId: content.user_id,
+          title: content.title,
+          remindAt: content.remind_at,
+          dueAt: content.due_at,
+        });
+      }
+
+      fired += batch.length;
+    }
+
+    return fired;
+  }
+
+  /**
+   * Fire due reminders now and then periodically (every minute by default)
+   */
+  public startSchedule(intervalMs = REMINDER_INTERVAL_MS): void {
+    if (this.reminderTimer) {
+      return;
+    }
+
+    const runCheck = () => {
+      try {
+        this.fireDueReminders();
+      } catch (error) {
+        logger.error('Scheduled reminder check failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    };
+
+    runCheck();
+    this.reminderTimer = setInterval(runCheck, intervalMs);
+    // Don't keep the process alive just for reminders
+    this.reminderTimer.unref();
+
+    logger.info('Reminder check scheduled', { intervalSeconds: Math.round(intervalMs / 1000) });
+  }
+
+  /**
+   * Stop the scheduled reminder check
+   */
+  public stopSchedule(): void {
+    if (this.reminderTimer) {
+      clearInterval(this.reminderTimer);
+      this.reminderTimer = null;
+    }
+  }
+
+  /**
+   * Create the calendar feed of a user, replacing the previous one (its URL stops working)
+   * @returns Secret feed token (only its hash is stored, so it cannot be shown again)
+   */
+  public createFeedToken(userId: string): string {
+    const token = crypto.randomBytes(24).toString('base64url');
+    this.db.setCalendarFeedToken(userId, hashToken(token));
+    logger.info('Calendar feed token created', { userId });
+    return token;
+  }
+
+  /**
+   * Get the creation time of a user's calendar feed
+   * @returns null if the user has no feed
+   */
+  public getFeedStatus(userId: string): { created_at: string } | null {
+    return this.db.getCalendarFeed(userId);
+  }
+
+  /**
+   * Revoke the calendar feed of a user
+   * @returns true if revoked, false if the user had no feed
+   */
+  public revokeFeed(userId: string): boolean {
+    const revoked = this.db.deleteCalendarFeed(userId);
+    if (revoked) {
+      logger.info('Calendar feed revoked', { userId });
+    }
+    return revoked;
+  }
+
+  /**
+   * Build the calendar feed of the user owning a token
+   * Covers items due within the last FEED_PAST_DAYS days and all upcoming ones
+   * @param baseUrl - Address of the web interface, for links to the items
+   * @returns iCalendar document, null if the token is unknown
+   */
+  public buildFeed(token: string, baseUrl: string, now = new Date()): string | null {
+    const userId = this.db.getCalendarFeedUser(hashToken(token));
+    if (!userId) {
+      return null;
+    }
+
+    const since = new Date(now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const events = this.db.getContentWithDueDate(userId, since).map((content) => ({
+      uid: `${content.id}@kura-notes`,
+      start: content.due_at!,
+      summary: content.title || 'Untitled',
+      description: content.annotation ?? undefined,
+      url: `${baseUrl}/view.html?id=${content.id}`,
+      alarm: content.remind_at ?? undefined,
+      updated: content.updated_at,
+    }));
+
+    return buildIcsCalendar('KURA Notes', events);
+  }
+}
+
+/**
+ * Hash a calendar feed token (SHA-256, hex)
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Export singleton instance getter
+ */
+export const getReminderService = (db?: DatabaseService): ReminderService => {
+  return ReminderService.getInstance(db);
+};
@@ -3,13 +3,27 @@
  *
  * Provides unified search functionality combining vector search and FTS
  * Handles search ranking, score normalization, and result deduplication
+ * Vector hits are per chunk and are grouped back into one result per document
  */
 
 import { DatabaseService } from './database/database.service.js';
 import { EmbeddingService } from './embeddingService.js';
-import { VectorStoreService } from './vectorStore.js';
+import type { VectorStore, QueryResult } from './vectorStore.js';
 import { logger } from '../utils/logger.js';
-import type { Content, ContentType, SearchFilters } from '../models/content.js';
+import { isTagInNamespace } from '../utils/tags.js';
+import type { Content, ContentType, ImageMetadata, SearchFilters } from '../models/content.js';
+
+/**
+ * How many chunk vectors to fetch per requested result
+ * Several chunks of the same document may rank highly, so over-fetch before grouping
+ */
+const CHUNK_OVERFETCH_FACTOR = 4;
+
+/**
+ * How much to grow a fetch when filters leave fewer results than requested
+ * Filters are applied before the limit, so matches ranking below it must still be found
+ */
+const FILTER_FETCH_GROWTH = 4;
 
 /**
  * Search result with normalized score
@@ -21,6 +35,7 @@ export interface SearchResult {
   contentType: ContentType;
   relevanceScore: number; // Normalized to 0-1
   searchMethod: 'vector' | 'fts' | 'combined';
+  matchedPages?: number[]; // PDF pages containing query terms (best match first)
   metadata: {
     tags: string[];
     createdAt: string;
@@ -29,6 +44,8 @@ export interface SearchResult {
     annotation: string | null;
     imageMetadata?: any;
     pdfMetadata?: any;
+    audioMetadata?: any;
+    notebookId: string | null;
   };
 }
 
@@ -51,12 +68,12 @@ export interface SearchOptions {
 export class SearchService {
   private db: DatabaseService;
   private embeddingService: EmbeddingService;
-  private vectorStore: VectorStoreService;
+  private vectorStore: VectorStore;
 
   constructor(
     db: DatabaseService,
     embeddingService: EmbeddingService,
-    vectorStore: VectorStoreService
+    vectorStore: VectorStore
   ) {
     this.db = db;
     this.embeddingService = embeddingService;
@@ -67,13 +84,31 @@ export class SearchService {
   /**
    * Perform full-text search using SQLite FTS5
    * Returns results with snippets
+   * @param filters - Optional filters, applied before the limit
    */
-  public async performFTSSearch(query: string, userId: string | null = null, limit = 10): Promise<SearchResult[]> {
-    logger.debug('Performing FTS search', { query, userId, limit });
+  public async performFTSSearch(
+    query: string,
+    userId: string | null = null,
+    limit = 10,
+    filters?: SearchFilters
+  ): Promise<SearchResult[]> {
+    logger.debug('Performing FTS search', { query, userId, limit, filters });
 
     try {
-      // Search using the database service
-      const results = this.db.searchContent(query, userId, limit);
+      let fetchLimit = limit;
+      let results: Content[];
+
+      for (;;) {
+        // Search using the database service
+        const candidates = this.db.searchContent(query, userId, fetchLimit);
+        results = filters ? candidates.filter((content) => this.matchesFilters(content, filters)) : candidates;
+
+        // Stop once enough results match the filters or there are no more matches
+        if (!filters || results.length >= limit || candidates.length < fetchLimit) {
+          break;
+        }
+        fetchLimit *= FILTER_FETCH_GROWTH;
+      }
 
       logger.info('FTS search completed', {
         query,
@@ -81,7 +116,7 @@ export class SearchService {
       });
 
       // Convert to SearchResult format with snippets
-      return results.map((content) => this.contentToSearchResult(content, 'fts', 1.0));
+      return results.slice(0, limit).map((content) => this.contentToSearchResult(content, 'fts', 1.0, query));
     } catch (error) {
       logger.error('FTS search failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -92,10 +127,16 @@ export class SearchService {
   }
 
   /**
-   * Perform vector search using ChromaDB
+   * Perform vector search using the configured vector store
+   * @param filters - Optional filters, applied before the limit
    */
-  public async performVectorSearch(query: string, userId: string | null = null, limit = 10): Promise<SearchResult[]> {
-    logger.debug('Performing vector search', { query, userId, limit });
+  public async performVectorSearch(
+    query: string,
+    userId: string | null = null,
+    limit = 10,
+    filters?: SearchFilters
+  ): Promise<SearchResult[]> {
+    logger.debug('Performing vector search', { query, userId, limit, filters });
 
     try {
       // Check if embedding service is available
@@ -106,39 +147,35 @@ export class SearchService {
       // Generate embedding for query
       const embeddingResult = await this.embeddingService.generateEmbedding(query);
 
-      // Search vector store with user filter
-      const vectorResults = await this.vectorStore.queryByEmbedding(
-        embeddingResult.embedding,
-        limit,
-        userId
-      );
+      let fetchLimit = limit * CHUNK_OVERFETCH_FACTOR;
+      let vectorResults: QueryResult[];
+      let matches: Array<{ chunk: QueryResult; content: Content }>;
+
+      for (;;) {
+        // Search vector store with user filter (chunk-level hits)
+        vectorResults = await this.vectorStore.queryByEmbedding(embeddingResult.embedding, fetchLimit, userId);
+
+        // Keep the best-matching chunk per document
+        matches = this.loadMatchingContent(this.aggregateChunkHits(vectorResults), userId, limit, filters);
+
+        // Stop once enough results match the filters or the store has no more vectors
+        if (!filters || matches.length >= limit || vectorResults.length < fetchLimit) {
+          break;
+        }
+        fetchLimit *= FILTER_FETCH_GROWTH;
+      }
 
       logger.info('Vector search completed', {
         query,
         userId,
-        resultsFound: vectorResults.length,
+        chunksFound: vectorResults.length,
+        resultsFound: matches.length,
       });
 
       // Convert to SearchResult format
-      const searchResults: SearchResult[] = [];
-
-      for (const vectorResult of vectorResults) {
-        const content = this.db.getContentById(vectorResult.id, userId || undefined);
-
-        if (!content) {
-          logger.warn('Content found in vector store but not in database', {
-            id: vectorResult.id,
-            userId,
-          });
-          continue;
-        }
-
-        searchResults.push(
-          this.contentToSearchResult(content, 'vector', vectorResult.score)
-        );
-      }
-
-      return searchResults;
+      return matches.map(({ chunk, content }) =>
+        this.contentToSearchResult(content, 'vector', chunk.score, query, this.chunkExcerpt(chunk.text, query))
+      );
     } catch (error) {
       logger.error('Vector search failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -149,80 +186,207 @@ export class SearchService {
   }
 
   /**
-   * Apply filters to search results
-   * Filters by content type, tags, and date range
+   * Load the content of the best chunk hits, skipping content that doesn't match the filters
+   * @returns Up to `limit` hits with their content, in the order of the hits
    */
-  private applyFilters(results: SearchResult[], filters: SearchFilters): SearchResult[] {
-    if (!filters || Object.keys(filters).length === 0) {
-      return results;
+  private loadMatchingContent(
+    bestChunks: QueryResult[],
+    userId: string | null,
+    limit: number,
+    filters?: SearchFilters
+  ): Array<{ chunk: QueryResult; content: Content }> {
+    const matches: Array<{ chunk: QueryResult; content: Content }> = [];
+
+    for (const chunk of bestChunks) {
+      if (matches.length >= limit) {
+        break;
+      }
+
+      const content = this.db.getContentById(chunk.contentId, userId || undefined);
+
+      if (!content) {
+        logger.warn('Content found in vector store but not in database', {
+          id: chunk.contentId,
+          userId,
+        });
+        continue;
+      }
+
+      if (filters && !this.matchesFilters(content, filters)) {
+        continue;
+      }
+
+      matches.push({ chunk, content });
     }
 
-    logger.debug('Applying filters to search results', {
-      resultsCount: results.length,
-      filters,
-    });
+    return matches;
+  }
 
-    let filteredResults = results;
+  /**
+   * Find content similar to a content item, using its stored embedding instead of a text query
+   * Chunked content is compared through the mean of its chunk vectors
+   * @param contentId - Content to find related content for (excluded from the results)
+   * @param userId - Only return content of this user
+   * @param limit - Maximum number of results
+   * @returns Related content (best match first), or null if the item has no stored vectors yet
+   */
+  public async findRelated(
+    contentId: string,
+    userId: string | null = null,
+    limit = 10
+  ): Promise<SearchResult[] | null> {
+    logger.debug('Finding related content', { contentId, userId, limit });
+
+    const vectors = await this.vectorStore.getContentVectors(contentId);
+    if (vectors.length === 0) {
+      return null;
+    }
 
-    // Filter by content type
-    if (filters.contentTypes && filters.contentTypes.length > 0) {
-      filteredResults = filteredResults.filter((result) =>
-        filters.contentTypes!.includes(result.contentType)
+    const embedding = vectors[0]!.embedding.map(
+      (_, i) => vectors.reduce((sum, vector) => sum + (vector.embedding[i] ?? 0), 0) / vectors.length
+    );
+
+    // The item's own chunks rank highest, so fetch enough to skip them
+    const vectorResults = await this.vectorStore.queryByEmbedding(
+      embedding,
+      limit * CHUNK_OVERFETCH_FACTOR + vectors.length,
+      userId
+    );
+
+    const results: SearchResult[] = [];
+
+    for (const vectorResult of this.aggregateChunkHits(vectorResults)) {
+      if (results.length >= limit) {
+        break;
+      }
+      if (vectorResult.contentId === contentId) {
+        continue;
+      }
+
+      // Skips content in the trash and vectors left behind by deleted content
+      const content = this.db.getContentById(vectorResult.contentId, userId || undefined);
+      if (!content) {
+        continue;
+      }
+
+      results.push(
+        this.contentToSearchResult(content, 'vector', vectorResult.score, '', this.truncateText(vectorResult.text, 200))
       );
+    }
 
-      logger.debug('Applied contentType filter', {
-        contentTypes: filters.contentTypes,
-        remainingResults: filteredResults.length,
-      });
+    logger.info('Related content found', { contentId, userId, resultsFound: results.length });
+
+    return results;
+  }
+
+  /**
+   * Group chunk hits by content ID, keeping the highest-scoring chunk of each document
+   * Results are ordered by best chunk score
+   */
+  private aggregateChunkHits(results: QueryResult[]): QueryResult[] {
+    const bestByContent = new Map<string, QueryResult>();
+
+    for (const result of results) {
+      const existing = bestByContent.get(result.contentId);
+      if (!existing || result.score > existing.score) {
+        bestByContent.set(result.contentId, result);
+      }
     }
 
-    // Filter by tags (result must have ALL specified tags)
-    if (filters.tags && filters.tags.length > 0) {
-      filteredResults = filteredResults.filter((result) => {
-        const resultTags = result.metadata.tags;
-        return filters.tags!.every((tag) => resultTags.includes(tag));
-      });
+    return Array.from(bestByContent.values()).sort((a, b) => b.score - a.score);
+  }
 
-      logger.debug('Applied tags filter', {
-        tags: filters.tags,
-        remainingResults: filteredResults.length,
-      });
+  /**
+   * Build an excerpt from the best-matching chunk
+   */
+  private chunkExcerpt(chunkText: string, query: string, maxLength = 200): string {
+    return (
+      this.extractSnippetAroundTerms(chunkText, this.extractQueryTerms(query), maxLength) ??
+      this.truncateText(chunkText, maxLength)
+    );
+  }
+
+  /**
+   * Check content against the search filters
+   * Filters by content type, tags, date range, notebook and image EXIF data
+   */
+  private matchesFilters(content: Content, filters: SearchFilters): boolean {
+    // Filter by content type
+    if (filters.contentTypes && filters.contentTypes.length > 0 && !filters.contentTypes.includes(content.content_type)) {
+      return false;
+    }
+
+    // Filter by tags (content must have any of the tags or a tag nested in them, like the database filters)
+    if (
+      filters.tags &&
+      filters.tags.length > 0 &&
+      !content.tags.some((contentTag) => filters.tags!.some((tag) => isTagInNamespace(contentTag, tag)))
+    ) {
+      return false;
     }
 
     // Filter by date range (created_at)
-    if (filters.dateFrom) {
-      const dateFrom = new Date(filters.dateFrom);
-      filteredResults = filteredResults.filter((result) => {
-        const createdAt = new Date(result.metadata.createdAt);
-        return createdAt >= dateFrom;
-      });
+    const createdAt = new Date(content.created_at);
+    if (filters.dateFrom && createdAt < new Date(filters.dateFrom)) {
+      return false;
+    }
+    if (filters.dateTo && createdAt > new Date(filters.dateTo)) {
+      return false;
+    }
 
-      logger.debug('Applied dateFrom filter', {
-        dateFrom: filters.dateFrom,
-        remainingResults: filteredResults.length,
-      });
+    // Filter by notebook (content must be in one of the notebooks)
+    if (filters.notebookIds && (content.notebook_id === null || !filters.notebookIds.includes(content.notebook_id))) {
+      return false;
     }
 
-    if (filters.dateTo) {
-      const dateTo = new Date(filters.dateTo);
-      filteredResults = filteredResults.filter((result) => {
-        const createdAt = new Date(result.metadata.createdAt);
-        return createdAt <= dateTo;
-      });
+    // Filter by EXIF data of images (other content types never match)
+    if (
+      (filters.takenFrom !== undefined ||
+        filters.takenTo !== undefined ||
+        filters.camera !== undefined ||
+        filters.hasLocation !== undefined) &&
+      !this.matchesImageFilters(content, filters)
+    ) {
+      return false;
+    }
 
-      logger.debug('Applied dateTo filter', {
-        dateTo: filters.dateTo,
-        remainingResults: filteredResults.length,
-      });
+    return true;
+  }
+
+  /**
+   * Check content against the EXIF filters (capture date, camera, GPS position)
+   */
+  private matchesImageFilters(content: Content, filters: SearchFilters): boolean {
+    const image: ImageMetadata | null | undefined = content.image_metadata;
+    if (content.content_type !== 'image' || !image) {
+      return false;
     }
 
-    logger.info('Filters applied', {
-      originalCount: results.length,
-      filteredCount: filteredResults.length,
-      filters,
-    });
+    if (filters.takenFrom || filters.takenTo) {
+      if (!image.takenAt) {
+        return false;
+      }
+      const takenAt = new Date(image.takenAt);
+      if (filters.takenFrom && takenAt < new Date(filters.takenFrom)) {
+        return false;
+      }
+      if (filters.takenTo && takenAt > new Date(filters.takenTo)) {
+        return false;
+      }
+    }
 
-    return filteredResults;
+    if (filters.camera) {
+      const camera = `${image.cameraMake ?? ''} ${image.cameraModel ?? ''}`.toLowerCase();
+      if (!camera.includes(filters.camera.toLowerCase())) {
+        return false;
+      }
+    }
+
+    if (filters.hasLocation !== undefined && !!image.location !== filters.hasLocation) {
+      return false;
+    }
+
+    return true;
   }
 
   /**
@@ -234,9 +398,10 @@ export class SearchService {
     searchMethod: 'vector' | 'fts' | 'combined';
     totalResults: number;
   }> {
-    const { query, userId = null, limit = 10, useFallback = true, combineResults = false, filters } = options;
+    const { query, userId = null, limit = 10, useFallback = true, combineResults = false } = options;
+    const filters = options.filters && Object.keys(options.filters).length > 0 ? options.filters : undefined;
 
-    logger.debug('Unified search starting', { query, userId, limit, useFallback, combineResults });
+    logger.debug('Unified search starting', { query, userId, limit, useFallback, combineResults, filters });
 
     let vectorResults: SearchResult[] = [];
     let ftsResults: SearchResult[] = [];
@@ -244,7 +409,7 @@ export class SearchService {
 
     // Try vector search first
     try {
-      vectorResults = await this.performVectorSearch(query, userId, limit);
+      vectorResults = await this.performVectorSearch(query, userId, limit, filters);
 
       // If we have results and not combining, return vector results
       if (vectorResults.length > 0 && !combineResults) {
@@ -267,7 +432,7 @@ export class SearchService {
       if (combineResults) {
         logger.debug('Running FTS search for combination', { query, userId });
         try {
-          ftsResults = await this.performFTSSearch(query, userId, limit);
+          ftsResults = await this.performFTSSearch(query, userId, limit, filters);
         } catch (ftsError) {
           logger.warn('FTS search failed during combination', {
             error: ftsError instanceof Error ? ftsError.message : 'Unknown error',
@@ -297,7 +462,7 @@ export class SearchService {
 
     // If we need FTS results (fallback or no vector results)
     if (searchMethod === 'fts' && ftsResults.length === 0) {
-      ftsResults = await this.performFTSSearch(query, userId, limit);
+      ftsResults = await this.performFTSSearch(query, userId, limit, filters);
     }
 
     // Combine and deduplicate results if needed
@@ -325,11 +490,6 @@ export class SearchService {
       searchMethod,
     }));
 
-    // Apply filters if provided
-    if (filters && Object.keys(filters).length > 0) {
-      finalResults = this.applyFilters(finalResults, filters);
-    }
-
     logger.info('Unified search completed', {
       query,
       searchMethod,
@@ -474,37 +634,111 @@ export class SearchService {
     }
 
     // Simple snippet extraction - find first occurrence of any query term
-    const queryTerms = query.toLowerCase().split(/\s+/);
-    const textLower = searchableText.toLowerCase();
+    const snippet = this.extractSnippetAroundTerms(
+      searchableText,
+      query.toLowerCase().split(/\s+/),
+      maxLength
+    );
+    if (snippet) {
+      return snippet;
+    }
+
+    // No query term found, return beginning of text
+    return this.truncateText(searchableText, maxLength);
+  }
+
+  /**
+   * Extract a snippet around the first occurrence of any term
+   * Returns null if none of the terms occur in the text
+   */
+  private extractSnippetAroundTerms(
+    text: string,
+    terms: string[],
+    maxLength: number
+  ): string | null {
+    const textLower = text.toLowerCase();
 
     let bestPosition = -1;
-    for (const term of queryTerms) {
+    for (const term of terms) {
+      if (!term) {
+        continue;
+      }
       const position = textLower.indexOf(term);
       if (position !== -1 && (bestPosition === -1 || position < bestPosition)) {
         bestPosition = position;
       }
     }
 
-    // If query term found, extract context around it
-    if (bestPosition !== -1) {
-      const start = Math.max(0, bestPosition - 50);
-      const end = Math.min(searchableText.length, bestPosition + maxLength - 50);
+    if (bestPosition === -1) {
+      return null;
+    }
 
-      let snippet = searchableText.substring(start, end);
+    // Extract context around the match
+    const start = Math.max(0, bestPosition - 50);
+    const end = Math.min(text.length, bestPosition + maxLength - 50);
 
-      // Add ellipsis if truncated
-      if (start > 0) {
-        snippet = '...' + snippet;
-      }
-      if (end < searchableText.length) {
-        snippet = snippet + '...';
-      }
+    let snippet = text.substring(start, end);
 
-      return snippet.trim();
+    // Add ellipsis if truncated
+    if (start > 0) {
+      snippet = '...' + snippet;
+    }
+    if (end < text.length) {
+      snippet = snippet + '...';
     }
 
-    // No query term found, return beginning of text
-    return this.truncateText(searchableText, maxLength);
+    return snippet.trim();
+  }
+
+  /**
+   * Split a search query into lowercased terms for page matching
+   */
+  private extractQueryTerms(query: string): string[] {
+    return Array.from(
+      new Set(
+        query
+          .toLowerCase()
+          .split(/[^\p{L}\p{N}]+/u)
+          .filter((term) => term.length >= 2)
+      )
+    );
+  }
+
+  /**
+   * Find the PDF pages matching the query and build an excerpt from the best page
+   */
+  private matchPdfPages(
+    content: Content,
+    query: string
+  ): { matchedPages: number[]; excerpt: string | null } {
+    const terms = this.extractQueryTerms(query);
+    if (terms.length === 0) {
+      return { matchedPages: [], excerpt: null };
+    }
+
+    try {
+      const matchedPages = this.db.findMatchingPages(content.id, terms);
+      const bestPage = matchedPages[0];
+      if (bestPage === undefined) {
+        return { matchedPages, excerpt: null };
+      }
+
+      const page = this.db
+        .getContentPages(content.id)
+        .find((candidate) => candidate.page_number === bestPage);
+      const snippet = page ? this.extractSnippetAroundTerms(page.text, terms, 200) : null;
+
+      return {
+        matchedPages,
+        excerpt: snippet ? `[Page ${bestPage}] ${snippet}` : null,
+      };
+    } catch (error) {
+      logger.warn('Failed to match PDF pages', {
+        contentId: content.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { matchedPages: [], excerpt: null };
+    }
   }
 
   /**
@@ -524,9 +758,23 @@ export class SearchService {
   private contentToSearchResult(
     content: Content,
     searchMethod: 'vector' | 'fts',
-    score: number
+    score: number,
+    query = '',
+    chunkExcerpt?: string
   ): SearchResult {
-    const excerpt = this.generateSnippet(content, '', 200);
+    let excerpt = chunkExcerpt || this.generateSnippet(content, '', 200);
+    let matchedPages: number[] | undefined;
+
+    // For PDFs, report which pages matched; without a matching chunk, show an excerpt from the best page
+    if (content.content_type === 'pdf' && query) {
+      const pageMatch = this.matchPdfPages(content, query);
+      if (pageMatch.matchedPages.length > 0) {
+        matchedPages = pageMatch.matchedPages;
+      }
+      if (pageMatch.excerpt && !chunkExcerpt) {
+        excerpt = pageMatch.excerpt;
+      }
+    }
 
     return {
       id: content.id,
@@ -535,6 +783,7 @@ export class SearchService {
       contentType: content.content_type,
       relevanceScore: score,
       searchMethod,
+      ...(matchedPages && { matchedPages }),
       metadata: {
         tags: content.tags,
         createdAt: content.created_at,
@@ -543,6 +792,8 @@ export class SearchService {
         annotation: content.annotation,
         imageMetadata: content.image_metadata,
         pdfMetadata: content.pdf_metadata,
+        audioMetadata: content.audio_metadata,
+        notebookId: content.notebook_id,
       },
     };
   }
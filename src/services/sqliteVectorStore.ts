@@ -0,0 +1,332 @@
+/**
+ * KURA Notes - SQLite Vector Store
+ *
+ * Keeps embeddings in the application's SQLite database instead of ChromaDB
+ * Vectors are stored as Float32 BLOBs and searched by brute-force cosine similarity,
+ * which is fast enough for a personal knowledge base and needs no extra service
+ */
+
+import { logger } from '../utils/logger.js';
+import { getChunkId } from '../utils/textChunking.js';
+import { DatabaseService } from './database/database.service.js';
+import type { VectorRow } from '../models/content.js';
+import type { EmbeddedChunk, QueryResult, VectorDocument, VectorStore } from './vectorStore.js';
+
+/**
+ * SQLite Vector Store
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class SqliteVectorStore implements VectorStore {
+  public readonly backend = 'sqlite' as const;
+  private static instance: SqliteVectorStore | null = null;
+  private db: DatabaseService;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(db: DatabaseService) {
+    this.db = db;
+    logger.info('SqliteVectorStore initialized');
+  }
+
+  /**
+   * Get or create SQLite vector store instance (singleton)
+   */
+  public static getInstance(db?: DatabaseService): SqliteVectorStore {
+    if (!SqliteVectorStore.instance) {
+      if (!db) {
+        throw new Error('DatabaseService required for first initialization');
+      }
+      SqliteVectorStore.instance = new SqliteVectorStore(db);
+    }
+    return SqliteVectorStore.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    SqliteVectorStore.instance = null;
+  }
+
+  /**
+   * Nothing to initialize - the table is created by the database migrations
+   */
+  async initialize(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Health check - the vector store is healthy whenever the database is
+   */
+  async healthCheck(): Promise<boolean> {
+    return this.db.healthCheck();
+  }
+
+  /**
+   * Add or replace a single vector
+   */
+  async addDocument(
+    id: string,
+    embedding: number[],
+    metadata: Record<string, any>,
+    text: string
+  ): Promise<void> {
+    try {
+      this.db.saveVectors([this.toRow(id, embedding, metadata, text)]);
+      logger.debug('Document added to SQLite vector store', { id });
+    } catch (error) {
+      logger.error('Failed to add document to SQLite vector store', {
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error(
+        `Failed to add document: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Store one vector per chunk of a content item
+   * Replaces any vectors previously stored for the content
+   */
+  async addDocumentChunks(
+    contentId: string,
+    chunks: EmbeddedChunk[],
+    metadata: Record<string, any>
+  ): Promise<void> {
+    try {
+      const rows = chunks.map((chunk, index) =>
+        this.toRow(
+          getChunkId(contentId, index),
+          chunk.embedding,
+          { ...metadata, content_id: contentId, chunk_index: index, chunk_count: chunks.length },
+          chunk.text
+        )
+      );
+
+      this.db.deleteVectorsForContent(contentId);
+      this.db.saveVectors(rows);
+
+      logger.debug('Document chunks added to SQLite vector store', {
+        contentId,
+        chunkCount: chunks.length,
+      });
+    } catch (error) {
+      logger.error('Failed to add document chunks to SQLite vector store', {
+        contentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error(
+        `Failed to add document chunks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Query vectors by cosine similarity
+   * @param embedding - The embedding vector to search with
+   * @param limit - Maximum number of results to return
+   * @param userId - Optional user ID to filter results (null for all)
+   */
+  async queryByEmbedding(embedding: number[], limit = 10, userId: string | null = null): Promise<QueryResult[]> {
+    try {
+      const query = Float32Array.from(embedding);
+      const queryNorm = norm(query);
+      const scored: Array<{ row: VectorRow; score: number }> = [];
+
+      for (const row of this.db.getVectorsForSearch(userId)) {
+        if (row.dimensions !== query.length) {
+          // Vectors from a different embedding provider/model can't be compared
+          continue;
+        }
+
+        const vector = decodeEmbedding(row.embedding);
+        const similarity = cosineSimilarity(query, queryNorm, vector);
+
+        // Same scale as ChromaDB cosine distance: 1 = identical, 0 = opposite
+        scored.push({ row, score: (1 + similarity) / 2 });
+      }
+
+      scored.sort((a, b) => b.score - a.score);
+
+      const queryResults = scored.slice(0, limit).map(({ row, score }) => ({
+        id: row.id,
+        contentId: row.content_id,
+        chunkIndex: row.chunk_index,
+        score,
+        metadata: parseMetadata(row.metadata),
+        text: row.text,
+      }));
+
+      logger.debug('Query completed', { resultCount: queryResults.length, limit });
+
+      return queryResults;
+    } catch (error) {
+      logger.error('Failed to query SQLite vector store', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error(
+        `Failed to query documents: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Delete all vectors of a content item
+   */
+  async deleteDocument(id: string): Promise<void> {
+    const deleted = this.db.deleteVectorsForContent(id);
+    logger.debug('Document deleted from SQLite vector store', { id, deleted });
+  }
+
+  /**
+   * Merge metadata into all vectors of a content item
+   */
+  async updateMetadata(contentId: string, metadata: Record<string, any>): Promise<number> {
+    try {
+      const rows = this.db.getVectorsForContent(contentId);
+      const updated = this.db.updateVectorMetadata(
+        rows.map((row) => ({
+          id: row.id,
+          metadata: JSON.stringify({ ...parseMetadata(row.metadata), ...metadata }),
+        }))
+      );
+
+      logger.debug('Document metadata updated in SQLite vector store', { contentId, updated });
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update document metadata in SQLite vector store', {
+        contentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error(
+        `Failed to update document metadata: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get a vector by ID
+   */
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    const row = this.db.getVector(id);
+    return row ? this.toDocument(row) : null;
+  }
+
+  /**
+   * Get all vectors of a content item, including a legacy unchunked vector
+   */
+  async getContentVectors(contentId: string): Promise<VectorDocument[]> {
+    return this.db.getVectorsForContent(contentId).map((row) => this.toDocument(row));
+  }
+
+  /**
+   * List stored vectors page by page
+   */
+  async listDocuments(offset: number, limit: number): Promise<VectorDocument[]> {
+    return this.db.listVectors(offset, limit).map((row) => this.toDocument(row));
+  }
+
+  /**
+   * Get vector store stats
+   */
+  async getStats(): Promise<{ count: number; isConnected: boolean }> {
+    try {
+      return { count: this.db.getVectorCount(), isConnected: true };
+    } catch (error) {
+      logger.error('Failed to get SQLite vector store stats', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { count: 0, isConnected: false };
+    }
+  }
+
+  /**
+   * Convert a vector to a database row
+   */
+  private toRow(
+    id: string,
+    embedding: number[],
+    metadata: Record<string, any>,
+    text: string
+  ): VectorRow {
+    return {
+      id,
+      content_id: typeof metadata.content_id === 'string' ? metadata.content_id : id,
+      chunk_index: typeof metadata.chunk_index === 'number' ? metadata.chunk_index : 0,
+      user_id: typeof metadata.user_id === 'string' ? metadata.user_id : null,
+      embedding: encodeEmbedding(embedding),
+      dimensions: embedding.length,
+      text,
+      metadata: JSON.stringify(metadata),
+    };
+  }
+
+  /**
+   * Convert a database row to a vector document
+   */
+  private toDocument(row: VectorRow): VectorDocument {
+    return {
+      id: row.id,
+      embedding: Array.from(decodeEmbedding(row.embedding)),
+      metadata: parseMetadata(row.metadata),
+      text: row.text,
+    };
+  }
+}
+
+/**
+ * Encode an embedding as a Float32 BLOB
+ */
+function encodeEmbedding(embedding: number[]): Buffer {
+  const floats = Float32Array.from(embedding);
+  return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+/**
+ * Decode a Float32 BLOB (copies to guarantee 4-byte alignment)
+ */
+function decodeEmbedding(blob: Buffer): Float32Array {
+  const copy = new Uint8Array(blob.byteLength);
+  copy.set(blob);
+  return new Float32Array(copy.buffer);
+}
+
+/**
+ * Euclidean norm of a vector
+ */
+function norm(vector: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i]! * vector[i]!;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Cosine similarity between a query (with precomputed norm) and a vector
+ */
+function cosineSimilarity(query: Float32Array, queryNorm: number, vector: Float32Array): number {
+  let dot = 0;
+  let vectorNormSquared = 0;
+  for (let i = 0; i < query.length; i++) {
+    dot += query[i]! * vector[i]!;
+    vectorNormSquared += vector[i]! * vector[i]!;
+  }
+
+  const denominator = queryNorm * Math.sqrt(vectorNormSquared);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Parse JSON metadata, tolerating malformed rows
+ */
+function parseMetadata(metadata: string): Record<string, any> {
+  try {
+    return JSON.parse(metadata) as Record<string, any>;
+  } catch {
+    return {};
+  }
+}
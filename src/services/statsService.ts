@@ -179,7 +179,7 @@ export class StatsService {
         strftime('%Y-%m', created_at) as month,
         COUNT(*) as count
       FROM content
-      WHERE created_at >= date('now', '-12 months')
+      WHERE created_at >= date('now', '-12 months') AND deleted_at IS NULL
     `;
 
     const params: any[] = [];
@@ -4,13 +4,17 @@
  * Manages tag operations including:
  * - Getting all tags with usage counts
  * - Searching tags for autocomplete
- * - Renaming tags across all content
- * - Merging duplicate tags
+ * - Building the tree of nested tags (`project/kura/api`)
+ * - Renaming tags across all content (with the tags nested in them)
+ * - Merging duplicate tags (with the tags nested in them)
  * - Deleting tags
  */
 
 import { DatabaseService } from './database/database.service.js';
+import { EmbeddingPipelineService } from './embeddingPipeline.js';
 import { logger } from '../utils/logger.js';
+import { getTagPath, isTagInNamespace, moveTagNamespace, TAG_SEPARATOR } from '../utils/tags.js';
+import type { Content } from '../models/content.js';
 
 /**
  * Tag with usage count
@@ -20,6 +24,17 @@ export interface TagWithCount {
   count: number;
 }
 
+/**
+ * Level of the tag tree
+ */
+export interface TagTreeNode {
+  name: string; // Last level of the tag (`api` for `project/kura/api`)
+  tag: string; // Full tag
+  count: number; // Content tagged with exactly this tag
+  total: number; // Content tagged with this tag or a tag nested in it (each item counted once)
+  children: TagTreeNode[];
+}
+
 /**
  * Tag service class
  * Singleton pattern - use getInstance() to get the instance
@@ -27,24 +42,27 @@ export interface TagWithCount {
 export class TagService {
   private static instance: TagService | null = null;
   private db: DatabaseService;
+  private embeddingPipeline: EmbeddingPipelineService | null;
 
   /**
    * Private constructor - use getInstance() instead
    */
-  private constructor(db: DatabaseService) {
+  private constructor(db: DatabaseService, embeddingPipeline: EmbeddingPipelineService | null) {
     this.db = db;
+    this.embeddingPipeline = embeddingPipeline;
     logger.debug('TagService initialized');
   }
 
   /**
    * Get or create tag service instance (singleton)
+   * @param embeddingPipeline - Optional pipeline used to keep vector metadata in sync with tag changes
    */
-  public static getInstance(db?: DatabaseService): TagService {
+  public static getInstance(db?: DatabaseService, embeddingPipeline?: EmbeddingPipelineService): TagService {
     if (!TagService.instance) {
       if (!db) {
         throw new Error('DatabaseService required for first initialization');
       }
-      TagService.instance = new TagService(db);
+      TagService.instance = new TagService(db, embeddingPipeline ?? null);
     }
     return TagService.instance;
   }
@@ -68,31 +86,12 @@ export class TagService {
     logger.debug('Getting all tags with counts', { userId });
 
     try {
-      // Get all content with tags, filtered by user if provided
-      let sql = "SELECT tags FROM content WHERE tags IS NOT NULL AND tags != '[]'";
-      const params: any[] = [];
-
-      if (userId) {
-        sql += ' AND user_id = ?';
-        params.push(userId);
-      }
-
-      const stmt = this.db.raw(sql, params) as Array<{ tags: string }>;
-
-      // Parse all tags and count occurrences
+      // Count occurrences of all tags
       const tagCounts = new Map<string, number>();
 
-      for (const row of stmt) {
-        try {
-          const tags = JSON.parse(row.tags) as string[];
-          for (const tag of tags) {
-            const normalizedTag = tag.trim();
-            if (normalizedTag) {
-              tagCounts.set(normalizedTag, (tagCounts.get(normalizedTag) || 0) + 1);
-            }
-          }
-        } catch (error) {
-          logger.warn('Failed to parse tags from row', { error, tags: row.tags });
+      for (const tags of this.getTagLists(userId)) {
+        for (const tag of tags) {
+          tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
         }
       }
 
@@ -110,6 +109,56 @@ export class TagService {
     }
   }
 
+  /**
+   * Get the tree of nested tags with rolled-up counts
+   * Namespaces that are not used as tags themselves (`project` of `project/kura`) have a count of 0
+   * @param userId - Optional user ID to filter tags by user (null for legacy content)
+   * @returns Top-level tags, each level sorted by total count (most used first)
+   */
+  public getTagTree(userId: string | null = null): TagTreeNode[] {
+    logger.debug('Getting tag tree', { userId });
+
+    const nodes = new Map<string, TagTreeNode>();
+    const roots: TagTreeNode[] = [];
+
+    const getNode = (tag: string): TagTreeNode => {
+      let node = nodes.get(tag);
+      if (!node) {
+        const separatorIndex = tag.lastIndexOf(TAG_SEPARATOR);
+        node = { name: tag.slice(separatorIndex + 1), tag, count: 0, total: 0, children: [] };
+        nodes.set(tag, node);
+        if (separatorIndex === -1) {
+          roots.push(node);
+        } else {
+          getNode(tag.slice(0, separatorIndex)).children.push(node);
+        }
+      }
+      return node;
+    };
+
+    for (const tags of this.getTagLists(userId)) {
+      // Content tagged project/kura and project/api counts once for project
+      const namespaces = new Set<string>();
+      for (const tag of tags) {
+        getNode(tag).count++;
+        getTagPath(tag).forEach((namespace) => namespaces.add(namespace));
+      }
+      for (const namespace of namespaces) {
+        getNode(namespace).total++;
+      }
+    }
+
+    const sortLevel = (level: TagTreeNode[]) => {
+      level.sort((a, b) => b.total - a.total || a.tag.localeCompare(b.tag));
+      level.forEach((node) => sortLevel(node.children));
+    };
+    sortLevel(roots);
+
+    logger.debug('Built tag tree', { tagCount: nodes.size });
+
+    return roots;
+  }
+
   /**
    * Search tags by query (case-insensitive)
    * Used for autocomplete functionality
@@ -169,7 +218,8 @@ export class TagService {
   }
 
   /**
-   * Rename a tag across all content
+   * Rename a tag across all content, including the trash
+   * Tags nested in it move along (`project/kura/api` becomes `work/kura/api` when renaming `project` to `work`)
    * @param oldTag - Tag name to rename
    * @param newTag - New tag name
    * @param userId - Optional user ID to scope operation to user's content (null for legacy content)
@@ -186,23 +236,26 @@ export class TagService {
       throw new Error('Old tag and new tag must be different');
     }
 
+    if (isTagInNamespace(newTag, oldTag)) {
+      throw new Error('A tag cannot be moved into a tag nested in it');
+    }
+
     try {
       // Get all content with the old tag, filtered by user
-      const allContent = this.db.getAllContent(userId, 10000); // Get enough content
+      // Content in the trash too, so a restored item doesn't bring the old tag back
+      const allContent = this.db.getAllTaggedContent(userId);
       let updateCount = 0;
 
       for (const content of allContent) {
-        if (content.tags && content.tags.includes(oldTag)) {
-          // Replace old tag with new tag
-          const updatedTags = content.tags.map((tag) =>
-            tag === oldTag ? newTag : tag
-          );
+        if (content.tags && content.tags.some((tag) => isTagInNamespace(tag, oldTag))) {
+          // Replace old tag with new tag (and move the tags nested in it)
+          const updatedTags = content.tags.map((tag) => moveTagNamespace(tag, oldTag, newTag));
 
           // Remove duplicates (in case new tag already exists)
           const uniqueTags = Array.from(new Set(updatedTags));
 
           // Update content with ownership verification
-          this.db.updateContent(content.id, userId, { tags: uniqueTags });
+          this.updateTags(content, userId, uniqueTags);
           updateCount++;
         }
       }
@@ -222,7 +275,7 @@ export class TagService {
 
   /**
    * Merge two tags into one
-   * Replaces all occurrences of sourceTags with targetTag
+   * Replaces all occurrences of sourceTags with targetTag; tags nested in a source tag move under targetTag (content in the trash included)
    * @param sourceTags - Array of tag names to merge from
    * @param targetTag - Tag name to merge into
    * @param userId - Optional user ID to scope operation to user's content (null for legacy content)
@@ -239,22 +292,32 @@ export class TagService {
       throw new Error('Target tag is required');
     }
 
+    // Merging into a nested tag would move a source tag into itself
+    const sources = sourceTags.filter((sourceTag) => sourceTag !== targetTag);
+    if (sources.some((sourceTag) => isTagInNamespace(targetTag, sourceTag))) {
+      throw new Error('Tags cannot be merged into a tag nested in them');
+    }
+
     try {
-      const allContent = this.db.getAllContent(userId, 10000); // Get enough content
+      // Content in the trash too, so a restored item doesn't bring the old tag back
+      const allContent = this.db.getAllTaggedContent(userId);
       let updateCount = 0;
 
+      const mergeTag = (tag: string): string => {
+        const source = sources.find((sourceTag) => isTagInNamespace(tag, sourceTag));
+        return source ? moveTagNamespace(tag, source, targetTag) : tag;
+      };
+
       for (const content of allContent) {
-        if (content.tags && content.tags.some((tag) => sourceTags.includes(tag))) {
-          // Replace source tags with target tag
-          const updatedTags = content.tags.map((tag) =>
-            sourceTags.includes(tag) ? targetTag : tag
-          );
+        if (content.tags && content.tags.some((tag) => mergeTag(tag) !== tag)) {
+          // Replace source tags with target tag (and move the tags nested in them)
+          const updatedTags = content.tags.map(mergeTag);
 
           // Remove duplicates
           const uniqueTags = Array.from(new Set(updatedTags));
 
           // Update content with ownership verification
-          this.db.updateContent(content.id, userId, { tags: uniqueTags });
+          this.updateTags(content, userId, uniqueTags);
           updateCount++;
         }
       }
@@ -273,7 +336,7 @@ export class TagService {
   }
 
   /**
-   * Delete a tag from all content
+   * Delete a tag from all content, including the trash
    * @param tag - Tag name to delete
    * @param userId - Optional user ID to scope operation to user's content (null for legacy content)
    * @returns Number of content items updated
@@ -286,7 +349,8 @@ export class TagService {
     }
 
     try {
-      const allContent = this.db.getAllContent(userId, 10000); // Get enough content
+      // Content in the trash too, so a restored item doesn't bring the old tag back
+      const allContent = this.db.getAllTaggedContent(userId);
       let updateCount = 0;
 
       for (const content of allContent) {
@@ -295,7 +359,7 @@ export class TagService {
           const updatedTags = content.tags.filter((t) => t !== tag);
 
           // Update content with ownership verification
-          this.db.updateContent(content.id, userId, { tags: updatedTags });
+          this.updateTags(content, userId, updatedTags);
           updateCount++;
         }
       }
@@ -312,6 +376,51 @@ export class TagService {
     }
   }
 
+  /**
+   * Get the tags of all content with tags (one list per content item, without duplicates)
+   * @param userId - Optional user ID to filter content by user (null for legacy content)
+   */
+  private getTagLists(userId: string | null): string[][] {
+    // Get all content with tags, filtered by user if provided
+    let sql = "SELECT tags FROM content WHERE tags IS NOT NULL AND tags != '[]' AND deleted_at IS NULL";
+    const params: any[] = [];
+
+    if (userId) {
+      sql += ' AND user_id = ?';
+      params.push(userId);
+    }
+
+    const rows = this.db.raw(sql, params) as Array<{ tags: string }>;
+    const tagLists: string[][] = [];
+
+    for (const row of rows) {
+      try {
+        const tags = (JSON.parse(row.tags) as string[]).map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+        tagLists.push([...new Set(tags)]);
+      } catch (error) {
+        logger.warn('Failed to parse tags from row', { error, tags: row.tags });
+      }
+    }
+
+    return tagLists;
+  }
+
+  /**
+   * Save new tags for a content item and refresh its vector metadata
+   */
+  private updateTags(content: Content, userId: string | null, tags: string[]): void {
+    // Update content with ownership verification (content in the trash included)
+    const updated = this.db.updateContent(content.id, userId, { tags }, 'update', true);
+
+    if (updated && this.embeddingPipeline) {
+      try {
+        this.embeddingPipeline.queueMetadataSync(content, updated);
+      } catch (error) {
+        logger.error('Failed to sync vector metadata after tag change', { error, id: content.id });
+      }
+    }
+  }
+
   /**
    * Get tag statistics
    * @param userId - Optional user ID to scope statistics to user's content (null for legacy content)
@@ -332,6 +441,9 @@ export class TagService {
 /**
  * Export singleton instance getter
  */
-export const getTagService = (db?: DatabaseService): TagService => {
-  return TagService.getInstance(db);
+export const getTagService = (
+  db?: DatabaseService,
+  embeddingPipeline?: EmbeddingPipelineService
+): TagService => {
+  return TagService.getInstance(db, embeddingPipeline);
 };
@@ -1,6 +1,6 @@
 /**
  * Thumbnail Generation Service
- * Generates thumbnails for images using sharp
+ * Generates thumbnails (in several sizes) and resized images using sharp
  */
 
 import sharp from 'sharp';
@@ -8,7 +8,31 @@ import fs from 'fs';
 import fsPromises from 'fs/promises';
 import path from 'path';
 import { logger } from '../utils/logger.js';
-import type { ImageMetadata } from '../models/content.js';
+import { parseExif, isTransposedOrientation } from '../utils/exif.js';
+import type { ImageMetadata, ThumbnailVariant } from '../models/content.js';
+
+/**
+ * Output format of thumbnails and resized images
+ */
+export type ThumbnailFormat = 'jpeg' | 'webp' | 'avif';
+
+/**
+ * File extension per output format
+ */
+const FORMAT_EXTENSIONS: Record<ThumbnailFormat, string> = {
+  jpeg: '.jpg',
+  webp: '.webp',
+  avif: '.avif',
+};
+
+/**
+ * MIME type per output format
+ */
+const FORMAT_MIME_TYPES: Record<ThumbnailFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
 
 /**
  * Thumbnail service configuration
@@ -18,7 +42,11 @@ export interface ThumbnailConfig {
   thumbnailDirectory: string; // Directory for thumbnails (relative to baseDirectory)
   maxWidth: number; // Maximum thumbnail width
   maxHeight: number; // Maximum thumbnail height
-  quality: number; // JPEG quality (1-100)
+  quality: number; // Encoder quality (1-100)
+  format?: ThumbnailFormat; // Output format (default: jpeg)
+  variantSizes?: number[]; // Additional thumbnail sizes (bounding box in pixels), e.g. for retina screens
+  cacheDirectory?: string; // Directory for resized images (relative to baseDirectory, default: cache/images)
+  cacheLimit?: number; // Maximum resized images cached per content item (default: 20)
 }
 
 /**
@@ -31,16 +59,43 @@ export interface ThumbnailResult {
   error?: string;
 }
 
+/**
+ * Options for resizing an image
+ */
+export interface ResizeOptions {
+  width?: number; // Maximum width (at least one of width/height is required)
+  height?: number; // Maximum height
+  format: ThumbnailFormat;
+  fit: 'inside' | 'cover'; // Fit within the box, or fill it and crop the overflow
+}
+
+/**
+ * Result of resizing an image
+ */
+export interface ResizeResult {
+  success: boolean;
+  path?: string; // Absolute path to the resized image
+  mimeType?: string;
+  cached?: boolean; // Whether the image was served from the cache
+  error?: string;
+}
+
 /**
  * Thumbnail Service
  * Singleton pattern - use getInstance() to get the instance
  */
 export class ThumbnailService {
   private static instance: ThumbnailService | null = null;
-  private config: ThumbnailConfig;
+  private config: Required<ThumbnailConfig>;
 
   private constructor(config: ThumbnailConfig) {
-    this.config = config;
+    this.config = {
+      ...config,
+      format: config.format ?? 'jpeg',
+      variantSizes: config.variantSizes ?? [],
+      cacheDirectory: config.cacheDirectory ?? path.join('cache', 'images'),
+      cacheLimit: config.cacheLimit ?? 20,
+    };
 
     // Ensure thumbnail directory exists
     const fullThumbnailPath = path.join(config.baseDirectory, config.thumbnailDirectory);
@@ -92,41 +147,56 @@ export class ThumbnailService {
         };
       }
 
-      // Calculate thumbnail dimensions (maintain aspect ratio)
-      const { width: thumbnailWidth, height: thumbnailHeight } = this.calculateThumbnailSize(
-        imageMetadata.width,
-        imageMetadata.height
-      );
+      // Read EXIF (capture date, camera, orientation, GPS position)
+      const exif = parseExif(imageMetadata.exif);
+      const orientation = exif.orientation ?? imageMetadata.orientation;
 
-      // Generate thumbnail with sharp
-      const thumbnailBuffer = await image
-        .resize(thumbnailWidth, thumbnailHeight, {
-          fit: 'inside', // Maintain aspect ratio, fit within dimensions
-          withoutEnlargement: true, // Don't enlarge if image is smaller
-        })
-        .jpeg({ quality: this.config.quality }) // Convert to JPEG for consistent output
-        .toBuffer();
+      // Dimensions as displayed - orientations 5-8 rotate the image by 90 degrees
+      const transposed = isTransposedOrientation(orientation);
+      const width = transposed ? imageMetadata.height : imageMetadata.width;
+      const height = transposed ? imageMetadata.width : imageMetadata.height;
 
-      // Save thumbnail to file
-      const thumbnailPath = path.join(this.config.thumbnailDirectory, filename);
-      const fullThumbnailPath = path.join(this.config.baseDirectory, thumbnailPath);
+      // Default thumbnail, stored as thumbnail_path
+      const name = path.parse(filename).name;
+      const extension = FORMAT_EXTENSIONS[this.config.format];
+      const primary = this.calculateThumbnailSize(width, height, this.config.maxWidth, this.config.maxHeight);
+      const thumbnailPath = path.join(this.config.thumbnailDirectory, `${name}${extension}`);
+      const thumbnailBytes = await this.writeThumbnail(imageBuffer, thumbnailPath, primary);
 
-      await fsPromises.writeFile(fullThumbnailPath, thumbnailBuffer);
+      // Additional sizes - skipped where the image is too small to differ from a smaller one
+      const thumbnailVariants: ThumbnailVariant[] = [];
+      for (const size of this.config.variantSizes) {
+        const dimensions = this.calculateThumbnailSize(width, height, size, size);
+        const duplicate = [primary, ...thumbnailVariants].some(
+          (existing) => existing.width === dimensions.width && existing.height === dimensions.height
+        );
+        if (duplicate) {
+          continue;
+        }
+
+        const variantPath = path.join(this.config.thumbnailDirectory, `${name}@${size}${extension}`);
+        await this.writeThumbnail(imageBuffer, variantPath, dimensions);
+        thumbnailVariants.push({ size, path: variantPath, ...dimensions });
+      }
 
       logger.info('Thumbnail generated successfully', {
         filename,
         thumbnailPath,
-        originalSize: `${imageMetadata.width}x${imageMetadata.height}`,
-        thumbnailSize: `${thumbnailWidth}x${thumbnailHeight}`,
-        thumbnailBytes: thumbnailBuffer.length,
+        originalSize: `${width}x${height}`,
+        thumbnailSize: `${primary.width}x${primary.height}`,
+        thumbnailBytes,
+        variants: thumbnailVariants.map((variant) => variant.size),
       });
 
       // Prepare metadata
       const metadata: ImageMetadata = {
-        width: imageMetadata.width,
-        height: imageMetadata.height,
+        width,
+        height,
         format: imageMetadata.format || 'unknown',
         size: imageBuffer.length,
+        ...exif,
+        thumbnailVariants,
+        thumbnailSignature: this.getSignature(),
       };
 
       return {
@@ -143,19 +213,177 @@ export class ThumbnailService {
     }
   }
 
+  /**
+   * Resize an image, rotated upright, into the configured thumbnail format and write it
+   * @returns Size of the written file in bytes
+   */
+  private async writeThumbnail(
+    imageBuffer: Buffer,
+    thumbnailPath: string,
+    dimensions: { width: number; height: number }
+  ): Promise<number> {
+    const thumbnailBuffer = await sharp(imageBuffer)
+      .rotate()
+      .resize(dimensions.width, dimensions.height, {
+        fit: 'inside', // Maintain aspect ratio, fit within dimensions
+        withoutEnlargement: true, // Don't enlarge if image is smaller
+      })
+      .toFormat(this.config.format, { quality: this.config.quality })
+      .toBuffer();
+
+    await fsPromises.writeFile(path.join(this.config.baseDirectory, thumbnailPath), thumbnailBuffer);
+    return thumbnailBuffer.length;
+  }
+
+  /**
+   * Resize a stored image, using the disk cache
+   * Resized images are cached per content item and never enlarged beyond the original
+   * Each item keeps at most `cacheLimit` resized images; the least recently used are evicted
+   * @param contentId - Content ID (names the cache directory)
+   * @param sourcePath - Relative path to the original image
+   * @param options - Target size, format and fit
+   */
+  async resizeImage(contentId: string, sourcePath: string, options: ResizeOptions): Promise<ResizeResult> {
+    const { width, height, format, fit } = options;
+    const mimeType = FORMAT_MIME_TYPES[format];
+    const cachePath = path.join(
+      this.config.baseDirectory,
+      this.config.cacheDirectory,
+      contentId,
+      `${width ?? 'auto'}x${height ?? 'auto'}-${fit}${FORMAT_EXTENSIONS[format]}`
+    );
+
+    if (fs.existsSync(cachePath)) {
+      logger.debug('Serving resized image from cache', { contentId, cachePath });
+      // Mark as recently used, so eviction keeps it
+      const now = new Date();
+      await fsPromises.utimes(cachePath, now, now).catch(() => undefined);
+      return { success: true, path: cachePath, mimeType, cached: true };
+    }
+
+    try {
+      const resized = await sharp(path.join(this.config.baseDirectory, sourcePath))
+        .rotate()
+        .resize(width, height, { fit, withoutEnlargement: true })
+        .toFormat(format, { quality: this.config.quality })
+        .toBuffer();
+
+      // Write to a temporary file first so concurrent requests never read a partial image
+      await fsPromises.mkdir(path.dirname(cachePath), { recursive: true });
+      const tempPath = `${cachePath}.${process.pid}.${Date.now()}.tmp`;
+      await fsPromises.writeFile(tempPath, resized);
+      await fsPromises.rename(tempPath, cachePath);
+
+      logger.info('Resized image cached', { contentId, width, height, format, fit, bytes: resized.length });
+
+      await this.evictResizedImages(path.dirname(cachePath), cachePath);
+
+      return { success: true, path: cachePath, mimeType, cached: false };
+    } catch (error) {
+      logger.error('Error resizing image', { error, contentId, sourcePath });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Delete the least recently used resized images of a content item beyond the cache limit
+   * @param directory - Cache directory of the content item
+   * @param keepPath - Image just written (never evicted)
+   */
+  private async evictResizedImages(directory: string, keepPath: string): Promise<void> {
+    try {
+      const entries = await fsPromises.readdir(directory);
+      const files = await Promise.all(
+        entries
+          .filter((entry) => !entry.endsWith('.tmp'))
+          .map(async (entry) => {
+            const filePath = path.join(directory, entry);
+            return { filePath, usedAt: (await fsPromises.stat(filePath)).mtimeMs };
+          })
+      );
+
+      const evicted = files
+        .filter(({ filePath }) => filePath !== keepPath)
+        .sort((a, b) => b.usedAt - a.usedAt)
+        .slice(this.config.cacheLimit - 1);
+
+      for (const { filePath } of evicted) {
+        await fsPromises.rm(filePath, { force: true });
+      }
+
+      if (evicted.length > 0) {
+        logger.debug('Evicted resized images from cache', { directory, evicted: evicted.length });
+      }
+    } catch (error) {
+      logger.warn('Failed to evict resized images', { directory, error });
+    }
+  }
+
+  /**
+   * Largest configured thumbnail size in pixels
+   * PDF pages are rendered at this width so every thumbnail size stays sharp
+   */
+  getMaxSize(): number {
+    return Math.max(this.config.maxWidth, this.config.maxHeight, ...this.config.variantSizes);
+  }
+
+  /**
+   * Signature of the thumbnail configuration
+   * Stored with each image so thumbnails can be regenerated when the configuration changes
+   */
+  getSignature(): string {
+    const sizes = [`${this.config.maxWidth}x${this.config.maxHeight}`, ...this.config.variantSizes];
+    return `${this.config.format}:q${this.config.quality}:${sizes.join(',')}`;
+  }
+
+  /**
+   * Remove the GPS position from an image
+   * The image is re-encoded without its EXIF block; pixels are rotated upright first
+   * because the orientation tag is dropped with it. The ICC color profile is kept
+   * @param imageBuffer - Image buffer
+   * @returns The stripped image, or null if the image has no GPS position
+   */
+  async removeLocation(imageBuffer: Buffer): Promise<Buffer | null> {
+    const image = sharp(imageBuffer);
+    const imageMetadata = await image.metadata();
+
+    if (!parseExif(imageMetadata.exif).location || !imageMetadata.format) {
+      return null;
+    }
+
+    const format = imageMetadata.format as keyof sharp.FormatEnum;
+    const stripped = await image
+      .rotate()
+      .keepIccProfile()
+      .toFormat(format, format === 'jpeg' || format === 'webp' ? { quality: 95 } : undefined)
+      .toBuffer();
+
+    logger.info('Location removed from image', {
+      format,
+      originalBytes: imageBuffer.length,
+      strippedBytes: stripped.length,
+    });
+
+    return stripped;
+  }
+
   /**
    * Calculate thumbnail dimensions while maintaining aspect ratio
    * @param width - Original width
    * @param height - Original height
+   * @param maxWidth - Maximum thumbnail width
+   * @param maxHeight - Maximum thumbnail height
    * @returns Thumbnail dimensions
    */
   private calculateThumbnailSize(
     width: number,
-    height: number
+    height: number,
+    maxWidth: number,
+    maxHeight: number
   ): { width: number; height: number } {
-    const maxWidth = this.config.maxWidth;
-    const maxHeight = this.config.maxHeight;
-
     // If image is already smaller than max dimensions, use original size
     if (width <= maxWidth && height <= maxHeight) {
       return { width, height };
@@ -196,6 +424,27 @@ export class ThumbnailService {
     }
   }
 
+  /**
+   * Delete additional thumbnail sizes
+   * @param variants - Variants recorded in the image metadata
+   */
+  async deleteVariants(variants: ThumbnailVariant[]): Promise<void> {
+    for (const variant of variants) {
+      await fsPromises.unlink(path.join(this.config.baseDirectory, variant.path)).catch(() => {
+        logger.warn('Thumbnail variant not found for deletion', { path: variant.path });
+      });
+    }
+  }
+
+  /**
+   * Delete the cached resized images of a content item
+   * @param contentId - Content ID
+   */
+  async clearResizedImages(contentId: string): Promise<void> {
+    const cacheDirectory = path.join(this.config.baseDirectory, this.config.cacheDirectory, contentId);
+    await fsPromises.rm(cacheDirectory, { recursive: true, force: true });
+  }
+
   /**
    * Check if a file is an image
    * @param mimeType - MIME type of the file
@@ -0,0 +1,27 @@
+/**
+ * KURA Notes - Disabled Transcription Provider
+ *
+ * Used with TRANSCRIPTION_PROVIDER=none: audio is stored without a transcript
+ */
+
+import type { Transcript, TranscriptionProvider } from './types.js';
+
+/**
+ * Transcription provider that never transcribes
+ */
+export class DisabledTranscriptionProvider implements TranscriptionProvider {
+  public readonly name = 'none' as const;
+  public readonly model = 'none';
+
+  public isAvailable(): boolean {
+    return false;
+  }
+
+  public getUnavailableReason(): string {
+    return 'Transcription disabled (TRANSCRIPTION_PROVIDER=none).';
+  }
+
+  public async transcribe(): Promise<Transcript> {
+    throw new Error(this.getUnavailableReason());
+  }
+}
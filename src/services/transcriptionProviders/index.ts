@@ -0,0 +1,64 @@
+/**
+ * KURA Notes - Transcription Providers
+ *
+ * Factory for the transcription provider selected via TRANSCRIPTION_PROVIDER
+ */
+
+import { OpenAITranscriptionProvider } from './openaiProvider.js';
+import { OpenAICompatibleTranscriptionProvider } from './openaiCompatibleProvider.js';
+import { DisabledTranscriptionProvider } from './disabledProvider.js';
+import type { TranscriptionProvider, TranscriptionProviderName } from './types.js';
+
+export type {
+  Transcript,
+  TranscriptSegment,
+  TranscriptionInput,
+  TranscriptionProvider,
+  TranscriptionProviderName,
+} from './types.js';
+export { OpenAITranscriptionProvider } from './openaiProvider.js';
+export { OpenAICompatibleTranscriptionProvider } from './openaiCompatibleProvider.js';
+export { DisabledTranscriptionProvider } from './disabledProvider.js';
+
+/**
+ * Settings needed to build any provider
+ */
+export interface TranscriptionProviderSettings {
+  provider: TranscriptionProviderName;
+  apiKey?: string; // OpenAI key, or optional bearer token for compatible servers
+  organization?: string;
+  project?: string;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+  timeout: number;
+}
+
+/**
+ * Create the configured transcription provider
+ */
+export function createTranscriptionProvider(settings: TranscriptionProviderSettings): TranscriptionProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAITranscriptionProvider({
+        apiKey: settings.apiKey || '',
+        organization: settings.organization,
+        project: settings.project,
+        model: settings.model,
+        timeout: settings.timeout,
+      });
+
+    case 'openai-compatible':
+      return new OpenAICompatibleTranscriptionProvider({
+        baseUrl: settings.baseUrl || '',
+        model: settings.model,
+        apiKey: settings.apiKey,
+        timeout: settings.timeout,
+      });
+
+    case 'none':
+      return new DisabledTranscriptionProvider();
+
+    default:
+      throw new Error(`Unknown transcription provider: ${settings.provider as string}`);
+  }
+}
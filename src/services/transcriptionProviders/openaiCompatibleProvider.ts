@@ -0,0 +1,99 @@
+/**
+ * KURA Notes - OpenAI-Compatible Transcription Provider
+ *
+ * Calls any server exposing the OpenAI `/audio/transcriptions` HTTP API, so
+ * recordings can be transcribed locally (faster-whisper-server, whisper.cpp
+ * server, LocalAI, ...)
+ */
+
+import type { Transcript, TranscriptionInput, TranscriptionProvider } from './types.js';
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAICompatibleTranscriptionProviderConfig {
+  baseUrl: string; // e.g. http://localhost:8000/v1
+  model: string;
+  apiKey?: string;
+  timeout: number; // Request timeout in milliseconds
+}
+
+/**
+ * Verbose JSON transcription response
+ */
+interface VerboseTranscriptionResponse {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+/**
+ * OpenAI-compatible HTTP transcription provider
+ */
+export class OpenAICompatibleTranscriptionProvider implements TranscriptionProvider {
+  public readonly name = 'openai-compatible' as const;
+  public readonly model: string;
+  private config: OpenAICompatibleTranscriptionProviderConfig;
+
+  constructor(config: OpenAICompatibleTranscriptionProviderConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.model = config.model;
+  }
+
+  public isAvailable(): boolean {
+    return !!this.config.baseUrl && !!this.model;
+  }
+
+  public getUnavailableReason(): string {
+    return 'Transcription API URL or model not configured.';
+  }
+
+  public async transcribe(input: TranscriptionInput): Promise<Transcript> {
+    const form = new FormData();
+    form.append('file', new Blob([input.data], { type: input.mimeType }), input.filename);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal: AbortSignal.timeout(this.config.timeout),
+      });
+    } catch (error) {
+      // Connection refused, DNS failures and timeouts are reported as network errors
+      throw new Error(
+        `Transcription API network error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Transcription API error ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    const data = (await response.json()) as VerboseTranscriptionResponse;
+    if (typeof data.text !== 'string') {
+      throw new Error('Invalid transcription response from API');
+    }
+
+    return {
+      text: data.text.trim(),
+      language: data.language || null,
+      duration: data.duration ?? null,
+      segments: (data.segments ?? []).map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+      })),
+    };
+  }
+}
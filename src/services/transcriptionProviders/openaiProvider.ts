@@ -0,0 +1,73 @@
+/**
+ * KURA Notes - OpenAI Transcription Provider
+ *
+ * Transcribes audio with OpenAI Whisper through the official OpenAI SDK
+ */
+
+import OpenAI, { toFile } from 'openai';
+import type { Transcript, TranscriptionInput, TranscriptionProvider } from './types.js';
+
+/**
+ * OpenAI provider configuration
+ */
+export interface OpenAITranscriptionProviderConfig {
+  apiKey: string;
+  organization?: string;
+  project?: string;
+  model: string;
+  timeout: number; // Request timeout in milliseconds
+}
+
+/**
+ * OpenAI Whisper transcription provider
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  public readonly name = 'openai' as const;
+  public readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor(config: OpenAITranscriptionProviderConfig) {
+    this.model = config.model;
+
+    // Only initialize OpenAI client if API key is provided
+    if (config.apiKey) {
+      this.client = new OpenAI({
+        apiKey: config.apiKey,
+        organization: config.organization,
+        project: config.project,
+        timeout: config.timeout,
+      });
+    }
+  }
+
+  public isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  public getUnavailableReason(): string {
+    return 'OpenAI API key not configured.';
+  }
+
+  public async transcribe(input: TranscriptionInput): Promise<Transcript> {
+    if (!this.client) {
+      throw new Error(this.getUnavailableReason());
+    }
+
+    const response = await this.client.audio.transcriptions.create({
+      file: await toFile(input.data, input.filename, { type: input.mimeType }),
+      model: this.model,
+      response_format: 'verbose_json',
+    });
+
+    return {
+      text: response.text.trim(),
+      language: response.language || null,
+      duration: response.duration ?? null,
+      segments: (response.segments ?? []).map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+      })),
+    };
+  }
+}
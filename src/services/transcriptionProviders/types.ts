@@ -0,0 +1,62 @@
+/**
+ * KURA Notes - Transcription Provider Types
+ *
+ * Common interface implemented by all speech-to-text backends
+ */
+
+/**
+ * Supported transcription provider names (TRANSCRIPTION_PROVIDER)
+ */
+export type TranscriptionProviderName = 'openai' | 'openai-compatible' | 'none';
+
+/**
+ * Part of a transcript with its position in the recording
+ */
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+}
+
+/**
+ * Transcript of an audio recording
+ */
+export interface Transcript {
+  text: string;
+  language: string | null; // Detected language, if the provider reports it
+  duration: number | null; // Seconds, if the provider reports it
+  segments: TranscriptSegment[]; // Empty if the provider returns no timestamps
+}
+
+/**
+ * Audio file to transcribe
+ */
+export interface TranscriptionInput {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * Transcription provider
+ * Providers only turn audio into text; size limits and formatting live in TranscriptionService
+ */
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  readonly model: string;
+
+  /**
+   * Whether the provider is configured and can transcribe
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Human-readable reason why the provider is unavailable
+   */
+  getUnavailableReason(): string;
+
+  /**
+   * Transcribe a single audio file
+   */
+  transcribe(input: TranscriptionInput): Promise<Transcript>;
+}
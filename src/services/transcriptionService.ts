@@ -0,0 +1,150 @@
+/**
+ * KURA Notes - Transcription Service
+ *
+ * Transcribes audio notes using the configured transcription provider
+ * (OpenAI Whisper or an OpenAI-compatible server such as faster-whisper-server)
+ */
+
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import {
+  createTranscriptionProvider,
+  Transcript,
+  TranscriptionInput,
+  TranscriptionProvider,
+  TranscriptionProviderName,
+} from './transcriptionProviders/index.js';
+
+/**
+ * Largest file the OpenAI transcription API accepts
+ */
+const OPENAI_MAX_FILE_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Transcription service configuration
+ */
+interface TranscriptionServiceConfig {
+  provider: TranscriptionProviderName;
+  apiKey?: string;
+  organization?: string;
+  project?: string;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible provider only
+  timeout: number;
+}
+
+/**
+ * Transcription Service
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class TranscriptionService {
+  private static instance: TranscriptionService | null = null;
+  private provider: TranscriptionProvider;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(userConfig: TranscriptionServiceConfig) {
+    this.provider = createTranscriptionProvider(userConfig);
+
+    if (this.provider.isAvailable()) {
+      logger.info('TranscriptionService initialized', {
+        provider: this.provider.name,
+        model: this.provider.model,
+      });
+    } else {
+      logger.warn('TranscriptionService initialized without a usable provider. Audio will not be transcribed.', {
+        provider: this.provider.name,
+        reason: this.provider.getUnavailableReason(),
+      });
+    }
+  }
+
+  /**
+   * Get or create transcription service instance (singleton)
+   */
+  public static getInstance(userConfig?: TranscriptionServiceConfig): TranscriptionService {
+    if (!TranscriptionService.instance) {
+      TranscriptionService.instance = new TranscriptionService(userConfig ?? getTranscriptionServiceConfig());
+    }
+    return TranscriptionService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (TranscriptionService.instance) {
+      TranscriptionService.instance = null;
+    }
+  }
+
+  /**
+   * Check if the service is available (provider configured)
+   */
+  public isAvailable(): boolean {
+    return this.provider.isAvailable();
+  }
+
+  /**
+   * Get the active provider and model (for logging and diagnostics)
+   */
+  public getProviderInfo(): { provider: TranscriptionProviderName; model: string } {
+    return { provider: this.provider.name, model: this.provider.model };
+  }
+
+  /**
+   * Transcribe an audio file
+   * @throws Error if the provider is unavailable, the file is too large or transcription fails
+   */
+  public async transcribe(input: TranscriptionInput): Promise<Transcript> {
+    if (!this.provider.isAvailable()) {
+      throw new Error(this.provider.getUnavailableReason());
+    }
+
+    if (this.provider.name === 'openai' && input.data.length > OPENAI_MAX_FILE_SIZE) {
+      throw new Error(
+        `Audio file of ${(input.data.length / 1024 / 1024).toFixed(1)}MB exceeds the 25MB OpenAI transcription limit`
+      );
+    }
+
+    const startTime = Date.now();
+    const transcript = await this.provider.transcribe(input);
+
+    logger.info('Audio transcribed', {
+      provider: this.provider.name,
+      filename: input.filename,
+      size: input.data.length,
+      language: transcript.language,
+      segments: transcript.segments.length,
+      textLength: transcript.text.length,
+      durationMs: Date.now() - startTime,
+    });
+
+    return transcript;
+  }
+}
+
+/**
+ * Build the transcription service configuration from the environment
+ */
+function getTranscriptionServiceConfig(): TranscriptionServiceConfig {
+  const isOpenAI = config.transcriptionProvider === 'openai';
+
+  return {
+    provider: config.transcriptionProvider,
+    apiKey: isOpenAI ? config.openaiApiKey : config.transcriptionApiKey,
+    organization: config.openaiOrganization,
+    project: config.openaiProject,
+    model: config.transcriptionModel,
+    baseUrl: config.transcriptionApiUrl,
+    timeout: config.transcriptionTimeout,
+  };
+}
+
+/**
+ * Get the transcription service instance
+ */
+export function getTranscriptionService(): TranscriptionService {
+  return TranscriptionService.getInstance();
+}
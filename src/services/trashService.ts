@@ -0,0 +1,251 @@
+/**
+ * KURA Notes - Trash Service
+ *
+ * Manages soft-deleted content:
+ * - Moving content to the trash and restoring it
+ * - Listing and emptying the trash
+ * - Purging content after the retention period (files, thumbnails and vectors)
+ */
+
+import { DatabaseService } from './database/database.service.js';
+import { FileStorageService } from './fileStorage.js';
+import type { VectorStore } from './vectorStore.js';
+import type { Content } from '../models/content.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * How often expired trash is purged
+ */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Number of items purged per database query
+ */
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Trash service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class TrashService {
+  private static instance: TrashService | null = null;
+  private db: DatabaseService;
+  private fileStorage: FileStorageService;
+  private vectorStore: VectorStore;
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(db: DatabaseService, fileStorage: FileStorageService, vectorStore: VectorStore) {
+    this.db = db;
+    this.fileStorage = fileStorage;
+    this.vectorStore = vectorStore;
+    logger.debug('TrashService initialized');
+  }
+
+  /**
+   * Get or create trash service instance (singleton)
+   */
+  public static getInstance(
+    db?: DatabaseService,
+    fileStorage?: FileStorageService,
+    vectorStore?: VectorStore
+  ): TrashService {
+    if (!TrashService.instance) {
+      if (!db || !fileStorage || !vectorStore) {
+        throw new Error('DatabaseService, FileStorageService and VectorStore required for first initialization');
+      }
+      TrashService.instance = new TrashService(db, fileStorage, vectorStore);
+    }
+    return TrashService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (TrashService.instance) {
+      logger.debug('Resetting TrashService instance');
+      TrashService.instance.stopPurgeSchedule();
+      TrashService.instance = null;
+    }
+  }
+
+  /**
+   * Move content to the trash
+   * Files and vectors are kept so the content can be restored without re-embedding
+   * @returns true if moved to the trash, false if not found or not owned by user
+   */
+  public moveToTrash(id: string, userId: string | null): boolean {
+    return this.db.trashContent(id, userId);
+  }
+
+  /**
+   * Restore content from the trash
+   * @returns Restored content, null if not in the trash or not owned by user
+   */
+  public restore(id: string, userId: string | null): Content | null {
+    return this.db.restoreContent(id, userId);
+  }
+
+  /**
+   * List trashed content (most recently deleted first)
+   */
+  public list(userId: string | null, limit = 100, offset = 0): { items: Content[]; total: number } {
+    return {
+      items: this.db.getTrashedContent(userId, limit, offset),
+      total: this.db.getTrashedCount(userId),
+    };
+  }
+
+  /**
+   * Permanently delete trashed content (database row, file, thumbnail and vectors)
+   * @returns true if deleted, false if not in the trash or not owned by user
+   */
+  public async deletePermanently(id: string, userId: string | null): Promise<boolean> {
+    const content = this.db.getContentById(id, userId || undefined, true);
+    if (!content || !content.deleted_at) {
+      return false;
+    }
+
+    // FileStorageService removes the file, the thumbnail and the database row
+    const result = await this.fileStorage.deleteFile(id, content.user_id);
+    if (!result.success) {
+      logger.error('Failed to purge content', { id, error: result.error });
+      return false;
+    }
+
+    // Don't fail the purge if the vector store is unavailable
+    try {
+      await this.vectorStore.deleteDocument(id);
+    } catch (error) {
+      logger.warn('Failed to delete embedding of purged content (non-critical)', {
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    logger.info('Content purged from trash', { id, userId: content.user_id });
+    return true;
+  }
+
+  /**
+   * Permanently delete everything in a user's trash
+   * @returns Number of purged items
+   */
+  public async empty(userId: string | null): Promise<number> {
+    let purged = 0;
+
+    while (true) {
+      const batch = this.db.getTrashedContent(userId, PURGE_BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      let batchPurged = 0;
+      for (const content of batch) {
+        if (await this.deletePermanently(content.id, userId)) {
+          batchPurged++;
+        }
+      }
+
+      purged += batchPurged;
+      if (batchPurged === 0) {
+        // Nothing could be deleted - avoid looping over the same items forever
+        break;
+      }
+    }
+
+    logger.info('Trash emptied', { userId, purged });
+    return purged;
+  }
+
+  /**
+   * Permanently delete content that has been in the trash longer than the retention period
+   * @param retentionDays - Days content stays in the trash (0 = never purge)
+   * @returns Number of purged items
+   */
+  public async purgeExpired(retentionDays = config.trashRetentionDays): Promise<number> {
+    if (retentionDays <= 0) {
+      return 0;
+    }
+
+    let purged = 0;
+
+    while (true) {
+      const batch = this.db.getExpiredTrash(retentionDays, PURGE_BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      let batchPurged = 0;
+      for (const content of batch) {
+        if (await this.deletePermanently(content.id, content.user_id)) {
+          batchPurged++;
+        }
+      }
+
+      purged += batchPurged;
+      if (batchPurged === 0) {
+        break;
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('Expired trash purged', { purged, retentionDays });
+    }
+
+    return purged;
+  }
+
+  /**
+   * Purge expired trash now and then periodically (hourly by default)
+   * Does nothing if the retention period is 0
+   */
+  public startPurgeSchedule(intervalMs = PURGE_INTERVAL_MS): void {
+    if (this.purgeTimer || config.trashRetentionDays <= 0) {
+      return;
+    }
+
+    const runPurge = () => {
+      this.purgeExpired().catch((error) => {
+        logger.error('Scheduled trash purge failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    };
+
+    runPurge();
+    this.purgeTimer = setInterval(runPurge, intervalMs);
+    // Don't keep the process alive just for the purge
+    this.purgeTimer.unref();
+
+    logger.info('Trash purge scheduled', {
+      retentionDays: config.trashRetentionDays,
+      intervalMinutes: Math.round(intervalMs / 60000),
+    });
+  }
+
+  /**
+   * Stop the scheduled purge
+   */
+  public stopPurgeSchedule(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+}
+
+/**
+ * Export singleton instance getter
+ */
+export const getTrashService = (
+  db?: DatabaseService,
+  fileStorage?: FileStorageService,
+  vectorStore?: VectorStore
+): TrashService => {
+  return TrashService.getInstance(db, fileStorage, vectorStore);
+};
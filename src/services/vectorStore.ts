@@ -1,13 +1,17 @@
 /**
  * KURA Notes - Vector Store Service
  *
- * Manages ChromaDB vector storage for semantic search
+ * Defines the vector store interface and the ChromaDB implementation
  * Implements connection, collection management, and CRUD operations
+ * The SQLite implementation lives in sqliteVectorStore.ts; VECTOR_STORE_BACKEND selects one
  */
 
 import { ChromaClient, Collection } from 'chromadb';
 import { logger } from '../utils/logger.js';
 import { config } from '../config/index.js';
+import { getChunkId } from '../utils/textChunking.js';
+import { SqliteVectorStore } from './sqliteVectorStore.js';
+import { getDatabaseService } from './database/database.service.js';
 
 /**
  * Document interface for ChromaDB
@@ -23,12 +27,77 @@ export interface VectorDocument {
  * Query result from vector search
  */
 export interface QueryResult {
-  id: string;
+  id: string; // Vector ID (chunk ID for chunked content)
+  contentId: string; // Content ID the vector belongs to
+  chunkIndex: number; // 0 for unchunked documents
   score: number;
   metadata: Record<string, any>;
   text: string;
 }
 
+/**
+ * A chunk of content with its embedding
+ */
+export interface EmbeddedChunk {
+  embedding: number[];
+  text: string;
+}
+
+/**
+ * Available vector store backends (VECTOR_STORE_BACKEND)
+ */
+export type VectorStoreBackend = 'chroma' | 'sqlite';
+
+/**
+ * Vector store interface implemented by every backend
+ */
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+
+  initialize(): Promise<void>;
+  healthCheck(): Promise<boolean>;
+
+  /**
+   * Add or replace a single vector
+   */
+  addDocument(id: string, embedding: number[], metadata: Record<string, any>, text: string): Promise<void>;
+
+  /**
+   * Store one vector per chunk of a content item, replacing previous vectors
+   */
+  addDocumentChunks(contentId: string, chunks: EmbeddedChunk[], metadata: Record<string, any>): Promise<void>;
+
+  /**
+   * Query chunk vectors by similarity (score: 1 = identical, 0 = opposite)
+   */
+  queryByEmbedding(embedding: number[], limit?: number, userId?: string | null): Promise<QueryResult[]>;
+
+  /**
+   * Delete all vectors of a content item
+   */
+  deleteDocument(id: string): Promise<void>;
+
+  /**
+   * Merge metadata into all vectors of a content item without re-embedding
+   * @returns Number of updated vectors (0 when the content has no vectors)
+   */
+  updateMetadata(contentId: string, metadata: Record<string, any>): Promise<number>;
+
+  getDocument(id: string): Promise<VectorDocument | null>;
+
+  /**
+   * Get all vectors of a content item (ordered by chunk)
+   */
+  getContentVectors(contentId: string): Promise<VectorDocument[]>;
+
+  /**
+   * List stored vectors page by page (used to migrate between backends)
+   */
+  listDocuments(offset: number, limit: number): Promise<VectorDocument[]>;
+
+  getStats(): Promise<{ count: number; isConnected: boolean }>;
+}
+
 /**
  * Vector store service configuration
  */
@@ -41,7 +110,8 @@ interface VectorStoreConfig {
  * Vector Store Service
  * Singleton pattern - use getInstance() to get the instance
  */
-export class VectorStoreService {
+export class VectorStoreService implements VectorStore {
+  public readonly backend = 'chroma' as const;
   private static instance: VectorStoreService | null = null;
   private client: ChromaClient;
   private collection: Collection | null = null;
@@ -166,7 +236,7 @@ export class VectorStoreService {
         throw new Error('Collection not initialized');
       }
 
-      await this.collection.add({
+      await this.collection.upsert({
         ids: [id],
         embeddings: [embedding],
         metadatas: [metadata],
@@ -185,6 +255,55 @@ export class VectorStoreService {
     }
   }
 
+  /**
+   * Store one vector per chunk of a content item
+   * Replaces any vectors previously stored for the content
+   *
+   * @param contentId - Content ID the chunks belong to
+   * @param chunks - Chunk texts with their embeddings (in document order)
+   * @param metadata - Metadata shared by all chunks
+   */
+  async addDocumentChunks(
+    contentId: string,
+    chunks: EmbeddedChunk[],
+    metadata: Record<string, any>
+  ): Promise<void> {
+    try {
+      if (!this.collection) {
+        await this.initialize();
+      }
+
+      if (!this.collection) {
+        throw new Error('Collection not initialized');
+      }
+
+      // Remove vectors from a previous embedding run (may have had more chunks)
+      await this.deleteDocument(contentId);
+
+      await this.collection.add({
+        ids: chunks.map((_, index) => getChunkId(contentId, index)),
+        embeddings: chunks.map((chunk) => chunk.embedding),
+        metadatas: chunks.map((_, index) => ({
+          ...metadata,
+          content_id: contentId,
+          chunk_index: index,
+          chunk_count: chunks.length,
+        })),
+        documents: chunks.map((chunk) => chunk.text),
+      });
+
+      logger.debug('Document chunks added to ChromaDB', { contentId, chunkCount: chunks.length });
+    } catch (error) {
+      logger.error('Failed to add document chunks to ChromaDB', {
+        contentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error(
+        `Failed to add document chunks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Query documents by embedding vector
    * @param embedding - The embedding vector to search with
@@ -236,12 +355,16 @@ export class VectorStoreService {
 
           const id = results.ids[0][i];
           const text = results.documents[0][i];
+          const metadata = (results.metadatas[0][i] ?? {}) as Record<string, any>;
 
           if (id && text) {
             queryResults.push({
               id,
+              // Documents stored before chunking use the content ID as vector ID
+              contentId: typeof metadata.content_id === 'string' ? metadata.content_id : id,
+              chunkIndex: typeof metadata.chunk_index === 'number' ? metadata.chunk_index : 0,
               score: similarity,
-              metadata: results.metadatas[0][i] as Record<string, any>,
+              metadata,
               text,
             });
           }
@@ -262,7 +385,8 @@ export class VectorStoreService {
   }
 
   /**
-   * Delete a document from the collection
+   * Delete all vectors of a content item from the collection
+   * Removes both chunk vectors and a legacy single vector stored under the content ID
    */
   async deleteDocument(id: string): Promise<void> {
     try {
@@ -277,6 +401,9 @@ export class VectorStoreService {
       await this.collection.delete({
         ids: [id],
       });
+      await this.collection.delete({
+        where: { content_id: id },
+      });
 
       logger.debug('Document deleted from ChromaDB', { id });
     } catch (error) {
@@ -290,6 +417,106 @@ export class VectorStoreService {
     }
   }
 
+  /**
+   * Merge metadata into all vectors of a content item
+   * Covers both chunk vectors and a legacy single vector stored under the content ID
+   */
+  async updateMetadata(contentId: string, metadata: Record<string, any>): Promise<number> {
+    try {
+      if (!this.collection) {
+        await this.initialize();
+      }
+
+      if (!this.collection) {
+        throw new Error('Collection not initialized');
+      }
+
+      const chunks = await this.collection.get({
+        where: { content_id: contentId },
+        include: ['metadatas' as any],
+      });
+      const legacy = await this.collection.get({
+        ids: [contentId],
+        include: ['metadatas' as any],
+      });
+
+      const ids: string[] = [];
+      const metadatas: Record<string, any>[] = [];
+      for (const results of [chunks, legacy]) {
+        results.ids.forEach((id, i) => {
+          if (ids.includes(id)) {
+            return;
+          }
+          ids.push(id);
+          metadatas.push({ ...(results.metadatas?.[i] ?? {}), ...metadata });
+        });
+      }
+
+      if (ids.length > 0) {
+        await this.collection.update({ ids, metadatas });
+      }
+
+      logger.debug('Document metadata updated in ChromaDB', { contentId, updated: ids.length });
+
+      return ids.length;
+    } catch (error) {
+      logger.error('Failed to update document metadata in ChromaDB', {
+        contentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error(
+        `Failed to update document metadata: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get all vectors of a content item, including a legacy unchunked vector
+   */
+  async getContentVectors(contentId: string): Promise<VectorDocument[]> {
+    try {
+      if (!this.collection) {
+        await this.initialize();
+      }
+
+      if (!this.collection) {
+        throw new Error('Collection not initialized');
+      }
+
+      const include = ['embeddings' as any, 'metadatas' as any, 'documents' as any];
+      const chunks = await this.collection.get({ where: { content_id: contentId }, include });
+      const legacy = await this.collection.get({ ids: [contentId], include });
+
+      const documents: VectorDocument[] = [];
+      for (const results of [chunks, legacy]) {
+        results.ids.forEach((id, i) => {
+          const embedding = results.embeddings?.[i];
+          if (!embedding || documents.some((document) => document.id === id)) {
+            return;
+          }
+          documents.push({
+            id,
+            embedding: embedding as number[],
+            metadata: (results.metadatas?.[i] ?? {}) as Record<string, any>,
+            text: results.documents?.[i] ?? '',
+          });
+        });
+      }
+
+      return documents.sort(
+        (a, b) => (Number(a.metadata.chunk_index) || 0) - (Number(b.metadata.chunk_index) || 0)
+      );
+    } catch (error) {
+      logger.error('Failed to get content vectors from ChromaDB', {
+        contentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error(
+        `Failed to get content vectors: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Get a document by ID
    */
@@ -336,6 +563,52 @@ export class VectorStoreService {
     }
   }
 
+  /**
+   * List stored documents with embeddings, page by page
+   */
+  async listDocuments(offset: number, limit: number): Promise<VectorDocument[]> {
+    try {
+      if (!this.collection) {
+        await this.initialize();
+      }
+
+      if (!this.collection) {
+        throw new Error('Collection not initialized');
+      }
+
+      const results = await this.collection.get({
+        offset,
+        limit,
+        include: ['embeddings' as any, 'metadatas' as any, 'documents' as any],
+      });
+
+      const documents: VectorDocument[] = [];
+      results.ids.forEach((id, i) => {
+        const embedding = results.embeddings?.[i];
+        if (!embedding) {
+          return;
+        }
+        documents.push({
+          id,
+          embedding: embedding as number[],
+          metadata: (results.metadatas?.[i] ?? {}) as Record<string, any>,
+          text: results.documents?.[i] ?? '',
+        });
+      });
+
+      return documents;
+    } catch (error) {
+      logger.error('Failed to list documents from ChromaDB', {
+        offset,
+        limit,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error(
+        `Failed to list documents: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Get collection stats
    */
@@ -373,3 +646,13 @@ export function getVectorStoreService(): VectorStoreService {
     collectionName: 'knowledge_base',
   });
 }
+
+/**
+ * Get the vector store for a backend (defaults to VECTOR_STORE_BACKEND)
+ */
+export function getVectorStore(backend: VectorStoreBackend = config.vectorStoreBackend): VectorStore {
+  if (backend === 'sqlite') {
+    return SqliteVectorStore.getInstance(getDatabaseService());
+  }
+  return getVectorStoreService();
+}
@@ -0,0 +1,313 @@
+/**
+ * KURA Notes - Web Capture Service
+ *
+ * Fetches web pages for capture by URL:
+ * - Follows redirects, with a timeout and a size limit
+ * - Refuses loopback, private and link-local addresses, on every redirect hop
+ * - Extracts the readable text (Markdown) and title of HTML pages
+ * - Keeps plain text and Markdown pages as they are
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { extractReadableContent } from '../utils/readability.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * User agent sent when fetching pages
+ */
+const USER_AGENT = 'KURA-Notes/1.0 (web capture)';
+
+/**
+ * Content types captured as HTML or as plain text
+ */
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const TEXT_TYPES = ['text/plain', 'text/markdown'];
+
+/**
+ * Maximum number of redirects followed for one page
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Addresses that are not on the public internet: loopback, private networks (RFC 1918,
+ * carrier-grade NAT, IPv6 unique-local), link-local (incl. cloud metadata endpoints) and multicast
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Web capture service configuration
+ */
+export interface WebCaptureConfig {
+  timeout: number; // Milliseconds before a fetch is aborted
+  maxSize: number; // Maximum page size in bytes
+  allowPrivate: boolean; // Allow loopback, private and link-local addresses
+}
+
+/**
+ * Fetched web page
+ */
+export interface WebPage {
+  url: string; // Address after redirects
+  title: string | null;
+  text: string; // Readable text (Markdown)
+  html: string | null; // Page HTML (null for plain text pages)
+}
+
+/**
+ * Result of fetching a web page
+ */
+export interface WebFetchResult {
+  success: boolean;
+  page?: WebPage;
+  error?: string;
+}
+
+/**
+ * Check that a URL is an absolute HTTP(S) address
+ */
+export function isWebUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether an IP address is not on the public internet
+ * (IPv4-mapped IPv6 addresses such as `::ffff:127.0.0.1` are matched against the IPv4 ranges)
+ */
+export function isPrivateAddress(address: string): boolean {
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Web capture service class
+ * Singleton pattern - use getInstance() to get the instance
+ */
+export class WebCaptureService {
+  private static instance: WebCaptureService | null = null;
+  private config: WebCaptureConfig;
+
+  /**
+   * Private constructor - use getInstance() instead
+   */
+  private constructor(config: WebCaptureConfig) {
+    this.config = config;
+    logger.debug('WebCaptureService initialized', { ...config });
+  }
+
+  /**
+   * Get or create web capture service instance (singleton)
+   */
+  public static getInstance(config?: WebCaptureConfig): WebCaptureService {
+    if (!WebCaptureService.instance) {
+      if (!config) {
+        throw new Error('WebCaptureConfig required for first initialization');
+      }
+      WebCaptureService.instance = new WebCaptureService(config);
+    }
+    return WebCaptureService.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    if (WebCaptureService.instance) {
+      logger.debug('Resetting WebCaptureService instance');
+      WebCaptureService.instance = null;
+    }
+  }
+
+  /**
+   * Fetch a web page and extract its readable text
+   * @param url - Absolute HTTP(S) address
+   */
+  public async fetchPage(url: string): Promise<WebFetchResult> {
+    if (!isWebUrl(url)) {
+      return { success: false, error: 'URL must be an absolute http or https address' };
+    }
+
+    logger.info('Fetching web page', { url });
+
+    try {
+      const signal = AbortSignal.timeout(this.config.timeout);
+      let currentUrl = url;
+      let response: Response;
+
+      // Follow redirects one hop at a time, so every address is checked
+      for (let redirects = 0; ; redirects++) {
+        const refused = await this.checkAddress(currentUrl);
+        if (refused) {
+          logger.warn('Refused to fetch web page', { url, currentUrl, reason: refused });
+          return { success: false, error: refused };
+        }
+
+        response = await fetch(currentUrl, {
+          redirect: 'manual',
+          signal,
+          headers: {
+            'User-Agent': USER_AGENT,
+            Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.1',
+          },
+        });
+
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+          break;
+        }
+
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+          return { success: false, error: `Page redirected more than ${MAX_REDIRECTS} times` };
+        }
+        currentUrl = new URL(location, currentUrl).href;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        return { success: false, error: `Page returned HTTP ${response.status}` };
+      }
+
+      const [mimeType, ...parameters] = (response.headers.get('content-type') ?? 'text/html')
+        .split(';')
+        .map((part) => part.trim().toLowerCase());
+      const isHtml = HTML_TYPES.includes(mimeType!);
+      if (!isHtml && !TEXT_TYPES.includes(mimeType!)) {
+        await response.body?.cancel();
+        return { success: false, error: `Unsupported page type: ${mimeType}` };
+      }
+
+      const body = await this.readBody(response);
+      if (body === null) {
+        return {
+          success: false,
+          error: `Page exceeds maximum size of ${Math.round(this.config.maxSize / 1024 / 1024)}MB`,
+        };
+      }
+
+      const charset = parameters.find((parameter) => parameter.startsWith('charset='))?.slice(8);
+      const source = decode(body, charset);
+      const finalUrl = currentUrl;
+
+      const page: WebPage = isHtml
+        ? { url: finalUrl, ...extractReadableContent(source, finalUrl), html: source }
+        : { url: finalUrl, title: null, text: source.trim(), html: null };
+
+      logger.info('Web page fetched', {
+        url: finalUrl,
+        mimeType,
+        size: body.length,
+        textLength: page.text.length,
+      });
+
+      return { success: true, page };
+    } catch (error) {
+      // Aborts are DOMExceptions, which are not Error instances everywhere
+      const { name, message: reason } = (error ?? {}) as { name?: string; message?: string };
+      const message =
+        name === 'TimeoutError'
+          ? `Page did not respond within ${this.config.timeout}ms`
+          : `Failed to fetch page: ${reason || 'Unknown error'}`;
+      logger.warn('Failed to fetch web page', { url, error: message });
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Check that a URL may be fetched: HTTP(S), and its host resolves only to public addresses
+   * (unless private addresses are allowed)
+   * @returns Why the URL is refused, or null if it may be fetched
+   */
+  private async checkAddress(url: string): Promise<string | null> {
+    if (!isWebUrl(url)) {
+      return 'URL must be an absolute http or https address';
+    }
+    if (this.config.allowPrivate) {
+      return null;
+    }
+
+    // IPv6 hosts are written in brackets
+    const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true, verbatim: true });
+
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return 'URL points to a private or local network address';
+    }
+    return null;
+  }
+
+  /**
+   * Read a response body, stopping at the size limit
+   * @returns The body, or null if it is too large
+   */
+  private async readBody(response: Response): Promise<Buffer | null> {
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > this.config.maxSize) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    if (response.body) {
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        size += value.length;
+        if (size > this.config.maxSize) {
+          await reader.cancel();
+          return null;
+        }
+        chunks.push(Buffer.from(value));
+      }
+    }
+
+    return Buffer.concat(chunks);
+  }
+}
+
+/**
+ * Decode a page in its declared charset (UTF-8 if unknown)
+ */
+function decode(body: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+}
+
+/**
+ * Export singleton instance getter
+ */
+export const getWebCaptureService = (config?: WebCaptureConfig): WebCaptureService => {
+  return WebCaptureService.getInstance(config);
+};
@@ -0,0 +1,28 @@
+/**
+ * KURA Notes - Content Hash Utility
+ *
+ * Fingerprints content for exact duplicate detection
+ */
+
+import { createHash } from 'crypto';
+import type { ContentType } from '../models/content.js';
+
+/**
+ * Compute the SHA-256 hash of content (hex)
+ * Text is normalized first (line endings and surrounding whitespace), so a note
+ * shared twice with a different trailing newline has the same hash
+ *
+ * @param content - Note text or file bytes
+ * @param contentType - Type of the content
+ */
+export function computeContentHash(content: string | Buffer, contentType: ContentType): string {
+  const hash = createHash('sha256');
+
+  if (contentType === 'text') {
+    hash.update(content.toString().replace(/\r\n?/g, '\n').trim(), 'utf8');
+  } else {
+    hash.update(content);
+  }
+
+  return hash.digest('hex');
+}
@@ -0,0 +1,105 @@
+/**
+ * KURA Notes - Text Diff Utility
+ *
+ * Line-based diff (longest common subsequence) used to compare content versions
+ */
+
+/**
+ * A single line of a diff
+ */
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Maximum LCS table size (lines x lines) before falling back to a
+ * plain "removed everything / added everything" diff
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Compute a line-based diff between two texts
+ *
+ * @param before - Old text (null is treated as empty)
+ * @param after - New text (null is treated as empty)
+ * @returns Diff lines in document order
+ */
+export function diffLines(before: string | null, after: string | null): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Common prefix and suffix don't need the LCS table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const head = a.slice(0, prefix).map((text): DiffLine => ({ type: 'equal', text }));
+  const tail = a.slice(a.length - suffix).map((text): DiffLine => ({ type: 'equal', text }));
+  const middle = diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Split text into lines (empty text has no lines)
+ */
+function splitLines(text: string | null): string[] {
+  if (!text) {
+    return [];
+  }
+  return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Diff two line arrays with an LCS table
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removed = a.map((text): DiffLine => ({ type: 'removed', text }));
+  const added = b.map((text): DiffLine => ({ type: 'added', text }));
+
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_DIFF_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1]! + 1
+          : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i]! });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      result.push({ type: 'removed', text: a[i]! });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[j]! });
+      j++;
+    }
+  }
+
+  return [...result, ...removed.slice(i), ...added.slice(j)];
+}
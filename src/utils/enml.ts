@@ -0,0 +1,59 @@
+/**
+ * KURA Notes - ENML Utility
+ *
+ * Converts ENML (the XHTML dialect of Evernote note bodies) to Markdown
+ */
+
+import TurndownService from 'turndown';
+
+/**
+ * Resolve an `<en-media>` reference (MD5 hash of the resource) to Markdown
+ * Returns null to drop the reference
+ */
+export type EnmlMediaResolver = (hash: string) => string | null;
+
+/**
+ * Evernote elements written as self-closing tags, which HTML parsing would
+ * otherwise treat as opening tags wrapping the rest of the note
+ */
+const SELF_CLOSING_ELEMENTS = /<(en-media|en-todo)\b([^>]*?)\/>/gi;
+
+/**
+ * Convert an ENML document to Markdown
+ *
+ * @param enml - Note content (`<en-note>` document)
+ * @param resolveMedia - Renders embedded resources
+ */
+export function enmlToMarkdown(enml: string, resolveMedia: EnmlMediaResolver): string {
+  const html = enml
+    .replace(/<\?xml[^>]*\?>/gi, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .replace(/<(\/?)en-note\b[^>]*>/gi, '<$1div>')
+    .replace(SELF_CLOSING_ELEMENTS, '<$1$2></$1>');
+
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '_',
+    // Media and checkboxes are empty elements, which never reach the rules
+    blankReplacement: (_content, node) => {
+      if (node.nodeName === 'EN-MEDIA') {
+        const hash = node.getAttribute('hash');
+        const markdown = hash ? resolveMedia(hash.toLowerCase()) : null;
+        return markdown ? `\n\n${markdown}\n\n` : '';
+      }
+      if (node.nodeName === 'EN-TODO') {
+        return node.getAttribute('checked') === 'true' ? '[x] ' : '[ ] ';
+      }
+      return node.isBlock ? '\n\n' : '';
+    },
+  });
+
+  turndown.addRule('enCrypt', {
+    filter: (node) => node.nodeName === 'EN-CRYPT',
+    replacement: () => '_[Encrypted content]_',
+  });
+
+  return turndown.turndown(html).trim();
+}
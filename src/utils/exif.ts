@@ -0,0 +1,98 @@
+/**
+ * KURA Notes - EXIF Utility
+ *
+ * Reads the capture date, camera, orientation and GPS position from the raw
+ * EXIF block of an image (as returned by sharp's metadata())
+ */
+
+import exifReader from 'exif-reader';
+import { logger } from './logger.js';
+import type { ImageLocation } from '../models/content.js';
+
+/**
+ * EXIF fields kept in image metadata
+ */
+export interface ExifData {
+  takenAt?: string; // ISO 8601; cameras record local time without a zone, stored as-is
+  cameraMake?: string;
+  cameraModel?: string;
+  orientation?: number; // EXIF orientation 1-8
+  location?: ImageLocation;
+}
+
+/**
+ * Convert degrees, minutes and seconds to signed decimal degrees
+ */
+function toDecimalDegrees(dms: number[] | undefined, ref: string | undefined): number | undefined {
+  if (!dms || dms.length === 0 || dms.some((value) => !Number.isFinite(value))) {
+    return undefined;
+  }
+
+  const [degrees = 0, minutes = 0, seconds = 0] = dms;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  const signed = ref === 'S' || ref === 'W' ? -decimal : decimal;
+
+  return Math.round(signed * 1e6) / 1e6;
+}
+
+/**
+ * Parse the EXIF block of an image
+ * Never throws - returns an empty object if there is no (readable) EXIF data
+ */
+export function parseExif(exifBuffer: Buffer | undefined): ExifData {
+  if (!exifBuffer || exifBuffer.length === 0) {
+    return {};
+  }
+
+  let exif: exifReader.Exif;
+  try {
+    exif = exifReader(exifBuffer);
+  } catch (error) {
+    logger.debug('Failed to parse EXIF data', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return {};
+  }
+
+  const data: ExifData = {};
+
+  const takenAt = exif.Photo?.DateTimeOriginal ?? exif.Image?.DateTime;
+  if (takenAt instanceof Date && !isNaN(takenAt.getTime())) {
+    data.takenAt = takenAt.toISOString();
+  }
+
+  const make = exif.Image?.Make?.trim();
+  const model = exif.Image?.Model?.trim();
+  if (make) {
+    data.cameraMake = make;
+  }
+  if (model) {
+    data.cameraModel = model;
+  }
+
+  const orientation = exif.Image?.Orientation;
+  if (typeof orientation === 'number' && orientation >= 1 && orientation <= 8) {
+    data.orientation = orientation;
+  }
+
+  const gps = exif.GPSInfo;
+  const latitude = toDecimalDegrees(gps?.GPSLatitude, gps?.GPSLatitudeRef);
+  const longitude = toDecimalDegrees(gps?.GPSLongitude, gps?.GPSLongitudeRef);
+  if (latitude !== undefined && longitude !== undefined) {
+    data.location = { latitude, longitude };
+
+    const altitude = gps?.GPSAltitude;
+    if (typeof altitude === 'number' && Number.isFinite(altitude)) {
+      data.location.altitude = gps?.GPSAltitudeRef === 1 ? -altitude : altitude;
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Whether an EXIF orientation swaps width and height (rotated by 90 or 270 degrees)
+ */
+export function isTransposedOrientation(orientation: number | undefined): boolean {
+  return orientation !== undefined && orientation >= 5 && orientation <= 8;
+}
@@ -94,6 +94,13 @@ export function inferMimeType(filename: string): string | undefined {
     gif: 'image/gif',
     webp: 'image/webp',
     pdf: 'application/pdf',
+    mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    aac: 'audio/aac',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    oga: 'audio/ogg',
+    weba: 'audio/webm',
   };
 
   return ext ? mimeTypeMap[ext] : undefined;
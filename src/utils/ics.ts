@@ -0,0 +1,117 @@
+/**
+ * KURA Notes - iCalendar Utility
+ *
+ * Builds iCalendar (RFC 5545) feeds for calendar apps
+ */
+
+/**
+ * Event of a calendar feed
+ */
+export interface IcsEvent {
+  uid: string; // Stable across feed refreshes so calendar apps update instead of duplicating
+  start: string; // ISO 8601
+  summary: string;
+  description?: string;
+  url?: string;
+  alarm?: string; // ISO 8601 time of a display alarm
+  updated?: string; // ISO 8601 (or SQLite datetime) of the last change, defaults to now
+}
+
+/**
+ * Lines longer than this many octets are folded (RFC 5545, section 3.1)
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (backslashes, semicolons, commas and newlines)
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n?|\n/g, '\\n');
+}
+
+/**
+ * Format a time as a UTC DATE-TIME value (e.g. 20260105T093000Z)
+ * @param value - ISO 8601 or SQLite datetime (UTC)
+ */
+export function formatIcsDate(value: string | Date): string {
+  // SQLite datetimes ("2026-01-05 09:30:00") are UTC but carry no zone
+  const date =
+    typeof value === 'string' ? new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`) : value;
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets
+ * Continuation lines start with a space; multi-byte characters are never split
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build an iCalendar document from events
+ * @param name - Calendar name shown by calendar apps
+ */
+export function buildIcsCalendar(name: string, events: IcsEvent[]): string {
+  const now = formatIcsDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//KURA Notes//Reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${event.updated ? formatIcsDate(event.updated) : now}`,
+      `DTSTART:${formatIcsDate(event.start)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    if (event.alarm) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER;VALUE=DATE-TIME:${formatIcsDate(event.alarm)}`,
+        `DESCRIPTION:${escapeIcsText(event.summary)}`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
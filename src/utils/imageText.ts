@@ -0,0 +1,24 @@
+/**
+ * KURA Notes - Image Text Utility
+ *
+ * Formats text recognized in images for storage in extracted_text
+ */
+
+import type { ImageText } from '../services/imageTextProviders/index.js';
+
+/**
+ * Render recognized image text, preceded by the caption if there is one
+ * Returns an empty string if nothing was recognized
+ */
+export function formatImageText(result: ImageText): string {
+  const parts: string[] = [];
+
+  if (result.caption) {
+    parts.push(`Caption: ${result.caption}`);
+  }
+  if (result.text) {
+    parts.push(result.text);
+  }
+
+  return parts.join('\n\n');
+}
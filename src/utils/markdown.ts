@@ -0,0 +1,233 @@
+/**
+ * KURA Notes - Markdown Utility
+ *
+ * Helpers for Obsidian-compatible Markdown files (YAML frontmatter, file names)
+ */
+
+/**
+ * Frontmatter values that can be written
+ */
+export type FrontmatterValue = string | number | boolean | null | string[];
+
+/**
+ * Characters Obsidian does not allow in note and attachment names
+ */
+const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|#^[\]\u0000-\u001f]/g;
+
+/**
+ * Maximum length of a generated file name (without extension)
+ */
+const MAX_FILENAME_LENGTH = 100;
+
+/**
+ * Serialize a YAML string scalar (double-quoted when plain style would be ambiguous)
+ */
+function yamlString(value: string): string {
+  const plain =
+    /^[A-Za-z0-9_][A-Za-z0-9_ .\-/]*$/.test(value) &&
+    !/^(true|false|yes|no|on|off|null|~)$/i.test(value) &&
+    !/^[0-9.\-]+$/.test(value) &&
+    !value.endsWith(' ');
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Serialize fields as a YAML frontmatter block (including the `---` fences)
+ * Undefined fields are skipped; arrays are written as block lists
+ *
+ * @param fields - Frontmatter fields in output order
+ */
+export function serializeFrontmatter(fields: Record<string, FrontmatterValue | undefined>): string {
+  const lines = ['---'];
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        lines.push(`${key}: []`);
+      } else {
+        lines.push(`${key}:`);
+        for (const item of value) {
+          lines.push(`  - ${yamlString(item)}`);
+        }
+      }
+    } else if (value === null) {
+      lines.push(`${key}: null`);
+    } else if (typeof value === 'string') {
+      lines.push(`${key}: ${yamlString(value)}`);
+    } else {
+      lines.push(`${key}: ${String(value)}`);
+    }
+  }
+
+  lines.push('---');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Turn a title into a file name that is valid on all platforms and in Obsidian
+ *
+ * @param title - Title to convert
+ * @param fallback - Name to use when nothing usable is left of the title
+ */
+export function toSafeFilename(title: string | null | undefined, fallback: string): string {
+  const name = (title || '')
+    .replace(UNSAFE_FILENAME_CHARS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, MAX_FILENAME_LENGTH)
+    .trim();
+
+  return name || fallback;
+}
+
+/**
+ * Hands out unique file names within an archive folder
+ * A name that was already used gets a numbered suffix: `Note.md`, `Note 2.md`, ...
+ */
+export class UniqueFilenames {
+  private used = new Set<string>();
+
+  /**
+   * Reserve a unique name
+   *
+   * @param base - File name without extension
+   * @param extension - Extension including the dot (e.g. `.md`), or empty
+   */
+  public reserve(base: string, extension: string): string {
+    let candidate = `${base}${extension}`;
+    for (let n = 2; this.used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} ${n}${extension}`;
+    }
+    this.used.add(candidate.toLowerCase());
+    return candidate;
+  }
+}
+
+/**
+ * Parse a YAML scalar as written in frontmatter (quoted or plain)
+ */
+function parseYamlScalar(raw: string): string | null {
+  const value = raw.trim();
+
+  if (value === '' || value === '~' || value === 'null') {
+    return null;
+  }
+
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+
+  // Strip trailing comments from plain scalars
+  return value.replace(/\s+#.*$/, '');
+}
+
+/**
+ * Parse a YAML flow sequence (`[a, "b, c"]`)
+ */
+function parseYamlFlowList(raw: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of raw.trim().slice(1, -1)) {
+    if (quote) {
+      current += char;
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      current += char;
+      quote = char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map(parseYamlScalar).filter((item): item is string => item !== null);
+}
+
+/**
+ * Split a Markdown document into its YAML frontmatter fields and body
+ *
+ * Supports the subset of YAML used by Obsidian properties: `key: value` pairs with
+ * plain or quoted scalars, flow lists (`[a, b]`) and block lists (`- a`). Nested
+ * mappings and multi-line scalars are ignored. Documents without a frontmatter
+ * block are returned as body only.
+ *
+ * @param text - Markdown document
+ */
+export function parseFrontmatter(text: string): {
+  fields: Record<string, string | string[] | null>;
+  body: string;
+} {
+  const source = text.replace(/^\uFEFF/, '');
+  const match = /^---\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/.exec(source);
+
+  if (!match) {
+    return { fields: {}, body: source };
+  }
+
+  const fields: Record<string, string | string[] | null> = {};
+  const emptyKeys: string[] = [];
+  let listKey: string | null = null;
+
+  for (const line of (match[1] ?? '').split(/\r?\n/)) {
+    const item = /^\s*-\s*(.*)$/.exec(line);
+    if (item && listKey) {
+      const value = parseYamlScalar(item[1] ?? '');
+      if (value !== null) {
+        (fields[listKey] as string[]).push(value);
+      }
+      continue;
+    }
+
+    const pair = /^([A-Za-z0-9_][\w .-]*?)\s*:(?:\s+(.*))?$/.exec(line);
+    if (!pair) {
+      listKey = null;
+      continue;
+    }
+
+    const key = pair[1]!;
+    const raw = (pair[2] ?? '').trim();
+
+    if (raw === '') {
+      // Either an empty value or the start of a block list
+      fields[key] = [];
+      emptyKeys.push(key);
+      listKey = key;
+    } else if (raw.startsWith('[') && raw.endsWith(']')) {
+      fields[key] = parseYamlFlowList(raw);
+      listKey = null;
+    } else {
+      fields[key] = parseYamlScalar(raw);
+      listKey = null;
+    }
+  }
+
+  // Keys without a value or list items are empty
+  for (const key of emptyKeys) {
+    const value = fields[key];
+    if (Array.isArray(value) && value.length === 0) {
+      fields[key] = null;
+    }
+  }
+
+  return { fields, body: source.slice(match[0].length) };
+}
@@ -0,0 +1,157 @@
+/**
+ * KURA Notes - Readability Utility
+ *
+ * Extracts the readable text of a web page as Markdown: the article (or main
+ * content) without scripts, navigation, sidebars and other page chrome
+ */
+
+import TurndownService from 'turndown';
+
+/**
+ * Readable content of a web page
+ */
+export interface ReadableContent {
+  title: string | null;
+  text: string; // Markdown
+}
+
+/**
+ * Elements that never hold readable text (removed before parsing)
+ */
+const HIDDEN_ELEMENTS = /<(script|style|noscript|template|svg|iframe|object|canvas)\b[\s\S]*?<\/\1\s*>/gi;
+
+/**
+ * Page chrome recognised by a class or ID, e.g. "site-footer" or "comments"
+ */
+const BOILERPLATE = /(^|[-_])(nav|navbar|menu|sidebar|comments?|share|sharing|social|ads?|advert|advertisement|promo|cookies?|consent|banner|related|subscribe|newsletter|footer|breadcrumbs?|popup|modal)$/i;
+
+/**
+ * Named entities decoded in titles (the rest of the page is decoded by the HTML parser)
+ */
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+/**
+ * Decode HTML entities and collapse whitespace
+ */
+function decodeText(text: string): string {
+  return text
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity.startsWith('#')) {
+        const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+      }
+      return ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Read the attributes of an opening tag
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]!.toLowerCase()] = match[2] ?? match[3] ?? '';
+  }
+  return attributes;
+}
+
+/**
+ * Find the title of a page: Open Graph title, then <title>, then the first <h1>
+ */
+function extractTitle(html: string): string | null {
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    if ((attributes.property ?? attributes.name) === 'og:title' && attributes.content?.trim()) {
+      return decodeText(attributes.content);
+    }
+  }
+
+  for (const pattern of [/<title\b[^>]*>([\s\S]*?)<\/title>/i, /<h1\b[^>]*>([\s\S]*?)<\/h1>/i]) {
+    const text = decodeText(html.match(pattern)?.[1]?.replace(/<[^>]*>/g, '') ?? '');
+    if (text) {
+      return text;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Select the HTML holding the readable content: the article, else the main
+ * element, else the body. Headers are only page chrome outside an article.
+ */
+function selectContent(html: string): { html: string; inArticle: boolean } {
+  for (const tag of ['article', 'main']) {
+    const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)</${tag}\\s*>`, 'i'));
+    if (match?.[1]?.trim()) {
+      return { html: match[1], inArticle: tag === 'article' };
+    }
+  }
+
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body\s*>/i)?.[1];
+  return { html: body ?? html, inArticle: false };
+}
+
+/**
+ * Make link and image addresses absolute, so they still work outside the page
+ */
+function resolveUrls(html: string, baseUrl: string): string {
+  return html.replace(/\b(href|src)\s*=\s*(["'])(.*?)\2/gi, (match, attribute: string, quote: string, value: string) => {
+    try {
+      return `${attribute}=${quote}${new URL(decodeText(value), baseUrl).href}${quote}`;
+    } catch {
+      return match;
+    }
+  });
+}
+
+/**
+ * Extract the readable content of a web page
+ *
+ * @param html - Page HTML
+ * @param baseUrl - Address of the page, for resolving relative links
+ */
+export function extractReadableContent(html: string, baseUrl: string): ReadableContent {
+  const cleaned = html.replace(/<!--[\s\S]*?-->/g, '').replace(HIDDEN_ELEMENTS, '');
+  const content = selectContent(cleaned);
+
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '_',
+  });
+
+  turndown.remove(['nav', 'aside', 'footer', 'form', 'button', 'input', 'select', 'textarea', 'dialog']);
+  if (!content.inArticle) {
+    turndown.remove('header');
+  }
+  turndown.remove((node) =>
+    [...(node.getAttribute('class') ?? '').split(/\s+/), node.getAttribute('id') ?? ''].some(
+      (name) => name !== '' && BOILERPLATE.test(name)
+    )
+  );
+
+  const text = turndown
+    .turndown(resolveUrls(content.html, baseUrl))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title: extractTitle(cleaned), text };
+}
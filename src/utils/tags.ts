@@ -0,0 +1,42 @@
+/**
+ * KURA Notes - Tag Utility
+ *
+ * Helpers for hierarchical tags: `project/kura/api` is nested in `project/kura`,
+ * which is nested in `project`
+ */
+
+/**
+ * Separator between the levels of a nested tag
+ */
+export const TAG_SEPARATOR = '/';
+
+/**
+ * Valid tag: letters, numbers, dashes and underscores, with `/` between levels
+ */
+export const TAG_PATTERN = /^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/;
+
+/**
+ * Check whether a tag is a namespace or nested in it
+ * (`project/kura/api` and `project/kura` are in `project/kura`, `project/kurator` is not)
+ */
+export function isTagInNamespace(tag: string, namespace: string): boolean {
+  return tag === namespace || tag.startsWith(namespace + TAG_SEPARATOR);
+}
+
+/**
+ * Move a tag from one namespace to another, keeping its nested levels
+ * (`project/kura/api` moved from `project` to `work` becomes `work/kura/api`)
+ * @returns The moved tag, or the tag itself if it is not in the namespace
+ */
+export function moveTagNamespace(tag: string, from: string, to: string): string {
+  return isTagInNamespace(tag, from) ? to + tag.slice(from.length) : tag;
+}
+
+/**
+ * Get a tag and the namespaces it is nested in, outermost first
+ * (`project/kura/api` gives `project`, `project/kura` and `project/kura/api`)
+ */
+export function getTagPath(tag: string): string[] {
+  const levels = tag.split(TAG_SEPARATOR);
+  return levels.map((_, i) => levels.slice(0, i + 1).join(TAG_SEPARATOR));
+}
@@ -0,0 +1,108 @@
+/**
+ * KURA Notes - Text Chunking Utility
+ *
+ * Splits long text into overlapping chunks for embedding generation
+ * so that content beyond the embedding model's input limit stays searchable
+ */
+
+/**
+ * Chunking options
+ */
+export interface ChunkOptions {
+  chunkSize: number; // Maximum characters per chunk
+  overlap: number; // Characters shared between consecutive chunks
+}
+
+/**
+ * A single chunk of text
+ */
+export interface TextChunk {
+  index: number; // 0-based position of the chunk
+  text: string;
+  start: number; // Character offset in the original text
+}
+
+/**
+ * Default chunking options (well below the embedding service's 8000 char limit)
+ */
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  chunkSize: 2000,
+  overlap: 200,
+};
+
+/**
+ * Build the vector ID for a chunk of a content item
+ */
+export function getChunkId(contentId: string, chunkIndex: number): string {
+  return `${contentId}#chunk-${chunkIndex}`;
+}
+
+/**
+ * Split text into overlapping chunks
+ * Chunk boundaries prefer paragraph, sentence, then word breaks
+ *
+ * @param text - Text to split
+ * @param options - Chunk size and overlap
+ * @returns Chunks in document order (a single chunk for short text)
+ */
+export function chunkText(text: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): TextChunk[] {
+  const { chunkSize } = options;
+  const overlap = Math.max(0, Math.min(options.overlap, Math.floor(chunkSize / 2)));
+  const normalized = text.trim();
+
+  if (normalized.length === 0) {
+    return [];
+  }
+
+  if (normalized.length <= chunkSize) {
+    return [{ index: 0, text: normalized, start: 0 }];
+  }
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + chunkSize, normalized.length);
+
+    if (end < normalized.length) {
+      end = findBreakPoint(normalized, start, end, overlap);
+    }
+
+    const chunk = normalized.substring(start, end).trim();
+    if (chunk.length > 0) {
+      chunks.push({ index: chunks.length, text: chunk, start });
+    }
+
+    if (end >= normalized.length) {
+      break;
+    }
+
+    // Step back by the overlap, then skip forward to the next word start
+    let next = Math.max(end - overlap, start + 1);
+    while (next < end && !/\s/.test(normalized.charAt(next - 1))) {
+      next++;
+    }
+    start = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * Find the best position to end a chunk, searching backwards from `end`
+ * Never returns a position that would make the chunk shorter than the overlap
+ */
+function findBreakPoint(text: string, start: number, end: number, overlap: number): number {
+  const minEnd = start + Math.max(overlap + 1, Math.floor((end - start) / 2));
+  const window = text.substring(minEnd, end);
+
+  const separators = ['\n\n', '\n', '. ', '! ', '? ', ' '];
+  for (const separator of separators) {
+    const position = window.lastIndexOf(separator);
+    if (position !== -1) {
+      return minEnd + position + separator.length;
+    }
+  }
+
+  return end;
+}
@@ -0,0 +1,57 @@
+/**
+ * KURA Notes - Text Edit Utility
+ *
+ * Applies find/replace edits to the body of a text note
+ */
+
+/**
+ * A single find/replace edit
+ */
+export interface TextEdit {
+  find: string; // Exact text to replace (must occur exactly once)
+  replace: string;
+}
+
+/**
+ * Result of applying edits
+ */
+export interface ApplyEditsResult {
+  success: boolean;
+  text?: string;
+  error?: string;
+}
+
+/**
+ * Apply edits in order, each one to the result of the previous edit
+ * Every `find` must occur exactly once so an edit can never change the wrong place
+ *
+ * @param text - Original text
+ * @param edits - Edits to apply
+ * @returns The edited text, or the first edit that could not be applied
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): ApplyEditsResult {
+  let result = text;
+
+  for (let i = 0; i < edits.length; i++) {
+    const { find, replace } = edits[i]!;
+
+    if (find.length === 0) {
+      return { success: false, error: `Edit ${i + 1}: text to find cannot be empty` };
+    }
+
+    const first = result.indexOf(find);
+    if (first === -1) {
+      return { success: false, error: `Edit ${i + 1}: text to find was not found` };
+    }
+    if (result.indexOf(find, first + 1) !== -1) {
+      return {
+        success: false,
+        error: `Edit ${i + 1}: text to find occurs more than once - include more surrounding text`,
+      };
+    }
+
+    result = result.slice(0, first) + replace + result.slice(first + find.length);
+  }
+
+  return { success: true, text: result };
+}
@@ -3,8 +3,9 @@
  *
  * Extracts text from different content types for embedding generation
  * - Text: full content
- * - Images: annotation only (no OCR yet)
- * - PDFs: filename + annotation (no text extraction yet)
+ * - Images: title/filename + recognized text (OCR) + annotation
+ * - PDFs: title/filename + extracted page text + annotation
+ * - Audio: title/filename + transcript + annotation
  */
 
 import { logger } from './logger.js';
@@ -18,6 +19,7 @@ import type { ContentType } from '../models/content.js';
  * @param annotation - User-provided annotation/context
  * @param title - Content title
  * @param originalFilename - Original filename (for PDFs/images)
+ * @param fileText - Text already extracted from the file (PDF page text, audio transcript, image text)
  * @returns Extracted text suitable for embedding generation
  */
 export function extractTextForEmbedding(
@@ -25,7 +27,8 @@ export function extractTextForEmbedding(
   content: string | Buffer,
   annotation?: string | null,
   title?: string | null,
-  originalFilename?: string
+  originalFilename?: string,
+  fileText?: string
 ): string {
   logger.debug('Extracting text for embedding', {
     contentType,
@@ -58,8 +61,7 @@ export function extractTextForEmbedding(
       break;
 
     case 'image':
-      // For images, use annotation only (no OCR yet)
-      // Include title if available
+      // For images, use title/filename + recognized text + annotation
       const imageParts: string[] = [];
 
       if (title) {
@@ -70,6 +72,10 @@ export function extractTextForEmbedding(
         imageParts.push('Image');
       }
 
+      if (fileText && fileText.trim()) {
+        imageParts.push(fileText.trim());
+      }
+
       if (annotation) {
         imageParts.push(annotation);
       }
@@ -83,7 +89,7 @@ export function extractTextForEmbedding(
       break;
 
     case 'pdf':
-      // For PDFs, use filename + annotation (no text extraction yet)
+      // For PDFs, use title/filename + extracted page text + annotation
       const pdfParts: string[] = [];
 
       if (title) {
@@ -94,6 +100,10 @@ export function extractTextForEmbedding(
         pdfParts.push('PDF Document');
       }
 
+      if (fileText && fileText.trim()) {
+        pdfParts.push(fileText.trim());
+      }
+
       if (annotation) {
         pdfParts.push(annotation);
       }
@@ -107,7 +117,7 @@ export function extractTextForEmbedding(
       break;
 
     case 'audio':
-      // For audio, use annotation only (no transcription yet)
+      // For audio, use title/filename + transcript + annotation
       const audioParts: string[] = [];
 
       if (title) {
@@ -118,6 +128,10 @@ export function extractTextForEmbedding(
         audioParts.push('Audio');
       }
 
+      if (fileText && fileText.trim()) {
+        audioParts.push(fileText.trim());
+      }
+
       if (annotation) {
         audioParts.push(annotation);
       }
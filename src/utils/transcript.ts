@@ -0,0 +1,32 @@
+/**
+ * KURA Notes - Transcript Utility
+ *
+ * Formats audio transcripts as text with timestamps, e.g. "[1:05] Next topic"
+ */
+
+import type { Transcript } from '../services/transcriptionProviders/index.js';
+
+/**
+ * Format seconds as m:ss, or h:mm:ss for long recordings
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Render a transcript with one timestamped line per segment
+ * Transcripts without segments are returned as plain text
+ */
+export function formatTranscript(transcript: Transcript): string {
+  const segments = transcript.segments.filter((segment) => segment.text.length > 0);
+  if (segments.length === 0) {
+    return transcript.text;
+  }
+
+  return segments.map((segment) => `[${formatTimestamp(segment.start)}] ${segment.text}`).join('\n');
+}
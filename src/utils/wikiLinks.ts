@@ -0,0 +1,103 @@
+/**
+ * KURA Notes - Wiki Link Utility
+ *
+ * Parses wiki-style links between notes: [[Title]], [[id]], [[Title|alias]]
+ * and [[Title#Heading]]. Embeds (![[file]]) and links inside code are ignored.
+ */
+
+/**
+ * Wiki link found in a note
+ */
+export interface WikiLink {
+  target: string; // Title or content ID, without heading and alias
+  heading: string | null;
+  alias: string | null;
+}
+
+/**
+ * Wiki link or embed (embeds start with !)
+ */
+const WIKI_LINK = /(!?)\[\[([^[\]\n]+)\]\]/g;
+
+/**
+ * Fenced code blocks and inline code, where [[...]] is not a link
+ */
+const CODE = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$|`[^`\n]*`/gm;
+
+/**
+ * Blank out code so link positions in the text stay the same
+ */
+function maskCode(text: string): string {
+  return text.replace(CODE, (match) => match.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Parse the inside of [[...]] into its target, heading and alias
+ */
+function parseLink(inner: string): WikiLink | null {
+  const pipe = inner.indexOf('|');
+  const destination = pipe === -1 ? inner : inner.slice(0, pipe);
+  const alias = pipe === -1 ? null : inner.slice(pipe + 1).trim() || null;
+
+  const hash = destination.indexOf('#');
+  const target = (hash === -1 ? destination : destination.slice(0, hash)).trim();
+  const heading = hash === -1 ? null : destination.slice(hash + 1).trim() || null;
+
+  // [[#Heading]] links within the same note
+  if (target.length === 0) {
+    return null;
+  }
+
+  return { target, heading, alias };
+}
+
+/**
+ * Find the wiki links in a note
+ * Each target is returned once (compared case-insensitively), in order of first appearance
+ *
+ * @param text - Note text (Markdown)
+ */
+export function parseWikiLinks(text: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  const seen = new Set<string>();
+
+  for (const match of maskCode(text).matchAll(WIKI_LINK)) {
+    if (match[1] === '!') {
+      continue;
+    }
+
+    const link = parseLink(match[2] ?? '');
+    if (link && !seen.has(link.target.toLowerCase())) {
+      seen.add(link.target.toLowerCase());
+      links.push(link);
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Get the text around the first link to a target, for showing backlinks in context
+ *
+ * @param text - Note text (Markdown)
+ * @param target - Link target (title or content ID)
+ * @param radius - Characters to include before and after the link
+ * @returns The surrounding text, or null if the note does not link to the target
+ */
+export function getLinkContext(text: string, target: string, radius = 80): string | null {
+  const wanted = target.toLowerCase();
+
+  for (const match of maskCode(text).matchAll(WIKI_LINK)) {
+    const link = match[1] === '!' ? null : parseLink(match[2] ?? '');
+    if (!link || link.target.toLowerCase() !== wanted) {
+      continue;
+    }
+
+    const start = Math.max(0, match.index - radius);
+    const end = Math.min(text.length, match.index + match[0].length + radius);
+    const context = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${context}${end < text.length ? '…' : ''}`;
+  }
+
+  return null;
+}
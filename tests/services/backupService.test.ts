@@ -0,0 +1,280 @@
+/**
+ * Backup Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import archiver from 'archiver';
+import yauzl from 'yauzl';
+import { BackupService } from '../../src/services/backupService.js';
+import { EmbeddingPipelineService } from '../../src/services/embeddingPipeline.js';
+import { EmbeddingService } from '../../src/services/embeddingService.js';
+import { SqliteVectorStore } from '../../src/services/sqliteVectorStore.js';
+import { FileStorageService } from '../../src/services/fileStorage.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+import { logger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+describe('BackupService', () => {
+  let db: DatabaseService;
+  let fileStorage: FileStorageService;
+  let vectorStore: SqliteVectorStore;
+  let backupService: BackupService;
+  const testBaseDir = path.join(__dirname, '../../test-data-backup');
+  const testDbPath = path.join(testBaseDir, 'test-backup.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    FileStorageService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    BackupService.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    fileStorage = FileStorageService.getInstance({ baseDirectory: testBaseDir, logger }, db);
+    vectorStore = SqliteVectorStore.getInstance(db);
+
+    const embeddingService = { isAvailable: () => false } as unknown as EmbeddingService;
+    const pipeline = new EmbeddingPipelineService(embeddingService, vectorStore, db);
+    backupService = BackupService.getInstance(db, fileStorage, vectorStore, pipeline);
+  });
+
+  afterEach(() => {
+    BackupService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    FileStorageService.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  async function toBuffer(archive: archiver.Archiver): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const done = new Promise((resolve) => archive.on('end', resolve));
+    await archive.finalize();
+    await done;
+    return Buffer.concat(chunks);
+  }
+
+  async function createBackup(userId?: string): Promise<Buffer> {
+    const { archive } = await backupService.createBackup(userId);
+    return toBuffer(archive);
+  }
+
+  /**
+   * Read every entry of a zip archive into memory
+   */
+  function readZip(zip: Buffer): Promise<Map<string, Buffer>> {
+    return new Promise((resolve, reject) => {
+      yauzl.fromBuffer(zip, { lazyEntries: true }, (error, file) => {
+        if (error || !file) {
+          return reject(error);
+        }
+        const entries = new Map<string, Buffer>();
+        file.on('entry', (entry: yauzl.Entry) => {
+          file.openReadStream(entry, (streamError, stream) => {
+            if (streamError || !stream) {
+              return reject(streamError);
+            }
+            const chunks: Buffer[] = [];
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            stream.on('end', () => {
+              entries.set(entry.fileName, Buffer.concat(chunks));
+              file.readEntry();
+            });
+          });
+        });
+        file.on('end', () => resolve(entries));
+        file.readEntry();
+      });
+    });
+  }
+
+  async function seedLibrary() {
+    const note = await fileStorage.saveFile({
+      userId: 'user-1',
+      content: 'Backed up note',
+      contentType: 'text',
+      title: 'Old title',
+      tags: ['alpha'],
+    });
+    db.updateContent(note.id!, 'user-1', { title: 'Note' });
+    const work = db.createNotebook({ id: 'notebook-work', user_id: 'user-1', parent_id: null, name: 'Work' });
+    db.createNotebook({ id: 'notebook-projects', user_id: 'user-1', parent_id: work.id, name: 'Projects' });
+    db.updateContent(note.id!, 'user-1', { notebook_id: 'notebook-projects' });
+    await vectorStore.addDocument(note.id!, [0.25, 0.5, 0.75], { content_id: note.id!, user_id: 'user-1' }, 'Backed up note');
+    db.updateContent(note.id!, 'user-1', { embedding_status: 'completed' });
+
+    const image = await fileStorage.saveFile({
+      userId: 'user-1',
+      content: PNG,
+      contentType: 'image',
+      title: 'Photo',
+      mimeType: 'image/png',
+    });
+
+    await fileStorage.saveFile({ userId: 'user-2', content: 'Someone else', contentType: 'text' });
+
+    return { noteId: note.id!, imageId: image.id! };
+  }
+
+  it('should back up and restore content, versions, files and vectors', async () => {
+    const { noteId, imageId } = await seedLibrary();
+    const zip = await createBackup('user-1');
+
+    const versions = db.getContentVersions(noteId).length + db.getContentVersions(imageId).length;
+    const entries = await readZip(zip);
+    const manifest = JSON.parse(entries.get('manifest.json')!.toString());
+    expect(manifest).toMatchObject({
+      format: 'kura-notes-backup',
+      scope: 'user',
+      user_id: 'user-1',
+      vector_backend: 'sqlite',
+      vectors_included: true,
+      counts: { notebooks: 2, content: 2, versions, pages: 0, vectors: 1, files: 2 },
+    });
+
+    const result = await backupService.restoreBackup(zip, { userId: 'user-3' });
+
+    expect(result.success).toBe(true);
+    expect(result.report).toMatchObject({ verified: true, problems: [], queued_embeddings: 1 });
+
+    const restoredNoteId = result.report!.id_map[noteId]!;
+    expect(restoredNoteId).not.toBe(noteId);
+
+    const note = db.getContentById(restoredNoteId, 'user-3')!;
+    expect(note).toMatchObject({ title: 'Note', tags: ['alpha'], extracted_text: 'Backed up note' });
+
+    // Notebooks are restored with new IDs, keeping their nesting
+    const notebook = db.getNotebookById(note.notebook_id!, 'user-3')!;
+    expect(notebook).toMatchObject({ name: 'Projects' });
+    expect(notebook.id).not.toBe('notebook-projects');
+    expect(db.getNotebookById(notebook.parent_id!, 'user-3')).toMatchObject({ name: 'Work', parent_id: null });
+
+    expect(db.getContentVersions(restoredNoteId)).toEqual(
+      db.getContentVersions(noteId).map((version) => ({ ...version, content_id: restoredNoteId }))
+    );
+
+    // Vectors are restored under the new ID, so the note needs no re-embedding
+    const vectors = await vectorStore.getContentVectors(restoredNoteId);
+    expect(vectors).toHaveLength(1);
+    expect(vectors[0]!.embedding).toEqual([0.25, 0.5, 0.75]);
+    expect(vectors[0]!.metadata.user_id).toBe('user-3');
+
+    // The image keeps its bytes, under a new file name since the original path is taken
+    const image = db.getContentById(result.report!.id_map[imageId]!, 'user-3')!;
+    expect(image.file_path).not.toBe(db.getContentById(imageId)!.file_path);
+    expect(fs.readFileSync(fileStorage.getFullPath(image.file_path))).toEqual(PNG);
+    expect(db.getEmbeddingJobs('user-3').map((job) => job.content_id)).toEqual([image.id]);
+
+    expect(db.getAllContent('user-2')).toHaveLength(1);
+  });
+
+  it('should keep owners when restoring an instance backup', async () => {
+    await seedLibrary();
+    const zip = await createBackup();
+
+    const result = await backupService.restoreBackup(zip);
+
+    expect(result.report!.counts.content).toBe(3);
+    expect(db.getAllContent('user-1')).toHaveLength(4);
+    expect(db.getAllContent('user-2')).toHaveLength(2);
+  });
+
+  it('should verify without restoring on a dry run', async () => {
+    await seedLibrary();
+    const zip = await createBackup('user-1');
+
+    const result = await backupService.restoreBackup(zip, { userId: 'user-3', dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.report!.dryRun).toBe(true);
+    expect(db.getAllContent('user-3')).toHaveLength(0);
+  });
+
+  it('should reject corrupted archives before writing anything', async () => {
+    await seedLibrary();
+    const entries = await readZip(await createBackup('user-1'));
+
+    const tampered = archiver('zip');
+    for (const [name, data] of entries) {
+      tampered.append(name === 'data/content.json' ? data.toString().replace('Backed up', 'Tampered') : data, {
+        name,
+      });
+    }
+
+    const result = await backupService.restoreBackup(await toBuffer(tampered), { userId: 'user-3' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Integrity check failed: data/content.json does not match its checksum');
+    expect(db.getAllContent('user-3')).toHaveLength(0);
+
+    const invalid = await backupService.restoreBackup(Buffer.from('not a zip'));
+    expect(invalid.success).toBe(false);
+    expect(invalid.error).toMatch(/^Invalid backup archive/);
+  });
+
+  it('should reject rows pointing to files outside the archive', async () => {
+    const { noteId } = await seedLibrary();
+    const foreignPath = db.getAllContent('user-2')[0]!.file_path;
+    const entries = await readZip(await createBackup('user-1'));
+
+    // A crafted backup with valid checksums whose note points to another user's file
+    const content = JSON.parse(entries.get('data/content.json')!.toString());
+    content.find((row: { id: string }) => row.id === noteId).file_path = foreignPath;
+    const json = JSON.stringify(content);
+    const manifest = JSON.parse(entries.get('manifest.json')!.toString());
+    manifest.checksums['data/content.json'] = crypto.createHash('sha256').update(json).digest('hex');
+
+    const crafted = archiver('zip');
+    for (const [name, data] of entries) {
+      const replacement = { 'data/content.json': json, 'manifest.json': JSON.stringify(manifest) }[name];
+      crafted.append(replacement ?? data, { name });
+    }
+
+    const result = await backupService.restoreBackup(await toBuffer(crafted), { userId: 'user-3' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(`Invalid backup archive: file ${foreignPath} is not in the archive`);
+    expect(db.getAllContent('user-3')).toHaveLength(0);
+  });
+
+  it('should never point restored content to files missing from the backup', async () => {
+    const { imageId } = await seedLibrary();
+    const image = db.getContentById(imageId)!;
+    const imagePath = fileStorage.getFullPath(image.file_path);
+    fs.renameSync(imagePath, `${imagePath}.away`);
+    const zip = await createBackup('user-1');
+    fs.renameSync(`${imagePath}.away`, imagePath);
+
+    const result = await backupService.restoreBackup(zip, { userId: 'user-3' });
+
+    expect(result.success).toBe(true);
+    const restoredId = result.report!.id_map[imageId]!;
+    expect(result.report!.missing_files).toEqual([restoredId]);
+
+    const restored = db.getContentById(restoredId, 'user-3')!;
+    expect(restored.file_path).not.toBe(image.file_path);
+    expect(fs.existsSync(fileStorage.getFullPath(restored.file_path))).toBe(false);
+
+    // Purging the restored item leaves the original file alone
+    await fileStorage.deleteFile(restoredId);
+    expect(fs.readFileSync(imagePath)).toEqual(PNG);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Content Link Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('Content Links', () => {
+  let db: DatabaseService;
+  const testBaseDir = path.join(__dirname, '../../test-data-links');
+  const testDbPath = path.join(testBaseDir, 'test-links.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    db = DatabaseService.getInstance(testDbPath);
+  });
+
+  afterEach(() => {
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  function createNote(id: string, title: string, text = '', userId = 'user-1') {
+    return db.createContent({
+      id,
+      user_id: userId,
+      file_path: `${id}.txt`,
+      content_type: 'text',
+      title,
+      extracted_text: text,
+    });
+  }
+
+  function targets(id: string) {
+    return db.getContentLinks(id).map((link) => [link.target_text, link.target_id]);
+  }
+
+  it('should resolve links by title and by ID within the owner', () => {
+    createNote('plan', 'Project Plan');
+    createNote('other', 'Roadmap', '', 'user-2');
+    createNote('memo', 'Memo', 'See [[project plan]], [[plan]] and [[Roadmap]]');
+
+    expect(targets('memo')).toEqual([
+      ['project plan', 'plan'],
+      ['plan', 'plan'],
+      ['Roadmap', null],
+    ]);
+    expect(db.getBacklinks('plan', 'user-1').map((content) => content.id)).toEqual(['memo']);
+  });
+
+  it('should resolve links when the target is created or renamed later', () => {
+    createNote('memo', 'Memo', 'Next: [[Roadmap]] and [[Budget]]');
+    createNote('roadmap', 'Roadmap');
+    createNote('draft', 'Draft');
+
+    db.updateContent('draft', 'user-1', { title: 'Budget' });
+
+    expect(targets('memo')).toEqual([
+      ['Roadmap', 'roadmap'],
+      ['Budget', 'draft'],
+    ]);
+
+    // Renaming the target keeps existing links, also when the linking note is edited
+    db.updateContent('roadmap', 'user-1', { title: 'Plan 2027' });
+    db.updateContent('memo', 'user-1', { extracted_text: 'Next: [[Roadmap]]' });
+
+    expect(targets('memo')).toEqual([['Roadmap', 'roadmap']]);
+  });
+
+  it('should update links when notes are edited, trashed and deleted', () => {
+    createNote('plan', 'Plan');
+    createNote('memo', 'Memo', '[[Plan]]');
+
+    db.trashContent('memo', 'user-1');
+    expect(db.getBacklinks('plan', 'user-1')).toEqual([]);
+    db.restoreContent('memo', 'user-1');
+    expect(db.getBacklinks('plan', 'user-1')).toHaveLength(1);
+
+    db.deleteContent('plan', 'user-1');
+    expect(targets('memo')).toEqual([['Plan', null]]);
+
+    db.updateContent('memo', 'user-1', { extracted_text: 'No links' });
+    expect(targets('memo')).toEqual([]);
+
+    db.deleteContent('memo', 'user-1');
+    expect(db.raw('SELECT COUNT(*) as count FROM content_links')).toEqual([{ count: 0 }]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Content Version History Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+import { diffLines } from '../../src/utils/diff.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('Content Versions', () => {
+  let db: DatabaseService;
+  const testBaseDir = path.join(__dirname, '../../test-data-versions');
+  const testDbPath = path.join(testBaseDir, 'test-versions.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    db = DatabaseService.getInstance(testDbPath);
+  });
+
+  afterEach(() => {
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  function createNote(id = 'note-1') {
+    return db.createContent({
+      id,
+      user_id: 'user-1',
+      file_path: `${id}.txt`,
+      content_type: 'text',
+      title: 'Original',
+      tags: ['draft'],
+      extracted_text: 'line one\nline two',
+    });
+  }
+
+  describe('DatabaseService', () => {
+    it('should record version 1 on create', () => {
+      createNote();
+
+      const versions = db.getContentVersions('note-1');
+
+      expect(versions).toHaveLength(1);
+      expect(versions[0]).toMatchObject({
+        version: 1,
+        title: 'Original',
+        tags: ['draft'],
+        extracted_text: 'line one\nline two',
+        change_source: 'create',
+      });
+    });
+
+    it('should record a version for every change of a versioned field', () => {
+      createNote();
+
+      db.updateContent('note-1', 'user-1', { title: 'Renamed' });
+      db.updateContentTags('note-1', 'user-1', ['draft', 'work']);
+
+      const versions = db.getContentVersions('note-1');
+
+      expect(versions.map((version) => version.version)).toEqual([3, 2, 1]);
+      expect(versions[0]).toMatchObject({ title: 'Renamed', tags: ['draft', 'work'], change_source: 'update' });
+      expect(db.getContentVersion('note-1', 2)?.title).toBe('Renamed');
+    });
+
+    it('should keep full-text search in sync across repeated updates', () => {
+      createNote();
+
+      db.updateContent('note-1', 'user-1', { title: 'Renamed' });
+      db.updateContent('note-1', 'user-1', { title: 'Restored' });
+
+      expect(db.searchContent('Restored', 'user-1').map((content) => content.id)).toEqual(['note-1']);
+      expect(db.searchContent('Renamed', 'user-1')).toEqual([]);
+    });
+
+    it('should not record a version for status-only updates', () => {
+      createNote();
+
+      db.updateContent('note-1', 'user-1', { embedding_status: 'completed' });
+      db.updateContent('note-1', 'user-1', { title: 'Original' });
+
+      expect(db.getContentVersions('note-1')).toHaveLength(1);
+    });
+
+    it('should record the previous state of content created without history', () => {
+      createNote();
+      // Simulate content created before version history existed
+      (db as any).db.prepare('DELETE FROM content_versions').run();
+
+      db.updateContent('note-1', 'user-1', { annotation: 'New context' }, 'restore');
+
+      const versions = db.getContentVersions('note-1');
+
+      expect(versions).toHaveLength(2);
+      expect(versions[1]).toMatchObject({ version: 1, annotation: null, change_source: 'create' });
+      expect(versions[0]).toMatchObject({ version: 2, annotation: 'New context', change_source: 'restore' });
+    });
+
+    it('should delete versions together with the content', () => {
+      createNote();
+
+      db.deleteContent('note-1', 'user-1');
+
+      expect(db.getContentVersions('note-1')).toEqual([]);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should mark added and removed lines', () => {
+      const diff = diffLines('a\nb\nc', 'a\nx\nc\nd');
+
+      expect(diff).toEqual([
+        { type: 'equal', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'x' },
+        { type: 'equal', text: 'c' },
+        { type: 'added', text: 'd' },
+      ]);
+    });
+
+    it('should treat null as empty text', () => {
+      expect(diffLines(null, 'new')).toEqual([{ type: 'added', text: 'new' }]);
+      expect(diffLines('same', 'same')).toEqual([{ type: 'equal', text: 'same' }]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Duplicate Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DuplicateService } from '../../src/services/duplicateService.js';
+import { EmbeddingService } from '../../src/services/embeddingService.js';
+import { SqliteVectorStore } from '../../src/services/sqliteVectorStore.js';
+import { FileStorageService } from '../../src/services/fileStorage.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+import { logger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Embeddings of the test notes (the stub embedding service looks them up by text)
+ */
+const EMBEDDINGS: Record<string, number[]> = {
+  'Buy milk and eggs': [1, 0, 0],
+  'Buy milk and eggs today': [0.99, 0.05, 0],
+  'Quarterly report': [0, 1, 0],
+};
+
+describe('DuplicateService', () => {
+  let db: DatabaseService;
+  let fileStorage: FileStorageService;
+  let vectorStore: SqliteVectorStore;
+  let duplicateService: DuplicateService;
+  const testBaseDir = path.join(__dirname, '../../test-data-duplicates');
+  const testDbPath = path.join(testBaseDir, 'test-duplicates.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    FileStorageService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    DuplicateService.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    fileStorage = FileStorageService.getInstance({ baseDirectory: testBaseDir, logger }, db);
+    vectorStore = SqliteVectorStore.getInstance(db);
+
+    const embeddingService = {
+      isAvailable: () => true,
+      generateEmbedding: async (text: string) => ({ embedding: EMBEDDINGS[text] ?? [0, 0, 1] }),
+    } as unknown as EmbeddingService;
+    duplicateService = DuplicateService.getInstance(db, fileStorage, embeddingService, vectorStore);
+  });
+
+  afterEach(() => {
+    DuplicateService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    FileStorageService.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  async function createNote(text: string, userId = 'user-1', tags: string[] = []): Promise<string> {
+    const result = await fileStorage.saveFile({ userId, content: text, contentType: 'text', title: text, tags });
+    await vectorStore.addDocument(result.id!, EMBEDDINGS[text]!, { content_id: result.id!, user_id: userId }, text);
+    db.updateContent(result.id!, userId, { embedding_status: 'completed' });
+    return result.id!;
+  }
+
+  it('should find exact duplicates by content hash, ignoring surrounding whitespace', async () => {
+    const original = await createNote('Buy milk and eggs');
+    await createNote('Buy milk and eggs', 'user-2');
+
+    const duplicates = await duplicateService.findDuplicates('user-1', 'Buy milk and eggs\r\n', 'text');
+
+    expect(duplicates).toEqual([expect.objectContaining({ id: original, match: 'exact', similarity: 1 })]);
+    expect(await duplicateService.findDuplicates('user-1', 'Buy milk', 'text')).toEqual([]);
+  });
+
+  it('should find near-duplicates only when asked', async () => {
+    const original = await createNote('Buy milk and eggs');
+    await createNote('Quarterly report');
+
+    expect(await duplicateService.findDuplicates('user-1', 'Buy milk and eggs today', 'text')).toEqual([]);
+
+    const duplicates = await duplicateService.findDuplicates('user-1', 'Buy milk and eggs today', 'text', {
+      checkSimilar: true,
+    });
+
+    expect(duplicates).toEqual([expect.objectContaining({ id: original, match: 'near' })]);
+    expect(duplicates[0]!.similarity).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('should merge tags and fill in missing metadata', async () => {
+    const id = await createNote('Buy milk and eggs', 'user-1', ['shopping']);
+    db.updateContent(id, 'user-1', { title: null });
+
+    const merged = duplicateService.mergeInto(id, 'user-1', {
+      title: 'Groceries',
+      annotation: 'From the shortcut',
+      tags: ['shopping', 'errands'],
+    })!;
+
+    expect(merged.before.tags).toEqual(['shopping']);
+    expect(merged.after).toMatchObject({
+      title: 'Groceries',
+      annotation: 'From the shortcut',
+      tags: ['shopping', 'errands'],
+    });
+    expect(duplicateService.mergeInto(id, 'user-2', {})).toBeNull();
+  });
+
+  it('should report exact and near duplicates of existing content', async () => {
+    const first = await createNote('Buy milk and eggs');
+    const second = await createNote('Buy milk and eggs');
+    const similar = await createNote('Buy milk and eggs today');
+    await createNote('Quarterly report');
+
+    // Files stored before content hashes existed are hashed for the report
+    const image = await fileStorage.saveFile({
+      userId: 'user-1',
+      content: Buffer.from('not really a png'),
+      contentType: 'image',
+      mimeType: 'image/png',
+    });
+    const copy = await fileStorage.saveFile({
+      userId: 'user-1',
+      content: Buffer.from('not really a png'),
+      contentType: 'image',
+      mimeType: 'image/png',
+    });
+    (db as any).db.prepare('UPDATE content SET content_hash = NULL WHERE id IN (?, ?)').run(image.id, copy.id);
+
+    const report = await duplicateService.getReport('user-1', { checkSimilar: true });
+
+    expect(report.hashed).toBe(2);
+    expect(report.exact.map((group) => group.items.map((item) => item.id).sort())).toEqual(
+      expect.arrayContaining([[first, second].sort(), [image.id, copy.id].sort()])
+    );
+    expect(report.near).toHaveLength(2);
+    expect(report.near!.every((group) => group.items.some((item) => item.id === similar))).toBe(true);
+
+    expect((await duplicateService.getReport('user-1')).near).toBeNull();
+  });
+});
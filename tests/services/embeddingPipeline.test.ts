@@ -0,0 +1,123 @@
+/**
+ * Embedding Pipeline Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { EmbeddingPipelineService } from '../../src/services/embeddingPipeline.js';
+import { EmbeddingQueueService } from '../../src/services/embeddingQueue.js';
+import { EmbeddingService } from '../../src/services/embeddingService.js';
+import { SqliteVectorStore } from '../../src/services/sqliteVectorStore.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('EmbeddingPipelineService', () => {
+  let db: DatabaseService;
+  let vectorStore: SqliteVectorStore;
+  let pipeline: EmbeddingPipelineService;
+  let queue: EmbeddingQueueService;
+  let embeddedTexts: string[];
+  const testBaseDir = path.join(__dirname, '../../test-data-pipeline');
+  const testDbPath = path.join(testBaseDir, 'test-pipeline.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    EmbeddingQueueService.resetInstance();
+    db = DatabaseService.getInstance(testDbPath);
+    vectorStore = SqliteVectorStore.getInstance(db);
+    embeddedTexts = [];
+
+    // Stub provider: records the embedded text and returns a fixed vector
+    const embeddingService = {
+      isAvailable: () => true,
+      generateEmbedding: async (text: string) => {
+        embeddedTexts.push(text);
+        return {
+          embedding: [1, 0],
+          dimensions: 2,
+          truncated: false,
+          originalLength: text.length,
+          processedLength: text.length,
+        };
+      },
+    } as unknown as EmbeddingService;
+
+    pipeline = new EmbeddingPipelineService(embeddingService, vectorStore, db);
+    queue = EmbeddingQueueService.getInstance(db, pipeline);
+  });
+
+  afterEach(() => {
+    EmbeddingQueueService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  async function createEmbeddedNote() {
+    const content = db.createContent({
+      id: 'note-1',
+      user_id: 'user-1',
+      file_path: 'note-1.txt',
+      content_type: 'text',
+      title: 'Original title',
+      tags: ['draft'],
+      extracted_text: 'note body',
+    });
+    pipeline.queueReprocess(content);
+    await queue.drain();
+    embeddedTexts = [];
+    return db.getContentById(content.id)!;
+  }
+
+  it('should re-embed content when the title changes', async () => {
+    const before = await createEmbeddedNote();
+    const after = db.updateContent(before.id, 'user-1', { title: 'New title' })!;
+
+    pipeline.queueMetadataSync(before, after);
+    expect(db.getContentById(before.id)!.embedding_status).toBe('pending');
+    await queue.drain();
+
+    expect(db.getContentById(before.id)!.embedding_status).toBe('completed');
+    expect(embeddedTexts[0]).toContain('New title');
+    expect((await vectorStore.getDocument('note-1#chunk-0'))?.metadata.title).toBe('New title');
+  });
+
+  it('should update vector tags without re-embedding', async () => {
+    const before = await createEmbeddedNote();
+    const after = db.updateContentTags(before.id, 'user-1', ['final'])!;
+
+    pipeline.queueMetadataSync(before, after);
+    expect(db.getContentById(before.id)!.embedding_status).toBe('pending');
+    await queue.drain();
+
+    expect(db.getContentById(before.id)!.embedding_status).toBe('completed');
+    expect(embeddedTexts).toEqual([]);
+    expect((await vectorStore.getDocument('note-1#chunk-0'))?.metadata.tags).toBe('["final"]');
+  });
+
+  it('should embed content without vectors when its tags change', async () => {
+    const before = await createEmbeddedNote();
+    await vectorStore.deleteDocument(before.id);
+    const after = db.updateContentTags(before.id, 'user-1', ['final'])!;
+
+    pipeline.queueMetadataSync(before, after);
+    expect(db.getContentById(before.id)!.embedding_status).toBe('pending');
+    await queue.drain();
+
+    expect(db.getContentById(before.id)!.embedding_status).toBe('completed');
+    expect(embeddedTexts).toHaveLength(1);
+    expect((await vectorStore.getStats()).count).toBe(1);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Embedding Provider Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  createEmbeddingProvider,
+  LocalEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+} from '../../src/services/embeddingProviders/index.js';
+import { EmbeddingService } from '../../src/services/embeddingService.js';
+
+/**
+ * Cosine similarity of two vectors
+ */
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+describe('Embedding Providers', () => {
+  describe('createEmbeddingProvider', () => {
+    it('should create the configured provider', () => {
+      expect(createEmbeddingProvider({ provider: 'openai', model: 'text-embedding-3-small' })).toBeInstanceOf(
+        OpenAIEmbeddingProvider
+      );
+      expect(
+        createEmbeddingProvider({
+          provider: 'openai-compatible',
+          model: 'nomic-embed-text',
+          baseUrl: 'http://localhost:11434/v1',
+        })
+      ).toBeInstanceOf(OpenAICompatibleEmbeddingProvider);
+      expect(createEmbeddingProvider({ provider: 'local', model: '' })).toBeInstanceOf(LocalEmbeddingProvider);
+    });
+
+    it('should report OpenAI as unavailable without an API key', () => {
+      const provider = createEmbeddingProvider({ provider: 'openai', model: 'text-embedding-3-small' });
+      expect(provider.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('LocalEmbeddingProvider', () => {
+    const provider = new LocalEmbeddingProvider({ dimensions: 256 });
+
+    it('should produce normalized vectors of the configured size', async () => {
+      const embedding = await provider.embed('Kubernetes deployment notes');
+      const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+
+      expect(embedding).toHaveLength(256);
+      expect(norm).toBeCloseTo(1, 5);
+    });
+
+    it('should be deterministic', async () => {
+      const first = await provider.embed('Same text twice');
+      const second = await provider.embed('Same text twice');
+
+      expect(first).toEqual(second);
+    });
+
+    it('should place texts with shared vocabulary closer together', async () => {
+      const query = await provider.embed('sourdough bread recipe');
+      const related = await provider.embed('My favourite recipe for baking sourdough breads at home');
+      const unrelated = await provider.embed('Quarterly tax filing deadlines for freelancers');
+
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    });
+  });
+
+  describe('OpenAICompatibleEmbeddingProvider', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let lastRequest: { url?: string; auth?: string; body?: any } = {};
+    let responseStatus = 200;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          lastRequest = { url: req.url, auth: req.headers.authorization, body: JSON.parse(body) };
+          res.writeHead(responseStatus, { 'Content-Type': 'application/json' });
+          res.end(
+            responseStatus === 200
+              ? JSON.stringify({ data: [{ embedding: [0.1, 0.2, 0.3] }] })
+              : JSON.stringify({ error: 'overloaded' })
+          );
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    afterEach(() => {
+      responseStatus = 200;
+      EmbeddingService.resetInstance();
+    });
+
+    it('should call the /embeddings endpoint', async () => {
+      const provider = new OpenAICompatibleEmbeddingProvider({
+        baseUrl: `${baseUrl}/`,
+        model: 'nomic-embed-text',
+        apiKey: 'secret',
+        timeout: 5000,
+      });
+
+      const embedding = await provider.embed('hello');
+
+      expect(embedding).toEqual([0.1, 0.2, 0.3]);
+      expect(lastRequest.url).toBe('/v1/embeddings');
+      expect(lastRequest.auth).toBe('Bearer secret');
+      expect(lastRequest.body).toEqual({ model: 'nomic-embed-text', input: 'hello' });
+    });
+
+    it('should surface HTTP errors with their status', async () => {
+      responseStatus = 503;
+      const provider = new OpenAICompatibleEmbeddingProvider({
+        baseUrl,
+        model: 'nomic-embed-text',
+        timeout: 5000,
+      });
+
+      await expect(provider.embed('hello')).rejects.toThrow('status 503');
+    });
+
+    it('should be usable through EmbeddingService', async () => {
+      const service = EmbeddingService.getInstance({
+        provider: 'openai-compatible',
+        apiKey: '',
+        baseUrl,
+        model: 'nomic-embed-text',
+        maxTextLength: 8000,
+        maxRetries: 1,
+        retryDelay: 10,
+      });
+
+      const result = await service.generateEmbedding('hello from the service');
+
+      expect(service.isAvailable()).toBe(true);
+      expect(service.getProviderInfo()).toEqual({ provider: 'openai-compatible', model: 'nomic-embed-text' });
+      expect(result.dimensions).toBe(3);
+    });
+  });
+});
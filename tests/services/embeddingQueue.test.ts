@@ -0,0 +1,168 @@
+/**
+ * Embedding Queue Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { EmbeddingPipelineService } from '../../src/services/embeddingPipeline.js';
+import { EmbeddingQueueService } from '../../src/services/embeddingQueue.js';
+import { EmbeddingService } from '../../src/services/embeddingService.js';
+import { SqliteVectorStore } from '../../src/services/sqliteVectorStore.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('EmbeddingQueueService', () => {
+  let db: DatabaseService;
+  let pipeline: EmbeddingPipelineService;
+  let queue: EmbeddingQueueService;
+  let available: boolean;
+  let failuresLeft: number;
+  const testBaseDir = path.join(__dirname, '../../test-data-queue');
+  const testDbPath = path.join(testBaseDir, 'test-queue.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    EmbeddingQueueService.resetInstance();
+    db = DatabaseService.getInstance(testDbPath);
+    available = true;
+    failuresLeft = 0;
+
+    // Stub provider that fails the next `failuresLeft` calls
+    const embeddingService = {
+      isAvailable: () => available,
+      generateEmbedding: async (text: string) => {
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          throw new Error('Provider unreachable');
+        }
+        return {
+          embedding: [1, 0],
+          dimensions: 2,
+          truncated: false,
+          originalLength: text.length,
+          processedLength: text.length,
+        };
+      },
+    } as unknown as EmbeddingService;
+
+    pipeline = new EmbeddingPipelineService(embeddingService, SqliteVectorStore.getInstance(db), db);
+    queue = EmbeddingQueueService.getInstance(db, pipeline, {
+      concurrency: 2,
+      maxAttempts: 2,
+      retryDelaySeconds: 30,
+    });
+  });
+
+  afterEach(() => {
+    EmbeddingQueueService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  function createNote(id: string) {
+    return db.createContent({
+      id,
+      user_id: 'user-1',
+      file_path: `${id}.txt`,
+      content_type: 'text',
+      title: id,
+      extracted_text: `body of ${id}`,
+    });
+  }
+
+  function makeDue(): void {
+    (db as any).db.prepare("UPDATE embedding_jobs SET run_at = datetime('now')").run();
+  }
+
+  it('should process queued jobs and remove them', async () => {
+    createNote('note-1');
+    createNote('note-2');
+    pipeline.queueEmbedding('note-1', 'user-1');
+    pipeline.queueEmbedding('note-2', 'user-1');
+
+    await queue.drain();
+
+    expect(db.getContentById('note-1')!.embedding_status).toBe('completed');
+    expect(db.getContentById('note-2')!.embedding_status).toBe('completed');
+    expect(db.getEmbeddingJobCounts('user-1')).toEqual({ queued: 0, running: 0, dead: 0 });
+  });
+
+  it('should reuse a waiting job of the same content', () => {
+    createNote('note-1');
+
+    const first = pipeline.queueEmbedding('note-1', 'user-1', 'metadata');
+    const second = pipeline.queueEmbedding('note-1', 'user-1');
+
+    expect(second.id).toBe(first.id);
+    expect(second.job_type).toBe('embed');
+    expect(db.getEmbeddingJobs('user-1')).toHaveLength(1);
+  });
+
+  it('should retry failing jobs with backoff and dead-letter them after the last attempt', async () => {
+    createNote('note-1');
+    failuresLeft = 10;
+    pipeline.queueEmbedding('note-1', 'user-1');
+
+    await queue.drain();
+
+    const [retried] = db.getEmbeddingJobs('user-1', 'queued');
+    expect(retried).toMatchObject({ attempts: 1, last_error: 'Provider unreachable' });
+    expect(new Date(`${retried!.run_at.replace(' ', 'T')}Z`).getTime()).toBeGreaterThan(Date.now() + 20000);
+    expect(db.getContentById('note-1')!.embedding_status).toBe('pending');
+
+    makeDue();
+    await queue.drain();
+
+    expect(db.getEmbeddingJobs('user-1', 'dead')).toMatchObject([{ attempts: 2 }]);
+    expect(db.getContentById('note-1')!.embedding_status).toBe('failed');
+
+    // Retrying replaces the dead job
+    failuresLeft = 0;
+    expect(await pipeline.retryFailedEmbeddings('user-1')).toBe(1);
+    await queue.drain();
+
+    expect(db.getContentById('note-1')!.embedding_status).toBe('completed');
+    expect(db.getEmbeddingJobs('user-1')).toEqual([]);
+  });
+
+  it('should dead-letter jobs that cannot succeed without retrying', async () => {
+    createNote('note-1');
+    available = false;
+    pipeline.queueEmbedding('note-1', 'user-1');
+
+    await queue.drain();
+
+    expect(db.getEmbeddingJobs('user-1', 'dead')).toMatchObject([
+      { attempts: 1, last_error: 'Embedding provider not configured' },
+    ]);
+    expect(db.getContentById('note-1')!.embedding_status).toBe('failed');
+  });
+
+  it('should resume interrupted and missing jobs on start', async () => {
+    createNote('interrupted');
+    createNote('never-queued');
+    pipeline.queueEmbedding('interrupted', 'user-1');
+    db.claimEmbeddingJob();
+
+    queue.start(60000);
+    await queue.drain();
+    queue.stop();
+
+    expect(db.getContentById('interrupted')!.embedding_status).toBe('completed');
+    expect(db.getContentById('never-queued')!.embedding_status).toBe('completed');
+    expect(db.getEmbeddingJobs(null)).toEqual([]);
+  });
+});
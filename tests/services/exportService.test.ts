@@ -0,0 +1,119 @@
+/**
+ * Export Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { ExportService } from '../../src/services/exportService.js';
+import { FileStorageService } from '../../src/services/fileStorage.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+import { logger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('ExportService', () => {
+  let db: DatabaseService;
+  let fileStorage: FileStorageService;
+  let exportService: ExportService;
+  const testBaseDir = path.join(__dirname, '../../test-data-export');
+  const testDbPath = path.join(testBaseDir, 'test-export.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    FileStorageService.resetInstance();
+    ExportService.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    fileStorage = FileStorageService.getInstance({ baseDirectory: testBaseDir, logger }, db);
+    exportService = ExportService.getInstance(db, fileStorage);
+  });
+
+  afterEach(() => {
+    ExportService.resetInstance();
+    FileStorageService.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  async function readArchive(userId: string, tags?: string[]): Promise<{ zip: Buffer; count: number }> {
+    const { archive, count } = exportService.createArchive(userId, tags ? { tags } : {});
+    const chunks: Buffer[] = [];
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const done = new Promise((resolve) => archive.on('end', resolve));
+    await archive.finalize();
+    await done;
+    return { zip: Buffer.concat(chunks), count };
+  }
+
+  it('should render notes with frontmatter', async () => {
+    const result = await fileStorage.saveFile({
+      userId: 'user-1',
+      content: 'Meeting notes',
+      contentType: 'text',
+      title: 'Q4: Planning',
+      annotation: 'From "Monday"',
+      tags: ['work', 'planning'],
+    });
+    const content = db.getContentById(result.id!)!;
+
+    const markdown = exportService.toMarkdown(content, null);
+
+    expect(markdown).toMatch(/^---\nid: /);
+    expect(markdown).toContain('title: "Q4: Planning"');
+    expect(markdown).toContain('tags:\n  - work\n  - planning\n');
+    expect(markdown).toContain('annotation: "From \\"Monday\\""');
+    expect(markdown).toMatch(/created: "\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.000Z"/);
+    expect(markdown.endsWith('---\n\nMeeting notes\n')).toBe(true);
+  });
+
+  it('should export notes, attachments and a manifest of the user only', async () => {
+    await fileStorage.saveFile({ userId: 'user-1', content: 'first', contentType: 'text', title: 'Same' });
+    await fileStorage.saveFile({ userId: 'user-1', content: 'second', contentType: 'text', title: 'Same' });
+    await fileStorage.saveFile({
+      userId: 'user-1',
+      content: Buffer.from('%PDF-1.4 test'),
+      contentType: 'pdf',
+      title: 'Report',
+      mimeType: 'application/pdf',
+    });
+    await fileStorage.saveFile({ userId: 'user-2', content: 'private', contentType: 'text', title: 'Other' });
+
+    const { zip, count } = await readArchive('user-1');
+
+    expect(count).toBe(3);
+    expect(zip.subarray(0, 4).toString('hex')).toBe('504b0304');
+    expect(zip.includes('Same.md')).toBe(true);
+    expect(zip.includes('Same 2.md')).toBe(true);
+    expect(zip.includes('Report.md')).toBe(true);
+    expect(zip.includes('attachments/Report.pdf')).toBe(true);
+    expect(zip.includes('manifest.json')).toBe(true);
+    expect(zip.includes('Other.md')).toBe(false);
+  });
+
+  it('should filter by tag', async () => {
+    await fileStorage.saveFile({
+      userId: 'user-1',
+      content: 'a',
+      contentType: 'text',
+      title: 'Tagged',
+      tags: ['keep'],
+    });
+    await fileStorage.saveFile({ userId: 'user-1', content: 'b', contentType: 'text', title: 'Untagged' });
+
+    const { zip, count } = await readArchive('user-1', ['keep']);
+
+    expect(count).toBe(1);
+    expect(zip.includes('Tagged.md')).toBe(true);
+    expect(zip.includes('Untagged.md')).toBe(false);
+  });
+});
@@ -9,11 +9,39 @@ import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import { FileStorageService } from '../../src/services/fileStorage.js';
 import { DatabaseService } from '../../src/services/database/database.service.js';
+import sharp from 'sharp';
+import { AudioService } from '../../src/services/audioService.js';
+import { ThumbnailService } from '../../src/services/thumbnailService.js';
+import type { TranscriptionService } from '../../src/services/transcriptionService.js';
+import type { ImageTextService } from '../../src/services/imageTextService.js';
 import { ContentType } from '../../src/models/file.js';
+import { parseExif } from '../../src/utils/exif.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/**
+ * Build a silent 16-bit mono WAV file
+ */
+function createWav(seconds: number, sampleRate = 8000): Buffer {
+  const dataSize = seconds * sampleRate * 2;
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataSize, 40);
+  return Buffer.concat([header, Buffer.alloc(dataSize)]);
+}
+
 describe('FileStorageService', () => {
   let fileStorage: FileStorageService;
   let db: DatabaseService;
@@ -132,6 +160,291 @@ describe('FileStorageService', () => {
       expect(metadata?.extracted_text).toBe('This is extracted text');
     });
 
+    it('should save the snapshot of a web page next to its text', async () => {
+      const result = await fileStorage.saveFile({
+        content: '# Article',
+        contentType: 'text',
+        mimeType: 'text/markdown',
+        source: 'web',
+        sourceUrl: 'https://example.com/article',
+        snapshot: '<html><body><h1>Article</h1></body></html>',
+      });
+
+      expect(result.success).toBe(true);
+
+      const metadata = db.getContentById(result.id!)!;
+      expect(metadata.source_url).toBe('https://example.com/article');
+      expect(metadata.snapshot_path).toBe(result.filePath!.replace(/\.md$/, '.html'));
+
+      const snapshotPath = path.join(testBaseDir, metadata.snapshot_path!);
+      expect(fs.readFileSync(snapshotPath, 'utf-8')).toBe('<html><body><h1>Article</h1></body></html>');
+
+      // The snapshot is deleted with the content
+      await fileStorage.deleteFile(result.id!);
+      expect(fs.existsSync(snapshotPath)).toBe(false);
+    });
+
+    it('should store audio metadata and the transcript of audio notes', async () => {
+      const transcriptionService = {
+        isAvailable: () => true,
+        transcribe: async () => ({
+          text: 'Remember to water the plants.',
+          language: 'en',
+          duration: 2,
+          segments: [{ start: 0, end: 2, text: 'Remember to water the plants.' }],
+        }),
+      } as unknown as TranscriptionService;
+      const audioStorage = new FileStorageService(
+        { baseDirectory: testBaseDir },
+        db,
+        undefined,
+        undefined,
+        AudioService.getInstance(),
+        transcriptionService
+      );
+
+      const result = await audioStorage.saveFile({
+        content: createWav(2),
+        contentType: 'audio',
+        mimeType: 'audio/wav',
+        originalFilename: 'memo.wav',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.filePath).toMatch(/\.wav$/);
+
+      const metadata = db.getContentById(result.id!)!;
+      expect(metadata.extracted_text).toBe('[0:00] Remember to water the plants.');
+      expect(metadata.audio_metadata).toMatchObject({
+        filename: 'memo.wav',
+        duration: 2,
+        sampleRate: 8000,
+        channels: 1,
+        transcribed: true,
+        language: 'en',
+      });
+    });
+
+    it('should save audio without a transcript if transcription fails', async () => {
+      const transcriptionService = {
+        isAvailable: () => true,
+        transcribe: async () => {
+          throw new Error('Transcription API error 500');
+        },
+      } as unknown as TranscriptionService;
+      const audioStorage = new FileStorageService(
+        { baseDirectory: testBaseDir },
+        db,
+        undefined,
+        undefined,
+        AudioService.getInstance(),
+        transcriptionService
+      );
+
+      const result = await audioStorage.saveFile({
+        content: createWav(1),
+        contentType: 'audio',
+        mimeType: 'audio/wav',
+        originalFilename: 'memo.wav',
+      });
+
+      expect(result.success).toBe(true);
+
+      const metadata = db.getContentById(result.id!)!;
+      expect(metadata.extracted_text).toBeNull();
+      expect(metadata.audio_metadata).toMatchObject({ filename: 'memo.wav', duration: 1, transcribed: false });
+    });
+
+    it('should store recognized text and caption of images', async () => {
+      const imageTextService = {
+        isAvailable: () => true,
+        recognize: async () => ({ text: 'TOTAL 12.50 EUR', caption: 'A supermarket receipt' }),
+      } as unknown as ImageTextService;
+      const imageStorage = new FileStorageService(
+        { baseDirectory: testBaseDir },
+        db,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        imageTextService
+      );
+
+      const result = await imageStorage.saveFile({
+        content: Buffer.from([0xff, 0xd8, 0xff, 0xe0]),
+        contentType: 'image',
+        mimeType: 'image/jpeg',
+      });
+
+      expect(result.success).toBe(true);
+      expect(db.getContentById(result.id!)!.extracted_text).toBe('Caption: A supermarket receipt\n\nTOTAL 12.50 EUR');
+    });
+
+    it('should backfill the text of stored images', async () => {
+      const saved = await fileStorage.saveFile({
+        content: Buffer.from([0xff, 0xd8, 0xff, 0xe0]),
+        contentType: 'image',
+        mimeType: 'image/jpeg',
+      });
+      expect(db.getContentById(saved.id!)!.extracted_text).toBeNull();
+
+      const imageTextService = {
+        isAvailable: () => true,
+        recognize: async () => ({ text: 'Sprint goals: ship OCR', caption: null }),
+      } as unknown as ImageTextService;
+      const imageStorage = new FileStorageService(
+        { baseDirectory: testBaseDir },
+        db,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        imageTextService
+      );
+
+      const result = await imageStorage.recognizeStoredImage(saved.id!);
+
+      expect(result).toEqual({ success: true, textFound: true });
+      expect(db.getContentById(saved.id!)!.extracted_text).toBe('Sprint goals: ship OCR');
+
+      // Without a configured provider nothing can be backfilled
+      expect((await fileStorage.recognizeStoredImage(saved.id!)).success).toBe(false);
+    });
+
+    it('should strip the GPS position of images on request', async () => {
+      ThumbnailService.resetInstance();
+      const thumbnailService = ThumbnailService.getInstance({
+        baseDirectory: testBaseDir,
+        thumbnailDirectory: 'thumbnails',
+        maxWidth: 300,
+        maxHeight: 300,
+        quality: 80,
+      });
+      const imageStorage = new FileStorageService({ baseDirectory: testBaseDir }, db, thumbnailService);
+      const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: 'blue' } })
+        .jpeg()
+        .withExif({
+          IFD0: { Make: 'Apple', Model: 'iPhone 15' },
+          IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '52/1 31/1 12/1', GPSLongitudeRef: 'E', GPSLongitude: '13/1 24/1 0/1' },
+        })
+        .toBuffer();
+
+      const kept = await imageStorage.saveFile({ content: photo, contentType: 'image', mimeType: 'image/jpeg' });
+      const stripped = await imageStorage.saveFile({
+        content: photo,
+        contentType: 'image',
+        mimeType: 'image/jpeg',
+        stripLocation: true,
+      });
+      ThumbnailService.resetInstance();
+
+      expect(db.getContentById(kept.id!)!.image_metadata).toMatchObject({
+        cameraModel: 'iPhone 15',
+        location: { latitude: 52.52, longitude: 13.4 },
+      });
+
+      const metadata = db.getContentById(stripped.id!)!.image_metadata!;
+      expect(metadata).toMatchObject({ cameraModel: 'iPhone 15', locationStripped: true });
+      expect(metadata.location).toBeUndefined();
+
+      const stored = await sharp(path.join(testBaseDir, stripped.filePath!)).metadata();
+      expect(parseExif(stored.exif).location).toBeUndefined();
+      expect(metadata.size).toBe(fs.statSync(path.join(testBaseDir, stripped.filePath!)).size);
+    });
+
+    it('should send images without their stripped GPS position to the text recognition provider', async () => {
+      ThumbnailService.resetInstance();
+      const thumbnailService = ThumbnailService.getInstance({
+        baseDirectory: testBaseDir,
+        thumbnailDirectory: 'thumbnails',
+        maxWidth: 300,
+        maxHeight: 300,
+        quality: 80,
+      });
+      const received: Buffer[] = [];
+      const imageTextService = {
+        isAvailable: () => true,
+        recognize: async (image: Buffer) => {
+          received.push(image);
+          return { text: '', caption: null };
+        },
+      } as unknown as ImageTextService;
+      const imageStorage = new FileStorageService(
+        { baseDirectory: testBaseDir },
+        db,
+        thumbnailService,
+        undefined,
+        undefined,
+        undefined,
+        imageTextService
+      );
+      const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: 'blue' } })
+        .jpeg()
+        .withExif({
+          IFD0: { Make: 'Apple', Model: 'iPhone 15' },
+          IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '52/1 31/1 12/1', GPSLongitudeRef: 'E', GPSLongitude: '13/1 24/1 0/1' },
+        })
+        .toBuffer();
+
+      const result = await imageStorage.saveFile({
+        content: photo,
+        contentType: 'image',
+        mimeType: 'image/jpeg',
+        stripLocation: true,
+      });
+      ThumbnailService.resetInstance();
+
+      expect(result.success).toBe(true);
+      expect(received).toHaveLength(1);
+      expect(parseExif((await sharp(received[0]!).metadata()).exif).location).toBeUndefined();
+    });
+
+    it('should regenerate thumbnails after a configuration change and delete them with the image', async () => {
+      const createThumbnailService = (format: 'jpeg' | 'webp', variantSizes: number[]) => {
+        ThumbnailService.resetInstance();
+        return ThumbnailService.getInstance({
+          baseDirectory: testBaseDir,
+          thumbnailDirectory: 'thumbnails',
+          maxWidth: 10,
+          maxHeight: 10,
+          quality: 80,
+          format,
+          variantSizes,
+        });
+      };
+      const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: 'green' } })
+        .png()
+        .toBuffer();
+
+      const before = new FileStorageService({ baseDirectory: testBaseDir }, db, createThumbnailService('jpeg', [20]));
+      const saved = await before.saveFile({ content: photo, contentType: 'image', mimeType: 'image/png' });
+      const original = db.getContentById(saved.id!)!;
+      expect(original.thumbnail_path).toMatch(/\.jpg$/);
+      expect(original.image_metadata!.thumbnailVariants).toHaveLength(1);
+      await before.getResizedImage(saved.id!, { width: 5, format: 'jpeg', fit: 'inside' });
+
+      const after = new FileStorageService({ baseDirectory: testBaseDir }, db, createThumbnailService('webp', [40]));
+      expect(await after.regenerateThumbnails(saved.id!)).toEqual({ success: true });
+
+      const regenerated = db.getContentById(saved.id!)!;
+      expect(regenerated.thumbnail_path).toMatch(/\.webp$/);
+      expect(regenerated.image_metadata).toMatchObject({
+        width: 40,
+        height: 20,
+        thumbnailSignature: 'webp:q80:10x10,40',
+        thumbnailVariants: [{ size: 40, width: 40, height: 20 }],
+      });
+      expect(fs.existsSync(path.join(testBaseDir, original.thumbnail_path!))).toBe(false);
+      expect(fs.existsSync(path.join(testBaseDir, original.image_metadata!.thumbnailVariants![0]!.path))).toBe(false);
+
+      await after.deleteFile(saved.id!);
+      ThumbnailService.resetInstance();
+
+      expect(fs.existsSync(path.join(testBaseDir, regenerated.thumbnail_path!))).toBe(false);
+      expect(fs.existsSync(path.join(testBaseDir, regenerated.image_metadata!.thumbnailVariants![0]!.path))).toBe(false);
+      expect(fs.existsSync(path.join(testBaseDir, 'cache', 'images', saved.id!))).toBe(false);
+    });
+
     it('should organize files in YYYY/MM/DD directory structure', async () => {
       const result = await fileStorage.saveFile({
         content: 'test',
@@ -0,0 +1,146 @@
+/**
+ * Image Text Service Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  createImageTextProvider,
+  DisabledImageTextProvider,
+  OpenAICompatibleImageTextProvider,
+  OpenAIImageTextProvider,
+} from '../../src/services/imageTextProviders/index.js';
+import { parseImageTextResponse } from '../../src/services/imageTextProviders/prompt.js';
+import { ImageTextService } from '../../src/services/imageTextService.js';
+import { formatImageText } from '../../src/utils/imageText.js';
+import { extractTextForEmbedding } from '../../src/utils/textExtraction.js';
+
+const image = { data: Buffer.from('fake image'), mimeType: 'image/png', caption: true };
+
+describe('Image Text', () => {
+  describe('createImageTextProvider', () => {
+    it('should create the configured provider', () => {
+      expect(createImageTextProvider({ provider: 'openai', model: 'gpt-4o-mini', timeout: 1000 })).toBeInstanceOf(
+        OpenAIImageTextProvider
+      );
+      expect(
+        createImageTextProvider({
+          provider: 'openai-compatible',
+          model: 'llama3.2-vision',
+          baseUrl: 'http://localhost:11434/v1',
+          timeout: 1000,
+        })
+      ).toBeInstanceOf(OpenAICompatibleImageTextProvider);
+      expect(createImageTextProvider({ provider: 'none', model: '', timeout: 1000 })).toBeInstanceOf(
+        DisabledImageTextProvider
+      );
+    });
+
+    it('should refuse to read images without a usable provider', async () => {
+      const service = ImageTextService.getInstance({ provider: 'none', model: '', timeout: 1000, captions: false });
+
+      expect(service.isAvailable()).toBe(false);
+      await expect(service.recognize(Buffer.from('image'), 'image/png')).rejects.toThrow();
+
+      ImageTextService.resetInstance();
+    });
+  });
+
+  describe('parseImageTextResponse', () => {
+    it('should read JSON answers, also inside code fences', () => {
+      expect(parseImageTextResponse('```json\n{"text": " Milk\\nEggs ", "caption": "A list"}\n```', image)).toEqual({
+        text: 'Milk\nEggs',
+        caption: 'A list',
+      });
+    });
+
+    it('should drop captions that were not requested', () => {
+      expect(parseImageTextResponse('{"text": "", "caption": "A cat"}', { ...image, caption: false })).toEqual({
+        text: '',
+        caption: null,
+      });
+    });
+
+    it('should use plain answers as the text', () => {
+      expect(parseImageTextResponse(' OPEN 9-5 ', image)).toEqual({ text: 'OPEN 9-5', caption: null });
+    });
+  });
+
+  describe('OpenAICompatibleImageTextProvider', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let lastRequest: { url?: string; auth?: string; body?: string } = {};
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          lastRequest = { url: req.url, auth: req.headers.authorization, body };
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({
+              choices: [
+                { message: { content: '{"text": "Q3 roadmap\\n- OCR", "caption": "A whiteboard with notes"}' } },
+              ],
+            })
+          );
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    afterEach(() => {
+      ImageTextService.resetInstance();
+    });
+
+    it('should send the image to the /chat/completions endpoint', async () => {
+      const provider = new OpenAICompatibleImageTextProvider({
+        baseUrl: `${baseUrl}/`,
+        model: 'llama3.2-vision',
+        apiKey: 'secret',
+        timeout: 5000,
+      });
+
+      const result = await provider.recognize(image);
+
+      expect(lastRequest.url).toBe('/v1/chat/completions');
+      expect(lastRequest.auth).toBe('Bearer secret');
+      const body = JSON.parse(lastRequest.body!);
+      expect(body.model).toBe('llama3.2-vision');
+      expect(body.messages[0].content[1].image_url.url).toBe(
+        `data:image/png;base64,${Buffer.from('fake image').toString('base64')}`
+      );
+
+      expect(result).toEqual({ text: 'Q3 roadmap\n- OCR', caption: 'A whiteboard with notes' });
+    });
+
+    it('should be usable through ImageTextService and format the text for embedding', async () => {
+      const service = ImageTextService.getInstance({
+        provider: 'openai-compatible',
+        model: 'llama3.2-vision',
+        baseUrl,
+        timeout: 5000,
+        captions: true,
+      });
+
+      const text = formatImageText(await service.recognize(Buffer.from('fake image'), 'image/png'));
+
+      expect(service.getProviderInfo()).toEqual({
+        provider: 'openai-compatible',
+        model: 'llama3.2-vision',
+        captions: true,
+      });
+      expect(text).toBe('Caption: A whiteboard with notes\n\nQ3 roadmap\n- OCR');
+      expect(extractTextForEmbedding('image', '', 'From the planning meeting', 'Board', undefined, text)).toBe(
+        'Image: Board\n\nCaption: A whiteboard with notes\n\nQ3 roadmap\n- OCR\n\nFrom the planning meeting'
+      );
+    });
+  });
+});
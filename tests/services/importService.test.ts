@@ -0,0 +1,274 @@
+/**
+ * Import Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import archiver from 'archiver';
+import { ImportService } from '../../src/services/importService.js';
+import { ExportService } from '../../src/services/exportService.js';
+import { EmbeddingPipelineService } from '../../src/services/embeddingPipeline.js';
+import { EmbeddingService } from '../../src/services/embeddingService.js';
+import { SqliteVectorStore } from '../../src/services/sqliteVectorStore.js';
+import { FileStorageService } from '../../src/services/fileStorage.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+import { logger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+describe('ImportService', () => {
+  let db: DatabaseService;
+  let fileStorage: FileStorageService;
+  let importService: ImportService;
+  const testBaseDir = path.join(__dirname, '../../test-data-import');
+  const testDbPath = path.join(testBaseDir, 'test-import.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    FileStorageService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    ImportService.resetInstance();
+    ExportService.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    fileStorage = FileStorageService.getInstance({ baseDirectory: testBaseDir, logger }, db);
+
+    const embeddingService = { isAvailable: () => false } as unknown as EmbeddingService;
+    const pipeline = new EmbeddingPipelineService(embeddingService, SqliteVectorStore.getInstance(db), db);
+    importService = ImportService.getInstance(fileStorage, pipeline);
+  });
+
+  afterEach(() => {
+    ImportService.resetInstance();
+    ExportService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    FileStorageService.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  async function toBuffer(archive: archiver.Archiver): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const done = new Promise((resolve) => archive.on('end', resolve));
+    await archive.finalize();
+    await done;
+    return Buffer.concat(chunks);
+  }
+
+  function createZip(files: Record<string, string | Buffer>, date = new Date('2023-05-01T12:00:00Z')) {
+    const archive = archiver('zip');
+    for (const [name, data] of Object.entries(files)) {
+      archive.append(data, { name, date });
+    }
+    return toBuffer(archive);
+  }
+
+  const vault = {
+    'Projects/Plan.md': [
+      '---',
+      'title: "Q4: Plan"',
+      'tags: [work, projects/kura]',
+      'description: Roadmap draft',
+      'created: 2022-03-04T10:00:00Z',
+      'updated: 2022-03-05',
+      '---',
+      '# Plan',
+      '',
+      'See the diagram: ![[diagram.png|300]]',
+    ].join('\n'),
+    'Inbox.md': 'Just a thought with ![](Projects/assets/diagram.png)',
+    'Empty.md': '---\ntitle: Nothing here\n---\n',
+    'Projects/assets/diagram.png': PNG,
+    'unused.png': PNG,
+    '.obsidian/app.json': '{}',
+    'data.csv': 'a,b',
+  };
+
+  it('should import notes with frontmatter and embedded images', async () => {
+    const zip = await createZip(vault);
+
+    const result = await importService.importZip(zip, 'user-1');
+
+    expect(result.success).toBe(true);
+    expect(result.report!.counts).toEqual({ notes: 2, images: 1, pdfs: 0, skipped: 4, failed: 0 });
+    expect(result.report!.skipped).toEqual(
+      expect.arrayContaining([
+        { path: '.obsidian/app.json', reason: 'Hidden or system file' },
+        { path: 'data.csv', reason: 'Unsupported file type' },
+        { path: 'Empty.md', reason: 'Empty note' },
+        { path: 'unused.png', reason: 'Not embedded in any note' },
+      ])
+    );
+
+    const items = db.getAllContent('user-1');
+    expect(items).toHaveLength(3);
+
+    const plan = items.find((item) => item.title === 'Q4: Plan')!;
+    expect(plan).toMatchObject({
+      content_type: 'text',
+      tags: ['work', 'projects/kura'],
+      annotation: 'Roadmap draft',
+      source: 'import',
+      created_at: '2022-03-04 10:00:00',
+      updated_at: '2022-03-05 00:00:00',
+    });
+    expect(plan.extracted_text).toContain('![[diagram.png|300]]');
+
+    const inbox = items.find((item) => item.title === 'Inbox')!;
+    expect(inbox.created_at).toBe('2023-05-01 12:00:00');
+
+    // Embedded by both notes, the image is imported once with the first note's metadata
+    const image = items.find((item) => item.content_type === 'image')!;
+    expect(image).toMatchObject({ title: 'diagram', annotation: 'Embedded in "Inbox"' });
+    expect(image.created_at).toBe('2023-05-01 12:00:00');
+
+    // Embeddings are queued for every imported item
+    expect(db.getEmbeddingJobs('user-1')).toHaveLength(3);
+  });
+
+  it('should report without storing anything on a dry run', async () => {
+    const zip = await createZip(vault);
+
+    const result = await importService.importZip(zip, 'user-1', { dryRun: true });
+
+    expect(result.report!.dryRun).toBe(true);
+    expect(result.report!.counts).toMatchObject({ notes: 2, images: 1, failed: 0 });
+    expect(result.report!.items.every((item) => item.id === null)).toBe(true);
+    expect(db.getAllContent('user-1')).toHaveLength(0);
+    expect(db.getEmbeddingJobs('user-1')).toHaveLength(0);
+  });
+
+  it('should round-trip an export', async () => {
+    await fileStorage.saveFile({
+      userId: 'user-1',
+      content: 'Exported body',
+      contentType: 'text',
+      title: 'Exported',
+      annotation: 'Kept',
+      tags: ['alpha'],
+    });
+    await fileStorage.saveFile({
+      userId: 'user-1',
+      content: PNG,
+      contentType: 'image',
+      title: 'Photo',
+      tags: ['beta'],
+      mimeType: 'image/png',
+    });
+
+    const { archive } = ExportService.getInstance(db, fileStorage).createArchive('user-1');
+    const zip = await toBuffer(archive);
+
+    const result = await importService.importZip(zip, 'user-2');
+
+    expect(result.report!.counts).toMatchObject({ notes: 1, images: 1, failed: 0 });
+    const imported = db.getAllContent('user-2');
+    expect(imported.find((item) => item.title === 'Exported')).toMatchObject({
+      extracted_text: 'Exported body',
+      annotation: 'Kept',
+      tags: ['alpha'],
+    });
+    expect(imported.find((item) => item.title === 'Photo')).toMatchObject({
+      content_type: 'image',
+      tags: ['beta'],
+    });
+  });
+
+  describe('Evernote exports', () => {
+    const pngHash = crypto.createHash('md5').update(PNG).digest('hex');
+    const pdf = Buffer.from('%PDF-1.4 test');
+
+    function enexNote(fields: string, content: string, resources = ''): string {
+      const enml =
+        '<?xml version="1.0" encoding="UTF-8"?><!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">' +
+        `<en-note>${content}</en-note>`;
+      return `<note>${fields}<content><![CDATA[${enml}]]></content>${resources}</note>`;
+    }
+
+    function resource(data: Buffer, mime: string, fileName?: string): string {
+      const attributes = fileName ? `<resource-attributes><file-name>${fileName}</file-name></resource-attributes>` : '';
+      return `<resource><data encoding="base64">\n${data.toString('base64')}\n</data><mime>${mime}</mime>${attributes}</resource>`;
+    }
+
+    const enex = Buffer.from(
+      '<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export4.dtd">\n' +
+        '<en-export export-date="20240101T000000Z" application="Evernote">' +
+        enexNote(
+          '<title>Trip &amp; Plans</title><created>20190704T081500Z</created><updated>20200102T030405Z</updated>' +
+            '<tag>travel</tag><tag>to do</tag><note-attributes><source-url>https://example.com</source-url></note-attributes>',
+          '<h1>Packing</h1><div><en-todo checked="true"/>Passport</div><div><en-todo/>Map <b>bold</b></div>' +
+            `<en-media hash="${pngHash}" type="image/png"/>`,
+          resource(PNG, 'image/png', 'map.png')
+        ) +
+        enexNote('<title>Scanned</title><created>20180101T000000Z</created>', `<en-media hash="x" type="application/pdf"/>`, resource(pdf, 'application/pdf')) +
+        enexNote('<title>Blank</title>', '<div><br/></div>') +
+        enexNote('<title>Audio</title>', 'Voice memo', resource(Buffer.from('ID3'), 'audio/x-m4a', 'memo.m4a')) +
+        '</en-export>'
+    );
+
+    it('should convert notes and resources', async () => {
+      const result = await importService.importEnex(enex, 'user-1', { notebook: 'Personal Stuff' });
+
+      expect(result.success).toBe(true);
+      expect(result.report!.counts).toEqual({ notes: 2, images: 1, pdfs: 1, skipped: 2, failed: 0 });
+      expect(result.report!.skipped).toEqual([
+        { path: 'Blank', reason: 'Empty note' },
+        { path: 'Audio/memo.m4a', reason: 'Unsupported file type' },
+      ]);
+
+      const items = db.getAllContent('user-1');
+      const trip = items.find((item) => item.title === 'Trip & Plans')!;
+      expect(trip).toMatchObject({
+        content_type: 'text',
+        tags: ['Personal-Stuff', 'travel', 'to-do'],
+        annotation: 'Source: https://example.com',
+        created_at: '2019-07-04 08:15:00',
+        updated_at: '2020-01-02 03:04:05',
+      });
+      expect(trip.extracted_text).toBe('# Packing\n\n[x] Passport\n\n[ ] Map **bold**\n\n![[map.png]]');
+
+      expect(items.find((item) => item.title === 'map')).toMatchObject({
+        content_type: 'image',
+        annotation: 'Attached to "Trip & Plans"',
+        created_at: '2019-07-04 08:15:00',
+      });
+
+      // A note holding only a file becomes that file
+      expect(items.find((item) => item.title === 'Scanned')).toMatchObject({
+        content_type: 'pdf',
+        created_at: '2018-01-01 00:00:00',
+      });
+    });
+
+    it('should reject files that are not Evernote exports', async () => {
+      const result = await importService.importEnex(Buffer.from('<html><body/></html>'), 'user-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid Evernote export: Missing en-export root element');
+    });
+  });
+
+  it('should reject invalid archives', async () => {
+    const result = await importService.importZip(Buffer.from('not a zip'), 'user-1');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Invalid zip archive/);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Notebook Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { NotebookService } from '../../src/services/notebookService.js';
+import { FileStorageService } from '../../src/services/fileStorage.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+import { logger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('NotebookService', () => {
+  let db: DatabaseService;
+  let fileStorage: FileStorageService;
+  let notebookService: NotebookService;
+  const testBaseDir = path.join(__dirname, '../../test-data-notebooks');
+  const testDbPath = path.join(testBaseDir, 'test-notebooks.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    FileStorageService.resetInstance();
+    NotebookService.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    fileStorage = FileStorageService.getInstance({ baseDirectory: testBaseDir, logger }, db);
+    notebookService = NotebookService.getInstance(db);
+  });
+
+  afterEach(() => {
+    NotebookService.resetInstance();
+    FileStorageService.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  async function createNote(title: string, userId = 'user-1'): Promise<string> {
+    const result = await fileStorage.saveFile({ userId, content: title, contentType: 'text', title });
+    return result.id!;
+  }
+
+  function createNotebook(name: string, parentId: string | null = null, userId = 'user-1'): string {
+    const result = notebookService.createNotebook(userId, name, parentId);
+    expect(result.success).toBe(true);
+    return result.notebook!.id;
+  }
+
+  it('should build a tree with content counts', async () => {
+    const work = createNotebook('Work');
+    const projects = createNotebook('Projects', work);
+    createNotebook('Archive');
+    createNotebook('Private', null, 'user-2');
+
+    db.updateContent(await createNote('Plan'), 'user-1', { notebook_id: projects });
+    db.updateContent(await createNote('Memo'), 'user-1', { notebook_id: work });
+    await createNote('Unfiled');
+
+    const tree = notebookService.getTree('user-1');
+
+    expect(tree.map((node) => node.name)).toEqual(['Archive', 'Work']);
+    expect(tree[1]).toMatchObject({ name: 'Work', content_count: 1 });
+    expect(tree[1]!.children).toEqual([
+      expect.objectContaining({ name: 'Projects', parent_id: work, content_count: 1, children: [] }),
+    ]);
+    expect(notebookService.getPath(projects, 'user-1').map((notebook) => notebook.name)).toEqual([
+      'Work',
+      'Projects',
+    ]);
+  });
+
+  it('should resolve notebook filters with and without nested notebooks', async () => {
+    const work = createNotebook('Work');
+    const projects = createNotebook('Projects', work);
+    const plan = await createNote('Plan');
+    const memo = await createNote('Memo');
+    db.updateContent(plan, 'user-1', { notebook_id: projects });
+    db.updateContent(memo, 'user-1', { notebook_id: work });
+
+    const direct = notebookService.resolveNotebookIds(work, 'user-1', false)!;
+    const nested = notebookService.resolveNotebookIds(work, 'user-1')!;
+
+    expect(db.getNotebookContent('user-1', direct).map((item) => item.id)).toEqual([memo]);
+    expect(db.getNotebookContent('user-1', nested).map((item) => item.id).sort()).toEqual([memo, plan].sort());
+    expect(notebookService.resolveNotebookIds(work, 'user-2')).toBeNull();
+  });
+
+  it('should validate names, parents and moves', () => {
+    const work = createNotebook('Work');
+    const projects = createNotebook('Projects', work);
+    const other = createNotebook('Other', null, 'user-2');
+
+    expect(notebookService.createNotebook('user-1', '  ')).toEqual({
+      success: false,
+      error: 'Notebook name is required',
+    });
+    expect(notebookService.createNotebook('user-1', 'work').error).toBe(
+      'A notebook named "Work" already exists here'
+    );
+    expect(notebookService.createNotebook('user-1', 'Shared', other).error).toBe('Parent notebook not found');
+
+    // Same name in another parent is fine
+    expect(notebookService.createNotebook('user-1', 'Work', projects).success).toBe(true);
+
+    expect(notebookService.updateNotebook(work, 'user-1', { parentId: projects }).error).toBe(
+      'A notebook cannot be moved into itself or one of its nested notebooks'
+    );
+
+    const moved = notebookService.updateNotebook(projects, 'user-1', { name: 'Side Projects', parentId: null });
+    expect(moved.notebook).toMatchObject({ name: 'Side Projects', parent_id: null });
+  });
+
+  it('should move content and nested notebooks up when deleting a notebook', async () => {
+    const work = createNotebook('Work');
+    const projects = createNotebook('Projects', work);
+    const drafts = createNotebook('Drafts', projects);
+    const plan = await createNote('Plan');
+    db.updateContent(plan, 'user-1', { notebook_id: projects });
+
+    expect(notebookService.deleteNotebook(projects, 'user-2')).toBe(false);
+    expect(notebookService.deleteNotebook(projects, 'user-1')).toBe(true);
+
+    expect(db.getContentById(plan)!.notebook_id).toBe(work);
+    expect(notebookService.getNotebook(drafts, 'user-1')!.parent_id).toBe(work);
+    expect(notebookService.getNotebook(projects, 'user-1')).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * PDF Service Tests
+ *
+ * Covers per-page text extraction and how it flows into storage and page matching,
+ * and first page previews
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { PdfService } from '../../src/services/pdfService.js';
+import { FileStorageService } from '../../src/services/fileStorage.js';
+import { ThumbnailService } from '../../src/services/thumbnailService.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Build a minimal PDF with one line of text per page
+ */
+function makePdf(pageTexts: string[]): Buffer {
+  const objects: string[] = [];
+  const pageCount = pageTexts.length;
+  const fontId = 3 + pageCount * 2;
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  const kids = pageTexts.map((_, i) => `${3 + i * 2} 0 R`).join(' ');
+  objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pageCount} >>`);
+
+  pageTexts.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${4 + i * 2} 0 R /Resources << /Font << /F1 ${fontId} 0 R >> >> >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('PdfService', () => {
+  const pdfService = PdfService.getInstance();
+
+  describe('extractContent', () => {
+    it('should extract text per page', async () => {
+      const buffer = makePdf(['Introduction to gardening', 'Tomatoes need full sun']);
+
+      const result = await pdfService.extractContent(buffer, 'garden.pdf');
+
+      expect(result.metadata.pageCount).toBe(2);
+      expect(result.metadata.filename).toBe('garden.pdf');
+      expect(result.pages).toEqual([
+        { page_number: 1, text: 'Introduction to gardening' },
+        { page_number: 2, text: 'Tomatoes need full sun' },
+      ]);
+      expect(result.text).toBe('Introduction to gardening\n\nTomatoes need full sun');
+    });
+
+    it('should skip pages without text', async () => {
+      const buffer = makePdf(['First page', '', 'Third page']);
+
+      const result = await pdfService.extractContent(buffer, 'sparse.pdf');
+
+      expect(result.metadata.pageCount).toBe(3);
+      expect(result.pages.map((page) => page.page_number)).toEqual([1, 3]);
+    });
+
+    it('should fall back to basic metadata for invalid PDFs', async () => {
+      const result = await pdfService.extractContent(Buffer.from('not a pdf'), 'broken.pdf');
+
+      expect(result.pages).toEqual([]);
+      expect(result.text).toBe('');
+      expect(result.metadata.filename).toBe('broken.pdf');
+      expect(result.metadata.size).toBe(9);
+    });
+  });
+
+  describe('renderFirstPage', () => {
+    it('should render the first page to a PNG of the requested width', async () => {
+      const png = await pdfService.renderFirstPage(makePdf(['Cover page', 'Second page']), 200);
+
+      const metadata = await sharp(png!).metadata();
+      expect(metadata.format).toBe('png');
+      expect(metadata.width).toBe(200);
+      expect(metadata.height).toBeGreaterThan(200); // Letter pages are portrait
+    });
+
+    it('should return null for PDFs that cannot be rendered', async () => {
+      expect(await pdfService.renderFirstPage(Buffer.from('not a pdf'), 200)).toBeNull();
+    });
+  });
+
+  describe('storage integration', () => {
+    let db: DatabaseService;
+    let fileStorage: FileStorageService;
+    const testBaseDir = path.join(__dirname, '../../test-data-pdf');
+    const testDbPath = path.join(testBaseDir, 'test-pdf.db');
+
+    beforeEach(() => {
+      if (fs.existsSync(testBaseDir)) {
+        fs.rmSync(testBaseDir, { recursive: true, force: true });
+      }
+      fs.mkdirSync(testBaseDir, { recursive: true });
+
+      DatabaseService.resetInstance();
+      db = DatabaseService.getInstance(testDbPath);
+      fileStorage = new FileStorageService({ baseDirectory: testBaseDir }, db, undefined, pdfService);
+    });
+
+    afterEach(() => {
+      DatabaseService.resetInstance();
+      if (fs.existsSync(testBaseDir)) {
+        fs.rmSync(testBaseDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should store extracted text and pages for uploaded PDFs', async () => {
+      const result = await fileStorage.saveFile({
+        content: makePdf(['Quarterly report', 'Revenue grew strongly', 'Outlook and revenue targets']),
+        contentType: 'pdf',
+        mimeType: 'application/pdf',
+        originalFilename: 'report.pdf',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.extractedText).toContain('Revenue grew strongly');
+
+      const content = db.getContentById(result.id!);
+      expect(content?.extracted_text).toContain('Outlook and revenue targets');
+      expect(db.getContentPages(result.id!)).toHaveLength(3);
+
+      // Full-text search finds the PDF by its page text
+      expect(db.searchContent('revenue', null).map((item) => item.id)).toContain(result.id);
+    });
+
+    it('should rank pages matching more terms first', async () => {
+      const result = await fileStorage.saveFile({
+        content: makePdf(['Quarterly report', 'Revenue grew strongly', 'Outlook and revenue targets']),
+        contentType: 'pdf',
+        mimeType: 'application/pdf',
+        originalFilename: 'report.pdf',
+      });
+
+      expect(db.findMatchingPages(result.id!, ['revenue', 'targets'])).toEqual([3, 2]);
+      expect(db.findMatchingPages(result.id!, ['missing'])).toEqual([]);
+    });
+
+    it('should store a preview of the first page and fall back to none when rendering fails', async () => {
+      ThumbnailService.resetInstance();
+      const thumbnailService = ThumbnailService.getInstance({
+        baseDirectory: testBaseDir,
+        thumbnailDirectory: 'thumbnails',
+        maxWidth: 100,
+        maxHeight: 100,
+        quality: 80,
+        variantSizes: [200],
+      });
+      const previewStorage = new FileStorageService({ baseDirectory: testBaseDir }, db, thumbnailService, pdfService);
+
+      const saved = await previewStorage.saveFile({
+        content: makePdf(['Cover page']),
+        contentType: 'pdf',
+        mimeType: 'application/pdf',
+        originalFilename: 'cover.pdf',
+      });
+      const broken = await previewStorage.saveFile({
+        content: Buffer.from('%PDF-1.4 truncated'),
+        contentType: 'pdf',
+        mimeType: 'application/pdf',
+        originalFilename: 'broken.pdf',
+      });
+
+      const content = db.getContentById(saved.id!)!;
+      expect(content.pdf_metadata).toMatchObject({
+        filename: 'cover.pdf',
+        thumbnailSignature: 'jpeg:q80:100x100,200',
+        thumbnailVariants: [{ size: 200 }],
+      });
+      const preview = await sharp(path.join(testBaseDir, content.thumbnail_path!)).metadata();
+      expect(preview.format).toBe('jpeg');
+      expect(preview.height).toBe(100);
+
+      expect(broken.success).toBe(true);
+      expect(db.getContentById(broken.id!)!.thumbnail_path).toBeNull();
+
+      // Backfill renders the preview of a PDF captured without one
+      db.updateContent(saved.id!, null, { pdf_metadata: { filename: 'cover.pdf', size: 1 } });
+      expect(await previewStorage.regenerateThumbnails(saved.id!)).toEqual({ success: true });
+      expect(db.getContentById(saved.id!)!.pdf_metadata?.thumbnailSignature).toBe('jpeg:q80:100x100,200');
+      expect((await previewStorage.regenerateThumbnails(broken.id!)).success).toBe(false);
+
+      await previewStorage.deleteFile(saved.id!);
+      ThumbnailService.resetInstance();
+      expect(fs.existsSync(path.join(testBaseDir, content.thumbnail_path!))).toBe(false);
+      expect(fs.existsSync(path.join(testBaseDir, content.pdf_metadata!.thumbnailVariants![0]!.path))).toBe(false);
+    });
+
+    it('should remove pages when the content is deleted', async () => {
+      const result = await fileStorage.saveFile({
+        content: makePdf(['Only page']),
+        contentType: 'pdf',
+        mimeType: 'application/pdf',
+        originalFilename: 'single.pdf',
+      });
+
+      db.deleteContent(result.id!, null);
+
+      expect(db.getContentPages(result.id!)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Reminder Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { ReminderService } from '../../src/services/reminderService.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('ReminderService', () => {
+  let db: DatabaseService;
+  let reminders: ReminderService;
+  const testBaseDir = path.join(__dirname, '../../test-data-reminders');
+  const testDbPath = path.join(testBaseDir, 'test-reminders.db');
+  const now = new Date('2026-03-10T12:00:00.000Z');
+  let nextId = 0;
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    ReminderService.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    reminders = ReminderService.getInstance(db);
+  });
+
+  afterEach(() => {
+    ReminderService.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  function createNote(title: string, dates: { remind_at?: string; due_at?: string }, userId = 'user-1'): string {
+    const id = `note-${++nextId}`;
+    db.createContent({
+      id,
+      user_id: userId,
+      file_path: `${id}.txt`,
+      content_type: 'text',
+      title,
+      extracted_text: title,
+      ...dates,
+    });
+    return id;
+  }
+
+  it('should split overdue and upcoming items', () => {
+    const overdueId = createNote('overdue', { due_at: '2026-03-09T09:00:00.000Z' });
+    const remindedId = createNote('reminder passed', { remind_at: '2026-03-10T08:00:00.000Z' });
+    const upcomingId = createNote('due soon', {
+      remind_at: '2026-03-10T08:00:00.000Z',
+      due_at: '2026-03-12T09:00:00.000Z',
+    });
+    createNote('due later', { due_at: '2026-04-01T09:00:00.000Z' });
+    createNote('no dates', {});
+    createNote('other user', { due_at: '2026-03-09T09:00:00.000Z' }, 'user-2');
+
+    const { overdue, upcoming } = reminders.list('user-1', 7, 100, now);
+
+    expect(overdue.map((content) => content.id)).toEqual([overdueId, remindedId]);
+    expect(upcoming.map((content) => content.id)).toEqual([upcomingId]);
+  });
+
+  it('should leave out trashed items', () => {
+    const id = createNote('trashed', { due_at: '2026-03-11T09:00:00.000Z' });
+    db.trashContent(id, 'user-1');
+
+    expect(reminders.list('user-1', 7, 100, now)).toEqual({ overdue: [], upcoming: [] });
+  });
+
+  it('should fire due reminders once', () => {
+    const dueId = createNote('due', { remind_at: '2026-03-10T11:59:00.000Z' });
+    const laterId = createNote('later', { remind_at: '2026-03-10T13:00:00.000Z' });
+    const updatedAt = db.getContentById(dueId)!.updated_at;
+
+    expect(reminders.fireDueReminders(now)).toBe(1);
+    expect(reminders.fireDueReminders(now)).toBe(0);
+
+    const fired = db.getContentById(dueId)!;
+    expect(fired.reminder_fired_at).toBe(now.toISOString());
+    expect(fired.updated_at).toBe(updatedAt);
+    expect(db.getContentById(laterId)!.reminder_fired_at).toBeNull();
+  });
+
+  it('should re-arm a fired reminder when its time changes', () => {
+    const id = createNote('snooze', { remind_at: '2026-03-10T11:00:00.000Z' });
+    reminders.fireDueReminders(now);
+
+    const updated = db.updateContent(id, 'user-1', { remind_at: '2026-03-10T11:30:00.000Z' });
+
+    expect(updated?.reminder_fired_at).toBeNull();
+    expect(reminders.fireDueReminders(now)).toBe(1);
+  });
+
+  it('should serve the calendar feed only for the current token', () => {
+    createNote('Quarterly report', { remind_at: '2026-03-06T09:00:00.000Z', due_at: '2026-03-09T17:00:00.000Z' });
+    createNote('reminder only', { remind_at: '2026-03-06T09:00:00.000Z' });
+    createNote('other user', { due_at: '2026-03-09T17:00:00.000Z' }, 'user-2');
+
+    const oldToken = reminders.createFeedToken('user-1');
+    const token = reminders.createFeedToken('user-1');
+
+    expect(reminders.buildFeed(oldToken, 'https://kura.example', now)).toBeNull();
+
+    const feed = reminders.buildFeed(token, 'https://kura.example', now)!;
+    expect(feed).toContain('SUMMARY:Quarterly report');
+    expect(feed).toContain('DTSTART:20260309T170000Z');
+    expect(feed).toContain('TRIGGER;VALUE=DATE-TIME:20260306T090000Z');
+    expect(feed).not.toContain('reminder only');
+    expect(feed).not.toContain('other user');
+    expect(reminders.getFeedStatus('user-1')).not.toBeNull();
+
+    expect(reminders.revokeFeed('user-1')).toBe(true);
+    expect(reminders.buildFeed(token, 'https://kura.example', now)).toBeNull();
+    expect(reminders.getFeedStatus('user-1')).toBeNull();
+    expect(reminders.revokeFeed('user-1')).toBe(false);
+  });
+
+  it('should keep upcoming items in the feed however many items are past due', () => {
+    for (let day = 1; day <= 28; day++) {
+      createNote(`old ${day}`, { due_at: `2025-02-${String(day).padStart(2, '0')}T09:00:00.000Z` });
+    }
+    createNote('last month', { due_at: '2026-02-10T09:00:00.000Z' });
+    createNote('next week', { due_at: '2026-03-17T09:00:00.000Z' });
+    const token = reminders.createFeedToken('user-1');
+
+    const feed = reminders.buildFeed(token, 'https://kura.example', now)!;
+
+    expect(feed).toContain('SUMMARY:last month');
+    expect(feed).toContain('SUMMARY:next week');
+    expect(feed).not.toContain('SUMMARY:old');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Search Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { SearchService } from '../../src/services/searchService.js';
+import { EmbeddingService } from '../../src/services/embeddingService.js';
+import { SqliteVectorStore } from '../../src/services/sqliteVectorStore.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('SearchService', () => {
+  let db: DatabaseService;
+  let vectorStore: SqliteVectorStore;
+  let searchService: SearchService;
+  const testBaseDir = path.join(__dirname, '../../test-data-search');
+  const testDbPath = path.join(testBaseDir, 'test-search.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    SqliteVectorStore.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    vectorStore = SqliteVectorStore.getInstance(db);
+
+    const embeddingService = { isAvailable: () => false } as unknown as EmbeddingService;
+    searchService = new SearchService(db, embeddingService, vectorStore);
+  });
+
+  afterEach(() => {
+    SqliteVectorStore.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  async function createNote(id: string, embedding: number[] | null, userId = 'user-1') {
+    db.createContent({
+      id,
+      user_id: userId,
+      file_path: `${id}.txt`,
+      content_type: 'text',
+      title: id,
+      extracted_text: `Text of ${id}`,
+    });
+    if (embedding) {
+      await vectorStore.addDocument(id, embedding, { content_id: id, user_id: userId }, `Text of ${id}`);
+    }
+  }
+
+  describe('notebook filter', () => {
+    beforeEach(async () => {
+      db.createNotebook({ id: 'notebook', user_id: 'user-1', parent_id: null, name: 'Notebook' });
+      for (let i = 0; i < 12; i++) {
+        await createNote(`loose-${i}`, [1, 0, 0]);
+      }
+      db.createContent({
+        id: 'filed',
+        user_id: 'user-1',
+        file_path: 'filed.txt',
+        content_type: 'text',
+        title: 'filed',
+        extracted_text: `Text of filed, ${'with a lot of other words '.repeat(20)}`,
+        notebook_id: 'notebook',
+      });
+      await vectorStore.addDocument('filed', [0, 1, 0], { content_id: 'filed', user_id: 'user-1' }, 'Text of filed');
+    });
+
+    it('should find notebook content ranking below the limit in vector search', async () => {
+      const embeddingService = {
+        isAvailable: () => true,
+        generateEmbedding: async () => ({ embedding: [1, 0, 0] }),
+      } as unknown as EmbeddingService;
+      searchService = new SearchService(db, embeddingService, vectorStore);
+
+      const { results, searchMethod } = await searchService.search({
+        query: 'text',
+        userId: 'user-1',
+        limit: 2,
+        filters: { notebookIds: ['notebook'] },
+      });
+
+      expect(searchMethod).toBe('vector');
+      expect(results.map((result) => result.id)).toEqual(['filed']);
+    });
+
+    it('should find notebook content ranking below the limit in full-text search', async () => {
+      const { results, searchMethod } = await searchService.search({
+        query: 'text',
+        userId: 'user-1',
+        limit: 2,
+        filters: { notebookIds: ['notebook'] },
+      });
+
+      expect(searchMethod).toBe('fts');
+      expect(results.map((result) => result.id)).toEqual(['filed']);
+    });
+  });
+
+  describe('tag filter', () => {
+    it('should match any of the tags, including nested tags, before the limit', async () => {
+      for (let i = 0; i < 12; i++) {
+        await createNote(`untagged-${i}`, null);
+      }
+      for (const [id, tags] of [
+        ['api', ['project/kura/api']],
+        ['web', ['web']],
+        ['sibling', ['project/kurator']],
+      ] as const) {
+        db.createContent({
+          id,
+          user_id: 'user-1',
+          file_path: `${id}.txt`,
+          content_type: 'text',
+          title: id,
+          extracted_text: `Text of ${id}, ${'with a lot of other words '.repeat(20)}`,
+          tags: [...tags],
+        });
+      }
+
+      const { results } = await searchService.search({
+        query: 'text',
+        userId: 'user-1',
+        limit: 5,
+        filters: { tags: ['project/kura', 'web'] },
+      });
+
+      expect(results.map((result) => result.id).sort()).toEqual(['api', 'web']);
+    });
+  });
+
+  describe('image filters', () => {
+    function createImage(id: string, imageMetadata: Record<string, unknown>) {
+      db.createContent({
+        id,
+        user_id: 'user-1',
+        file_path: `${id}.jpg`,
+        content_type: 'image',
+        title: `Holiday ${id}`,
+        image_metadata: { width: 40, height: 20, format: 'jpeg', size: 100, ...imageMetadata },
+      });
+    }
+
+    beforeEach(() => {
+      createImage('beach', {
+        takenAt: '2024-07-10T12:00:00.000Z',
+        cameraMake: 'Apple',
+        cameraModel: 'iPhone 15',
+        location: { latitude: 43.3, longitude: 5.4 },
+      });
+      createImage('museum', { takenAt: '2023-03-02T09:00:00.000Z', cameraMake: 'FUJIFILM', cameraModel: 'X100V' });
+      createImage('scan', {});
+      db.createContent({
+        id: 'note',
+        user_id: 'user-1',
+        file_path: 'note.txt',
+        content_type: 'text',
+        title: 'Holiday plans',
+        extracted_text: 'Holiday plans',
+      });
+    });
+
+    async function searchIds(filters: Record<string, unknown>): Promise<string[]> {
+      const { results } = await searchService.search({ query: 'holiday', userId: 'user-1', filters });
+      return results.map((result) => result.id).sort();
+    }
+
+    it('should filter images by EXIF capture date, camera and location', async () => {
+      expect(await searchIds({ takenFrom: '2024-01-01' })).toEqual(['beach']);
+      expect(await searchIds({ takenFrom: '2023-01-01', takenTo: '2023-12-31' })).toEqual(['museum']);
+      expect(await searchIds({ camera: 'iphone' })).toEqual(['beach']);
+      expect(await searchIds({ camera: 'fujifilm x100' })).toEqual(['museum']);
+      expect(await searchIds({ hasLocation: true })).toEqual(['beach']);
+      expect(await searchIds({ hasLocation: false })).toEqual(['museum', 'scan']);
+    });
+
+    it('should select from all images, not only the top results', async () => {
+      for (let i = 0; i < 12; i++) {
+        await createNote(`holiday-note-${i}`, [1, 0, 0]);
+      }
+      for (const id of ['beach', 'museum', 'scan']) {
+        await vectorStore.addDocument(id, [0, 1, 0], { content_id: id, user_id: 'user-1' }, `Holiday ${id}`);
+      }
+      const embeddingService = {
+        isAvailable: () => true,
+        generateEmbedding: async () => ({ embedding: [1, 0, 0] }),
+      } as unknown as EmbeddingService;
+      searchService = new SearchService(db, embeddingService, vectorStore);
+
+      const { results, searchMethod } = await searchService.search({
+        query: 'holiday',
+        userId: 'user-1',
+        limit: 2,
+        filters: { camera: 'iphone' },
+      });
+
+      expect(searchMethod).toBe('vector');
+      expect(results.map((result) => result.id)).toEqual(['beach']);
+    });
+  });
+
+  describe('findRelated', () => {
+    it('should return the nearest neighbours of the same user, excluding the item itself', async () => {
+      await createNote('note', [1, 0, 0]);
+      await createNote('close', [0.9, 0.1, 0]);
+      await createNote('far', [0, 1, 0]);
+      await createNote('trashed', [1, 0, 0]);
+      await createNote('foreign', [1, 0, 0], 'user-2');
+      db.trashContent('trashed', 'user-1');
+
+      const results = (await searchService.findRelated('note', 'user-1'))!;
+
+      expect(results.map((result) => result.id)).toEqual(['close', 'far']);
+      expect(results[0]).toMatchObject({ searchMethod: 'vector', excerpt: 'Text of close' });
+      expect(results[0]!.relevanceScore).toBeGreaterThan(results[1]!.relevanceScore);
+      expect(await searchService.findRelated('note', 'user-1', 1)).toHaveLength(1);
+    });
+
+    it('should compare chunked content through the mean of its chunks', async () => {
+      await createNote('note', null);
+      await vectorStore.addDocumentChunks(
+        'note',
+        [
+          { embedding: [1, 0, 0], text: 'first' },
+          { embedding: [0, 1, 0], text: 'second' },
+        ],
+        { content_id: 'note', user_id: 'user-1' }
+      );
+      await createNote('first', [1, 0, 0]);
+      await createNote('between', [1, 1, 0]);
+
+      const results = (await searchService.findRelated('note', 'user-1'))!;
+
+      expect(results.map((result) => result.id)).toEqual(['between', 'first']);
+    });
+
+    it('should return null for content without an embedding', async () => {
+      await createNote('note', null);
+
+      expect(await searchService.findRelated('note', 'user-1')).toBeNull();
+    });
+  });
+});
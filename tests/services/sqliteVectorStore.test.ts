@@ -0,0 +1,140 @@
+/**
+ * SQLite Vector Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { SqliteVectorStore } from '../../src/services/sqliteVectorStore.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('SqliteVectorStore', () => {
+  let db: DatabaseService;
+  let store: SqliteVectorStore;
+  const testBaseDir = path.join(__dirname, '../../test-data-vectors');
+  const testDbPath = path.join(testBaseDir, 'test-vectors.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    db = DatabaseService.getInstance(testDbPath);
+    store = SqliteVectorStore.getInstance(db);
+  });
+
+  afterEach(() => {
+    SqliteVectorStore.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should store chunks and rank them by cosine similarity', async () => {
+    await store.addDocumentChunks(
+      'content-a',
+      [
+        { embedding: [1, 0, 0], text: 'first chunk' },
+        { embedding: [0, 1, 0], text: 'second chunk' },
+      ],
+      { user_id: 'user-1', title: 'A' }
+    );
+    await store.addDocumentChunks('content-b', [{ embedding: [0.9, 0.1, 0], text: 'other' }], {
+      user_id: 'user-1',
+    });
+
+    const results = await store.queryByEmbedding([0, 1, 0], 10, 'user-1');
+
+    expect(results[0]).toMatchObject({
+      id: 'content-a#chunk-1',
+      contentId: 'content-a',
+      chunkIndex: 1,
+      text: 'second chunk',
+    });
+    expect(results[0]!.score).toBeCloseTo(1, 5);
+    expect(results[0]!.metadata).toMatchObject({ title: 'A', chunk_count: 2 });
+    expect(results).toHaveLength(3);
+  });
+
+  it('should filter results by user', async () => {
+    await store.addDocumentChunks('mine', [{ embedding: [1, 0], text: 'mine' }], { user_id: 'user-1' });
+    await store.addDocumentChunks('theirs', [{ embedding: [1, 0], text: 'theirs' }], { user_id: 'user-2' });
+
+    const results = await store.queryByEmbedding([1, 0], 10, 'user-1');
+
+    expect(results.map((result) => result.contentId)).toEqual(['mine']);
+  });
+
+  it('should skip vectors with different dimensions', async () => {
+    await store.addDocument('old', [1, 0, 0, 0], { user_id: 'user-1' }, 'old model');
+    await store.addDocument('new', [1, 0], { user_id: 'user-1' }, 'new model');
+
+    const results = await store.queryByEmbedding([1, 0], 10, 'user-1');
+
+    expect(results.map((result) => result.id)).toEqual(['new']);
+  });
+
+  it('should replace chunks when content is re-embedded', async () => {
+    await store.addDocumentChunks(
+      'content-a',
+      [
+        { embedding: [1, 0], text: 'one' },
+        { embedding: [0, 1], text: 'two' },
+      ],
+      { user_id: 'user-1' }
+    );
+    await store.addDocumentChunks('content-a', [{ embedding: [1, 1], text: 'only' }], { user_id: 'user-1' });
+
+    expect((await store.getStats()).count).toBe(1);
+    expect(await store.getDocument('content-a#chunk-1')).toBeNull();
+  });
+
+  it('should delete chunk and legacy vectors of a content item', async () => {
+    await store.addDocument('content-a', [1, 0], { user_id: 'user-1' }, 'legacy');
+    await store.addDocumentChunks('content-b', [{ embedding: [0, 1], text: 'keep' }], { user_id: 'user-1' });
+
+    await store.deleteDocument('content-a');
+
+    const remaining = await store.listDocuments(0, 10);
+    expect(remaining.map((document) => document.id)).toEqual(['content-b#chunk-0']);
+  });
+
+  it('should merge metadata into all vectors of a content item', async () => {
+    await store.addDocumentChunks(
+      'content-a',
+      [
+        { embedding: [1, 0], text: 'one' },
+        { embedding: [0, 1], text: 'two' },
+      ],
+      { user_id: 'user-1', tags: '["old"]' }
+    );
+
+    expect(await store.updateMetadata('content-a', { tags: '["new"]' })).toBe(2);
+    expect(await store.updateMetadata('missing', { tags: '[]' })).toBe(0);
+
+    const document = await store.getDocument('content-a#chunk-1');
+    expect(document?.metadata).toMatchObject({ user_id: 'user-1', tags: '["new"]', chunk_index: 1 });
+    expect(document?.embedding).toEqual([0, 1]);
+  });
+
+  it('should round-trip embeddings through listDocuments', async () => {
+    await store.addDocument('content-a', [0.25, -0.5, 0.125], { user_id: 'user-1', tags: '["x"]' }, 'text');
+
+    const [document] = await store.listDocuments(0, 10);
+
+    expect(document).toEqual({
+      id: 'content-a',
+      embedding: [0.25, -0.5, 0.125],
+      metadata: { user_id: 'user-1', tags: '["x"]' },
+      text: 'text',
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tag Service Tests (nested tags)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { TagService } from '../../src/services/tagService.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('TagService', () => {
+  let db: DatabaseService;
+  let tagService: TagService;
+  const testBaseDir = path.join(__dirname, '../../test-data-tags');
+  const testDbPath = path.join(testBaseDir, 'test-tags.db');
+  let nextId = 0;
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    TagService.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    tagService = TagService.getInstance(db);
+  });
+
+  afterEach(() => {
+    TagService.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  function createNote(tags: string[], userId = 'user-1'): string {
+    const id = `note-${++nextId}`;
+    db.createContent({ id, user_id: userId, file_path: `${id}.txt`, content_type: 'text', extracted_text: id, tags });
+    return id;
+  }
+
+  function tagsOf(id: string): string[] {
+    return db.getContentById(id)!.tags;
+  }
+
+  it('should build the tag tree with rolled-up counts', () => {
+    createNote(['project/kura/api', 'project/kura/web']);
+    createNote(['project/kura']);
+    createNote(['project/other', 'misc']);
+    createNote(['project/kura/api'], 'user-2');
+
+    const tree = tagService.getTagTree('user-1');
+
+    expect(tree.map((node) => [node.tag, node.count, node.total])).toEqual([
+      ['project', 0, 3],
+      ['misc', 1, 1],
+    ]);
+    const project = tree[0]!;
+    expect(project.children.map((node) => [node.name, node.count, node.total])).toEqual([
+      ['kura', 1, 2],
+      ['other', 1, 1],
+    ]);
+    expect(project.children[0]!.children.map((node) => node.tag)).toEqual(['project/kura/api', 'project/kura/web']);
+  });
+
+  it('should rename a tag with the tags nested in it', () => {
+    const nestedId = createNote(['project/kura/api', 'misc']);
+    const exactId = createNote(['project/kura']);
+    const siblingId = createNote(['project/kurator']);
+
+    expect(tagService.renameTag('project/kura', 'work/kura', 'user-1')).toBe(2);
+
+    expect(tagsOf(nestedId)).toEqual(['work/kura/api', 'misc']);
+    expect(tagsOf(exactId)).toEqual(['work/kura']);
+    expect(tagsOf(siblingId)).toEqual(['project/kurator']);
+    expect(() => tagService.renameTag('project', 'project/old', 'user-1')).toThrow();
+  });
+
+  it('should merge tags with the tags nested in them', () => {
+    const id = createNote(['old/api', 'old', 'new/web']);
+    const otherId = createNote(['legacy/x/y']);
+
+    expect(tagService.mergeTags(['old', 'legacy'], 'new', 'user-1')).toBe(2);
+
+    expect(tagsOf(id)).toEqual(['new/api', 'new', 'new/web']);
+    expect(tagsOf(otherId)).toEqual(['new/x/y']);
+    expect(() => tagService.mergeTags(['new'], 'new/sub', 'user-1')).toThrow();
+  });
+
+  it('should change the tags of content in the trash too', () => {
+    const renamedId = createNote(['old/api']);
+    const mergedId = createNote(['legacy']);
+    const deletedId = createNote(['obsolete', 'keep']);
+    for (const id of [renamedId, mergedId, deletedId]) {
+      db.trashContent(id, 'user-1');
+    }
+
+    expect(tagService.renameTag('old', 'new', 'user-1')).toBe(1);
+    expect(tagService.mergeTags(['legacy'], 'new', 'user-1')).toBe(1);
+    expect(tagService.deleteTag('obsolete', 'user-1')).toBe(1);
+
+    for (const id of [renamedId, mergedId, deletedId]) {
+      db.restoreContent(id, 'user-1');
+    }
+    expect(tagsOf(renamedId)).toEqual(['new/api']);
+    expect(tagsOf(mergedId)).toEqual(['new']);
+    expect(tagsOf(deletedId)).toEqual(['keep']);
+  });
+
+  it('should include nested tags when filtering content by tag', () => {
+    const nestedId = createNote(['project/kura/api']);
+    const exactId = createNote(['project/kura']);
+    createNote(['project/kurator']);
+    createNote(['project_kura']);
+
+    expect(db.getTaggedContent('user-1', 'project/kura').map((content) => content.id).sort()).toEqual(
+      [exactId, nestedId].sort()
+    );
+    expect(db.getContentByFilters('user-1', { tags: ['project/kura'] }).map((content) => content.id)).toEqual([
+      nestedId,
+      exactId,
+    ]);
+    expect(db.getTaggedContent('user-1', 'project/kura', [])).toEqual([]);
+  });
+});
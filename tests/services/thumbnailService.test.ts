@@ -0,0 +1,219 @@
+/**
+ * Thumbnail Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { ThumbnailService } from '../../src/services/thumbnailService.js';
+import { parseExif } from '../../src/utils/exif.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Build a 40x20 JPEG photo with camera, date and (optionally) GPS EXIF data
+ */
+async function createPhoto(options: { orientation?: number; gps?: boolean } = {}): Promise<Buffer> {
+  return sharp({ create: { width: 40, height: 20, channels: 3, background: 'red' } })
+    .jpeg()
+    .withExif({
+      IFD0: { Make: 'Apple', Model: 'iPhone 15' },
+      IFD2: { DateTimeOriginal: '2024:05:01 10:30:00' },
+      ...(options.gps && {
+        IFD3: {
+          GPSLatitudeRef: 'S',
+          GPSLatitude: '33/1 52/1 12/1',
+          GPSLongitudeRef: 'E',
+          GPSLongitude: '151/1 12/1 36/1',
+          GPSAltitudeRef: '0',
+          GPSAltitude: '34/1',
+        },
+      }),
+    })
+    .withMetadata({ orientation: options.orientation ?? 1 })
+    .toBuffer();
+}
+
+describe('ThumbnailService', () => {
+  let thumbnailService: ThumbnailService;
+  const testBaseDir = path.join(__dirname, '../../test-data-thumbnails');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    ThumbnailService.resetInstance();
+    thumbnailService = ThumbnailService.getInstance({
+      baseDirectory: testBaseDir,
+      thumbnailDirectory: 'thumbnails',
+      maxWidth: 300,
+      maxHeight: 300,
+      quality: 80,
+    });
+  });
+
+  afterEach(() => {
+    ThumbnailService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('generateThumbnail', () => {
+    it('should record EXIF date, camera and location in the image metadata', async () => {
+      const result = await thumbnailService.generateThumbnail(await createPhoto({ gps: true }), 'photo.jpg');
+
+      expect(result.success).toBe(true);
+      expect(result.metadata).toMatchObject({
+        width: 40,
+        height: 20,
+        format: 'jpeg',
+        takenAt: '2024-05-01T10:30:00.000Z',
+        cameraMake: 'Apple',
+        cameraModel: 'iPhone 15',
+        orientation: 1,
+        location: { latitude: -33.87, longitude: 151.21, altitude: 34 },
+      });
+    });
+
+    it('should rotate thumbnails upright according to the EXIF orientation', async () => {
+      const result = await thumbnailService.generateThumbnail(await createPhoto({ orientation: 6 }), 'rotated.jpg');
+
+      expect(result.metadata).toMatchObject({ width: 20, height: 40, orientation: 6 });
+
+      const thumbnail = await sharp(path.join(testBaseDir, result.thumbnailPath!)).metadata();
+      expect(thumbnail.width).toBe(20);
+      expect(thumbnail.height).toBe(40);
+    });
+  });
+
+  describe('thumbnail sizes', () => {
+    beforeEach(() => {
+      ThumbnailService.resetInstance();
+      thumbnailService = ThumbnailService.getInstance({
+        baseDirectory: testBaseDir,
+        thumbnailDirectory: 'thumbnails',
+        maxWidth: 20,
+        maxHeight: 20,
+        quality: 80,
+        format: 'webp',
+        variantSizes: [30, 60, 100],
+      });
+    });
+
+    it('should generate every size in the configured format, skipping sizes the image is too small for', async () => {
+      const result = await thumbnailService.generateThumbnail(await createPhoto(), 'photo.jpg');
+
+      expect(result.thumbnailPath).toBe(path.join('thumbnails', 'photo.webp'));
+      expect(result.metadata?.thumbnailVariants).toEqual([
+        { size: 30, path: path.join('thumbnails', 'photo@30.webp'), width: 30, height: 15 },
+        { size: 60, path: path.join('thumbnails', 'photo@60.webp'), width: 40, height: 20 },
+      ]);
+      expect(result.metadata?.thumbnailSignature).toBe('webp:q80:20x20,30,60,100');
+
+      const thumbnail = await sharp(path.join(testBaseDir, result.thumbnailPath!)).metadata();
+      expect(thumbnail.format).toBe('webp');
+      expect(thumbnail.width).toBe(20);
+      expect(fs.existsSync(path.join(testBaseDir, 'thumbnails', 'photo@100.webp'))).toBe(false);
+
+      await thumbnailService.deleteVariants(result.metadata!.thumbnailVariants!);
+      expect(fs.existsSync(path.join(testBaseDir, 'thumbnails', 'photo@30.webp'))).toBe(false);
+    });
+  });
+
+  describe('resizeImage', () => {
+    beforeEach(async () => {
+      fs.writeFileSync(path.join(testBaseDir, 'photo.jpg'), await createPhoto({ orientation: 6 }));
+    });
+
+    it('should resize upright images and serve repeated requests from the cache', async () => {
+      const options = { width: 10, height: 10, format: 'avif' as const, fit: 'cover' as const };
+
+      const first = await thumbnailService.resizeImage('content-1', 'photo.jpg', options);
+      expect(first).toMatchObject({ success: true, mimeType: 'image/avif', cached: false });
+
+      const resized = await sharp(first.path!).metadata();
+      expect(resized.width).toBe(10);
+      expect(resized.height).toBe(10);
+
+      const second = await thumbnailService.resizeImage('content-1', 'photo.jpg', options);
+      expect(second).toMatchObject({ success: true, path: first.path, cached: true });
+
+      await thumbnailService.clearResizedImages('content-1');
+      expect(fs.existsSync(first.path!)).toBe(false);
+    });
+
+    it('should fit within the box without enlarging', async () => {
+      const result = await thumbnailService.resizeImage('content-1', 'photo.jpg', {
+        height: 100,
+        format: 'jpeg',
+        fit: 'inside',
+      });
+
+      const resized = await sharp(result.path!).metadata();
+      expect(resized.width).toBe(20);
+      expect(resized.height).toBe(40);
+    });
+
+    it('should evict the least recently used images beyond the cache limit', async () => {
+      ThumbnailService.resetInstance();
+      thumbnailService = ThumbnailService.getInstance({
+        baseDirectory: testBaseDir,
+        thumbnailDirectory: 'thumbnails',
+        maxWidth: 20,
+        maxHeight: 20,
+        quality: 80,
+        cacheLimit: 2,
+      });
+      const resize = (width: number) =>
+        thumbnailService.resizeImage('content-1', 'photo.jpg', { width, format: 'jpeg', fit: 'inside' });
+
+      const first = await resize(10);
+      const second = await resize(11);
+      // Age the second image, then use the first one again
+      await fs.promises.utimes(second.path!, new Date(1000), new Date(1000));
+      expect(await resize(10)).toMatchObject({ cached: true });
+      const third = await resize(12);
+
+      expect(fs.existsSync(first.path!)).toBe(true);
+      expect(fs.existsSync(second.path!)).toBe(false);
+      expect(fs.existsSync(third.path!)).toBe(true);
+      expect(fs.readdirSync(path.dirname(first.path!))).toHaveLength(2);
+    });
+
+    it('should report unreadable images', async () => {
+      fs.writeFileSync(path.join(testBaseDir, 'broken.jpg'), 'not an image');
+
+      const result = await thumbnailService.resizeImage('content-2', 'broken.jpg', {
+        width: 10,
+        format: 'jpeg',
+        fit: 'inside',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('removeLocation', () => {
+    it('should remove the GPS position and keep the image upright', async () => {
+      const stripped = await thumbnailService.removeLocation(await createPhoto({ gps: true, orientation: 6 }));
+
+      expect(stripped).not.toBeNull();
+      const metadata = await sharp(stripped!).metadata();
+      expect(parseExif(metadata.exif).location).toBeUndefined();
+      expect(metadata.format).toBe('jpeg');
+      expect(metadata.width).toBe(20);
+      expect(metadata.height).toBe(40);
+    });
+
+    it('should leave images without a GPS position alone', async () => {
+      expect(await thumbnailService.removeLocation(await createPhoto())).toBeNull();
+    });
+  });
+});
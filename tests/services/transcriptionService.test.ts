@@ -0,0 +1,137 @@
+/**
+ * Transcription Service Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  createTranscriptionProvider,
+  DisabledTranscriptionProvider,
+  OpenAICompatibleTranscriptionProvider,
+  OpenAITranscriptionProvider,
+} from '../../src/services/transcriptionProviders/index.js';
+import { TranscriptionService } from '../../src/services/transcriptionService.js';
+import { formatTranscript } from '../../src/utils/transcript.js';
+
+describe('Transcription', () => {
+  describe('createTranscriptionProvider', () => {
+    it('should create the configured provider', () => {
+      expect(createTranscriptionProvider({ provider: 'openai', model: 'whisper-1', timeout: 1000 })).toBeInstanceOf(
+        OpenAITranscriptionProvider
+      );
+      expect(
+        createTranscriptionProvider({
+          provider: 'openai-compatible',
+          model: 'Systran/faster-whisper-small',
+          baseUrl: 'http://localhost:8000/v1',
+          timeout: 1000,
+        })
+      ).toBeInstanceOf(OpenAICompatibleTranscriptionProvider);
+      expect(createTranscriptionProvider({ provider: 'none', model: '', timeout: 1000 })).toBeInstanceOf(
+        DisabledTranscriptionProvider
+      );
+    });
+
+    it('should refuse to transcribe without a usable provider', async () => {
+      const service = TranscriptionService.getInstance({ provider: 'none', model: '', timeout: 1000 });
+
+      expect(service.isAvailable()).toBe(false);
+      await expect(
+        service.transcribe({ data: Buffer.from('audio'), filename: 'memo.mp3', mimeType: 'audio/mpeg' })
+      ).rejects.toThrow();
+
+      TranscriptionService.resetInstance();
+    });
+  });
+
+  describe('OpenAICompatibleTranscriptionProvider', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let lastRequest: { url?: string; auth?: string; body?: string } = {};
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          lastRequest = { url: req.url, auth: req.headers.authorization, body };
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({
+              text: ' Buy milk. Call the plumber. ',
+              language: 'english',
+              duration: 75.2,
+              segments: [
+                { start: 0, end: 2.5, text: ' Buy milk.' },
+                { start: 65.1, end: 75.2, text: ' Call the plumber.' },
+              ],
+            })
+          );
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    afterEach(() => {
+      TranscriptionService.resetInstance();
+    });
+
+    it('should upload the recording to the /audio/transcriptions endpoint', async () => {
+      const provider = new OpenAICompatibleTranscriptionProvider({
+        baseUrl: `${baseUrl}/`,
+        model: 'Systran/faster-whisper-small',
+        apiKey: 'secret',
+        timeout: 5000,
+      });
+
+      const transcript = await provider.transcribe({
+        data: Buffer.from('fake audio'),
+        filename: 'memo.mp3',
+        mimeType: 'audio/mpeg',
+      });
+
+      expect(lastRequest.url).toBe('/v1/audio/transcriptions');
+      expect(lastRequest.auth).toBe('Bearer secret');
+      expect(lastRequest.body).toContain('filename="memo.mp3"');
+      expect(lastRequest.body).toContain('Systran/faster-whisper-small');
+      expect(lastRequest.body).toContain('verbose_json');
+
+      expect(transcript).toEqual({
+        text: 'Buy milk. Call the plumber.',
+        language: 'english',
+        duration: 75.2,
+        segments: [
+          { start: 0, end: 2.5, text: 'Buy milk.' },
+          { start: 65.1, end: 75.2, text: 'Call the plumber.' },
+        ],
+      });
+    });
+
+    it('should be usable through TranscriptionService and format timestamps', async () => {
+      const service = TranscriptionService.getInstance({
+        provider: 'openai-compatible',
+        model: 'Systran/faster-whisper-small',
+        baseUrl,
+        timeout: 5000,
+      });
+
+      const transcript = await service.transcribe({
+        data: Buffer.from('fake audio'),
+        filename: 'memo.mp3',
+        mimeType: 'audio/mpeg',
+      });
+
+      expect(service.getProviderInfo()).toEqual({
+        provider: 'openai-compatible',
+        model: 'Systran/faster-whisper-small',
+      });
+      expect(formatTranscript(transcript)).toBe('[0:00] Buy milk.\n[1:05] Call the plumber.');
+    });
+  });
+});
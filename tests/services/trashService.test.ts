@@ -0,0 +1,119 @@
+/**
+ * Trash Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { TrashService } from '../../src/services/trashService.js';
+import { FileStorageService } from '../../src/services/fileStorage.js';
+import { SqliteVectorStore } from '../../src/services/sqliteVectorStore.js';
+import { DatabaseService } from '../../src/services/database/database.service.js';
+import { logger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('TrashService', () => {
+  let db: DatabaseService;
+  let fileStorage: FileStorageService;
+  let vectorStore: SqliteVectorStore;
+  let trash: TrashService;
+  const testBaseDir = path.join(__dirname, '../../test-data-trash');
+  const testDbPath = path.join(testBaseDir, 'test-trash.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+
+    DatabaseService.resetInstance();
+    FileStorageService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    TrashService.resetInstance();
+
+    db = DatabaseService.getInstance(testDbPath);
+    fileStorage = FileStorageService.getInstance({ baseDirectory: testBaseDir, logger }, db);
+    vectorStore = SqliteVectorStore.getInstance(db);
+    trash = TrashService.getInstance(db, fileStorage, vectorStore);
+  });
+
+  afterEach(() => {
+    TrashService.resetInstance();
+    SqliteVectorStore.resetInstance();
+    FileStorageService.resetInstance();
+    DatabaseService.resetInstance();
+    if (fs.existsSync(testBaseDir)) {
+      fs.rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  async function createNote(text: string, userId = 'user-1'): Promise<string> {
+    const result = await fileStorage.saveFile({ userId, content: text, contentType: 'text', title: text });
+    await vectorStore.addDocumentChunks(result.id!, [{ embedding: [1, 0], text }], { user_id: userId });
+    return result.id!;
+  }
+
+  it('should hide trashed content from lists, search and counts', async () => {
+    const keptId = await createNote('kept note');
+    const trashedId = await createNote('trashed note');
+
+    expect(trash.moveToTrash(trashedId, 'user-1')).toBe(true);
+
+    expect(db.getContentById(trashedId, 'user-1')).toBeNull();
+    expect(db.getAllContent('user-1').map((content) => content.id)).toEqual([keptId]);
+    expect(db.searchContent('trashed', 'user-1')).toEqual([]);
+    expect(db.getTotalContentCount('user-1')).toBe(1);
+    expect(trash.list('user-1')).toMatchObject({ total: 1, items: [{ id: trashedId }] });
+  });
+
+  it('should restore trashed content', async () => {
+    const id = await createNote('restore me');
+    trash.moveToTrash(id, 'user-1');
+
+    const restored = trash.restore(id, 'user-1');
+
+    expect(restored?.deleted_at).toBeNull();
+    expect(db.searchContent('restore', 'user-1').map((content) => content.id)).toEqual([id]);
+    expect(trash.restore(id, 'user-1')).toBeNull();
+  });
+
+  it('should not trash content of another user', async () => {
+    const id = await createNote('private note', 'user-2');
+
+    expect(trash.moveToTrash(id, 'user-1')).toBe(false);
+    expect(db.getContentById(id)).not.toBeNull();
+  });
+
+  it('should purge files and vectors when emptying the trash', async () => {
+    const id = await createNote('purge me');
+    const filePath = path.join(testBaseDir, db.getContentById(id)!.file_path);
+    trash.moveToTrash(id, 'user-1');
+
+    const purged = await trash.empty('user-1');
+
+    expect(purged).toBe(1);
+    expect(db.getContentById(id, undefined, true)).toBeNull();
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect((await vectorStore.getStats()).count).toBe(0);
+  });
+
+  it('should only purge content past the retention period', async () => {
+    const oldId = await createNote('old note');
+    const recentId = await createNote('recent note');
+    trash.moveToTrash(oldId, 'user-1');
+    trash.moveToTrash(recentId, 'user-1');
+    (db as any).db
+      .prepare("UPDATE content SET deleted_at = datetime('now', '-31 days') WHERE id = ?")
+      .run(oldId);
+
+    const purged = await trash.purgeExpired(30);
+
+    expect(purged).toBe(1);
+    expect(db.getContentById(oldId, undefined, true)).toBeNull();
+    expect(db.getContentById(recentId, undefined, true)).not.toBeNull();
+    expect(await trash.purgeExpired(0)).toBe(0);
+  });
+});
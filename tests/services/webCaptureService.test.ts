@@ -0,0 +1,136 @@
+/**
+ * Web Capture Service Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { WebCaptureService, isPrivateAddress } from '../../src/services/webCaptureService.js';
+
+/**
+ * Pages served by the fixture server
+ */
+const PAGES: Record<string, { status?: number; type: string; body: string | Buffer; delay?: number }> = {
+  '/article': {
+    type: 'text/html; charset=utf-8',
+    body: `<html><head><title>Fixture Article</title></head>
+      <body><nav>Menu</nav><article><h1>Fixture Article</h1><p>Readable text.</p></article></body></html>`,
+  },
+  '/latin1': {
+    type: 'text/html; charset=iso-8859-1',
+    body: Buffer.from('<html><body><p>Café</p></body></html>', 'latin1'),
+  },
+  '/notes.txt': { type: 'text/plain', body: '  Plain notes\n' },
+  '/image.png': { type: 'image/png', body: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+  '/missing': { status: 404, type: 'text/html', body: 'Not found' },
+  '/large': { type: 'text/html', body: `<p>${'x'.repeat(2048)}</p>` },
+  '/slow': { type: 'text/html', body: '<p>Slow</p>', delay: 500 },
+};
+
+describe('WebCaptureService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let webCaptureService: WebCaptureService;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      if (request.url === '/old-article') {
+        response.writeHead(301, { Location: '/article' }).end();
+        return;
+      }
+      if (request.url === '/loop') {
+        response.writeHead(302, { Location: '/loop' }).end();
+        return;
+      }
+
+      const page = PAGES[request.url ?? ''];
+      if (!page) {
+        response.writeHead(500).end();
+        return;
+      }
+      setTimeout(() => {
+        response.writeHead(page.status ?? 200, { 'Content-Type': page.type }).end(page.body);
+      }, page.delay ?? 0);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    WebCaptureService.resetInstance();
+    // The fixture server listens on loopback
+    webCaptureService = WebCaptureService.getInstance({ timeout: 200, maxSize: 1024, allowPrivate: true });
+  });
+
+  afterEach(() => {
+    WebCaptureService.resetInstance();
+  });
+
+  it('should fetch a page and extract its readable text, following redirects', async () => {
+    const result = await webCaptureService.fetchPage(`${baseUrl}/old-article`);
+
+    expect(result.success).toBe(true);
+    expect(result.page).toMatchObject({
+      url: `${baseUrl}/article`,
+      title: 'Fixture Article',
+      text: '# Fixture Article\n\nReadable text.',
+    });
+    expect(result.page!.html).toContain('<nav>Menu</nav>');
+  });
+
+  it('should decode the declared charset and keep plain text pages', async () => {
+    expect((await webCaptureService.fetchPage(`${baseUrl}/latin1`)).page!.text).toBe('Café');
+    expect((await webCaptureService.fetchPage(`${baseUrl}/notes.txt`)).page).toEqual({
+      url: `${baseUrl}/notes.txt`,
+      title: null,
+      text: 'Plain notes',
+      html: null,
+    });
+  });
+
+  it('should report pages that cannot be captured', async () => {
+    expect(await webCaptureService.fetchPage('ftp://example.com/file')).toEqual({
+      success: false,
+      error: 'URL must be an absolute http or https address',
+    });
+    expect((await webCaptureService.fetchPage(`${baseUrl}/missing`)).error).toBe('Page returned HTTP 404');
+    expect((await webCaptureService.fetchPage(`${baseUrl}/image.png`)).error).toBe('Unsupported page type: image/png');
+    expect((await webCaptureService.fetchPage(`${baseUrl}/large`)).error).toMatch(/^Page exceeds maximum size/);
+    expect((await webCaptureService.fetchPage(`${baseUrl}/slow`)).error).toBe('Page did not respond within 200ms');
+    expect((await webCaptureService.fetchPage(`${baseUrl}/loop`)).error).toBe('Page redirected more than 5 times');
+  });
+
+  it('should refuse private and local addresses unless allowed', async () => {
+    WebCaptureService.resetInstance();
+    webCaptureService = WebCaptureService.getInstance({ timeout: 200, maxSize: 1024, allowPrivate: false });
+
+    for (const url of [
+      `${baseUrl}/article`,
+      'http://localhost/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/',
+      'http://[::ffff:10.0.0.1]/',
+    ]) {
+      expect(await webCaptureService.fetchPage(url)).toEqual({
+        success: false,
+        error: 'URL points to a private or local network address',
+      });
+    }
+  });
+
+  it('should tell private from public addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.31.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * iCalendar Utility Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildIcsCalendar, escapeIcsText, foldIcsLine, formatIcsDate } from '../../src/utils/ics.js';
+
+describe('ics', () => {
+  it('should escape text values', () => {
+    expect(escapeIcsText('a;b,c\\d\r\ne\nf')).toBe('a\\;b\\,c\\\\d\\ne\\nf');
+  });
+
+  it('should format ISO and SQLite times as UTC', () => {
+    expect(formatIcsDate('2026-03-09T17:00:00.000Z')).toBe('20260309T170000Z');
+    expect(formatIcsDate('2026-03-09T18:00:00+01:00')).toBe('20260309T170000Z');
+    expect(formatIcsDate('2026-03-09 17:00:00')).toBe('20260309T170000Z');
+  });
+
+  it('should fold long lines without splitting characters', () => {
+    const line = `SUMMARY:${'ä'.repeat(60)}`;
+    const folded = foldIcsLine(line);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const part of lines) {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(lines.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+    expect(foldIcsLine('SHORT:line')).toBe('SHORT:line');
+  });
+
+  it('should build a calendar with events and alarms', () => {
+    const calendar = buildIcsCalendar('KURA Notes', [
+      {
+        uid: 'abc@kura-notes',
+        start: '2026-03-09T17:00:00.000Z',
+        summary: 'Report, final',
+        description: 'Line 1\nLine 2',
+        url: 'https://kura.example/view.html?id=abc',
+        alarm: '2026-03-06T09:00:00.000Z',
+        updated: '2026-03-01 10:00:00',
+      },
+    ]);
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.split('\r\n')).toEqual(
+      expect.arrayContaining([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        'UID:abc@kura-notes',
+        'DTSTAMP:20260301T100000Z',
+        'DTSTART:20260309T170000Z',
+        'SUMMARY:Report\\, final',
+        'DESCRIPTION:Line 1\\nLine 2',
+        'URL:https://kura.example/view.html?id=abc',
+        'BEGIN:VALARM',
+        'TRIGGER;VALUE=DATE-TIME:20260306T090000Z',
+        'END:VALARM',
+        'END:VEVENT',
+      ])
+    );
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Markdown Utility Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseFrontmatter, serializeFrontmatter } from '../../src/utils/markdown.js';
+
+describe('parseFrontmatter', () => {
+  it('should parse scalars, flow lists and block lists', () => {
+    const { fields, body } = parseFrontmatter(
+      [
+        '---',
+        'title: "Q4: Plan"',
+        "quote: 'it''s here'",
+        'plain: value # comment',
+        'aliases: [one, "two, three"]',
+        'tags:',
+        '  - work',
+        '  - "home"',
+        'empty:',
+        '---',
+        '# Heading',
+      ].join('\n')
+    );
+
+    expect(fields).toEqual({
+      title: 'Q4: Plan',
+      quote: "it's here",
+      plain: 'value',
+      aliases: ['one', 'two, three'],
+      tags: ['work', 'home'],
+      empty: null,
+    });
+    expect(body).toBe('# Heading');
+  });
+
+  it('should read what serializeFrontmatter writes', () => {
+    const text = serializeFrontmatter({ title: 'a "quoted" title', tags: ['x', 'y'], none: null }) + '\nBody\n';
+
+    expect(parseFrontmatter(text)).toEqual({
+      fields: { title: 'a "quoted" title', tags: ['x', 'y'], none: null },
+      body: '\nBody\n',
+    });
+  });
+
+  it('should return documents without frontmatter as body', () => {
+    expect(parseFrontmatter('Just text\n---\n')).toEqual({ fields: {}, body: 'Just text\n---\n' });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Readability Utility Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractReadableContent } from '../../src/utils/readability.js';
+
+describe('extractReadableContent', () => {
+  it('should extract the article without page chrome', () => {
+    const html = `<!DOCTYPE html>
+      <html>
+        <head>
+          <title>Ignored &amp; replaced</title>
+          <meta property="og:title" content="Growing Tomatoes &#8211; A Guide">
+          <script>track();</script>
+        </head>
+        <body>
+          <header><a href="/">Garden Blog</a></header>
+          <nav><a href="/about">About</a></nav>
+          <article>
+            <header><h1>Growing Tomatoes</h1></header>
+            <p>Plant them in <strong>full sun</strong>. See <a href="/soil">soil tips</a>.</p>
+            <div class="post-share">Share on social media</div>
+            <img src="images/tomato.jpg" alt="Tomato">
+            <!-- <p>Hidden draft</p> -->
+          </article>
+          <section id="comments"><p>Great post!</p></section>
+          <footer>© Garden Blog</footer>
+        </body>
+      </html>`;
+
+    const content = extractReadableContent(html, 'https://example.com/posts/tomatoes');
+
+    expect(content.title).toBe('Growing Tomatoes – A Guide');
+    expect(content.text).toBe(
+      [
+        '# Growing Tomatoes',
+        '',
+        'Plant them in **full sun**. See [soil tips](https://example.com/soil).',
+        '',
+        '![Tomato](https://example.com/posts/images/tomato.jpg)',
+      ].join('\n')
+    );
+  });
+
+  it('should fall back to the body and the <title>', () => {
+    const html = `<html><head><title> Plain   page </title></head>
+      <body><header>Site name</header><div class="sidebar">Links</div><p>Just text.</p></body></html>`;
+
+    expect(extractReadableContent(html, 'https://example.com/')).toEqual({
+      title: 'Plain page',
+      text: 'Just text.',
+    });
+  });
+
+  it('should use the first heading without a <title>', () => {
+    expect(extractReadableContent('<main><h1>Notes <em>today</em></h1><p>Body</p></main>', 'https://example.com/'))
+      .toEqual({ title: 'Notes today', text: '# Notes _today_\n\nBody' });
+  });
+});
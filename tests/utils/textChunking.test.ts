@@ -0,0 +1,60 @@
+/**
+ * Text Chunking Utility Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { chunkText } from '../../src/utils/textChunking.js';
+
+/**
+ * Build text of numbered words ("w0 w1 w2 ...")
+ */
+function words(count: number): string {
+  return Array.from({ length: count }, (_, i) => `w${i}`).join(' ');
+}
+
+describe('Text Chunking Utility', () => {
+  it('should return a single chunk for short text', () => {
+    const chunks = chunkText('  A short note  ', { chunkSize: 100, overlap: 10 });
+
+    expect(chunks).toEqual([{ index: 0, text: 'A short note', start: 0 }]);
+  });
+
+  it('should return no chunks for empty text', () => {
+    expect(chunkText('   ', { chunkSize: 100, overlap: 10 })).toEqual([]);
+  });
+
+  it('should split long text into chunks within the size limit', () => {
+    const text = words(500);
+    const chunks = chunkText(text, { chunkSize: 200, overlap: 40 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.index).toBe(i);
+      expect(chunk.text.length).toBeLessThanOrEqual(200);
+    });
+
+    // The last word must be covered
+    expect(chunks[chunks.length - 1]!.text.endsWith('w499')).toBe(true);
+  });
+
+  it('should overlap consecutive chunks without splitting words', () => {
+    const chunks = chunkText(words(300), { chunkSize: 150, overlap: 30 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      const previousWords = chunks[i - 1]!.text.split(' ');
+      const currentWords = chunks[i]!.text.split(' ');
+
+      // Every chunk starts with a whole word that also ends the previous chunk
+      expect(currentWords[0]).toMatch(/^w\d+$/);
+      expect(previousWords).toContain(currentWords[0]);
+    }
+  });
+
+  it('should prefer paragraph boundaries', () => {
+    const paragraph = 'Sentence one is here. '.repeat(4).trim();
+    const text = `${paragraph}\n\n${paragraph}\n\n${paragraph}`;
+    const chunks = chunkText(text, { chunkSize: 120, overlap: 0 });
+
+    expect(chunks[0]!.text).toBe(paragraph);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Text Edit Utility Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { applyTextEdits } from '../../src/utils/textEdits.js';
+
+describe('applyTextEdits', () => {
+  it('should apply edits in order', () => {
+    const result = applyTextEdits('Teh quick fox\nSecond line', [
+      { find: 'Teh', replace: 'The' },
+      { find: 'The quick', replace: 'The quick brown' },
+    ]);
+
+    expect(result).toEqual({ success: true, text: 'The quick brown fox\nSecond line' });
+  });
+
+  it('should reject text that is not found', () => {
+    const result = applyTextEdits('Hello', [{ find: 'World', replace: 'There' }]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Edit 1');
+    expect(result.error).toContain('not found');
+  });
+
+  it('should reject ambiguous edits', () => {
+    const result = applyTextEdits('todo, todo', [{ find: 'todo', replace: 'done' }]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('more than once');
+  });
+
+  it('should reject empty find text', () => {
+    expect(applyTextEdits('text', [{ find: '', replace: 'x' }]).success).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Wiki Link Utility Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { getLinkContext, parseWikiLinks } from '../../src/utils/wikiLinks.js';
+
+describe('parseWikiLinks', () => {
+  it('should parse targets, headings and aliases', () => {
+    expect(parseWikiLinks('See [[Project Plan]], [[Roadmap#Q4|the roadmap]] and [[ 3f2c ]].')).toEqual([
+      { target: 'Project Plan', heading: null, alias: null },
+      { target: 'Roadmap', heading: 'Q4', alias: 'the roadmap' },
+      { target: '3f2c', heading: null, alias: null },
+    ]);
+  });
+
+  it('should return each target once', () => {
+    expect(parseWikiLinks('[[Plan]] then [[plan|again]] and [[Plan#Goals]]').map((link) => link.target)).toEqual([
+      'Plan',
+    ]);
+  });
+
+  it('should skip embeds, same-note links and links in code', () => {
+    const text = [
+      '![[diagram.png]] [[#Heading]]',
+      '`[[Inline]]`',
+      '```',
+      '[[Fenced]]',
+      '```',
+      '[[Real]]',
+    ].join('\n');
+
+    expect(parseWikiLinks(text).map((link) => link.target)).toEqual(['Real']);
+  });
+});
+
+describe('getLinkContext', () => {
+  it('should return the text around the first link to a target', () => {
+    const text = `${'a'.repeat(100)} before [[Plan|the plan]] after ${'b'.repeat(100)}`;
+
+    expect(getLinkContext(text, 'plan', 10)).toBe('…aa before [[Plan|the plan]] after bbb…');
+    expect(getLinkContext(text, 'Other')).toBeNull();
+  });
+});